@@ -0,0 +1,232 @@
+/**
+ * Kontrola parserů proti uloženým stránkám
+ *
+ * Každý provider načte stránky z data/fixtures/<zdroj> (createFixtureFetcher)
+ * a výsledek se porovná s očekávanými zápasy a tabulkou níže. Kola, která
+ * ve složce nejsou, hlásí fetcher jako varování a přeskočí je.
+ *
+ * Spuštění:
+ *   npm run check:scrapers
+ *
+ * Po změně webu stránky znovu uložte přes --record (scrape-matches.ts,
+ * scrape-ustecky.ts) a upravte očekávané výsledky.
+ */
+
+import * as assert from 'assert';
+import * as path from 'path';
+import { DEFAULT_CLUB } from '../src/lib/club';
+import { createCeskyhokejProvider } from '../src/lib/scrapers/ceskyhokej';
+import { createFixtureFetcher } from '../src/lib/scrapers/fixtures';
+import { createLitomericeProvider } from '../src/lib/scrapers/litomerice';
+import { createUsteckyProvider } from '../src/lib/scrapers/ustecky';
+import type { ScraperSource, ScrapedMatchDraft } from '../src/lib/types';
+
+const fixturesDir = path.join(__dirname, '..', 'data', 'fixtures');
+
+interface Check {
+  source: ScraperSource;
+  name: string;
+  run: (fixtures: string) => Promise<unknown>;
+  expected: unknown;
+}
+
+// Fields that change with every run are left out of the comparison
+function omit(value: object, keys: string[]) {
+  return Object.fromEntries(Object.entries(value).filter(([key]) => !keys.includes(key)));
+}
+
+// Time of the run and the long list URL
+function withoutRunInfo(drafts: ScrapedMatchDraft[]) {
+  return drafts.map((draft) => omit(draft, ['scrapedAt', 'sourceUrl']));
+}
+
+const CHECKS: Check[] = [
+  {
+    source: 'ceskyhokej',
+    name: 'zápasy ligy (Starší žáci B)',
+    run: async (fixtures) => {
+      const provider = createCeskyhokejProvider(createFixtureFetcher(fixtures));
+      const drafts = await provider.listFixtures!({
+        season: '2025-2026',
+        club: DEFAULT_CLUB,
+        categoryId: 'starsi-zaci-b',
+      });
+      return withoutRunInfo(drafts);
+    },
+    expected: [
+      {
+        source: 'ceskyhokej',
+        detailUrl: 'https://zapasy.ceskyhokej.cz/zapas/2161',
+        homeTeamName: 'HC Slovan Ústí n.Labem',
+        awayTeamName: 'HC Most',
+        competitionName: 'Liga starších žáků "B" sk. 10',
+        externalMatchId: 'ceskyhokej-2161',
+        datetime: '2025-09-13T09:00:00',
+        venue: 'Zimní stadion Ústí nad Labem',
+        homeScore: 5,
+        awayScore: 3,
+      },
+      {
+        source: 'ceskyhokej',
+        detailUrl: 'https://zapasy.ceskyhokej.cz/zapas/2174',
+        homeTeamName: 'HC Stadion Litoměřice',
+        awayTeamName: 'HC Slovan Ústí n.Labem',
+        competitionName: 'Liga starších žáků "B" sk. 10',
+        externalMatchId: 'ceskyhokej-2174',
+        datetime: '2025-09-21T10:30:00',
+        venue: 'Zimní stadion Litoměřice',
+        homeScore: 2,
+        awayScore: 2,
+      },
+      {
+        source: 'ceskyhokej',
+        detailUrl: undefined,
+        homeTeamName: 'HC Slovan Ústí n.Labem',
+        awayTeamName: 'HC Teplice',
+        competitionName: 'Liga starších žáků "B" sk. 10',
+        externalMatchId: 'ceskyhokej-2390',
+        datetime: '2026-04-18T09:45:00',
+        venue: 'Zimní stadion Ústí nad Labem',
+        homeScore: undefined,
+        awayScore: undefined,
+      },
+    ],
+  },
+  {
+    source: 'ceskyhokej',
+    name: 'soutěže klubu',
+    run: async (fixtures) => {
+      const provider = createCeskyhokejProvider(createFixtureFetcher(fixtures));
+      return provider.discoverCompetitions!({ season: '2025-2026', teamId: DEFAULT_CLUB.externalId });
+    },
+    expected: [
+      {
+        name: 'LSŽ B',
+        fullName: 'Liga starších žáků "B"',
+        abbreviation: 'LSŽ B',
+        matchCount: 3,
+        completedCount: 2,
+        upcomingCount: 1,
+        hasUpcoming: true,
+        hasCompleted: true,
+        sampleMatch: 'HC Slovan Ústí n.Labem vs HC Most',
+      },
+      {
+        name: 'LMŽ A',
+        fullName: 'Liga mladších žáků "A"',
+        abbreviation: 'LMŽ A',
+        matchCount: 1,
+        completedCount: 1,
+        upcomingCount: 0,
+        hasUpcoming: false,
+        hasCompleted: true,
+        sampleMatch: 'HC Most vs HC Slovan Ústí n.Labem',
+      },
+    ],
+  },
+  {
+    source: 'ustecky',
+    name: 'zápasy ligy 1706 (kola 1 a 2)',
+    run: async (fixtures) => {
+      const provider = createUsteckyProvider(createFixtureFetcher(fixtures));
+      const drafts = await provider.listFixtures!({
+        season: '2024-2025',
+        club: DEFAULT_CLUB,
+        leagueFilter: '1706',
+      });
+      return withoutRunInfo(drafts);
+    },
+    expected: [
+      {
+        source: 'ustecky',
+        homeTeamName: 'HC Slovan Ústí n.Labem',
+        awayTeamName: 'HC Most',
+        competitionName: 'Starší žáci B',
+        externalMatchId: '1706-101',
+        externalCompetitionId: '1706',
+        datetime: '2024-09-22T17:00:00',
+        homeScore: 4,
+        awayScore: 2,
+      },
+      {
+        source: 'ustecky',
+        homeTeamName: 'HC Stadion Litoměřice',
+        awayTeamName: 'HC Slovan Ústí n.Labem',
+        competitionName: 'Starší žáci B',
+        externalMatchId: '1706-107',
+        externalCompetitionId: '1706',
+        datetime: '2024-09-29T09:30:00',
+        homeScore: 1,
+        awayScore: 5,
+      },
+      {
+        source: 'ustecky',
+        homeTeamName: 'HC Slovan Ústí n.Labem',
+        awayTeamName: 'HC Teplice',
+        competitionName: 'Starší žáci B',
+        externalMatchId: '1706-108',
+        externalCompetitionId: '1706',
+        datetime: '2024-10-06T12:00:00',
+        homeScore: undefined,
+        awayScore: undefined,
+      },
+    ],
+  },
+  {
+    source: 'litomerice',
+    name: 'tabulka Z8',
+    run: async (fixtures) => {
+      const provider = createLitomericeProvider(createFixtureFetcher(fixtures));
+      const standings = await provider.fetchStandings!({
+        season: '2025-2026',
+        competitionId: 'Z8',
+        club: DEFAULT_CLUB,
+      });
+      return standings && omit(standings, ['updatedAt']);
+    },
+    expected: {
+      id: 'standings-Z8-2025-2026',
+      competitionId: 'Z8',
+      competitionName: 'Liga starších žáků "A" sk. 2',
+      seasonId: '2025-2026',
+      externalCompetitionId: 'Z8',
+      rows: [
+        { position: 1, teamName: 'HC Slovan Ústí n.Labem', gamesPlayed: 4, wins: 3, winsOT: 1, draws: 0, lossesOT: 0, losses: 0, goalsFor: 21, goalsAgainst: 9, goalDifference: 12, points: 11, isOurTeam: true },
+        { position: 2, teamName: 'HC Most', gamesPlayed: 4, wins: 2, winsOT: 0, draws: 0, lossesOT: 1, losses: 1, goalsFor: 14, goalsAgainst: 12, goalDifference: 2, points: 7, isOurTeam: false },
+        { position: 3, teamName: 'HC Stadion Litoměřice', gamesPlayed: 4, wins: 1, winsOT: 0, draws: 0, lossesOT: 0, losses: 3, goalsFor: 10, goalsAgainst: 15, goalDifference: -5, points: 3, isOurTeam: false },
+        { position: 4, teamName: 'HC Teplice', gamesPlayed: 4, wins: 0, winsOT: 0, draws: 0, lossesOT: 1, losses: 3, goalsFor: 8, goalsAgainst: 17, goalDifference: -9, points: 1, isOurTeam: false },
+      ],
+    },
+  },
+];
+
+async function main() {
+  console.log('🏒 Goalie Tracker - Kontrola parserů');
+  console.log('====================================\n');
+
+  let failed = 0;
+  for (const check of CHECKS) {
+    const actual = await check.run(path.join(fixturesDir, check.source));
+    try {
+      assert.deepStrictEqual(actual, check.expected);
+      console.log(`✓ ${check.source}: ${check.name}`);
+    } catch (error) {
+      failed++;
+      console.log(`✗ ${check.source}: ${check.name}`);
+      console.log(error instanceof assert.AssertionError ? error.message : error);
+    }
+  }
+
+  console.log('\n====================================');
+  if (failed > 0) {
+    console.log(`✗ Neprošlo ${failed} z ${CHECKS.length} kontrol`);
+    process.exitCode = 1;
+  } else {
+    console.log(`✓ Prošlo všech ${CHECKS.length} kontrol`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { fetchClubOptions } from "@/lib/scrapers/ceskyhokej";
+
+export async function GET(request: NextRequest) {
+  const season = request.nextUrl.searchParams.get("season") || "2025";
+  const region = request.nextUrl.searchParams.get("region") || "";
+  if (!/^\d{4}$/.test(season) || !/^\d*$/.test(region)) {
+    return NextResponse.json({ error: "Invalid season or region" }, { status: 400 });
+  }
+
+  try {
+    const options = await fetchClubOptions(season, region);
+    if (!options) {
+      return NextResponse.json({ error: "Failed to fetch clubs" }, { status: 502 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      clubs: options.clubs,
+      regions: options.regions,
+      scrapedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    return NextResponse.json({ error: String(error) }, { status: 500 });
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { DEFAULT_CLUB, parseClubConfig } from "@/lib/club";
+import { diffFixtures, type FixtureChange, type FixtureRefreshTarget } from "@/lib/fixtureRefresh";
+import { draftToMatch, getScraperProvider, isScraperSource } from "@/lib/scrapers";
+import type { Match } from "@/lib/types";
+
+/**
+ * Re-scrape the given competitions and compare them with the caller's
+ * matches. The refresh is device-only: the timer in autoRefresh.ts posts the
+ * device's competitions and matches, writes the returned saves and keeps the
+ * change log. Nothing is saved or logged here.
+ */
+export async function POST(request: NextRequest) {
+  const start = Date.now();
+
+  try {
+    const body = await request.json();
+    const club = parseClubConfig(body.club) || DEFAULT_CLUB;
+    const targets: FixtureRefreshTarget[] = Array.isArray(body.targets) ? body.targets : [];
+    let matches: Match[] = Array.isArray(body.matches) ? body.matches : [];
+    const refreshedAt = new Date().toISOString();
+
+    const saves: Match[] = [];
+    const changes: FixtureChange[] = [];
+    const errors: Array<{ competitionId: string; error: string }> = [];
+
+    // One competition at a time - the sites do not like parallel scraping
+    for (const target of targets) {
+      const provider = getScraperProvider(isScraperSource(target.source) ? target.source : "ceskyhokej");
+      if (!provider.listFixtures) {
+        errors.push({ competitionId: target.competitionId, error: `${provider.label} does not list matches` });
+        continue;
+      }
+
+      try {
+        const drafts = await provider.listFixtures({
+          season: target.season,
+          club,
+          leagueFilter: target.leagueFilter,
+          competitionAbbreviation: target.competitionAbbreviation,
+        });
+        const fetched = Array.from(
+          new Map(drafts.map((draft) => draftToMatch(draft, target.season)).map((m) => [m.externalId, m])).values()
+        );
+        const diff = diffFixtures(matches, fetched, target.competitionId, refreshedAt);
+        saves.push(...diff.saves);
+        changes.push(...diff.changes);
+        // Later targets see the new fixtures, so one match is not added twice
+        const savedIds = new Set(diff.saves.map((m) => m.id));
+        matches = [...matches.filter((m) => !savedIds.has(m.id)), ...diff.saves];
+      } catch (error) {
+        console.error("[FixtureRefresh] Competition failed:", target.competitionId, error);
+        errors.push({ competitionId: target.competitionId, error: String(error) });
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      saves,
+      changes,
+      errors,
+      refreshedAt,
+      elapsed: Date.now() - start,
+    });
+  } catch (error) {
+    console.error("[FixtureRefresh] Error:", error);
+    return NextResponse.json(
+      { error: "Fixture refresh failed", details: String(error) },
+      { status: 500 }
+    );
+  }
+}
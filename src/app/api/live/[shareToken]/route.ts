@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isSupabaseConfigured } from "@/lib/supabaseClient";
+import { getSharedMatch } from "@/lib/repositories";
+import { buildLiveSnapshot } from "@/lib/liveShare";
+
+/**
+ * GET /api/live/[shareToken]
+ *
+ * Read-only snapshot of a shared match for the public live page.
+ * Returns 404 once the share token was revoked.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ shareToken: string }> }
+) {
+  const { shareToken } = await params;
+
+  if (!isSupabaseConfigured()) {
+    return NextResponse.json({ error: "Supabase client is not configured" }, { status: 503 });
+  }
+
+  const shared = await getSharedMatch(shareToken);
+  if (!shared) {
+    return NextResponse.json({ error: "Match not found" }, { status: 404 });
+  }
+
+  return NextResponse.json(buildLiveSnapshot(shared.match, shared.events, shared.goalie), {
+    headers: { "Cache-Control": "no-store" },
+  });
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { DEFAULT_CLUB, parseClubConfig } from "@/lib/club";
+import { getScraperProvider, isScraperSource } from "@/lib/scrapers";
+
+export async function POST(request: NextRequest) {
+  const start = Date.now();
+
+  try {
+    const body = await request.json();
+    const externalMatchId = typeof body.externalMatchId === "string" ? body.externalMatchId : "";
+    const url = typeof body.url === "string" && body.url ? body.url : undefined;
+    if (!externalMatchId && !url) {
+      return NextResponse.json({ error: "externalMatchId or url is required" }, { status: 400 });
+    }
+
+    const club = parseClubConfig(body.club) || DEFAULT_CLUB;
+    const source = isScraperSource(body.source) ? body.source : "ceskyhokej";
+    const provider = getScraperProvider(source);
+    if (!provider.fetchGameSheet) {
+      return NextResponse.json({ error: `${provider.label} has no game sheets` }, { status: 400 });
+    }
+
+    const gameSheet = await provider.fetchGameSheet({
+      season: body.season || "2025-2026",
+      externalMatchId,
+      club,
+      url,
+      homeTeamName: body.homeTeamName || undefined,
+      awayTeamName: body.awayTeamName || undefined,
+    });
+
+    // Not played yet or not published - not an error for the UI
+    return NextResponse.json({
+      success: gameSheet !== null,
+      gameSheet,
+      elapsed: Date.now() - start,
+    });
+  } catch (error) {
+    console.error("[GameSheet] Error:", error);
+    return NextResponse.json(
+      { error: "Game sheet import failed", details: String(error) },
+      { status: 500 }
+    );
+  }
+}
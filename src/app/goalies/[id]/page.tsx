@@ -2,13 +2,20 @@
 
 import { useEffect, useState } from "react";
 import { useRouter, useParams } from "next/navigation";
-import type { Goalie, GoalieEvent, Match, Season } from "@/lib/types";
+import type { Competition, Goalie, GoalieEvent, Match, Season } from "@/lib/types";
 import {
   getSeasons,
+  getTeams,
+  getClub,
   calculateGoalieStats,
 } from "@/lib/storage";
 import { dataService } from "@/lib/dataService";
+import { getMatchGoalieIds } from "@/lib/goalieChanges";
+import { formatGoalieRecord } from "@/lib/decisions";
+import { DEFAULT_XG_MODEL, formatGsax, getXgModel, getXgSummary, type XgModel } from "@/lib/xg";
+import { isWithinDateRange } from "@/lib/utils";
 import { ShotHeatmap } from "@/components/ShotHeatmap";
+import { DangerSavePanel } from "@/components/DangerSavePanel";
 import { GoalHeatmap } from "@/components/GoalView";
 import { Select } from "@/components/ui/Select";
 
@@ -18,9 +25,14 @@ export default function GoalieDetailPage() {
   const [goalie, setGoalie] = useState<Goalie | null>(null);
   const [matches, setMatches] = useState<Match[]>([]);
   const [events, setEvents] = useState<GoalieEvent[]>([]);
+  const [matchEvents, setMatchEvents] = useState<GoalieEvent[]>([]);
+  const [competitions, setCompetitions] = useState<Competition[]>([]);
+  const [xgModel, setXgModel] = useState<XgModel>(DEFAULT_XG_MODEL);
   const [seasons, setSeasons] = useState<Season[]>([]);
   const [selectedSeason, setSelectedSeason] = useState<string>("all");
   const [selectedMatch, setSelectedMatch] = useState<string>("all");
+  const [dateFrom, setDateFrom] = useState("");
+  const [dateTo, setDateTo] = useState("");
   const [activeTab, setActiveTab] = useState<"stats" | "heatmap" | "goal">("stats");
 
   useEffect(() => {
@@ -33,15 +45,23 @@ export default function GoalieDetailPage() {
       
       setGoalie(g);
       
-      const allMatches = (await dataService.getMatches()).filter((m) => m.goalieId === params.id);
+      // Matches the goalie started or came into
+      const allMatches = (await dataService.getMatches()).filter((m) =>
+        getMatchGoalieIds(m).includes(params.id)
+      );
       setMatches(allMatches);
       setSeasons(getSeasons());
+      setCompetitions(await dataService.getCompetitions());
       
-      const allEvents = (await dataService.getEvents()).filter(
-        (e) => e.goalieId === params.id && e.status !== "deleted"
-      );
+      const matchIds = new Set(allMatches.map((m) => m.id));
+      const everyEvent = (await dataService.getEvents()).filter((e) => e.status !== "deleted");
+      // xG model is fitted on the whole history, not just this goalie
+      setXgModel(getXgModel(everyEvent));
+      const loadedEvents = everyEvent.filter((e) => matchIds.has(e.matchId));
+      const allEvents = loadedEvents.filter((e) => e.goalieId === params.id);
       
       setEvents(allEvents);
+      setMatchEvents(loadedEvents);
     };
     
     loadData();
@@ -55,6 +75,9 @@ export default function GoalieDetailPage() {
     );
   }
 
+  // Date range applies to everything below (stats, heatmaps, match history)
+  const rangeMatches = matches.filter((m) => isWithinDateRange(m.datetime, dateFrom, dateTo));
+
   // Don't filter by competition in stats - show all stats regardless of competition
   // This ensures all events are displayed even if matches don't have competitionId set
   // Pass events and matches from Supabase/localStorage to calculateGoalieStats
@@ -62,21 +85,23 @@ export default function GoalieDetailPage() {
     goalie.id,
     selectedSeason === "all" ? undefined : selectedSeason,
     undefined, // Don't filter by competition - show all events
-    events, // Pass loaded events (from Supabase or localStorage)
-    matches // Pass loaded matches (from Supabase or localStorage)
+    matchEvents, // All events of the goalie's matches (needed for time on ice)
+    rangeMatches, // Pass loaded matches (from Supabase or localStorage)
+    competitions,
+    xgModel,
+    { goalie, teams: getTeams(), club: getClub() }
   );
-  const gaa = stats.gamesPlayed > 0 ? stats.totalGoals / stats.gamesPlayed : 0;
 
   // Filter matches by season
   const filteredMatches =
     selectedSeason === "all"
-      ? matches
-      : matches.filter((m) => m.seasonId === selectedSeason);
+      ? rangeMatches
+      : rangeMatches.filter((m) => m.seasonId === selectedSeason);
 
   // Filter events by match or season - use matchIds from filteredMatches to ensure consistency
   const filteredEvents = events.filter((e) => {
     // Check if event's match exists and matches filters
-    const eventMatch = matches.find(m => m.id === e.matchId);
+    const eventMatch = rangeMatches.find(m => m.id === e.matchId);
     if (!eventMatch) return false; // Match not found for this goalie
     
     if (selectedMatch !== "all") {
@@ -179,6 +204,39 @@ export default function GoalieDetailPage() {
             className="flex-1"
           />
         </div>
+        <div className="flex items-center gap-2 text-xs text-slate-400">
+          <span>Od</span>
+          <input
+            type="date"
+            value={dateFrom}
+            onChange={(e) => {
+              setDateFrom(e.target.value);
+              setSelectedMatch("all");
+            }}
+            className="flex-1 rounded-lg bg-slate-800 px-2 py-1 text-slate-200"
+          />
+          <span>Do</span>
+          <input
+            type="date"
+            value={dateTo}
+            onChange={(e) => {
+              setDateTo(e.target.value);
+              setSelectedMatch("all");
+            }}
+            className="flex-1 rounded-lg bg-slate-800 px-2 py-1 text-slate-200"
+          />
+          {(dateFrom || dateTo) && (
+            <button
+              onClick={() => {
+                setDateFrom("");
+                setDateTo("");
+              }}
+              className="text-accentDanger"
+            >
+              ✕
+            </button>
+          )}
+        </div>
       </div>
 
       {/* Tabs */}
@@ -251,7 +309,13 @@ export default function GoalieDetailPage() {
                 </div>
               </div>
 
-              <div className="mt-3 grid grid-cols-3 gap-3 text-center">
+              <div className="mt-3 grid grid-cols-4 gap-3 text-center">
+                <div className="rounded-xl bg-bgSurfaceSoft p-3">
+                  <div className="text-xl font-bold text-slate-50">
+                    {formatGoalieRecord(stats)}
+                  </div>
+                  <div className="text-xs text-slate-400">V-P-PP</div>
+                </div>
                 <div className="rounded-xl bg-bgSurfaceSoft p-3">
                   <div className="text-xl font-bold text-slate-50">
                     {stats.totalShots}
@@ -266,11 +330,55 @@ export default function GoalieDetailPage() {
                 </div>
                 <div className="rounded-xl bg-bgSurfaceSoft p-3">
                   <div className="text-xl font-bold text-slate-50">
-                    {gaa.toFixed(2).replace(".", ",")}
+                    {stats.minutesPlayed || 0}
+                  </div>
+                  <div className="text-xs text-slate-400">Minut</div>
+                </div>
+              </div>
+
+              <div className="mt-3 grid grid-cols-3 gap-3 text-center">
+                <div className="rounded-xl bg-bgSurfaceSoft p-3">
+                  <div className="text-xl font-bold text-slate-50">
+                    {(stats.goalsAgainstAverage || 0).toFixed(2).replace(".", ",")}
                   </div>
                   <div className="text-xs text-slate-400">GAA</div>
                 </div>
+                <div className="rounded-xl bg-bgSurfaceSoft p-3">
+                  <div className="text-xl font-bold text-slate-50">
+                    {(stats.shotsPer60 || 0).toFixed(1).replace(".", ",")}
+                  </div>
+                  <div className="text-xs text-slate-400">Střel / 60</div>
+                </div>
+                <div className="rounded-xl bg-bgSurfaceSoft p-3">
+                  <div className="text-xl font-bold text-accentSuccess">
+                    {(stats.savesPer60 || 0).toFixed(1).replace(".", ",")}
+                  </div>
+                  <div className="text-xs text-slate-400">Zákroků / 60</div>
+                </div>
               </div>
+
+              {!!stats.expectedGoals && (
+                <div className="mt-3 grid grid-cols-2 gap-3 text-center">
+                  <div className="rounded-xl bg-bgSurfaceSoft p-3">
+                    <div className="text-xl font-bold text-slate-50">
+                      {stats.expectedGoals.toFixed(2).replace(".", ",")}
+                    </div>
+                    <div className="text-xs text-slate-400">Očekávané góly (xGA)</div>
+                  </div>
+                  <div className="rounded-xl bg-bgSurfaceSoft p-3">
+                    <div
+                      className={`text-xl font-bold ${
+                        (stats.goalsSavedAboveExpected || 0) >= 0
+                          ? "text-accentSuccess"
+                          : "text-accentDanger"
+                      }`}
+                    >
+                      {formatGsax(stats.goalsSavedAboveExpected || 0).replace(".", ",")}
+                    </div>
+                    <div className="text-xs text-slate-400">GSAx</div>
+                  </div>
+                </div>
+              )}
             </div>
 
             {/* Situation breakdown */}
@@ -329,6 +437,52 @@ export default function GoalieDetailPage() {
               </div>
             )}
 
+            {/* Shootout and penalty shots (separate from regular time) */}
+            {(!!stats.shootoutShots || !!stats.penaltyShotShots) && (
+              <div className="mb-4">
+                <h2 className="mb-3 text-xs font-semibold text-slate-400">
+                  NÁJEZDY A TRESTNÁ STŘÍLENÍ
+                </h2>
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="rounded-xl bg-bgSurfaceSoft p-3 text-center">
+                    <div className="text-xs text-slate-500">Samostatné nájezdy</div>
+                    <div className="text-lg font-bold text-slate-50">
+                      {stats.shootoutSaves || 0}/{stats.shootoutShots || 0}
+                    </div>
+                    <div className="text-xs text-accentPrimary">
+                      {stats.shootoutShots
+                        ? (((stats.shootoutSaves || 0) / stats.shootoutShots) * 100).toFixed(1)
+                        : "0"}
+                      %
+                    </div>
+                  </div>
+                  <div className="rounded-xl bg-bgSurfaceSoft p-3 text-center">
+                    <div className="text-xs text-slate-500">Trestná střílení</div>
+                    <div className="text-lg font-bold text-slate-50">
+                      {stats.penaltyShotSaves || 0}/{stats.penaltyShotShots || 0}
+                    </div>
+                    <div className="text-xs text-accentPrimary">
+                      {stats.penaltyShotShots
+                        ? (((stats.penaltyShotSaves || 0) / stats.penaltyShotShots) * 100).toFixed(1)
+                        : "0"}
+                      %
+                    </div>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* Danger breakdown (follows the match selection) */}
+            {filteredEvents.some((e) => e.result === "save" || e.result === "goal") && (
+              <div className="mb-4">
+                <h2 className="mb-3 text-xs font-semibold text-slate-400">
+                  ÚSPĚŠNOST PODLE NEBEZPEČNOSTI STŘEL
+                  {selectedMatch !== "all" && " (VYBRANÝ ZÁPAS)"}
+                </h2>
+                <DangerSavePanel events={filteredEvents} />
+              </div>
+            )}
+
             {/* Zone stats */}
             {Object.keys(zoneStats).length > 0 && (
               <div className="mb-4">
@@ -402,6 +556,7 @@ export default function GoalieDetailPage() {
                         shots = saves + goals;
                       }
                       const matchPct = shots > 0 ? ((saves / shots) * 100).toFixed(1) : "0";
+                      const matchXg = getXgSummary(matchEvents, xgModel);
 
                       return (
                         <div
@@ -435,6 +590,17 @@ export default function GoalieDetailPage() {
                               <div className="text-slate-400">
                                 {saves}/{shots} zák.
                               </div>
+                              {matchXg.shots > 0 && (
+                                <div
+                                  className={
+                                    matchXg.goalsSavedAboveExpected >= 0
+                                      ? "text-accentSuccess"
+                                      : "text-accentDanger"
+                                  }
+                                >
+                                  GSAx {formatGsax(matchXg.goalsSavedAboveExpected)}
+                                </div>
+                              )}
                             </div>
                           </div>
                         </div>
@@ -4,13 +4,18 @@ import { useEffect, useState } from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import type { Goalie, GoalieEvent, Match } from "@/lib/types";
-import { calculateGoalieStats } from "@/lib/storage";
+import { calculateGoalieStats, getClub, getTeams } from "@/lib/storage";
 import { dataService } from "@/lib/dataService";
 import { useAutoSync } from "@/hooks/useAutoSync";
+import { useWorkspaces } from "@/contexts/WorkspaceContext";
+import { canEditWorkspaceGoalies, canMoveGoalie } from "@/lib/workspaces";
 
 export default function GoaliesPage() {
   const router = useRouter();
   const { syncNow } = useAutoSync();
+  const { workspaces, getAccess } = useWorkspaces();
+  // New goalies can go to workspaces where the user edits all goalies
+  const editableWorkspaces = workspaces.filter((w) => canEditWorkspaceGoalies(w.role));
   const [goalies, setGoalies] = useState<Goalie[]>([]);
   const [allEvents, setAllEvents] = useState<GoalieEvent[]>([]);
   const [allMatches, setAllMatches] = useState<Match[]>([]);
@@ -22,6 +27,7 @@ export default function GoaliesPage() {
     birthYear: new Date().getFullYear() - 10,
     team: "",
     jerseyNumber: "",
+    workspaceId: "",
   });
 
   useEffect(() => {
@@ -48,6 +54,7 @@ export default function GoaliesPage() {
       birthYear: form.birthYear,
       team: form.team,
       jerseyNumber: form.jerseyNumber ? parseInt(form.jerseyNumber) : undefined,
+      workspaceId: form.workspaceId || undefined,
       createdAt: editingGoalie?.createdAt || new Date().toISOString(),
     };
     await dataService.saveGoalie(goalie);
@@ -67,6 +74,7 @@ export default function GoaliesPage() {
       birthYear: new Date().getFullYear() - 10,
       team: "",
       jerseyNumber: "",
+      workspaceId: "",
     });
     setEditingGoalie(null);
     setShowForm(false);
@@ -79,6 +87,7 @@ export default function GoaliesPage() {
       birthYear: goalie.birthYear,
       team: goalie.team,
       jerseyNumber: goalie.jerseyNumber?.toString() || "",
+      workspaceId: goalie.workspaceId || "",
     });
     setEditingGoalie(goalie);
     setShowForm(true);
@@ -96,6 +105,10 @@ export default function GoaliesPage() {
     }
   };
 
+  // Our side of each match for the goalie records
+  const teams = getTeams();
+  const club = getClub();
+
   return (
     <div className="flex min-h-screen flex-col bg-bgMain">
       <div className="flex items-center justify-between border-b border-borderSoft bg-bgSurfaceSoft px-4 py-3">
@@ -162,6 +175,26 @@ export default function GoaliesPage() {
               className="w-full rounded-lg bg-slate-800 px-3 py-2 text-sm text-slate-100 placeholder:text-slate-500"
               required
             />
+            {editableWorkspaces.length > 0 && (
+              <select
+                value={form.workspaceId}
+                onChange={(e) => setForm({ ...form, workspaceId: e.target.value })}
+                className="w-full rounded-lg bg-slate-800 px-3 py-2 text-sm text-slate-100"
+              >
+                <option value="" disabled={!canMoveGoalie(editingGoalie?.workspaceId, undefined, workspaces)}>
+                  Osobní brankář
+                </option>
+                {editableWorkspaces.map((w) => (
+                  <option
+                    key={w.id}
+                    value={w.id}
+                    disabled={!canMoveGoalie(editingGoalie?.workspaceId, w.id, workspaces)}
+                  >
+                    🏒 {w.name}
+                  </option>
+                ))}
+              </select>
+            )}
             <div className="flex gap-2">
               <button
                 type="button"
@@ -193,8 +226,14 @@ export default function GoaliesPage() {
         ) : (
           <div className="space-y-3">
             {goalies.map((goalie) => {
-              const stats = calculateGoalieStats(goalie.id, undefined, undefined, allEvents, allMatches);
-              const gaa = stats.gamesPlayed > 0 ? stats.totalGoals / stats.gamesPlayed : 0;
+              const stats = calculateGoalieStats(goalie.id, undefined, undefined, allEvents, allMatches, undefined, undefined, {
+                goalie,
+                teams,
+                club,
+              });
+              const gaa = stats.goalsAgainstAverage || 0;
+              const access = getAccess(goalie);
+              const workspace = workspaces.find((w) => w.id === goalie.workspaceId);
               return (
                 <div
                   key={goalie.id}
@@ -212,22 +251,30 @@ export default function GoaliesPage() {
                         <div className="text-xs text-slate-400">
                           {goalie.team} • nar. {goalie.birthYear}
                         </div>
+                        {workspace && (
+                          <div className="text-[11px] text-slate-500">
+                            🏒 {workspace.name}
+                            {access === "view" && " • jen čtení"}
+                          </div>
+                        )}
                       </div>
                     </div>
-                    <div className="flex gap-2">
-                      <button
-                        onClick={() => handleEdit(goalie)}
-                        className="text-xs text-slate-400"
-                      >
-                        ✏️
-                      </button>
-                      <button
-                        onClick={() => handleDelete(goalie.id)}
-                        className="text-xs text-accentDanger"
-                      >
-                        🗑️
-                      </button>
-                    </div>
+                    {access === "edit" && (
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => handleEdit(goalie)}
+                          className="text-xs text-slate-400"
+                        >
+                          ✏️
+                        </button>
+                        <button
+                          onClick={() => handleDelete(goalie.id)}
+                          className="text-xs text-accentDanger"
+                        >
+                          🗑️
+                        </button>
+                      </div>
+                    )}
                   </div>
 
                   <div className="mt-3 grid grid-cols-6 gap-2 text-center text-xs">
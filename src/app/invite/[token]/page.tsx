@@ -0,0 +1,75 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useParams, useRouter } from "next/navigation";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/contexts/ToastContext";
+import { useWorkspaces } from "@/contexts/WorkspaceContext";
+import { useAutoSync } from "@/hooks/useAutoSync";
+import { acceptWorkspaceInvite } from "@/lib/repositories/workspaces";
+
+export default function InvitePage() {
+  const params = useParams<{ token: string }>();
+  const router = useRouter();
+  const { isConfigured, user, isLoading } = useAuth();
+  const { refresh } = useWorkspaces();
+  const { syncNow } = useAutoSync();
+  const { addToast } = useToast();
+  const [accepting, setAccepting] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  const handleAccept = async () => {
+    setAccepting(true);
+    setFailed(false);
+    const workspaceId = await acceptWorkspaceInvite(params.token);
+    if (!workspaceId) {
+      setFailed(true);
+      setAccepting(false);
+      return;
+    }
+    await refresh();
+    // Bring in the workspace goalies and their matches
+    await syncNow();
+    addToast("Jsi členem klubového prostoru", "success");
+    router.push("/goalies");
+  };
+
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center gap-4 bg-bgMain px-6 text-center">
+      <div className="text-4xl">🏒</div>
+      <h1 className="text-lg font-semibold">Pozvánka do klubového prostoru</h1>
+
+      {!isConfigured ? (
+        <p className="text-sm text-slate-400">Klubové prostory vyžadují cloud (Supabase).</p>
+      ) : isLoading ? (
+        <p className="text-sm text-slate-400">Načítání...</p>
+      ) : !user ? (
+        <>
+          <p className="text-sm text-slate-400">
+            Přihlas se e-mailem, na který pozvánka přišla, a pak tento odkaz otevři znovu.
+          </p>
+          <Link href="/settings" className="rounded-lg bg-accentPrimary px-4 py-2 text-sm font-medium text-white">
+            Přihlásit se
+          </Link>
+        </>
+      ) : (
+        <>
+          <p className="text-sm text-slate-400">Přihlášen jako {user.email}</p>
+          <button
+            onClick={handleAccept}
+            disabled={accepting}
+            className="rounded-lg bg-accentPrimary px-4 py-2 text-sm font-medium text-white disabled:opacity-50"
+          >
+            {accepting ? "Přijímám…" : "Přijmout pozvánku"}
+          </button>
+          {failed && (
+            <p className="text-xs text-accentDanger">
+              Pozvánka neplatí – byla zrušena, už použita, nebo patří jinému e-mailu.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
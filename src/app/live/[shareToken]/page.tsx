@@ -0,0 +1,178 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useParams } from "next/navigation";
+import { LiveStatsBar } from "@/components/LiveStatsBar";
+import { RinkView } from "@/components/RinkView";
+import * as storage from "@/lib/storage";
+import { buildLiveSnapshot, LIVE_POLL_INTERVAL_MS, type LiveSnapshot } from "@/lib/liveShare";
+import { formatDate, formatTime } from "@/lib/utils";
+
+type LoadState = "loading" | "ready" | "not_found" | "error";
+
+// Without the cloud the snapshot can only come from this browser (development)
+function getLocalSnapshot(shareToken: string): LiveSnapshot | null {
+  const match = storage.getMatches().find((m) => m.shareToken === shareToken);
+  if (!match) return null;
+  const goalie = storage.getGoalies().find((g) => g.id === match.goalieId) || null;
+  return buildLiveSnapshot(match, storage.getEvents(), goalie);
+}
+
+export default function LiveMatchPage() {
+  const params = useParams<{ shareToken: string }>();
+  const [snapshot, setSnapshot] = useState<LiveSnapshot | null>(null);
+  const [state, setState] = useState<LoadState>("loading");
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/live/${encodeURIComponent(params.shareToken)}`, { cache: "no-store" });
+      if (res.status === 503) {
+        const local = getLocalSnapshot(params.shareToken);
+        setSnapshot(local);
+        setState(local ? "ready" : "not_found");
+        return;
+      }
+      if (res.status === 404) {
+        setSnapshot(null);
+        setState("not_found");
+        return;
+      }
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      setSnapshot(await res.json());
+      setState("ready");
+    } catch (err) {
+      console.error("[LivePage] Failed to load snapshot:", err);
+      // Keep showing the last snapshot, the next poll may succeed
+      setState((current) => (current === "ready" ? current : "error"));
+    }
+  }, [params.shareToken]);
+
+  useEffect(() => {
+    load();
+    const interval = setInterval(load, LIVE_POLL_INTERVAL_MS);
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "visible") load();
+    };
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+    };
+  }, [load]);
+
+  const stats = useMemo(() => {
+    const events = snapshot?.events ?? [];
+    const saves = events.filter((e) => e.result === "save").length;
+    const goals = events.filter((e) => e.result === "goal").length;
+    return { shots: saves + goals, saves, goals };
+  }, [snapshot]);
+
+  if (state === "loading") {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-bgMain">
+        <p className="text-slate-400">Načítám zápas…</p>
+      </div>
+    );
+  }
+
+  if (!snapshot) {
+    return (
+      <div className="flex min-h-screen flex-col items-center justify-center gap-2 bg-bgMain px-6 text-center">
+        <p className="text-slate-300">
+          {state === "not_found" ? "Odkaz neexistuje nebo bylo sdílení zrušeno" : "Zápas se nepodařilo načíst"}
+        </p>
+        {state === "error" && (
+          <button onClick={load} className="text-sm text-accentPrimary">
+            Zkusit znovu
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  const latestEvents = snapshot.events.slice(-10).reverse();
+
+  return (
+    <div className="flex min-h-screen flex-col bg-bgMain">
+      {/* Header */}
+      <div className="border-b border-borderSoft bg-bgSurfaceSoft px-4 py-3 text-center">
+        {snapshot.category && <div className="text-xs text-slate-400">{snapshot.category}</div>}
+        <div className="text-sm font-semibold">
+          {snapshot.home} vs {snapshot.away}
+        </div>
+        {snapshot.homeScore !== undefined && (
+          <div className="mt-1 text-2xl font-bold">
+            {snapshot.homeScore} : {snapshot.awayScore}
+          </div>
+        )}
+        <div className="mt-1 text-xs text-slate-400">
+          {formatDate(snapshot.datetime)} • {formatTime(snapshot.datetime)}
+        </div>
+      </div>
+
+      {/* Status bar */}
+      <div
+        className={`flex items-center justify-between px-4 py-2 text-xs ${
+          snapshot.completed ? "bg-slate-700/50 text-slate-400" : "bg-accentSuccess/10 text-accentSuccess"
+        }`}
+      >
+        <div className="flex items-center gap-2">
+          <span
+            className={`h-2 w-2 rounded-full ${
+              snapshot.completed ? "bg-slate-500" : "bg-accentSuccess animate-pulse"
+            }`}
+          />
+          <span>
+            {snapshot.completed
+              ? "Zápas ukončen"
+              : snapshot.period === "OT"
+              ? "Živě • Prodloužení"
+              : `Živě • ${snapshot.period}. třetina`}
+          </span>
+        </div>
+        {snapshot.goalieName && <span>🥅 {snapshot.goalieName}</span>}
+      </div>
+
+      <LiveStatsBar shots={stats.shots} saves={stats.saves} goals={stats.goals} />
+
+      {/* All periods on one map */}
+      <RinkView period="OT" events={snapshot.events} />
+
+      {/* Latest events */}
+      <div className="flex-1 px-4 pb-4">
+        <h3 className="mb-2 text-xs font-semibold text-slate-400">POSLEDNÍ UDÁLOSTI</h3>
+        <div className="space-y-2 text-xs">
+          {latestEvents.length === 0 && <p className="text-slate-600">Zatím žádné události</p>}
+          {latestEvents.map((e) => (
+            <div key={e.id} className="flex items-center gap-3 rounded-lg bg-slate-800/70 px-3 py-2">
+              <div
+                className={`flex h-7 w-7 items-center justify-center rounded-full text-xs font-bold ${
+                  e.result === "save" ? "bg-accentSuccess" : e.result === "goal" ? "bg-accentDanger" : "bg-slate-600"
+                }`}
+              >
+                {e.result === "save" ? "✓" : e.result === "goal" ? "✕" : "○"}
+              </div>
+              <div className="flex-1">
+                <div className="text-xs font-medium">
+                  {e.result === "save" ? "Zákrok" : e.result === "goal" ? "Gól" : "Mimo"}
+                  {e.situation && e.situation !== "even" && (
+                    <span className="ml-1 text-accentHighlight">
+                      ({e.situation === "powerplay" ? "PP" : e.situation === "shorthanded" ? "SH" : e.situation})
+                    </span>
+                  )}
+                </div>
+                <div className="text-[11px] text-slate-400">
+                  {e.period === "OT" ? "Prodloužení" : `${e.period}. třetina`} • {e.gameTime}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="border-t border-borderSoft px-4 py-2 text-center text-[10px] text-slate-500">
+        Aktualizováno {new Date(snapshot.generatedAt).toLocaleTimeString("cs-CZ")} • obnovuje se automaticky
+      </div>
+    </div>
+  );
+}
@@ -8,12 +8,34 @@ import { RinkView } from "@/components/RinkView";
 import { EventModal } from "@/components/EventModal";
 import { EventListModal } from "@/components/EventListModal";
 import { LandscapeTrackingView } from "@/components/LandscapeTrackingView";
+import { GameClock } from "@/components/GameClock";
+import { PenaltyPanel } from "@/components/PenaltyPanel";
+import { GoalieChangePanel } from "@/components/GoalieChangePanel";
+import { PenaltyModal } from "@/components/PenaltyModal";
+import { MatchResultModal } from "@/components/MatchResultModal";
+import { ShootoutPanel } from "@/components/ShootoutPanel";
+import { ShotAttemptModal } from "@/components/ShotAttemptModal";
+import { GameSheetPanel } from "@/components/GameSheetPanel";
+import { MatchTimeline } from "@/components/MatchTimeline";
+import { LiveSessionPanel } from "@/components/LiveSessionPanel";
+import { LiveShareModal } from "@/components/LiveShareModal";
 import { useIsMobile } from "@/hooks/useOrientation";
 import { isMatchCompleted } from "@/lib/utils/matchStatus";
 import type {
+  GameSheet,
+  GoalieChange,
   GoalieEvent,
   Match,
+  MatchResultType,
+  Penalty,
+  PenaltyTeam,
+  PenaltyType,
   Period,
+  ResultType,
+  ShootoutMove,
+  ShotAttempt,
+  ShotAttemptKind,
+  ShotTargetZone,
   ShotZone,
   SituationType,
   Goalie,
@@ -23,6 +45,25 @@ import { dataService } from "@/lib/dataService";
 import { generateMatchReport, shareText } from "@/lib/utils";
 import { useAutoSync } from "@/hooks/useAutoSync";
 import { useCompetitions } from "@/lib/competitionService";
+import { useGameClock } from "@/hooks/useGameClock";
+import { useUndoHistory } from "@/hooks/useUndoHistory";
+import { useLiveSession } from "@/hooks/useLiveSession";
+import { useWorkspaces } from "@/contexts/WorkspaceContext";
+import { getPeriodSettings, toElapsedSeconds } from "@/lib/gameClock";
+import { getManpowerAt, getPenaltyWindows } from "@/lib/penalties";
+import { getMatchResultType } from "@/lib/decisions";
+import { getShotAttempts } from "@/lib/shootout";
+import { alignEventToSheet, applyGameSheet, type GoalReconciliation } from "@/lib/gameSheet";
+import { getEventToSave, type TrackerAction, type UndoDirection } from "@/lib/undoHistory";
+import { canRecordShots } from "@/lib/liveSession";
+import { generateShareToken } from "@/lib/liveShare";
+import { canTrackGoalie } from "@/lib/workspaces";
+import {
+  getGoalieOnIce,
+  getGoalieTimeOnIce,
+  getSortedGoalieChanges,
+  reattributeEvents,
+} from "@/lib/goalieChanges";
 
 function getZoneFromCoords(x: number, y: number): ShotZone {
   if (y < 30) return "blue_line";
@@ -46,8 +87,6 @@ export default function MatchPage() {
   const [showLandscapeMode, setShowLandscapeMode] = useState(false);
   const [goalie, setGoalie] = useState<Goalie | null>(null);
   const [goalies, setGoalies] = useState<Goalie[]>([]);
-  const [period, setPeriod] = useState<Period>(1);
-  const [gameTime, setGameTime] = useState("20:00");
   const [events, setEvents] = useState<GoalieEvent[]>([]);
   const [allEvents, setAllEvents] = useState<GoalieEvent[]>([]);
   const [modalOpen, setModalOpen] = useState(false);
@@ -56,14 +95,59 @@ export default function MatchPage() {
     y: number;
   } | null>(null);
   const [pendingZone, setPendingZone] = useState<ShotZone | null>(null);
+  // Clock reading at the moment of the tap, the modal may stay open for a while
+  const [pendingClock, setPendingClock] = useState<{
+    period: Period;
+    gameTime: string;
+  } | null>(null);
   const [showGoalieSelect, setShowGoalieSelect] = useState(false);
+  // "starter" = assign the starting goalie, "change" = goalie change during the match
+  const [goalieSelectMode, setGoalieSelectMode] = useState<"starter" | "change">("starter");
   const [showCompetitionSelect, setShowCompetitionSelect] = useState(false);
   const [showHeatmap, setShowHeatmap] = useState(false);
+  const [showTimeline, setShowTimeline] = useState(false);
   const [showEventList, setShowEventList] = useState(false);
   const [activeTab, setActiveTab] = useState<"tracking" | "roster">("tracking");
   const [currentSituation, setCurrentSituation] = useState<SituationType>("even");
+  const [showPenaltyModal, setShowPenaltyModal] = useState(false);
+  const [showResultModal, setShowResultModal] = useState(false);
+  const [showShareModal, setShowShareModal] = useState(false);
+  const [shootoutMode, setShootoutMode] = useState(false);
+  const [attemptKind, setAttemptKind] = useState<ShotAttemptKind | null>(null);
   const { competitions: userCompetitions } = useCompetitions();
 
+  const matchCompetition = useMemo(
+    () => userCompetitions.find((c) => c.id === match?.competitionId) || null,
+    [userCompetitions, match?.competitionId]
+  );
+  const periodSettings = useMemo(() => getPeriodSettings(matchCompetition), [matchCompetition]);
+  // Overtime starts on its own only when the entered score is level
+  const scoreTied = match?.homeScore !== undefined && match.homeScore === match.awayScore;
+  const gameClock = useGameClock(match?.id, periodSettings, scoreTied);
+  const { period, gameTime, getGameTime } = gameClock;
+  const undoHistory = useUndoHistory(match?.id);
+
+  // Manpower from the penalty log at the current clock reading
+  const penalties = useMemo(() => match?.penalties ?? [], [match?.penalties]);
+  const penaltyWindows = useMemo(
+    () => getPenaltyWindows(penalties, events, periodSettings),
+    [penalties, events, periodSettings]
+  );
+  const elapsed = toElapsedSeconds(period, gameTime, periodSettings);
+  const manpower = useMemo(() => getManpowerAt(penaltyWindows, elapsed), [penaltyWindows, elapsed]);
+
+  // Pre-fill the situation whenever a penalty starts or ends (manual choice wins until then)
+  useEffect(() => {
+    setCurrentSituation(manpower.situation);
+  }, [manpower.situation]);
+
+  // Goalie in net right now (null = pulled)
+  const goalieChanges = useMemo(() => (match ? getSortedGoalieChanges(match) : []), [match]);
+  const onIceGoalieId = match ? getGoalieOnIce(match, period, gameTime) : null;
+
+  // Shootout rounds and penalty shots (outside of the event log)
+  const shotAttempts = useMemo(() => (match ? getShotAttempts(match) : []), [match]);
+
   // Load match data
   const loadMatchData = useCallback(async (matchId: string) => {
     const [matches, eventsForMatch, goaliesList] = await Promise.all([
@@ -225,6 +309,40 @@ export default function MatchPage() {
   }, [match, events.length]);
 
   const isMatchClosed = match ? (isMatchCompleted(match.status) || match.status === "cancelled" || match.completed) : false;
+  // Club viewers (and trackers of other goalies) only look at the match
+  const { getAccess } = useWorkspaces();
+  const isReadOnly = !canTrackGoalie(getAccess(goalie));
+  const isLocked = isMatchClosed || isReadOnly;
+
+  // Shared live session - events and the clock from other devices
+  const refreshEvents = useCallback(async () => {
+    if (!match) return;
+    const refreshed = await dataService.getEvents(match.id);
+    setEvents(refreshed.filter((e) => e.status !== "deleted"));
+    setAllEvents(refreshed);
+  }, [match]);
+  const liveSession = useLiveSession({
+    matchId: match?.id,
+    events: allEvents,
+    clock: gameClock.clock,
+    onClock: gameClock.replace,
+    onEventsChange: refreshEvents,
+  });
+  const clockLocked = liveSession.active && !liveSession.controlsClock;
+  const canTrackShots = !liveSession.active || canRecordShots(liveSession.role);
+
+  // Live: count up to the current clock reading, closed match: whole match
+  const goalieTimeOnIce = useMemo(
+    () =>
+      match
+        ? getGoalieTimeOnIce(match, events, periodSettings, isMatchClosed ? undefined : elapsed)
+        : {},
+    [match, events, periodSettings, isMatchClosed, elapsed]
+  );
+
+  // Goalie to stamp on an event recorded now (empty net = no goalie)
+  const getEventGoalieId = (eventPeriod: Period = period, eventGameTime?: string): string =>
+    (match ? getGoalieOnIce(match, eventPeriod, eventGameTime ?? getGameTime()) : null) || "";
 
   const stats = useMemo(() => {
     const filtered = events.filter(
@@ -248,24 +366,25 @@ export default function MatchPage() {
   }, [events]);
 
   const handleRinkTap = (coords: { x: number; y: number }) => {
-    if (isMatchClosed) return;
+    if (isLocked || !canTrackShots) return;
     const zone = getZoneFromCoords(coords.x, coords.y);
     setPendingCoords(coords);
     setPendingZone(zone);
+    setPendingClock({ period, gameTime: getGameTime() });
     setModalOpen(true);
   };
 
   const addEventQuick = async (result: "save" | "goal" | "miss") => {
-    if (!match || isMatchClosed) return;
+    if (!match || isLocked) return;
     const now = new Date().toISOString();
     const zone: ShotZone = getZoneFromCoords(50, 50);
 
     const newEvent: GoalieEvent = {
       id: generateEventId(),
       matchId: match.id,
-      goalieId: goalie?.id || "",
+      goalieId: getEventGoalieId(),
       period,
-      gameTime,
+      gameTime: getGameTime(),
       timestamp: now,
       result,
       shotPosition: { x: 50, y: 50, zone },
@@ -282,7 +401,18 @@ export default function MatchPage() {
 
     if (!saved) {
       console.error("[MatchPage] Failed to save quick event");
+      return;
     }
+    undoHistory.record({ type: "add_event", event: saved });
+  };
+
+  // Target tracker picks the goal zone for every shot, the rink spot comes from the shot tracker
+  const handleQuickAction = (result: "save" | "goal" | "miss") => {
+    if (liveSession.active && liveSession.role === "targets" && result !== "miss") {
+      handleRinkTap({ x: 50, y: 50 });
+      return;
+    }
+    addEventQuick(result);
   };
 
   const handleGoalieChange = async (goalieId: string | null) => {
@@ -297,18 +427,59 @@ export default function MatchPage() {
     setGoalie(finalGoalieId ? goalies.find(g => g.id === finalGoalieId) || null : null);
 
     if (finalGoalieId) {
-      const updatedEvents = events.map((e) => ({ ...e, goalieId: finalGoalieId }));
-      for (const event of updatedEvents) {
-        await dataService.saveEvent(event);
-      }
-      const refreshed = await dataService.getEvents(match.id);
-      setEvents(refreshed.filter((e) => e.status !== "deleted"));
-      setAllEvents(refreshed);
+      await saveReattributedEvents(updatedMatch);
     }
 
     setShowGoalieSelect(false);
   };
 
+  // Keep event goalies in line with the starter and goalie changes
+  const saveReattributedEvents = async (updatedMatch: Match) => {
+    const changedEvents = reattributeEvents(updatedMatch, events);
+    if (changedEvents.length === 0) return;
+    for (const event of changedEvents) {
+      await dataService.saveEvent(event);
+    }
+    const refreshed = await dataService.getEvents(updatedMatch.id);
+    setEvents(refreshed.filter((e) => e.status !== "deleted"));
+    setAllEvents(refreshed);
+  };
+
+  const saveGoalieChanges = async (nextChanges: GoalieChange[]) => {
+    if (!match) return;
+    const updatedMatch: Match = {
+      ...match,
+      goalieChanges: nextChanges,
+      updatedAt: new Date().toISOString(),
+    };
+    const saved = await dataService.saveMatch(updatedMatch);
+    setMatch(saved);
+    await saveReattributedEvents(updatedMatch);
+  };
+
+  const addGoalieChange = (goalieId: string | null) => {
+    const change: GoalieChange = {
+      id: crypto.randomUUID(),
+      goalieId,
+      period,
+      gameTime: getGameTime(),
+      createdAt: new Date().toISOString(),
+    };
+    saveGoalieChanges([...goalieChanges, change]);
+  };
+
+  // Return the goalie who was pulled last
+  const handleReturnGoalie = () => {
+    const lastGoalieId =
+      [...goalieChanges].reverse().find((c) => c.goalieId)?.goalieId || match?.goalieId || null;
+    if (!lastGoalieId) {
+      setGoalieSelectMode("change");
+      setShowGoalieSelect(true);
+      return;
+    }
+    addGoalieChange(lastGoalieId);
+  };
+
   const handleCompetitionChange = async (competitionId: string | null) => {
     if (!match) return;
     
@@ -326,15 +497,197 @@ export default function MatchPage() {
   };
 
   const handleDeleteLastEvent = () => {
-    if (events.length === 0 || isMatchClosed) return;
+    if (events.length === 0 || isLocked) return;
     if (!confirm("Smazat poslední událost?")) return;
 
+    // Soft delete, so the event can be restored by undo or from the event list
     const lastEvent = events[events.length - 1];
-    dataService.deleteEvent(lastEvent.id).then(async () => {
-      if (!match) return;
+    dataService
+      .saveEvent({ ...lastEvent, status: "deleted", updatedAt: new Date().toISOString() })
+      .then(async () => {
+        if (!match) return;
+        undoHistory.record({ type: "delete_event", event: lastEvent });
+        const refreshed = await dataService.getEvents(match.id);
+        setEvents(refreshed.filter((e) => e.status !== "deleted"));
+        setAllEvents(refreshed);
+      });
+  };
+
+  const handlePeriodChange = (next: Period) => {
+    if (next === period || clockLocked) return;
+    undoHistory.record({ type: "period_change", from: period, to: next });
+    gameClock.setPeriod(next);
+  };
+
+  const handleSituationChange = (next: SituationType) => {
+    if (next === currentSituation) return;
+    undoHistory.record({ type: "situation_change", from: currentSituation, to: next });
+    setCurrentSituation(next);
+  };
+
+  // Apply one undo/redo step - event actions write the stored snapshot back
+  const applyTrackerAction = async (action: TrackerAction, direction: UndoDirection) => {
+    if (!match) return;
+    const event = getEventToSave(action, direction);
+    if (event) {
+      await dataService.saveEvent(event);
       const refreshed = await dataService.getEvents(match.id);
       setEvents(refreshed.filter((e) => e.status !== "deleted"));
       setAllEvents(refreshed);
+
+      syncNow().catch(err => {
+        console.error('[MatchPage] Background sync failed:', err);
+      });
+      return;
+    }
+    if (action.type === "period_change") {
+      if (clockLocked) return;
+      gameClock.setPeriod(direction === "undo" ? action.from : action.to);
+    } else if (action.type === "situation_change") {
+      setCurrentSituation(direction === "undo" ? action.from : action.to);
+    }
+  };
+
+  const handleUndo = () => {
+    if (isLocked) return;
+    undoHistory.undo(applyTrackerAction);
+  };
+
+  const handleRedo = () => {
+    if (isLocked) return;
+    undoHistory.redo(applyTrackerAction);
+  };
+
+  const savePenalties = async (nextPenalties: Penalty[]) => {
+    if (!match) return;
+    const updatedMatch: Match = {
+      ...match,
+      penalties: nextPenalties,
+      updatedAt: new Date().toISOString(),
+    };
+    const saved = await dataService.saveMatch(updatedMatch);
+    setMatch(saved);
+  };
+
+  const handleSaveResult = async (data: {
+    homeScore: number;
+    awayScore: number;
+    resultType: MatchResultType;
+  }) => {
+    if (!match) return;
+    const updatedMatch: Match = {
+      ...match,
+      ...data,
+      updatedAt: new Date().toISOString(),
+    };
+    const saved = await dataService.saveMatch(updatedMatch);
+    setMatch(saved);
+  };
+
+  const handleAddPenalty = (data: {
+    team: PenaltyTeam;
+    playerNumber?: number;
+    type: PenaltyType;
+    period: Period;
+    gameTime: string;
+  }) => {
+    const penalty: Penalty = {
+      id: crypto.randomUUID(),
+      ...data,
+      createdAt: new Date().toISOString(),
+    };
+    savePenalties([...penalties, penalty]);
+  };
+
+  const handleEndPenalty = (penaltyId: string) => {
+    savePenalties(
+      penalties.map((p) =>
+        p.id === penaltyId ? { ...p, endedPeriod: period, endedGameTime: getGameTime() } : p
+      )
+    );
+  };
+
+  const handleDeletePenalty = (penaltyId: string) => {
+    savePenalties(penalties.filter((p) => p.id !== penaltyId));
+  };
+
+  const saveShotAttempts = async (nextAttempts: ShotAttempt[]) => {
+    if (!match) return;
+    const updatedMatch: Match = {
+      ...match,
+      shotAttempts: nextAttempts,
+      updatedAt: new Date().toISOString(),
+    };
+    const saved = await dataService.saveMatch(updatedMatch);
+    setMatch(saved);
+  };
+
+  const handleAddShotAttempt = (data: {
+    shooterNumber?: number;
+    move: ShootoutMove;
+    target?: ShotTargetZone;
+    result: ResultType;
+  }) => {
+    if (!match || !attemptKind) return;
+    const attempt: ShotAttempt = {
+      id: crypto.randomUUID(),
+      kind: attemptKind,
+      goalieId: onIceGoalieId || match.goalieId || "",
+      ...data,
+      // Penalty shots happen during play, shootout rounds after it
+      ...(attemptKind === "penalty_shot" ? { period, gameTime: getGameTime() } : {}),
+      createdAt: new Date().toISOString(),
+    };
+    saveShotAttempts([...shotAttempts, attempt]);
+  };
+
+  // Official game sheet - the roster is rebuilt from it on every change
+  const handleGameSheetChange = async (sheet: GameSheet) => {
+    if (!match) return;
+    const saved = await dataService.saveMatch(applyGameSheet(match, sheet));
+    setMatch(saved);
+
+    syncNow().catch(err => {
+      console.error('[MatchPage] Background sync failed:', err);
+    });
+  };
+
+  // Move tracked goals to the scorekeeper's time, each one undoable
+  const handleAlignGoals = async (items: GoalReconciliation[]) => {
+    if (!match || isReadOnly) return;
+    for (const item of items) {
+      const aligned = alignEventToSheet(item);
+      if (!aligned || !item.event) continue;
+      const saved = await dataService.saveEvent({
+        ...aligned,
+        status: "edited",
+        originalEventId: aligned.originalEventId || aligned.id,
+        updatedAt: new Date().toISOString(),
+      });
+      undoHistory.record({ type: "edit_event", before: item.event, after: saved });
+    }
+    const refreshed = await dataService.getEvents(match.id);
+    setEvents(refreshed.filter((e) => e.status !== "deleted"));
+    setAllEvents(refreshed);
+
+    syncNow().catch(err => {
+      console.error('[MatchPage] Background sync failed:', err);
+    });
+  };
+
+  // Public live page - a new token replaces the old one, undefined revokes it
+  const saveShareToken = async (shareToken: string | undefined) => {
+    if (!match || isReadOnly) return;
+    const updatedMatch: Match = {
+      ...match,
+      shareToken,
+      updatedAt: new Date().toISOString(),
+    };
+    const saved = await dataService.saveMatch(updatedMatch);
+    setMatch(saved);
+
+    syncNow().catch(err => {
+      console.error('[MatchPage] Background sync failed:', err);
     });
   };
 
@@ -377,18 +730,40 @@ export default function MatchPage() {
           <span className="text-xs font-semibold">
             {match.home} vs {match.away}
           </span>
-          {match.homeScore !== undefined && (
-            <span className="mt-0.5 rounded bg-slate-700 px-2 py-0.5 text-xs font-bold">
+          {match.homeScore !== undefined ? (
+            <button
+              onClick={() => setShowResultModal(true)}
+              disabled={isReadOnly}
+              className="mt-0.5 rounded bg-slate-700 px-2 py-0.5 text-xs font-bold"
+            >
               {match.homeScore} : {match.awayScore}
-            </span>
+              {match.resultType === "overtime" && " PP"}
+              {match.resultType === "shootout" && " SN"}
+            </button>
+          ) : (
+            !isReadOnly && (
+              <button
+                onClick={() => setShowResultModal(true)}
+                className="mt-0.5 text-[10px] text-accentPrimary"
+              >
+                {isMatchClosed ? "Zadat výsledek" : "Zadat skóre"}
+              </button>
+            )
           )}
         </div>
-        <button
-          onClick={() => setShowGoalieSelect(true)}
-          className="text-xs text-accentPrimary"
-        >
-          {goalie ? "Změnit" : "Přiřadit"}
-        </button>
+        {isReadOnly ? (
+          <span className="text-xs text-slate-500">👁️</span>
+        ) : (
+          <button
+            onClick={() => {
+              setGoalieSelectMode("starter");
+              setShowGoalieSelect(true);
+            }}
+            className="text-xs text-accentPrimary"
+          >
+            {goalie ? "Změnit" : "Přiřadit"}
+          </button>
+        )}
       </div>
 
       {/* Match status bar */}
@@ -407,31 +782,44 @@ export default function MatchPage() {
           />
           <span>{isMatchClosed ? "Zápas ukončen" : "Zápas probíhá"}</span>
         </div>
-        <button
-          onClick={toggleMatchStatus}
-          className={`rounded-lg px-2 py-1 text-xs font-medium ${
-            isMatchClosed
-              ? "bg-accentSuccess/20 text-accentSuccess"
-              : "bg-accentDanger/20 text-accentDanger"
-          }`}
-        >
-          {isMatchClosed ? "Znovu otevřít" : "Ukončit zápas"}
-        </button>
+        {isReadOnly ? (
+          <span className="text-slate-400">Jen čtení</span>
+        ) : (
+          <button
+            onClick={toggleMatchStatus}
+            className={`rounded-lg px-2 py-1 text-xs font-medium ${
+              isMatchClosed
+                ? "bg-accentSuccess/20 text-accentSuccess"
+                : "bg-accentDanger/20 text-accentDanger"
+            }`}
+          >
+            {isMatchClosed ? "Znovu otevřít" : "Ukončit zápas"}
+          </button>
+        )}
       </div>
 
-      {/* Goalie info */}
+      {/* Goalie info (goalie in net, changes and time on ice) */}
       {goalie ? (
-        <div className="flex items-center justify-center gap-2 border-b border-borderSoft bg-bgSurfaceSoft/50 px-4 py-2">
-          <span className="flex h-6 w-6 items-center justify-center rounded-full bg-accentPrimary/20 text-xs font-bold text-accentPrimary">
-            {goalie.jerseyNumber || goalie.firstName[0]}
-          </span>
-          <span className="text-sm">
-            {goalie.firstName} {goalie.lastName}
-          </span>
-        </div>
+        <GoalieChangePanel
+          goalies={goalies}
+          changes={goalieChanges}
+          onIceGoalieId={onIceGoalieId}
+          timeOnIce={goalieTimeOnIce}
+          disabled={isLocked}
+          onPull={() => addGoalieChange(null)}
+          onReturn={handleReturnGoalie}
+          onSwap={() => {
+            setGoalieSelectMode("change");
+            setShowGoalieSelect(true);
+          }}
+          onDelete={(changeId) => saveGoalieChanges(goalieChanges.filter((c) => c.id !== changeId))}
+        />
       ) : (
         <button
-          onClick={() => setShowGoalieSelect(true)}
+          onClick={() => {
+            setGoalieSelectMode("starter");
+            setShowGoalieSelect(true);
+          }}
           className="border-b border-borderSoft bg-accentPrimary/10 px-4 py-2 text-center text-xs text-accentPrimary"
         >
           ⚠️ Přiřaďte brankáře pro ukládání statistik
@@ -442,6 +830,7 @@ export default function MatchPage() {
       <div className="border-b border-borderSoft bg-bgSurfaceSoft/30 px-4 py-2">
         <button
           onClick={() => setShowCompetitionSelect(true)}
+          disabled={isReadOnly}
           className="flex w-full items-center justify-between text-left"
         >
           <div className="flex items-center gap-2">
@@ -456,6 +845,20 @@ export default function MatchPage() {
         </button>
       </div>
 
+      {!isLocked && (
+        <LiveSessionPanel
+          active={liveSession.active}
+          role={liveSession.role}
+          participants={liveSession.participants}
+          deviceId={liveSession.deviceId}
+          transportKind={liveSession.transportKind}
+          controlsClock={liveSession.controlsClock}
+          mergedDuplicates={liveSession.mergedDuplicates}
+          onToggle={() => liveSession.setActive(!liveSession.active)}
+          onRoleChange={liveSession.setRole}
+        />
+      )}
+
       {/* Tabs - show only if roster exists */}
       {hasRoster && (
         <div className="flex border-b border-borderSoft bg-bgSurfaceSoft">
@@ -486,7 +889,9 @@ export default function MatchPage() {
       {showGoalieSelect && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4">
           <div className="w-full max-w-sm rounded-2xl bg-bgSurfaceSoft p-4">
-            <h3 className="mb-4 text-center font-semibold">Vybrat brankáře</h3>
+            <h3 className="mb-4 text-center font-semibold">
+              {goalieSelectMode === "change" ? "Střídání brankáře" : "Vybrat brankáře"}
+            </h3>
             {goalies.length === 0 ? (
               <div className="py-4 text-center">
                 <p className="text-sm text-slate-400">Žádní brankáři</p>
@@ -499,7 +904,7 @@ export default function MatchPage() {
               </div>
             ) : (
               <div className="space-y-2">
-                {goalie && (
+                {goalie && goalieSelectMode === "starter" && (
                   <button
                     onClick={() => {
                       if (confirm("Opravdu odebrat brankáře z tohoto zápasu?")) {
@@ -511,12 +916,19 @@ export default function MatchPage() {
                     ✕ Odebrat {goalie.firstName} {goalie.lastName}
                   </button>
                 )}
-                {goalies.map((g) => (
+                {goalies.filter((g) => canTrackGoalie(getAccess(g))).map((g) => (
                   <button
                     key={g.id}
-                    onClick={() => handleGoalieChange(g.id)}
+                    onClick={() => {
+                      if (goalieSelectMode === "change") {
+                        if (g.id !== onIceGoalieId) addGoalieChange(g.id);
+                        setShowGoalieSelect(false);
+                      } else {
+                        handleGoalieChange(g.id);
+                      }
+                    }}
                     className={`w-full rounded-lg px-3 py-3 text-left ${
-                      goalie?.id === g.id
+                      (goalieSelectMode === "change" ? onIceGoalieId : goalie?.id) === g.id
                         ? "bg-accentPrimary/20 text-accentPrimary"
                         : "bg-slate-800 text-slate-200"
                     }`}
@@ -614,15 +1026,20 @@ export default function MatchPage() {
           setEvents(refreshed.filter((e) => e.status !== "deleted"));
           setAllEvents(refreshed);
         }}
-        matchClosed={isMatchClosed}
+        onAction={undoHistory.record}
+        matchClosed={isLocked}
         goalieCatchHand={goalie?.catchHand || "L"}
       />
 
       {/* Landscape Tracking View */}
-      {showLandscapeMode && !isMatchClosed && (
+      {showLandscapeMode && !isLocked && (
         <LandscapeTrackingView
           period={period}
           gameTime={gameTime}
+          clockRunning={gameClock.running}
+          onToggleClock={clockLocked ? () => undefined : gameClock.toggle}
+          situation={currentSituation}
+          manpowerLabel={manpower.label}
           events={events}
           totalStats={totalStats}
           onAddEvent={({ result, situation, shotPosition }) => {
@@ -630,9 +1047,9 @@ export default function MatchPage() {
             const newEvent: GoalieEvent = {
               id: generateEventId(),
               matchId: match.id,
-              goalieId: goalie?.id || "",
+              goalieId: getEventGoalieId(),
               period,
-              gameTime,
+              gameTime: getGameTime(),
               timestamp: now,
               result,
               shotPosition: shotPosition || { x: 50, y: 50, zone: "slot" },
@@ -642,7 +1059,8 @@ export default function MatchPage() {
               createdAt: now,
             };
 
-            dataService.saveEvent(newEvent).then(async () => {
+            dataService.saveEvent(newEvent).then(async (saved) => {
+              undoHistory.record({ type: "add_event", event: saved });
               const refreshed = await dataService.getEvents(match.id);
               setEvents(refreshed.filter((e) => e.status !== "deleted"));
               setAllEvents(refreshed);
@@ -653,6 +1071,13 @@ export default function MatchPage() {
             });
             setCurrentSituation(situation);
           }}
+          onSituationChange={handleSituationChange}
+          canUndo={undoHistory.canUndo}
+          canRedo={undoHistory.canRedo}
+          undoLabel={undoHistory.undoLabel}
+          redoLabel={undoHistory.redoLabel}
+          onUndo={handleUndo}
+          onRedo={handleRedo}
           onClose={() => setShowLandscapeMode(false)}
         />
       )}
@@ -689,7 +1114,7 @@ export default function MatchPage() {
                       <span className="font-medium">{gs.name}</span>
                     </div>
                     <div className="text-xs text-slate-400">
-                      {gs.period}. třetina • {gs.time}
+                      {gs.period > 3 ? "Prodloužení" : `${gs.period}. třetina`} • {gs.time}
                       {gs.assists && gs.assists.length > 0 && (
                         <span className="ml-2 text-slate-500">
                           ({gs.assists.join(", ")})
@@ -780,7 +1205,7 @@ export default function MatchPage() {
               {[1, 2, 3].map((p) => (
                 <button
                   key={p}
-                  onClick={() => setPeriod(p as Period)}
+                  onClick={() => handlePeriodChange(p as Period)}
                   className={`h-8 w-8 rounded-lg text-xs font-semibold ${
                     period === p
                       ? "bg-accentPrimary text-white"
@@ -791,7 +1216,7 @@ export default function MatchPage() {
                 </button>
               ))}
               <button
-                onClick={() => setPeriod("OT")}
+                onClick={() => handlePeriodChange("OT")}
                 className={`h-8 rounded-lg px-2 text-xs font-semibold ${
                   period === "OT"
                     ? "bg-accentPrimary text-white"
@@ -800,8 +1225,38 @@ export default function MatchPage() {
               >
                 OT
               </button>
+              <button
+                onClick={() => setShootoutMode(!shootoutMode)}
+                className={`h-8 rounded-lg px-2 text-xs font-semibold ${
+                  shootoutMode
+                    ? "bg-accentPrimary text-white"
+                    : "bg-slate-800 text-slate-300"
+                }`}
+              >
+                SN
+              </button>
             </div>
             <div className="flex items-center gap-2">
+              {!isLocked && !shootoutMode && (
+                <button
+                  onClick={() => setAttemptKind("penalty_shot")}
+                  className="rounded-lg bg-slate-800 px-2 py-1 text-[10px] text-slate-400"
+                  title="Trestné střílení"
+                >
+                  TS
+                </button>
+              )}
+              <button
+                onClick={() => setShowTimeline(!showTimeline)}
+                className={`rounded-lg px-2 py-1 text-[10px] ${
+                  showTimeline
+                    ? "bg-accentPrimary text-white"
+                    : "bg-slate-800 text-slate-400"
+                }`}
+                title="Průběh zápasu"
+              >
+                📈
+              </button>
               <button
                 onClick={() => setShowHeatmap(!showHeatmap)}
                 className={`rounded-lg px-2 py-1 text-[10px] ${
@@ -818,113 +1273,188 @@ export default function MatchPage() {
               >
                 📋 {events.length}
               </button>
-              <input
-                value={gameTime}
-                onChange={(e) => setGameTime(e.target.value)}
-                className="h-8 w-16 rounded-lg bg-slate-800 text-center font-mono text-sm text-slate-100"
-                disabled={isMatchClosed}
-              />
               {!isMatchClosed && (
-                <span className="h-2 w-2 animate-pulse rounded-full bg-red-500" />
+                <span
+                  className={`h-2 w-2 rounded-full ${
+                    gameClock.running ? "animate-pulse bg-red-500" : "bg-slate-600"
+                  }`}
+                />
               )}
             </div>
           </div>
 
-          <LiveStatsBar
-            shots={stats.shots}
-            saves={stats.saves}
-            goals={stats.goals}
-          />
+          {shootoutMode ? (
+            <ShootoutPanel
+              attempts={shotAttempts}
+              goalies={goalies}
+              disabled={isLocked}
+              onAdd={() => setAttemptKind("shootout")}
+              onDelete={(attemptId) => saveShotAttempts(shotAttempts.filter((a) => a.id !== attemptId))}
+            />
+          ) : (
+            <>
+              {/* Game clock */}
+              <div className="flex items-center justify-between border-b border-borderSoft bg-bgSurfaceSoft/50 px-4 py-2 text-xs text-slate-400">
+                <span>{period === "OT" ? "Prodloužení" : `${period}. třetina`}</span>
+                <GameClock
+                  period={period}
+                  phase={gameClock.phase}
+                  running={gameClock.running}
+                  remainingMs={gameClock.remainingMs}
+                  canStartOvertime={periodSettings.overtimeMinutes > 0}
+                  disabled={isLocked || clockLocked}
+                  onToggle={gameClock.toggle}
+                  onAdjust={gameClock.adjust}
+                  onSetRemaining={gameClock.setRemaining}
+                  onEndIntermission={gameClock.endIntermission}
+                  onStartOvertime={() => handlePeriodChange("OT")}
+                />
+              </div>
 
-          <RinkView
-            period={period}
-            events={events}
-            onTap={handleRinkTap}
-            showHeatmap={showHeatmap}
-          />
+              <PenaltyPanel
+                penalties={penalties}
+                windows={penaltyWindows}
+                elapsed={elapsed}
+                manpower={manpower}
+                disabled={isLocked}
+                onAdd={() => setShowPenaltyModal(true)}
+                onEnd={handleEndPenalty}
+                onDelete={handleDeletePenalty}
+              />
 
-          {/* Disabled overlay when match is closed */}
-          {isMatchClosed && (
-            <div className="px-4 py-2">
-              <div className="rounded-lg bg-slate-800/50 p-3 text-center text-xs text-slate-400">
-                Zápas je ukončen. Pro přidání událostí nejprve znovu otevřete
-                zápas.
-              </div>
-            </div>
-          )}
+              <LiveStatsBar
+                shots={stats.shots}
+                saves={stats.saves}
+                goals={stats.goals}
+              />
 
-          {/* Events list */}
-          <div className="flex-1 px-4 pb-2">
-            <div className="mb-2 flex items-center justify-between">
-              <button
-                onClick={() => setShowEventList(true)}
-                className="text-xs text-accentPrimary"
-              >
-                Všechny události ({events.length}) →
-              </button>
-              {events.length > 0 && !isMatchClosed && (
-                <button
-                  onClick={handleDeleteLastEvent}
-                  className="text-xs text-accentDanger"
-                >
-                  Smazat poslední
-                </button>
+              {showTimeline && (
+                <MatchTimeline
+                  match={match}
+                  events={events}
+                  settings={periodSettings}
+                  elapsed={isMatchClosed ? undefined : elapsed}
+                />
               )}
-            </div>
-            <div className="space-y-2 text-xs">
-              {events.length === 0 && (
-                <p className="text-slate-600">Zatím žádné události</p>
+
+              <RinkView
+                period={period}
+                events={events}
+                onTap={handleRinkTap}
+                showHeatmap={showHeatmap}
+              />
+
+              {/* Disabled overlay when match is closed */}
+              {isMatchClosed && !isReadOnly && (
+                <div className="px-4 py-2">
+                  <div className="rounded-lg bg-slate-800/50 p-3 text-center text-xs text-slate-400">
+                    Zápas je ukončen. Pro přidání událostí nejprve znovu otevřete
+                    zápas.
+                  </div>
+                </div>
               )}
-              {events
-                .slice(-5)
-                .reverse()
-                .map((e) => (
-                  <div
-                    key={e.id}
-                    className="flex items-center gap-3 rounded-lg bg-slate-800/70 px-3 py-2"
+              {isReadOnly && (
+                <div className="px-4 py-2">
+                  <div className="rounded-lg bg-slate-800/50 p-3 text-center text-xs text-slate-400">
+                    V klubovém prostoru máš u tohoto brankáře jen čtení.
+                  </div>
+                </div>
+              )}
+
+              {/* Events list */}
+              <div className="flex-1 px-4 pb-2">
+                <div className="mb-2 flex items-center justify-between">
+                  <button
+                    onClick={() => setShowEventList(true)}
+                    className="text-xs text-accentPrimary"
                   >
-                    <div
-                      className={`flex h-7 w-7 items-center justify-center rounded-full text-xs font-bold ${
-                        e.result === "save"
-                          ? "bg-accentSuccess"
-                          : e.result === "goal"
-                          ? "bg-accentDanger"
-                          : "bg-slate-600"
-                      }`}
-                    >
-                      {e.result === "save"
-                        ? "✓"
-                        : e.result === "goal"
-                        ? "✕"
-                        : "○"}
+                    Všechny události ({events.length}) →
+                  </button>
+                  {!isLocked && (
+                    <div className="flex items-center gap-3">
+                      <button
+                        onClick={handleUndo}
+                        disabled={!undoHistory.canUndo}
+                        title={undoHistory.undoLabel}
+                        className="text-sm text-slate-300 disabled:opacity-30"
+                      >
+                        ↶
+                      </button>
+                      <button
+                        onClick={handleRedo}
+                        disabled={!undoHistory.canRedo}
+                        title={undoHistory.redoLabel}
+                        className="text-sm text-slate-300 disabled:opacity-30"
+                      >
+                        ↷
+                      </button>
+                      {events.length > 0 && (
+                        <button
+                          onClick={handleDeleteLastEvent}
+                          className="text-xs text-accentDanger"
+                        >
+                          Smazat poslední
+                        </button>
+                      )}
                     </div>
-                    <div className="flex-1">
-                      <div className="text-xs font-medium">
-                        {e.result === "save"
-                          ? "Zákrok"
-                          : e.result === "goal"
-                          ? "Gól"
-                          : "Mimo"}
-                        {e.situation && e.situation !== "even" && (
-                          <span className="ml-1 text-accentHighlight">
-                            ({e.situation === "powerplay" ? "PP" : "SH"})
-                          </span>
-                        )}
-                        {e.goalPosition && (
-                          <span className="ml-1 text-slate-400">
-                            → {e.goalPosition.zone.replace("_", " ")}
-                          </span>
-                        )}
-                      </div>
-                      <div className="text-[11px] text-slate-400">
-                        {e.period}. třetina • {e.gameTime} •{" "}
-                        {e.shotPosition?.zone ?? "slot"}
+                  )}
+                </div>
+                <div className="space-y-2 text-xs">
+                  {events.length === 0 && (
+                    <p className="text-slate-600">Zatím žádné události</p>
+                  )}
+                  {events
+                    .slice(-5)
+                    .reverse()
+                    .map((e) => (
+                      <div
+                        key={e.id}
+                        className="flex items-center gap-3 rounded-lg bg-slate-800/70 px-3 py-2"
+                      >
+                        <div
+                          className={`flex h-7 w-7 items-center justify-center rounded-full text-xs font-bold ${
+                            e.result === "save"
+                              ? "bg-accentSuccess"
+                              : e.result === "goal"
+                              ? "bg-accentDanger"
+                              : "bg-slate-600"
+                          }`}
+                        >
+                          {e.result === "save"
+                            ? "✓"
+                            : e.result === "goal"
+                            ? "✕"
+                            : "○"}
+                        </div>
+                        <div className="flex-1">
+                          <div className="text-xs font-medium">
+                            {e.result === "save"
+                              ? "Zákrok"
+                              : e.result === "goal"
+                              ? "Gól"
+                              : "Mimo"}
+                            {e.situation && e.situation !== "even" && (
+                              <span className="ml-1 text-accentHighlight">
+                                ({e.situation === "powerplay" ? "PP" : e.situation === "shorthanded" ? "SH" : e.situation})
+                              </span>
+                            )}
+                            {e.goalPosition && (
+                              <span className="ml-1 text-slate-400">
+                                → {e.goalPosition.zone.replace("_", " ")}
+                              </span>
+                            )}
+                          </div>
+                          <div className="text-[11px] text-slate-400">
+                            {e.period}. třetina • {e.gameTime} •{" "}
+                            {e.shotPosition?.zone ?? "slot"}
+                          </div>
+                        </div>
                       </div>
-                    </div>
-                  </div>
-                ))}
-            </div>
-          </div>
+                    ))}
+                </div>
+              </div>
+            </>
+          )}
 
           {/* Total stats footer */}
           <div className="border-t border-borderSoft bg-bgSurfaceSoft/50 px-4 py-2">
@@ -949,7 +1479,7 @@ export default function MatchPage() {
             {(totalStats.shots > 0 || (match.manualStats && match.manualStats.shots > 0)) && (
               <button
                 onClick={async () => {
-                  const report = generateMatchReport(match, events, goalie);
+                  const report = generateMatchReport(match, events, goalie, periodSettings);
                   const result = await shareText(
                     `${match.home} vs ${match.away} - Statistiky brankáře`,
                     report
@@ -965,9 +1495,30 @@ export default function MatchPage() {
                 📤 Sdílet statistiky zápasu
               </button>
             )}
+            {!isReadOnly && (
+              <button
+                onClick={() => setShowShareModal(true)}
+                className="mt-2 w-full rounded-lg bg-slate-800 py-2 text-xs font-medium text-slate-300"
+              >
+                📡 {match.shareToken ? "Živé sledování je sdílené" : "Sdílet živé sledování"}
+              </button>
+            )}
           </div>
 
-          {!isMatchClosed && (
+          {/* Official game sheet - after the match, when the scorekeeper's report is out */}
+          {isMatchClosed && (
+            <GameSheetPanel
+              match={match}
+              events={events}
+              periodSettings={periodSettings}
+              source={matchCompetition?.source}
+              disabled={isReadOnly}
+              onSheetChange={handleGameSheetChange}
+              onAlign={handleAlignGoals}
+            />
+          )}
+
+          {!isLocked && !shootoutMode && (
             <>
               {/* Landscape mode button */}
               {isMobile && (
@@ -981,11 +1532,13 @@ export default function MatchPage() {
                 </div>
               )}
               
-              <ActionBar
-                onSave={() => addEventQuick("save")}
-                onGoal={() => addEventQuick("goal")}
-                onMiss={() => addEventQuick("miss")}
-              />
+              {canTrackShots && (
+                <ActionBar
+                  onSave={() => handleQuickAction("save")}
+                  onGoal={() => handleQuickAction("goal")}
+                  onMiss={() => handleQuickAction("miss")}
+                />
+              )}
               
               {/* Close match button */}
               <div className="border-t border-borderSoft bg-bgSurfaceSoft/50 px-4 py-2">
@@ -1030,7 +1583,7 @@ export default function MatchPage() {
             </>
           )}
           
-          {isMatchClosed && (
+          {isMatchClosed && !isReadOnly && (
             <div className="border-t border-borderSoft bg-bgSurfaceSoft/50 px-4 py-2 space-y-2">
               <button
                 onClick={async () => {
@@ -1087,9 +1640,10 @@ export default function MatchPage() {
         open={modalOpen}
         onClose={() => setModalOpen(false)}
         zone={pendingZone}
-        header={`${period}. třetina • ${gameTime}`}
+        header={`${pendingClock?.period ?? period}. třetina • ${pendingClock?.gameTime ?? gameTime}`}
+        defaultSituation={currentSituation}
         onSubmit={async ({ result, saveType, goalType, situation, goalPosition }) => {
-          if (!pendingCoords || !match || isMatchClosed) return;
+          if (!pendingCoords || !match || isLocked) return;
           const now = new Date().toISOString();
           const zone =
             pendingZone ?? getZoneFromCoords(pendingCoords.x, pendingCoords.y);
@@ -1097,9 +1651,9 @@ export default function MatchPage() {
           const newEvent: GoalieEvent = {
             id: generateEventId(),
             matchId: match.id,
-            goalieId: goalie?.id || "",
-            period,
-            gameTime,
+            goalieId: getEventGoalieId(pendingClock?.period, pendingClock?.gameTime),
+            period: pendingClock?.period ?? period,
+            gameTime: pendingClock?.gameTime ?? getGameTime(),
             timestamp: now,
             result,
             shotPosition: {
@@ -1116,7 +1670,8 @@ export default function MatchPage() {
             createdAt: now,
           };
 
-          await dataService.saveEvent(newEvent);
+          const saved = await dataService.saveEvent(newEvent);
+          undoHistory.record({ type: "add_event", event: saved });
           const refreshed = await dataService.getEvents(match.id);
           setEvents(refreshed.filter((e) => e.status !== "deleted"));
           setAllEvents(refreshed);
@@ -1128,8 +1683,44 @@ export default function MatchPage() {
           
           setModalOpen(false);
           setPendingCoords(null);
+          setPendingClock(null);
         }}
       />
+
+      <PenaltyModal
+        open={showPenaltyModal}
+        onClose={() => setShowPenaltyModal(false)}
+        onSave={handleAddPenalty}
+        period={period}
+        gameTime={gameTime}
+      />
+
+      <ShotAttemptModal
+        open={attemptKind !== null}
+        kind={attemptKind || "shootout"}
+        round={shotAttempts.filter((a) => a.kind === "shootout").length + 1}
+        goalieCatchHand={goalie?.catchHand || "L"}
+        onClose={() => setAttemptKind(null)}
+        onSave={handleAddShotAttempt}
+      />
+
+      <LiveShareModal
+        open={showShareModal && !isReadOnly}
+        onClose={() => setShowShareModal(false)}
+        shareToken={match.shareToken}
+        matchTitle={`${match.home} vs ${match.away}`}
+        onCreate={() => saveShareToken(generateShareToken())}
+        onRevoke={() => saveShareToken(undefined)}
+      />
+
+      <MatchResultModal
+        key={showResultModal ? "open" : "closed"}
+        open={showResultModal}
+        onClose={() => setShowResultModal(false)}
+        onSave={handleSaveResult}
+        match={match}
+        defaultResultType={getMatchResultType(match, events)}
+      />
     </div>
   );
 }
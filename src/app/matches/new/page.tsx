@@ -8,12 +8,13 @@ import {
   getCurrentSeason,
   getTeams,
   saveTeam,
+  getClub,
 } from "@/lib/storage";
+import { isClubTeam } from "@/lib/club";
 import { dataService } from "@/lib/dataService";
 import { Select, Combobox } from "@/components/ui/Select";
-
-// Default team name for quick-fill
-const DEFAULT_HOME_TEAM = "HC Slovan Ústí n.L.";
+import { useWorkspaces } from "@/contexts/WorkspaceContext";
+import { canTrackGoalie } from "@/lib/workspaces";
 
 export default function NewMatchPage() {
   const router = useRouter();
@@ -38,6 +39,12 @@ export default function NewMatchPage() {
   const [showAddTeam, setShowAddTeam] = useState(false);
   const [newTeamName, setNewTeamName] = useState("");
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const { getAccess } = useWorkspaces();
+  // Club viewers cannot record matches of their workspace goalies
+  const trackableGoalies = useMemo(
+    () => goalies.filter((g) => canTrackGoalie(getAccess(g))),
+    [goalies, getAccess]
+  );
 
   useEffect(() => {
     const loadData = async () => {
@@ -60,9 +67,10 @@ export default function NewMatchPage() {
     const now = new Date();
     now.setMinutes(now.getMinutes() - now.getTimezoneOffset());
     
-    // Find default home team
+    // Find default home team - our club
+    const club = getClub();
     const defaultTeam = allTeams.find(t => 
-      t.name.includes("Slovan") || t.shortName?.includes("Slovan")
+      isClubTeam(t.name, club) || isClubTeam(t.shortName, club)
     );
     
       setForm((f) => ({
@@ -70,7 +78,7 @@ export default function NewMatchPage() {
         seasonId: currentSeason.id,
         datetime: now.toISOString().slice(0, 16),
         homeTeamId: defaultTeam?.id || "",
-        homeTeamName: defaultTeam?.name || DEFAULT_HOME_TEAM,
+        homeTeamName: defaultTeam?.name || club.name,
       }));
     };
 
@@ -188,10 +196,11 @@ export default function NewMatchPage() {
     router.push(`/match/${saved.id}`);
   };
 
-  // Quick fill presets
+  // Quick fill presets - our club at home or away
+  const clubName = getClub().name;
   const quickFills = [
-    { label: "Domácí", home: DEFAULT_HOME_TEAM, away: "" },
-    { label: "Hosté", home: "", away: DEFAULT_HOME_TEAM },
+    { label: "Domácí", home: clubName, away: "" },
+    { label: "Hosté", home: "", away: clubName },
   ];
 
   const matchTypes: { value: MatchType; label: string }[] = [
@@ -227,10 +236,10 @@ export default function NewMatchPage() {
 
   // Auto-select first goalie if only one exists
   useEffect(() => {
-    if (goalies.length === 1 && !form.goalieId) {
-      setForm((f) => ({ ...f, goalieId: goalies[0].id }));
+    if (trackableGoalies.length === 1 && !form.goalieId) {
+      setForm((f) => ({ ...f, goalieId: trackableGoalies[0].id }));
     }
-  }, [goalies, form.goalieId]);
+  }, [trackableGoalies, form.goalieId]);
 
   return (
     <div className="flex min-h-screen flex-col bg-bgMain">
@@ -402,7 +411,7 @@ export default function NewMatchPage() {
           <label className="mb-2 block text-xs text-slate-400">
             Přiřadit brankáře
           </label>
-          {goalies.length === 0 ? (
+          {trackableGoalies.length === 0 ? (
             <div className="rounded-xl bg-accentPrimary/10 p-3 text-center">
               <p className="text-xs text-slate-400">
                 Zatím nemáte žádné brankáře
@@ -417,7 +426,7 @@ export default function NewMatchPage() {
             </div>
           ) : (
             <div className="space-y-2">
-              {goalies.map((g) => (
+              {trackableGoalies.map((g) => (
                 <button
                   key={g.id}
                   type="button"
@@ -8,16 +8,21 @@ import {
   getGoalieById,
   getEventsByMatch as getEventsByMatchLocal,
   getCurrentSeason,
+  getClub,
 } from "@/lib/storage";
 import { dataService } from "@/lib/dataService";
-import { isSupabaseConfigured } from "@/lib/supabaseClient";
+import { isCloudEnabled } from "@/lib/supabaseClient";
 import { ManualStatsModal } from "@/components/ManualStatsModal";
 import { ImportWizard } from "@/components/ImportWizard";
+import { FixtureChangeLog } from "@/components/FixtureChangeLog";
+import { useFixtureRefresh } from "@/hooks/useFixtureRefresh";
 import { StandingsButton } from "@/components/StandingsLink";
+import { CompetitionStandingsModal } from "@/components/CompetitionStandingsModal";
 import { CompetitionSwitcher } from "@/components/CompetitionSwitcher";
 import { CompetitionPicker } from "@/components/CompetitionPicker";
 import { useCompetitions } from "@/lib/competitionService";
-import { COMPETITION_PRESETS } from "@/lib/competitionPresets";
+import type { CompetitionPreset } from "@/lib/competitionPresets";
+import { getClubPresets } from "@/lib/club";
 import { findCompetitionByExternalId, findCompetitionByLeagueFilter } from "@/lib/repositories/competitions";
 import {
   createMatch as createMatchSupabase,
@@ -35,9 +40,11 @@ export default function HomePage() {
   const [goalies, setGoalies] = useState<Goalie[]>([]);
   const [showImport, setShowImport] = useState(false);
   const [importing, setImporting] = useState(false);
-  const [selectedPreset, setSelectedPreset] = useState(COMPETITION_PRESETS[0]);
+  const [selectedPreset, setSelectedPreset] = useState<CompetitionPreset | undefined>(
+    () => getClubPresets(getClub(), "2025-2026")[0]
+  );
   const [importConfig, setImportConfig] = useState({
-    category: "starsi-zaci-a",
+    category: selectedPreset?.id || "",
     season: "2025-2026",
   });
   const [importResult, setImportResult] = useState<{
@@ -51,6 +58,7 @@ export default function HomePage() {
   const [jsonInput, setJsonInput] = useState("");
   const [showImportWizard, setShowImportWizard] = useState(false);
   const [showCompetitionPicker, setShowCompetitionPicker] = useState(false);
+  const [showStandings, setShowStandings] = useState(false);
   const [selectedMatchIds, setSelectedMatchIds] = useState<Set<string>>(new Set());
   const [showBulkMoveModal, setShowBulkMoveModal] = useState(false);
 
@@ -102,6 +110,9 @@ export default function HomePage() {
     setMatches(deduplicateMatches(loadedMatches));
   }, []);
 
+  // Fixtures of tracked competitions are re-scraped in the background
+  const fixtureRefresh = useFixtureRefresh(loadMatches);
+
   const handleAssignCompetition = async (match: Match, competitionId: string | null) => {
     const updatedMatch: Match = {
       ...match,
@@ -251,7 +262,11 @@ export default function HomePage() {
 
   // Standings URL is taken from active competition
 
-  const handlePresetChange = (preset: typeof COMPETITION_PRESETS[0]) => {
+  // Categories of our club, picked in the onboarding
+  const club = getClub();
+  const clubPresets = getClubPresets(club, importConfig.season);
+
+  const handlePresetChange = (preset: CompetitionPreset) => {
     setSelectedPreset(preset);
     setImportConfig({
       category: preset.id,
@@ -264,14 +279,15 @@ export default function HomePage() {
     setImportResult(null);
     try {
       const preset =
-        COMPETITION_PRESETS.find((p) => p.id === importConfig.category) || selectedPreset;
+        clubPresets.find((p) => p.id === importConfig.category) || selectedPreset;
       const response = await fetch("/api/matches/import", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           season: importConfig.season,
           category: importConfig.category || undefined,
-          leagueFilter: preset.leagueFilter || undefined,
+          leagueFilter: preset?.leagueFilter || undefined,
+          club,
         }),
       });
 
@@ -279,11 +295,15 @@ export default function HomePage() {
 
       if (data.success && data.matches) {
         const importPreset =
-          COMPETITION_PRESETS.find((p) => p.id === importConfig.category) || selectedPreset;
+          clubPresets.find((p) => p.id === importConfig.category) || selectedPreset;
+        if (!importPreset) {
+          alert("Vyberte soutěž.");
+          return;
+        }
 
         let competitionId: string | undefined;
         if (importPreset.leagueFilter) {
-          if (isSupabaseConfigured()) {
+          if (isCloudEnabled()) {
             competitionId = (await findCompetitionByLeagueFilter(importPreset.leagueFilter))?.id;
           } else {
             competitionId = userCompetitions.find(
@@ -291,7 +311,7 @@ export default function HomePage() {
             )?.id;
           }
         } else if (importPreset.externalId) {
-          if (isSupabaseConfigured()) {
+          if (isCloudEnabled()) {
             competitionId = (await findCompetitionByExternalId(importPreset.externalId))?.id;
           } else {
             competitionId = userCompetitions.find(
@@ -299,6 +319,8 @@ export default function HomePage() {
             )?.id;
           }
         }
+        // Categories of other clubs are only known by name
+        competitionId ??= userCompetitions.find((c) => c.name === importPreset.name)?.id;
 
         if (!competitionId) {
           alert("Soutěž nebyla nalezena. Zkuste obnovit stránku.");
@@ -306,7 +328,7 @@ export default function HomePage() {
         }
 
         for (const m of data.matches) {
-          const homeTeamName = m.home || m.homeTeamName || "HC Slovan Ústí n.L.";
+          const homeTeamName = m.home || m.homeTeamName || club.name;
           const awayTeamName = m.away || m.awayTeamName || "Hosté";
           const matchToSave = {
             ...m,
@@ -314,7 +336,7 @@ export default function HomePage() {
             competitionIdManuallySet: false,
           };
 
-          if (isSupabaseConfigured()) {
+          if (isCloudEnabled()) {
             const homeTeamId = await findOrCreateTeam(homeTeamName);
             const awayTeamId = await findOrCreateTeam(awayTeamName);
             const payload = {
@@ -484,7 +506,7 @@ export default function HomePage() {
     if (!deletingMatch) return;
     
     const success = await dataService.deleteMatch(deletingMatch.id);
-    if (!success && isSupabaseConfigured()) {
+    if (!success && isCloudEnabled()) {
       alert("Nepodařilo se smazat zápas z databáze");
       setDeletingMatch(null);
       return;
@@ -675,12 +697,12 @@ export default function HomePage() {
                     Vyberte soutěž
                   </label>
                   <div className="grid grid-cols-2 gap-2">
-                    {COMPETITION_PRESETS.map((preset) => (
+                    {clubPresets.map((preset) => (
                       <button
                         key={preset.id}
                         onClick={() => handlePresetChange(preset)}
                         className={`rounded-lg px-3 py-2.5 text-xs font-medium ${
-                          selectedPreset.id === preset.id
+                          selectedPreset?.id === preset.id
                             ? "bg-accentPrimary text-white"
                             : "bg-slate-800 text-slate-300"
                         }`}
@@ -730,7 +752,7 @@ export default function HomePage() {
                 <div className="mb-4 rounded-lg bg-accentSuccess/10 p-3 text-xs text-accentSuccess">
                   <p className="mb-1">✓ Import ze zapasy.ceskyhokej.cz</p>
                   <p className="text-slate-400">
-                    Načte zápasy HC Slovan Ústí nad Labem v okně −7 až +21 dní kolem dneška
+                    Načte zápasy {club.name} v okně −7 až +21 dní kolem dneška
                     (podle vybrané sezóny a filtru kategorie).
                   </p>
                 </div>
@@ -907,6 +929,23 @@ export default function HomePage() {
         }}
       />
 
+      {/* Standings of the active competition */}
+      {activeCompetition && (
+        <CompetitionStandingsModal
+          open={showStandings}
+          onClose={() => setShowStandings(false)}
+          competition={activeCompetition}
+          matches={filteredMatches}
+        />
+      )}
+
+      <FixtureChangeLog
+        changes={fixtureRefresh.changes}
+        refreshedAt={fixtureRefresh.refreshedAt}
+        onMarkAllSeen={fixtureRefresh.markAllSeen}
+        onDismiss={fixtureRefresh.dismissChange}
+      />
+
       {/* Matches list */}
       {matches.length === 0 ? (
         <div className="flex flex-1 flex-col items-center justify-center py-12 text-center">
@@ -1001,34 +1040,22 @@ export default function HomePage() {
                     </button>
                     <button
                       onClick={async () => {
-                        if (!confirm("Aktualizovat nadcházející zápasy z webu?")) return;
-                        setImporting(true);
-                        try {
-                          const res = await fetch("/api/matches/import", {
-                            method: "POST",
-                            headers: { "Content-Type": "application/json" },
-                            body: JSON.stringify({ season: "2025-2026" }),
-                          });
-                          const data = await res.json();
-                          if (data.success && data.matches) {
-                            // Update only upcoming matches
-                            const upcomingFromApi = data.matches.filter((m: Match) => !m.completed);
-                            for (const m of upcomingFromApi) {
-                              await dataService.saveMatch(m);
-                            }
-                            // Reload matches
-                            await loadMatches();
-                            alert(`Aktualizováno ${upcomingFromApi.length} nadcházejících zápasů`);
-                          }
-                        } catch (e) {
-                          alert("Chyba při aktualizaci: " + e);
+                        const result = await fixtureRefresh.refreshNow();
+                        if (!result.success) {
+                          alert("Chyba při aktualizaci: " + result.errors.join(", "));
+                          return;
                         }
-                        setImporting(false);
+                        await loadMatches();
+                        alert(
+                          result.changes.length > 0
+                            ? `Nalezeno ${result.changes.length} změn v rozpisu`
+                            : "Rozpis je aktuální"
+                        );
                       }}
-                      disabled={importing}
+                      disabled={fixtureRefresh.isRefreshing}
                       className="rounded-lg bg-slate-800 px-2 py-1 text-xs text-slate-400 hover:text-white disabled:opacity-50"
                     >
-                      {importing ? "⏳" : "🔄"} Aktualizovat
+                      {fixtureRefresh.isRefreshing ? "⏳" : "🔄"} Aktualizovat
                     </button>
                   </div>
                 )}
@@ -1196,10 +1223,24 @@ export default function HomePage() {
                       >
                         ✓ Vybrat vše
                       </button>
-                      <StandingsButton 
-                        url={currentStandingsUrl} 
-                        label="Tabulka"
-                      />
+                      {activeCompetition ? (
+                        <>
+                          <button
+                            onClick={() => setShowStandings(true)}
+                            className="flex items-center gap-1.5 rounded-lg bg-slate-800 px-3 py-1.5 text-xs font-medium text-accentPrimary hover:bg-slate-700"
+                          >
+                            📊 Tabulka
+                          </button>
+                          {currentStandingsUrl && (
+                            <StandingsButton url={currentStandingsUrl} label="Web" />
+                          )}
+                        </>
+                      ) : (
+                        <StandingsButton 
+                          url={currentStandingsUrl} 
+                          label="Tabulka"
+                        />
+                      )}
                     </>
                   )}
                 </div>
@@ -4,10 +4,15 @@ import { useState, useEffect } from "react";
 import Link from "next/link";
 import { ExportImportModal } from "@/components/ExportImportModal";
 import { StandingsLink } from "@/components/StandingsLink";
+import { WorkspaceSettings } from "@/components/WorkspaceSettings";
+import { SnapshotSettings } from "@/components/SnapshotSettings";
+import { ClubSettings } from "@/components/ClubSettings";
 import { CompetitionPicker } from "@/components/CompetitionPicker";
+import { Select } from "@/components/ui/Select";
 import { useCompetitions } from "@/lib/competitionService";
 import {
   getStorageStats,
+  getStorageBackend,
   getSeasons,
   getCurrentSeason,
   setCurrentSeason,
@@ -17,10 +22,25 @@ import {
   getCompetitions,
   generateSeasonId,
   generateSeasonLabel,
+  getGoalies,
+  getMatches,
+  getSyncConflicts,
 } from "@/lib/storage";
-import { getSyncStatus, uploadToSupabase, downloadFromSupabase, SyncStatus, SyncResult } from "@/lib/sync";
+import {
+  getSyncStatus,
+  uploadToSupabase,
+  downloadFromSupabase,
+  resolveSyncConflict,
+  SyncStatus,
+  SyncResult,
+} from "@/lib/sync";
+import { forceSync } from "@/lib/autoSync";
+import { MATCH_CONFLICT_FIELD_LABELS, type SyncConflict } from "@/lib/syncMerge";
+import { MATCH_RESULT_TYPE_LABELS } from "@/lib/decisions";
+import { DEFAULT_POINT_SYSTEM, POINT_SYSTEMS } from "@/lib/standings";
 import { useToast } from "@/contexts/ToastContext";
-import type { Season, Team, Competition } from "@/lib/types";
+import { useAuth } from "@/contexts/AuthContext";
+import type { Season, Team, Competition, Goalie, MatchResultType } from "@/lib/types";
 
 interface SeasonModalProps {
   open: boolean;
@@ -156,21 +176,212 @@ function SeasonModal({ open, onClose, onSave, editingSeason }: SeasonModalProps)
   );
 }
 
+// ─────────────────────────────────────────────────────────────────────────────
+// Account Section
+// ─────────────────────────────────────────────────────────────────────────────
+
+function AccountSection() {
+  const { isConfigured, user, isLoading, signInWithPassword, signUp, sendMagicLink, signOut } = useAuth();
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  if (!isConfigured) return null;
+
+  const run = async (action: () => Promise<string | null>, successText: string | null) => {
+    if (!email.trim()) {
+      setMessage({ text: "Vyplň e-mail", error: true });
+      return;
+    }
+    setBusy(true);
+    setMessage(null);
+    try {
+      const error = await action();
+      if (error) setMessage({ text: error, error: true });
+      else if (successText) setMessage({ text: successText, error: false });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handlePasswordSignIn = () => {
+    if (!password) {
+      setMessage({ text: "Vyplň heslo", error: true });
+      return;
+    }
+    run(() => signInWithPassword(email.trim(), password), null);
+  };
+
+  const handleSignUp = () => {
+    if (password.length < 6) {
+      setMessage({ text: "Heslo musí mít aspoň 6 znaků", error: true });
+      return;
+    }
+    run(() => signUp(email.trim(), password), "Účet vytvořen – potvrď ho odkazem z e-mailu");
+  };
+
+  const handleSignOut = async () => {
+    if (!confirm("Odhlásit se? Data tohoto účtu zůstanou v cloudu, z tohoto zařízení se odstraní.")) return;
+    setBusy(true);
+    const error = await signOut();
+    if (!error) return;
+    // Nothing was removed yet - the user decides whether to lose the changes
+    if (confirm(`${error}\n\nOdhlásit se přesto? Neodeslané změny se z tohoto zařízení nenávratně smažou.`)) {
+      await signOut({ discardPending: true });
+      return;
+    }
+    setMessage({ text: `${error} Zkus to znovu, až budeš online.`, error: true });
+    setBusy(false);
+  };
+
+  return (
+    <section className="rounded-2xl bg-bgSurfaceSoft p-4">
+      <h2 className="mb-3 text-sm font-semibold text-slate-400">👤 ÚČET</h2>
+
+      {isLoading ? (
+        <div className="py-4 text-center text-sm text-slate-500">Načítání...</div>
+      ) : user ? (
+        <div className="flex items-center justify-between gap-3">
+          <div className="min-w-0">
+            <div className="truncate text-sm font-medium">{user.email}</div>
+            <div className="text-xs text-slate-500">Data se ukládají do tvého účtu</div>
+          </div>
+          <button
+            onClick={handleSignOut}
+            disabled={busy}
+            className="shrink-0 rounded-lg bg-slate-800 px-3 py-2 text-xs text-slate-300 disabled:opacity-50"
+          >
+            Odhlásit
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <p className="text-xs text-slate-400">
+            Přihlas se, aby se data zálohovala do cloudu a byla vidět jen tobě.
+          </p>
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="E-mail"
+            autoComplete="email"
+            className="w-full rounded-lg bg-slate-800 px-3 py-2 text-sm"
+          />
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Heslo"
+            autoComplete="current-password"
+            className="w-full rounded-lg bg-slate-800 px-3 py-2 text-sm"
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={handlePasswordSignIn}
+              disabled={busy}
+              className="rounded-lg bg-accentPrimary py-2 text-sm font-medium text-white disabled:opacity-50"
+            >
+              Přihlásit
+            </button>
+            <button
+              onClick={handleSignUp}
+              disabled={busy}
+              className="rounded-lg bg-slate-800 py-2 text-sm text-slate-300 disabled:opacity-50"
+            >
+              Registrovat
+            </button>
+          </div>
+          <button
+            onClick={() => run(() => sendMagicLink(email.trim()), "Odkaz pro přihlášení odeslán na e-mail")}
+            disabled={busy}
+            className="w-full rounded-lg bg-slate-800 py-2 text-xs text-slate-300 disabled:opacity-50"
+          >
+            ✉️ Poslat přihlašovací odkaz (bez hesla)
+          </button>
+          {message && (
+            <p className={`text-center text-xs ${message.error ? "text-accentDanger" : "text-accentSuccess"}`}>
+              {message.text}
+            </p>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Supabase Sync Section
 // ─────────────────────────────────────────────────────────────────────────────
 
+const MATCH_STATUS_LABELS: Record<string, string> = {
+  scheduled: "Naplánovaný",
+  in_progress: "Probíhá",
+  completed: "Ukončený",
+  cancelled: "Zrušený",
+};
+
+function formatConflictValue(conflict: SyncConflict, value: SyncConflict["localValue"]): string {
+  if (value === null) return "—";
+  if (conflict.field === "status") return MATCH_STATUS_LABELS[String(value)] || String(value);
+  if (conflict.field === "resultType") {
+    return MATCH_RESULT_TYPE_LABELS[value as MatchResultType] || String(value);
+  }
+  if (conflict.field === "goalieId") {
+    const goalie = getGoalies().find((g) => g.id === value);
+    return goalie ? `${goalie.firstName} ${goalie.lastName}` : "Neznámý brankář";
+  }
+  return String(value);
+}
+
 function SupabaseSyncSection({ onDataChange }: { onDataChange: () => void }) {
   const [syncStatus, setSyncStatus] = useState<SyncStatus | null>(null);
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<SyncResult | null>(null);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
   const { addToast } = useToast();
+  const { isConfigured: hasAccounts } = useAuth();
 
   const loadStatus = async () => {
+    setConflicts(getSyncConflicts());
     const status = await getSyncStatus();
     setSyncStatus(status);
   };
 
+  const handleSync = async () => {
+    setLoading(true);
+    setResult(null);
+    try {
+      const res = await forceSync();
+      setResult(res);
+      await loadStatus();
+      if (res.success) {
+        onDataChange();
+        addToast(
+          res.conflicts ? `Synchronizováno, ${res.conflicts} konfliktů k vyřešení` : "Synchronizováno",
+          res.conflicts ? "info" : "success"
+        );
+      } else {
+        addToast(res.errors[0] || "Synchronizace selhala", "error");
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleResolve = async (conflictId: string, keep: "local" | "remote") => {
+    resolveSyncConflict(conflictId, keep);
+    await loadStatus();
+    onDataChange();
+  };
+
+  const getMatchLabel = (matchId: string) => {
+    const match = getMatches().find((m) => m.id === matchId);
+    if (!match) return "Neznámý zápas";
+    const date = new Date(match.datetime).toLocaleDateString("cs-CZ");
+    return `${match.homeTeamName || match.home} – ${match.awayTeamName || match.away} (${date})`;
+  };
+
   useEffect(() => {
     loadStatus();
   }, []);
@@ -211,6 +422,10 @@ function SupabaseSyncSection({ onDataChange }: { onDataChange: () => void }) {
     }
   };
 
+  const pendingTotal = syncStatus
+    ? syncStatus.pendingChanges.goalies + syncStatus.pendingChanges.matches + syncStatus.pendingChanges.events
+    : 0;
+
   return (
     <section className="rounded-2xl bg-bgSurfaceSoft p-4">
       <h2 className="mb-3 text-sm font-semibold text-slate-400">
@@ -221,6 +436,11 @@ function SupabaseSyncSection({ onDataChange }: { onDataChange: () => void }) {
         <div className="py-4 text-center text-sm text-slate-500">
           Načítání...
         </div>
+      ) : !syncStatus.isConfigured && hasAccounts ? (
+        <div className="rounded-xl bg-slate-800/50 p-4 text-center">
+          <p className="text-sm text-slate-300">Pro synchronizaci se přihlas</p>
+          <p className="mt-2 text-xs text-slate-400">Bez účtu zůstávají data jen v tomto zařízení</p>
+        </div>
       ) : !syncStatus.isConfigured ? (
         <div className="rounded-xl bg-yellow-900/20 p-4 text-center">
           <div className="mb-2 text-2xl">⚠️</div>
@@ -275,12 +495,68 @@ function SupabaseSyncSection({ onDataChange }: { onDataChange: () => void }) {
             </div>
           )}
 
+          {pendingTotal > 0 && (
+            <div className="mb-4 text-center text-xs text-accentHighlight">
+              Čeká na odeslání: {syncStatus.pendingChanges.goalies} brankářů •{" "}
+              {syncStatus.pendingChanges.matches} zápasů • {syncStatus.pendingChanges.events} událostí
+            </div>
+          )}
+
+          {/* Conflicts */}
+          {conflicts.length > 0 && (
+            <div className="mb-4 rounded-xl bg-yellow-900/20 p-3">
+              <div className="mb-2 text-sm font-medium text-yellow-200">
+                ⚠️ Konflikty k vyřešení ({conflicts.length})
+              </div>
+              <p className="mb-3 text-xs text-slate-400">
+                Tyto údaje byly změněny na tomto zařízení i v cloudu. Vyber, která hodnota platí.
+              </p>
+              <div className="space-y-2">
+                {conflicts.map((conflict) => (
+                  <div key={conflict.id} className="rounded-lg bg-slate-800/70 p-3 text-xs">
+                    <div className="text-slate-200">{getMatchLabel(conflict.recordId)}</div>
+                    <div className="mb-2 text-slate-500">
+                      {MATCH_CONFLICT_FIELD_LABELS[conflict.field]}
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                      <button
+                        onClick={() => handleResolve(conflict.id, "local")}
+                        className="rounded-lg bg-slate-700 px-2 py-2 text-left"
+                      >
+                        <div className="text-[10px] text-slate-400">Toto zařízení</div>
+                        <div className="font-semibold text-slate-100">
+                          {formatConflictValue(conflict, conflict.localValue)}
+                        </div>
+                      </button>
+                      <button
+                        onClick={() => handleResolve(conflict.id, "remote")}
+                        className="rounded-lg bg-slate-700 px-2 py-2 text-left"
+                      >
+                        <div className="text-[10px] text-slate-400">Cloud</div>
+                        <div className="font-semibold text-accentPrimary">
+                          {formatConflictValue(conflict, conflict.remoteValue)}
+                        </div>
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Actions */}
+          <button
+            onClick={handleSync}
+            disabled={loading}
+            className="mb-3 w-full rounded-xl bg-accentPrimary py-3 text-sm font-semibold text-white disabled:opacity-50"
+          >
+            {loading ? "⏳" : "🔄"} Synchronizovat
+          </button>
           <div className="flex gap-3">
             <button
               onClick={handleUpload}
               disabled={loading}
-              className="flex-1 rounded-xl bg-accentPrimary py-3 text-sm font-semibold text-white disabled:opacity-50"
+              className="flex-1 rounded-xl bg-slate-700 py-3 text-sm font-semibold text-slate-200 disabled:opacity-50"
             >
               {loading ? "⏳" : "⬆️"} Nahrát do cloudu
             </button>
@@ -304,6 +580,11 @@ function SupabaseSyncSection({ onDataChange }: { onDataChange: () => void }) {
                   Nahráno: {result.uploaded.goalies} brankářů, {result.uploaded.matches} zápasů, {result.uploaded.events} událostí
                 </div>
               )}
+              {result.success && result.downloaded && (
+                <div className="text-xs text-slate-400">
+                  Staženo: {result.downloaded.goalies} brankářů, {result.downloaded.matches} zápasů, {result.downloaded.events} událostí
+                </div>
+              )}
               {result.errors.length > 0 && (
                 <div className="mt-2 text-xs text-red-400">
                   {result.errors.map((err, i) => (
@@ -326,10 +607,38 @@ function SupabaseSyncSection({ onDataChange }: { onDataChange: () => void }) {
 interface UserCompetitionModalProps {
   open: boolean;
   onClose: () => void;
-  onSave: (data: { name: string; standingsUrl?: string }) => void;
+  onSave: (data: CompetitionFormData) => void;
   editingCompetition?: Competition | null;
 }
 
+type CompetitionFormData = {
+  name: string;
+  source: NonNullable<Competition["source"]>;
+  standingsUrl?: string;
+  periodLength?: number;
+  overtimeLength?: number;
+  intermissionLength?: number;
+  pointSystem: NonNullable<Competition["pointSystem"]>;
+};
+
+// Sites the matches of a competition can be imported from
+const COMPETITION_SOURCE_OPTIONS = [
+  { value: "manual", label: "Ručně zadávané" },
+  { value: "ceskyhokej", label: "zapasy.ceskyhokej.cz" },
+  { value: "ustecky", label: "ustecky.ceskyhokej.cz (Ústecký kraj)" },
+];
+
+const POINT_SYSTEM_OPTIONS = Object.values(POINT_SYSTEMS).map((system) => ({
+  value: system.id,
+  label: system.label,
+}));
+
+function parseMinutes(value: string): number | undefined {
+  if (!value.trim()) return undefined;
+  const parsed = parseInt(value, 10);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
 function UserCompetitionModal({ 
   open, 
   onClose, 
@@ -337,16 +646,31 @@ function UserCompetitionModal({
   editingCompetition 
 }: UserCompetitionModalProps) {
   const [name, setName] = useState("");
+  const [source, setSource] = useState<CompetitionFormData["source"]>("manual");
   const [standingsUrl, setStandingsUrl] = useState("");
+  const [periodLength, setPeriodLength] = useState("");
+  const [overtimeLength, setOvertimeLength] = useState("");
+  const [intermissionLength, setIntermissionLength] = useState("");
+  const [pointSystem, setPointSystem] = useState<CompetitionFormData["pointSystem"]>(DEFAULT_POINT_SYSTEM);
   const [error, setError] = useState("");
 
   useEffect(() => {
     if (editingCompetition) {
       setName(editingCompetition.name);
+      setSource(editingCompetition.source || "manual");
       setStandingsUrl(editingCompetition.standingsUrl || "");
+      setPeriodLength(editingCompetition.periodLength?.toString() || "");
+      setOvertimeLength(editingCompetition.overtimeLength?.toString() || "");
+      setIntermissionLength(editingCompetition.intermissionLength?.toString() || "");
+      setPointSystem(editingCompetition.pointSystem || DEFAULT_POINT_SYSTEM);
     } else {
       setName("");
+      setSource("manual");
       setStandingsUrl("");
+      setPeriodLength("");
+      setOvertimeLength("");
+      setIntermissionLength("");
+      setPointSystem(DEFAULT_POINT_SYSTEM);
     }
     setError("");
   }, [editingCompetition, open]);
@@ -371,9 +695,20 @@ function UserCompetitionModal({
       }
     }
 
+    const period = parseMinutes(periodLength);
+    if (period !== undefined && (period < 1 || period > 60)) {
+      setError("Délka třetiny musí být 1–60 minut");
+      return;
+    }
+
     onSave({
       name: trimmedName,
+      source,
       standingsUrl: standingsUrl.trim() || undefined,
+      periodLength: period,
+      overtimeLength: parseMinutes(overtimeLength),
+      intermissionLength: parseMinutes(intermissionLength),
+      pointSystem,
     });
     onClose();
   };
@@ -401,6 +736,13 @@ function UserCompetitionModal({
             />
           </div>
 
+          <Select
+            label="Zdroj zápasů"
+            value={source}
+            onChange={(value) => setSource(value as CompetitionFormData["source"])}
+            options={COMPETITION_SOURCE_OPTIONS}
+          />
+
           <div>
             <label className="mb-2 block text-xs text-slate-400">
               Odkaz na tabulku
@@ -418,6 +760,43 @@ function UserCompetitionModal({
             </p>
           </div>
 
+          <div>
+            <label className="mb-2 block text-xs text-slate-400">
+              Herní čas (minuty)
+              <span className="ml-1 font-normal text-slate-500">(volitelné)</span>
+            </label>
+            <div className="grid grid-cols-3 gap-2">
+              {[
+                { label: "Třetina", value: periodLength, onChange: setPeriodLength, placeholder: "20" },
+                { label: "Prodloužení", value: overtimeLength, onChange: setOvertimeLength, placeholder: "5" },
+                { label: "Přestávka", value: intermissionLength, onChange: setIntermissionLength, placeholder: "15" },
+              ].map((field) => (
+                <div key={field.label}>
+                  <input
+                    type="number"
+                    min={0}
+                    inputMode="numeric"
+                    value={field.value}
+                    onChange={(e) => field.onChange(e.target.value)}
+                    placeholder={field.placeholder}
+                    className="w-full rounded-lg bg-slate-800 px-3 py-3 text-center text-sm text-slate-100"
+                  />
+                  <div className="mt-1 text-center text-[10px] text-slate-500">{field.label}</div>
+                </div>
+              ))}
+            </div>
+            <p className="mt-2 text-xs text-slate-500">
+              Prázdné = výchozí hodnoty podle kategorie
+            </p>
+          </div>
+
+          <Select
+            label="Bodování (spočítaná tabulka)"
+            value={pointSystem}
+            onChange={(value) => setPointSystem(value as CompetitionFormData["pointSystem"])}
+            options={POINT_SYSTEM_OPTIONS}
+          />
+
           {error && (
             <div className="rounded-lg bg-accentDanger/20 px-3 py-2 text-xs text-accentDanger">
               {error}
@@ -481,6 +860,7 @@ export default function SettingsPage() {
   const [currentSeasonState, setCurrentSeasonState] = useState<Season | null>(null);
   const [teams, setTeams] = useState<Team[]>([]);
   const [competitions, setCompetitions] = useState<Competition[]>([]);
+  const [goalies, setGoalies] = useState<Goalie[]>([]);
 
   const loadData = () => {
     setStats(getStorageStats());
@@ -488,6 +868,7 @@ export default function SettingsPage() {
     setCurrentSeasonState(getCurrentSeason());
     setTeams(getTeams());
     setCompetitions(getCompetitions());
+    setGoalies(getGoalies());
   };
 
   useEffect(() => {
@@ -530,7 +911,7 @@ export default function SettingsPage() {
   const sortedSeasons = [...seasons].sort((a, b) => b.startYear - a.startYear);
 
   // Handlers for user competitions
-  const handleSaveUserComp = async (data: { name: string; standingsUrl?: string }) => {
+  const handleSaveUserComp = async (data: CompetitionFormData) => {
     if (editingUserComp) {
       await updateUserCompetition(editingUserComp.id, data);
     } else {
@@ -538,9 +919,13 @@ export default function SettingsPage() {
         name: data.name,
         displayName: data.name,
         standingsUrl: data.standingsUrl,
+        periodLength: data.periodLength,
+        overtimeLength: data.overtimeLength,
+        intermissionLength: data.intermissionLength,
+        pointSystem: data.pointSystem,
         category: "",
         seasonId: currentSeasonState?.id || "",
-        source: "manual",
+        source: data.source,
       });
     }
   };
@@ -801,6 +1186,8 @@ export default function SettingsPage() {
           </div>
         </section>
 
+        <ClubSettings />
+
         {/* Teams */}
         <section className="rounded-2xl bg-bgSurfaceSoft p-4">
           <div className="mb-3 flex items-center justify-between">
@@ -870,6 +1257,15 @@ export default function SettingsPage() {
           </p>
         </section>
 
+        {/* Snapshots */}
+        <SnapshotSettings />
+
+        {/* Account */}
+        <AccountSection />
+
+        {/* Club workspaces */}
+        <WorkspaceSettings goalies={goalies} />
+
         {/* Supabase Sync */}
         <SupabaseSyncSection onDataChange={loadData} />
 
@@ -885,7 +1281,9 @@ export default function SettingsPage() {
             </div>
             <div className="flex justify-between">
               <span>Data uložena</span>
-              <span className="text-slate-200">Lokálně (localStorage)</span>
+              <span className="text-slate-200">
+                Lokálně ({getStorageBackend() === "indexeddb" ? "IndexedDB" : "localStorage"})
+              </span>
             </div>
           </div>
         </section>
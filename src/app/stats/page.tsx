@@ -5,20 +5,32 @@ import Link from "next/link";
 import type { Goalie, Season, Competition, GoalieEvent } from "@/lib/types";
 import {
   getSeasons,
+  getTeams,
+  getClub,
   calculateGoalieStats,
 } from "@/lib/storage";
 import { dataService } from "@/lib/dataService";
+import { formatGoalieRecord } from "@/lib/decisions";
+import { formatGsax } from "@/lib/xg";
 import type { Match } from "@/lib/types";
 
 type SortKey =
   | "name"
   | "games"
+  | "wins"
   | "shots"
   | "saves"
   | "goals"
   | "savePercentage"
   | "shutouts"
-  | "gaa";
+  | "highDanger"
+  | "shootout"
+  | "minutes"
+  | "gaa"
+  | "shotsPer60"
+  | "savesPer60"
+  | "xga"
+  | "gsax";
 type SortOrder = "asc" | "desc";
 
 export default function StatsPage() {
@@ -58,17 +70,22 @@ export default function StatsPage() {
 
   // Calculate stats for all goalies
   const goalieStats = useMemo(() => {
+    const teams = getTeams();
+    const club = getClub();
     return goalies.map((goalie) => {
       const stats = calculateGoalieStats(
         goalie.id,
         selectedSeason === "all" ? undefined : selectedSeason,
         selectedCompetition === "all" ? undefined : selectedCompetition,
         allEvents, // Pass events from Supabase/localStorage
-        allMatches // Pass matches from Supabase/localStorage
+        allMatches, // Pass matches from Supabase/localStorage
+        competitions, // Period lengths for time on ice
+        undefined,
+        { goalie, teams, club } // Our side of each match
       );
       return { goalie, stats };
     });
-  }, [goalies, selectedSeason, selectedCompetition, allEvents, allMatches]);
+  }, [goalies, selectedSeason, selectedCompetition, allEvents, allMatches, competitions]);
 
   // Sort goalies
   const sortedGoalieStats = useMemo(() => {
@@ -89,6 +106,10 @@ export default function StatsPage() {
           aVal = a.stats.totalShots;
           bVal = b.stats.totalShots;
           break;
+        case "wins":
+          aVal = a.stats.wins;
+          bVal = b.stats.wins;
+          break;
         case "saves":
           aVal = a.stats.totalSaves;
           bVal = b.stats.totalSaves;
@@ -105,9 +126,37 @@ export default function StatsPage() {
           aVal = a.stats.shutouts;
           bVal = b.stats.shutouts;
           break;
+        case "highDanger":
+          aVal = a.stats.shotsHD ? (a.stats.savesHD || 0) / a.stats.shotsHD : 0;
+          bVal = b.stats.shotsHD ? (b.stats.savesHD || 0) / b.stats.shotsHD : 0;
+          break;
+        case "shootout":
+          aVal = a.stats.shootoutShots ? (a.stats.shootoutSaves || 0) / a.stats.shootoutShots : 0;
+          bVal = b.stats.shootoutShots ? (b.stats.shootoutSaves || 0) / b.stats.shootoutShots : 0;
+          break;
+        case "minutes":
+          aVal = a.stats.minutesPlayed || 0;
+          bVal = b.stats.minutesPlayed || 0;
+          break;
         case "gaa":
-          aVal = a.stats.gamesPlayed > 0 ? a.stats.totalGoals / a.stats.gamesPlayed : 0;
-          bVal = b.stats.gamesPlayed > 0 ? b.stats.totalGoals / b.stats.gamesPlayed : 0;
+          aVal = a.stats.goalsAgainstAverage || 0;
+          bVal = b.stats.goalsAgainstAverage || 0;
+          break;
+        case "shotsPer60":
+          aVal = a.stats.shotsPer60 || 0;
+          bVal = b.stats.shotsPer60 || 0;
+          break;
+        case "savesPer60":
+          aVal = a.stats.savesPer60 || 0;
+          bVal = b.stats.savesPer60 || 0;
+          break;
+        case "xga":
+          aVal = a.stats.expectedGoals || 0;
+          bVal = b.stats.expectedGoals || 0;
+          break;
+        case "gsax":
+          aVal = a.stats.goalsSavedAboveExpected || 0;
+          bVal = b.stats.goalsSavedAboveExpected || 0;
           break;
         default:
           aVal = a.stats.savePercentage;
@@ -265,6 +314,12 @@ export default function StatsPage() {
                   >
                     Z{getSortIndicator("games") && <span className="ml-1">{getSortIndicator("games")}</span>}
                   </th>
+                  <th
+                    className="cursor-pointer p-3 text-center font-medium"
+                    onClick={() => handleSort("wins")}
+                  >
+                    V-P-PP{getSortIndicator("wins") && <span className="ml-1">{getSortIndicator("wins")}</span>}
+                  </th>
                   <th
                     className="cursor-pointer p-3 text-center font-medium"
                     onClick={() => handleSort("shots")}
@@ -295,12 +350,54 @@ export default function StatsPage() {
                   >
                     SO{getSortIndicator("shutouts") && <span className="ml-1">{getSortIndicator("shutouts")}</span>}
                   </th>
+                  <th
+                    className="cursor-pointer p-3 text-center font-medium"
+                    onClick={() => handleSort("highDanger")}
+                  >
+                    VN%{getSortIndicator("highDanger") && <span className="ml-1">{getSortIndicator("highDanger")}</span>}
+                  </th>
+                  <th
+                    className="cursor-pointer p-3 text-center font-medium"
+                    onClick={() => handleSort("shootout")}
+                  >
+                    SN%{getSortIndicator("shootout") && <span className="ml-1">{getSortIndicator("shootout")}</span>}
+                  </th>
+                  <th
+                    className="cursor-pointer p-3 text-center font-medium"
+                    onClick={() => handleSort("minutes")}
+                  >
+                    MIN{getSortIndicator("minutes") && <span className="ml-1">{getSortIndicator("minutes")}</span>}
+                  </th>
                   <th
                     className="cursor-pointer p-3 text-center font-medium"
                     onClick={() => handleSort("gaa")}
                   >
                     GAA{getSortIndicator("gaa") && <span className="ml-1">{getSortIndicator("gaa")}</span>}
                   </th>
+                  <th
+                    className="cursor-pointer p-3 text-center font-medium"
+                    onClick={() => handleSort("shotsPer60")}
+                  >
+                    S/60{getSortIndicator("shotsPer60") && <span className="ml-1">{getSortIndicator("shotsPer60")}</span>}
+                  </th>
+                  <th
+                    className="cursor-pointer p-3 text-center font-medium"
+                    onClick={() => handleSort("savesPer60")}
+                  >
+                    ZÁK/60{getSortIndicator("savesPer60") && <span className="ml-1">{getSortIndicator("savesPer60")}</span>}
+                  </th>
+                  <th
+                    className="cursor-pointer p-3 text-center font-medium"
+                    onClick={() => handleSort("xga")}
+                  >
+                    xGA{getSortIndicator("xga") && <span className="ml-1">{getSortIndicator("xga")}</span>}
+                  </th>
+                  <th
+                    className="cursor-pointer p-3 text-center font-medium"
+                    onClick={() => handleSort("gsax")}
+                  >
+                    GSAx{getSortIndicator("gsax") && <span className="ml-1">{getSortIndicator("gsax")}</span>}
+                  </th>
                 </tr>
               </thead>
               <tbody>
@@ -334,6 +431,9 @@ export default function StatsPage() {
                     <td className="p-3 text-center text-slate-300">
                       {stats.gamesPlayed}
                     </td>
+                    <td className="p-3 text-center font-mono text-xs text-slate-300">
+                      {formatGoalieRecord(stats)}
+                    </td>
                     <td className="p-3 text-center text-slate-300">
                       {stats.totalShots}
                     </td>
@@ -352,8 +452,45 @@ export default function StatsPage() {
                       {stats.shutouts}
                     </td>
                     <td className="p-3 text-center text-slate-300">
-                      {stats.gamesPlayed > 0
-                        ? (stats.totalGoals / stats.gamesPlayed).toFixed(2)
+                      {stats.shotsHD
+                        ? (((stats.savesHD || 0) / stats.shotsHD) * 100).toFixed(1)
+                        : "-"}
+                    </td>
+                    <td className="p-3 text-center text-slate-300">
+                      {stats.shootoutShots
+                        ? (((stats.shootoutSaves || 0) / stats.shootoutShots) * 100).toFixed(1)
+                        : "-"}
+                    </td>
+                    <td className="p-3 text-center text-slate-300">
+                      {stats.minutesPlayed || 0}
+                    </td>
+                    <td className="p-3 text-center text-slate-300">
+                      {stats.minutesPlayed
+                        ? (stats.goalsAgainstAverage || 0).toFixed(2)
+                        : "-"}
+                    </td>
+                    <td className="p-3 text-center text-slate-300">
+                      {stats.minutesPlayed
+                        ? (stats.shotsPer60 || 0).toFixed(1)
+                        : "-"}
+                    </td>
+                    <td className="p-3 text-center text-slate-300">
+                      {stats.minutesPlayed
+                        ? (stats.savesPer60 || 0).toFixed(1)
+                        : "-"}
+                    </td>
+                    <td className="p-3 text-center text-slate-300">
+                      {stats.expectedGoals ? stats.expectedGoals.toFixed(1) : "-"}
+                    </td>
+                    <td
+                      className={`p-3 text-center font-semibold ${
+                        (stats.goalsSavedAboveExpected || 0) >= 0
+                          ? "text-accentSuccess"
+                          : "text-accentDanger"
+                      }`}
+                    >
+                      {stats.expectedGoals
+                        ? formatGsax(stats.goalsSavedAboveExpected || 0)
                         : "-"}
                     </td>
                   </tr>
@@ -366,10 +503,18 @@ export default function StatsPage() {
         {/* Legend */}
         <div className="mt-4 flex flex-wrap gap-4 text-xs text-slate-500">
           <span>Z = Zápasy</span>
+          <span>V-P-PP = Výhry, prohry, prohry po prodloužení/nájezdech (4. číslo = remízy)</span>
           <span>S = Střely</span>
           <span>ZÁK = Zákroky</span>
           <span>G = Góly</span>
           <span>% = Save %</span>
+          <span>VN% = Save % na střely z vysoké nebezpečnosti</span>
+          <span>SN% = Save % v samostatných nájezdech (nezapočítává se do ostatních statistik)</span>
+          <span>MIN = Odehrané minuty</span>
+          <span>GAA = Góly na 60 minut</span>
+          <span>S/60, ZÁK/60 = Střely a zákroky na 60 minut</span>
+          <span>xGA = Očekávané góly (podle místa a typu střely)</span>
+          <span>GSAx = Góly zachráněné nad očekávání (xGA − G)</span>
         </div>
       </div>
     </main>
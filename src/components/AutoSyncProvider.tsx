@@ -1,21 +1,34 @@
 "use client";
 
 import { ReactNode } from 'react';
+import { usePathname } from 'next/navigation';
 import { useAutoSync } from '@/hooks/useAutoSync';
+import { isLiveSharePath } from '@/lib/liveShare';
 
 interface AutoSyncProviderProps {
   children: ReactNode;
 }
 
-/**
- * Provider component that starts auto-sync in background
- */
-export function AutoSyncProvider({ children }: AutoSyncProviderProps) {
+function AutoSyncRunner() {
   // Auto-sync is started by useAutoSync hook
   // This component just ensures the hook is called at app level
   useAutoSync();
+  return null;
+}
 
-  return <>{children}</>;
+/**
+ * Provider component that starts auto-sync in background
+ * (not on the public live page - viewers have no data of their own)
+ */
+export function AutoSyncProvider({ children }: AutoSyncProviderProps) {
+  const pathname = usePathname();
+
+  return (
+    <>
+      {!isLiveSharePath(pathname) && <AutoSyncRunner />}
+      {children}
+    </>
+  );
 }
 
 
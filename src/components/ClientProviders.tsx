@@ -1,12 +1,21 @@
 "use client";
 
 import { ReactNode, useEffect, useState } from "react";
+import { usePathname } from "next/navigation";
 import { CompetitionProvider } from "@/lib/competitionService";
 import { ToastProvider } from "@/contexts/ToastContext";
+import { AuthProvider } from "@/contexts/AuthContext";
+import { WorkspaceProvider } from "@/contexts/WorkspaceContext";
 import { ToastViewport } from "@/components/Toast";
 import { OnboardingWizard } from "@/components/OnboardingWizard";
 import { runMigrations } from "@/lib/migration";
 import { ensurePresetsExist, ensureSeasonsExist } from "@/lib/dataService";
+import { isLiveSharePath } from "@/lib/liveShare";
+import { ensureDailySnapshot } from "@/lib/snapshots";
+import { initStorage } from "@/lib/storage";
+import { whenAuthReady } from "@/lib/supabaseClient";
+
+const SNAPSHOT_CHECK_INTERVAL_MS = 60 * 60 * 1000;
 
 interface ClientProvidersProps {
   children: ReactNode;
@@ -18,17 +27,60 @@ interface ClientProvidersProps {
  */
 export function ClientProviders({ children }: ClientProvidersProps) {
   const [migrationComplete, setMigrationComplete] = useState(false);
+  const [storageFailed, setStorageFailed] = useState(false);
+  // Public live page: a viewer's device must not seed or onboard anything
+  const isPublicPage = isLiveSharePath(usePathname());
 
   // Run migrations before rendering the app
   useEffect(() => {
+    if (isPublicPage) {
+      initStorage().finally(() => setMigrationComplete(true));
+      return;
+    }
     const run = async () => {
-      runMigrations();
+      await runMigrations();
+      // Collections live in IndexedDB - loaded before any screen reads them.
+      // If it holds the data but cannot be opened, nothing may start on the
+      // empty localStorage
+      if (!(await initStorage())) {
+        setStorageFailed(true);
+        return;
+      }
+      // Seeding goes to the cloud only for a signed-in user
+      await whenAuthReady();
       await ensureSeasonsExist();
       await ensurePresetsExist();
       setMigrationComplete(true);
     };
     run();
-  }, []);
+  }, [isPublicPage]);
+
+  // Daily snapshot - checked on start and hourly while the app stays open
+  useEffect(() => {
+    if (isPublicPage || !migrationComplete) return;
+    ensureDailySnapshot();
+    const timer = setInterval(ensureDailySnapshot, SNAPSHOT_CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isPublicPage, migrationComplete]);
+
+  if (storageFailed) {
+    return (
+      <main className="flex flex-1 flex-col items-center justify-center gap-4 px-6 py-12 text-center">
+        <div className="text-4xl">⚠️</div>
+        <h1 className="text-lg font-semibold">Data v zařízení se nepodařilo načíst</h1>
+        <p className="text-sm text-slate-400">
+          Úložiště prohlížeče (IndexedDB) teď nejde otevřít. Data v něm zůstala, aplikace je
+          jen nemůže přečíst. Zkus stránku načíst znovu, případně zavři ostatní okna s aplikací.
+        </p>
+        <button
+          onClick={() => window.location.reload()}
+          className="rounded-xl bg-accentPrimary px-5 py-2.5 text-sm font-semibold text-white"
+        >
+          Načíst znovu
+        </button>
+      </main>
+    );
+  }
 
   // Wait for migrations to complete before rendering
   if (!migrationComplete) {
@@ -37,11 +89,15 @@ export function ClientProviders({ children }: ClientProvidersProps) {
 
   return (
     <ToastProvider>
-      <CompetitionProvider>
-        {/* Onboarding wizard shows automatically when no competitions exist */}
-        <OnboardingWizard />
-        {children}
-      </CompetitionProvider>
+      <AuthProvider>
+        <WorkspaceProvider>
+          <CompetitionProvider>
+            {/* Onboarding wizard shows automatically when no competitions exist */}
+            {!isPublicPage && <OnboardingWizard />}
+            {children}
+          </CompetitionProvider>
+        </WorkspaceProvider>
+      </AuthProvider>
       <ToastViewport />
     </ToastProvider>
   );
@@ -0,0 +1,48 @@
+"use client";
+
+import { useState } from "react";
+import { useToast } from "@/contexts/ToastContext";
+import { ClubSetup } from "@/components/ClubSetup";
+import { ensurePresetsExist } from "@/lib/dataService";
+import { useCompetitions } from "@/lib/competitionService";
+import { getClub, saveClubConfig } from "@/lib/storage";
+import type { ClubConfig } from "@/lib/club";
+
+export function ClubSettings() {
+  const { addToast } = useToast();
+  const { reload } = useCompetitions();
+  const [club, setClub] = useState<ClubConfig>(getClub);
+  const [editing, setEditing] = useState(false);
+
+  const handleSave = async (next: ClubConfig) => {
+    saveClubConfig(next);
+    setClub(next);
+    setEditing(false);
+    // Competitions of newly tracked categories
+    await ensurePresetsExist();
+    await reload();
+    addToast("Klub uložen", "success");
+  };
+
+  return (
+    <section className="rounded-2xl bg-bgSurfaceSoft p-4">
+      <div className="mb-3 flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-slate-400">🏟️ MŮJ KLUB</h2>
+        <button onClick={() => setEditing(!editing)} className="text-xs text-accentPrimary">
+          {editing ? "Zrušit" : "Změnit"}
+        </button>
+      </div>
+
+      {editing ? (
+        <ClubSetup club={club} onSave={handleSave} />
+      ) : (
+        <div className="rounded-lg bg-slate-800/50 px-3 py-2">
+          <div className="font-medium text-slate-200">{club.name}</div>
+          <div className="text-xs text-slate-500">
+            {club.shortName} • {club.categories.length} sledovaných kategorií
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,257 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Select } from "@/components/ui/Select";
+import type { DiscoveredCompetition } from "@/components/CompetitionSearchDropdown";
+import { getCurrentSeason } from "@/lib/storage";
+import { DEFAULT_CLUB, suggestShortName, type ClubCategory, type ClubConfig } from "@/lib/club";
+
+// The club list has hundreds of entries, the search shows the first ones
+const MAX_LISTED_CLUBS = 20;
+
+interface ClubOption {
+  id: string;
+  name: string;
+}
+
+interface ClubSetupProps {
+  club: ClubConfig | null; // Current choice, null = not picked yet
+  submitLabel?: string;
+  onSave: (club: ClubConfig) => void;
+}
+
+function normalizeSearch(value: string): string {
+  return value
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "");
+}
+
+function toCategory(competition: DiscoveredCompetition): ClubCategory {
+  return {
+    id: normalizeSearch(competition.name).replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, ""),
+    name: competition.fullName || competition.name,
+    aliases: [competition.name],
+  };
+}
+
+export function ClubSetup({ club, submitLabel = "Uložit klub", onSave }: ClubSetupProps) {
+  const season = String(getCurrentSeason().startYear);
+  const [clubs, setClubs] = useState<ClubOption[]>([]);
+  const [regions, setRegions] = useState<ClubOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState("");
+  const [selected, setSelected] = useState<ClubOption | null>(
+    club ? { id: club.externalId, name: club.name } : null
+  );
+  const [regionId, setRegionId] = useState(club?.regionId || "");
+  const [shortName, setShortName] = useState(club?.shortName || "");
+  const [aliases, setAliases] = useState(club?.aliases.join(", ") || "");
+  const [categories, setCategories] = useState<ClubCategory[]>(club?.categories || []);
+  const [tracked, setTracked] = useState<Set<string>>(new Set(club?.categories.map((c) => c.id)));
+  const [loadingCategories, setLoadingCategories] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    fetch(`/api/clubs?season=${season}`)
+      .then((r) => r.json())
+      .then((data) => {
+        if (data.success) {
+          setClubs(data.clubs || []);
+          setRegions(data.regions || []);
+        } else {
+          setError("Seznam klubů se nepodařilo načíst");
+        }
+      })
+      .catch(() => setError("Seznam klubů se nepodařilo načíst"))
+      .finally(() => setLoading(false));
+  }, [season]);
+
+  // Categories the club plays this season, the saved ones stay on the list
+  const loadCategories = useCallback(
+    async (teamId: string, saved: ClubCategory[]): Promise<ClubCategory[]> => {
+      if (teamId === DEFAULT_CLUB.externalId) {
+        setCategories(DEFAULT_CLUB.categories);
+        return DEFAULT_CLUB.categories;
+      }
+      setLoadingCategories(true);
+      let list = saved;
+      try {
+        const response = await fetch(`/api/competitions/discover?season=${season}&teamId=${teamId}`);
+        const data = await response.json();
+        const discovered: ClubCategory[] = data.success ? (data.competitions || []).map(toCategory) : [];
+        const ids = new Set(discovered.map((c) => c.id));
+        list = [...saved.filter((c) => !ids.has(c.id)), ...discovered];
+      } catch {
+        // Keep the saved categories
+      }
+      setCategories(list);
+      setLoadingCategories(false);
+      return list;
+    },
+    [season]
+  );
+
+  // Only the club passed in first, callers may hand in a fresh copy on every render
+  const [initialClub] = useState(club);
+  useEffect(() => {
+    if (initialClub) loadCategories(initialClub.externalId, initialClub.categories);
+  }, [initialClub, loadCategories]);
+
+  const filtered = useMemo(() => {
+    const needle = normalizeSearch(search.trim());
+    if (!needle) return [];
+    return clubs.filter((c) => normalizeSearch(c.name).includes(needle)).slice(0, MAX_LISTED_CLUBS);
+  }, [clubs, search]);
+
+  const handlePick = async (option: ClubOption) => {
+    const isDefault = option.id === DEFAULT_CLUB.externalId;
+    setSelected(option);
+    setSearch("");
+    setError("");
+    setRegionId(isDefault ? DEFAULT_CLUB.regionId || "" : "");
+    setShortName(isDefault ? DEFAULT_CLUB.shortName : suggestShortName(option.name));
+    setAliases(isDefault ? DEFAULT_CLUB.aliases.join(", ") : "");
+    setCategories([]);
+    const saved = initialClub?.externalId === option.id ? initialClub.categories : [];
+    const list = await loadCategories(option.id, saved);
+    // A newly picked club tracks all its categories until some are unticked
+    setTracked(new Set((saved.length > 0 ? saved : list).map((c) => c.id)));
+  };
+
+  const isTracked = (category: ClubCategory) => tracked.has(category.id);
+
+  const toggleCategory = (category: ClubCategory) => {
+    const next = new Set(tracked);
+    if (next.has(category.id)) next.delete(category.id);
+    else next.add(category.id);
+    setTracked(next);
+  };
+
+  const handleSave = () => {
+    if (!selected) {
+      setError("Vyberte klub");
+      return;
+    }
+    const name = shortName.trim();
+    if (name.length < 2) {
+      setError("Krátký název musí mít alespoň 2 znaky");
+      return;
+    }
+    onSave({
+      externalId: selected.id,
+      regionId: regionId || undefined,
+      name: selected.name,
+      shortName: name,
+      aliases: aliases
+        .split(",")
+        .map((alias) => alias.trim())
+        .filter(Boolean),
+      categories: categories.filter(isTracked),
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="mb-2 block text-xs font-medium text-slate-300">Klub na ceskyhokej.cz *</label>
+        {selected && (
+          <div className="mb-2 rounded-lg bg-accentPrimary/20 px-3 py-2 text-sm font-medium text-accentPrimary">
+            {selected.name}
+          </div>
+        )}
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder={loading ? "Načítání klubů..." : "Hledat klub (např. Slovan)"}
+          disabled={loading}
+          className="w-full rounded-xl border border-borderSoft bg-slate-800 px-4 py-3 text-sm text-slate-100 placeholder:text-slate-500 focus:border-accentPrimary focus:outline-none"
+        />
+        {filtered.length > 0 && (
+          <div className="mt-1 max-h-60 overflow-y-auto rounded-xl border border-borderSoft bg-slate-800">
+            {filtered.map((option) => (
+              <button
+                key={option.id}
+                type="button"
+                onClick={() => handlePick(option)}
+                className="block w-full px-4 py-2 text-left text-sm text-slate-200 hover:bg-slate-700"
+              >
+                {option.name}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {selected && (
+        <>
+          {regions.length > 0 && (
+            <Select
+              label="Kraj (volitelné)"
+              value={regionId}
+              onChange={setRegionId}
+              options={[{ value: "", label: "Všechny kraje" }, ...regions.map((r) => ({ value: r.id, label: r.name }))]}
+            />
+          )}
+
+          <div>
+            <label className="mb-2 block text-xs font-medium text-slate-300">Krátký název *</label>
+            <input
+              type="text"
+              value={shortName}
+              onChange={(e) => setShortName(e.target.value)}
+              className="w-full rounded-xl border border-borderSoft bg-slate-800 px-4 py-3 text-sm text-slate-100 focus:border-accentPrimary focus:outline-none"
+            />
+            <p className="mt-1 text-xs text-slate-500">
+              Podle něj se v rozpisech pozná náš tým. Další podoby názvu oddělte čárkou:
+            </p>
+            <input
+              type="text"
+              value={aliases}
+              onChange={(e) => setAliases(e.target.value)}
+              placeholder="např. Slovan Ústí n.Labem"
+              className="mt-1 w-full rounded-xl border border-borderSoft bg-slate-800 px-4 py-2 text-sm text-slate-100 placeholder:text-slate-500 focus:border-accentPrimary focus:outline-none"
+            />
+          </div>
+
+          <div>
+            <label className="mb-2 block text-xs font-medium text-slate-300">Sledované kategorie</label>
+            {loadingCategories ? (
+              <p className="text-xs text-slate-500">Načítání soutěží klubu...</p>
+            ) : categories.length === 0 ? (
+              <p className="text-xs text-slate-500">Klub v této sezóně nemá žádné zápasy</p>
+            ) : (
+              <div className="max-h-48 space-y-1 overflow-y-auto">
+                {categories.map((category) => (
+                  <label key={category.id} className="flex items-center gap-2 text-sm text-slate-200">
+                    <input
+                      type="checkbox"
+                      checked={isTracked(category)}
+                      onChange={() => toggleCategory(category)}
+                      className="h-4 w-4 rounded accent-accentPrimary"
+                    />
+                    {category.name}
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+
+      {error && (
+        <div className="rounded-lg bg-accentDanger/20 px-3 py-2 text-xs text-accentDanger">{error}</div>
+      )}
+
+      <button
+        type="button"
+        onClick={handleSave}
+        disabled={!selected || loadingCategories}
+        className="w-full rounded-xl bg-accentPrimary py-3.5 text-sm font-semibold text-white transition-colors hover:bg-accentPrimary/90 disabled:opacity-50"
+      >
+        {submitLabel}
+      </button>
+    </div>
+  );
+}
@@ -1,24 +1,16 @@
 "use client";
 
 import { useEffect, useMemo, useRef, useState } from "react";
+import { getClub } from "@/lib/storage";
+import type { DiscoveredCompetition } from "@/lib/scrapers/types";
 
-export interface DiscoveredCompetition {
-  name: string;
-  fullName?: string;
-  abbreviation: string;
-  matchCount: number;
-  completedCount?: number;
-  upcomingCount?: number;
-  hasUpcoming: boolean;
-  hasCompleted: boolean;
-  sampleMatch?: string;
-}
+export type { DiscoveredCompetition };
 
 interface CompetitionSearchDropdownProps {
   onSelect: (competition: DiscoveredCompetition | null) => void;
   selectedCompetition: DiscoveredCompetition | null;
   season?: string;
-  teamId?: string;
+  teamId?: string; // Defaults to our club
   placeholder?: string;
   className?: string;
 }
@@ -65,7 +57,7 @@ export function CompetitionSearchDropdown({
     if (!isOpen || competitions.length > 0) return;
     setLoading(true);
     const fetchSeason = normalizeSeason(season);
-    const fetchTeam = teamId || "1710";
+    const fetchTeam = teamId || getClub().externalId;
     fetch(`/api/competitions/discover?season=${fetchSeason}&teamId=${fetchTeam}`)
       .then((r) => r.json())
       .then((data) => {
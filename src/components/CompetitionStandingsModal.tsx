@@ -0,0 +1,180 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { StandingsModal } from "@/components/StandingsTable";
+import { getClub, getStandingsByCompetition, saveStandings } from "@/lib/storage";
+import {
+  compareStandings,
+  computeStandings,
+  findMatchingStandings,
+  getPointSystem,
+} from "@/lib/standings";
+import type { Competition, CompetitionStandings, Match } from "@/lib/types";
+
+interface CompetitionStandingsModalProps {
+  open: boolean;
+  onClose: () => void;
+  competition: Competition;
+  matches: Match[]; // Matches of the competition
+}
+
+type StandingsView = "scraped" | "computed";
+
+/**
+ * Official table of the competition next to the one computed from its
+ * matches. The computed table stands in when the website has none.
+ */
+export function CompetitionStandingsModal({ open, onClose, competition, matches }: CompetitionStandingsModalProps) {
+  const [scraped, setScraped] = useState<CompetitionStandings | null>(null);
+  const [view, setView] = useState<StandingsView>("computed");
+  const [loading, setLoading] = useState(false);
+  const [notFound, setNotFound] = useState(false);
+  const [showDifferences, setShowDifferences] = useState(false);
+
+  const computed = useMemo(
+    () =>
+      computeStandings(matches, {
+        competitionId: competition.id,
+        seasonId: competition.seasonId,
+        competitionName: competition.displayName || competition.name,
+        pointSystem: competition.pointSystem,
+        club: getClub(),
+      }),
+    [matches, competition]
+  );
+
+  const comparison = useMemo(
+    () => (scraped && computed.rows.length > 0 ? compareStandings(computed, scraped) : null),
+    [computed, scraped]
+  );
+
+  const loadScraped = useCallback(async () => {
+    // Nothing played yet - no teams to find the official table by
+    if (computed.rows.length === 0) return;
+    setLoading(true);
+    setNotFound(false);
+    try {
+      const endYear = competition.seasonId.split("-")[1] || "";
+      const club = encodeURIComponent(JSON.stringify(getClub()));
+      const response = await fetch(`/api/standings?season=${endYear}&club=${club}`);
+      const data = await response.json();
+      const candidates: CompetitionStandings[] = data.success ? data.standings || [] : [];
+      const match = findMatchingStandings(computed, candidates);
+      if (!match) {
+        setNotFound(true);
+        return;
+      }
+      const standings = { ...match, competitionId: competition.id, seasonId: competition.seasonId };
+      saveStandings(standings);
+      setScraped(standings);
+      setView("scraped");
+    } catch (err) {
+      console.error("[CompetitionStandings] Failed to load standings:", err);
+      setNotFound(true);
+    } finally {
+      setLoading(false);
+    }
+  }, [competition, computed]);
+
+  // Called only on opening - loadScraped changes with every match edit
+  const loadScrapedRef = useRef(loadScraped);
+
+  useEffect(() => {
+    loadScrapedRef.current = loadScraped;
+  }, [loadScraped]);
+
+  // Cached official table first, the website only when there is none
+  useEffect(() => {
+    if (!open) return;
+    const cached = getStandingsByCompetition(competition.id, competition.seasonId) || null;
+    setScraped(cached);
+    setView(cached ? "scraped" : "computed");
+    setShowDifferences(false);
+    if (!cached) loadScrapedRef.current();
+  }, [open, competition.id, competition.seasonId]);
+
+  const activeView: StandingsView = view === "scraped" && scraped ? "scraped" : "computed";
+  const shown = activeView === "scraped" && scraped ? scraped : computed;
+  const gamesCounted = computed.rows.reduce((sum, r) => sum + r.gamesPlayed, 0) / 2;
+
+  const notice = (
+    <div className="mb-3 space-y-2">
+      <div className="flex gap-1 rounded-lg bg-slate-800 p-1">
+        {([
+          { value: "scraped", label: "Oficiální" },
+          { value: "computed", label: "Spočítaná" },
+        ] as const).map((tab) => (
+          <button
+            key={tab.value}
+            onClick={() => setView(tab.value)}
+            disabled={tab.value === "scraped" && !scraped}
+            className={`flex-1 rounded-md py-1.5 text-xs font-medium disabled:opacity-40 ${
+              activeView === tab.value
+                ? "bg-accentPrimary text-white"
+                : "text-slate-400"
+            }`}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {comparison &&
+        (comparison.agrees ? (
+          <div className="rounded-lg bg-accentSuccess/10 px-3 py-2 text-xs text-accentSuccess">
+            ✓ Spočítaná tabulka se shoduje s oficiální
+          </div>
+        ) : (
+          <div className="rounded-lg bg-yellow-900/20 px-3 py-2 text-xs text-yellow-200">
+            <button onClick={() => setShowDifferences((s) => !s)} className="w-full text-left">
+              ⚠️ Tabulky se liší u {comparison.differences.length}{" "}
+              {comparison.differences.length === 1 ? "týmu" : "týmů"}
+              <span className="ml-1 text-yellow-200/60">{showDifferences ? "▲" : "▼"}</span>
+            </button>
+            {showDifferences && (
+              <ul className="mt-2 space-y-1 text-[11px]">
+                {comparison.differences.map((d, i) => (
+                  <li key={`${d.teamName}-${i}`} className="flex justify-between gap-2">
+                    <span className="truncate">{d.teamName}</span>
+                    <span className="shrink-0 text-yellow-200/80">
+                      {d.computed ? `${d.computed.position}. / ${d.computed.points} b.` : "–"}
+                      {" × "}
+                      {d.scraped ? `${d.scraped.position}. / ${d.scraped.points} b.` : "–"}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {showDifferences && (
+              <p className="mt-2 text-[10px] text-yellow-200/60">
+                spočítaná × oficiální – chybí některé zápasy nebo výsledky?
+              </p>
+            )}
+          </div>
+        ))}
+
+      {activeView === "computed" && (
+        <p className="text-[10px] text-slate-500">
+          Spočítáno z {gamesCounted} zápasů uložených v aplikaci, bodování{" "}
+          {getPointSystem(competition.pointSystem).label}
+          {computed.rows.some((r) => r.tiebreak) && " · * = rozhodlo při rovnosti bodů"}
+        </p>
+      )}
+      {!scraped && notFound && !loading && (
+        <p className="text-[10px] text-slate-500">Oficiální tabulka této soutěže nebyla nalezena</p>
+      )}
+    </div>
+  );
+
+  return (
+    <StandingsModal
+      open={open}
+      onClose={onClose}
+      standings={shown.rows.length > 0 ? shown : null}
+      title={competition.displayName || competition.name}
+      loading={loading && !scraped && computed.rows.length === 0}
+      onRefresh={computed.rows.length > 0 ? loadScraped : undefined}
+      notice={notice}
+    />
+  );
+}
@@ -0,0 +1,37 @@
+"use client";
+
+import type { GoalieEvent } from "@/lib/types";
+import { DANGER_LEVELS, DANGER_LEVEL_LABELS, getDangerBreakdown } from "@/lib/danger";
+
+interface DangerSavePanelProps {
+  events: GoalieEvent[];
+}
+
+const DANGER_COLORS = {
+  high: "text-accentDanger",
+  medium: "text-accentHighlight",
+  low: "text-accentSuccess",
+} as const;
+
+export function DangerSavePanel({ events }: DangerSavePanelProps) {
+  const breakdown = getDangerBreakdown(events);
+
+  return (
+    <div className="grid grid-cols-3 gap-2">
+      {DANGER_LEVELS.map((level) => {
+        const tier = breakdown[level];
+        return (
+          <div key={level} className="rounded-xl bg-bgSurfaceSoft p-3 text-center">
+            <div className={`text-xs ${DANGER_COLORS[level]}`}>{DANGER_LEVEL_LABELS[level]}</div>
+            <div className="text-lg font-bold text-slate-50">
+              {tier.saves}/{tier.shots}
+            </div>
+            <div className="text-xs text-accentPrimary">
+              {tier.shots > 0 ? tier.savePercentage.toFixed(1) : "0"}%
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@
 import React, { useState, useMemo } from "react";
 import type { GoalieEvent, Period, ResultType, SituationType, ShotPosition, ShotTargetZone } from "@/lib/types";
 import { dataService } from "@/lib/dataService";
+import type { TrackerAction } from "@/lib/undoHistory";
 import { MiniRinkSelector } from "./MiniRinkSelector";
 import { GoalTargetSelector, GoalTargetBadge } from "./GoalTargetSelector";
 
@@ -11,6 +12,7 @@ interface EventListModalProps {
   onClose: () => void;
   events: GoalieEvent[];
   onEventsChange: () => void;
+  onAction?: (action: TrackerAction) => void; // Recorded for undo/redo
   matchClosed?: boolean;
   goalieCatchHand?: "L" | "R";
 }
@@ -22,6 +24,7 @@ export function EventListModal({
   onClose,
   events,
   onEventsChange,
+  onAction,
   matchClosed = false,
   goalieCatchHand = "L",
 }: EventListModalProps) {
@@ -67,8 +70,14 @@ export function EventListModal({
   const handleDelete = async (event: GoalieEvent) => {
     if (!confirm("Smazat tuto událost?")) return;
 
-    const deleted = await dataService.deleteEvent(event.id);
+    // Soft delete - stays in the "deleted" filter and can be restored
+    const deleted = await dataService.saveEvent({
+      ...event,
+      status: "deleted",
+      updatedAt: new Date().toISOString(),
+    });
     if (deleted) {
+      onAction?.({ type: "delete_event", event });
       setTimeout(() => {
         onEventsChange();
       }, 50);
@@ -78,8 +87,13 @@ export function EventListModal({
   };
 
   const handleRestore = async (event: GoalieEvent) => {
-    const restored = await dataService.saveEvent({ ...event, status: "confirmed" });
+    const restored = await dataService.saveEvent({
+      ...event,
+      status: "confirmed",
+      updatedAt: new Date().toISOString(),
+    });
     if (restored) {
+      onAction?.({ type: "edit_event", before: event, after: restored });
       setTimeout(() => {
         onEventsChange();
       }, 50);
@@ -91,12 +105,15 @@ export function EventListModal({
   const handleSaveEdit = async () => {
     if (!editingEvent) return;
 
+    const before = events.find((e) => e.id === editingEvent.id);
     const updated = await dataService.saveEvent({
       ...editingEvent,
-      status: "confirmed",
+      status: "edited",
+      originalEventId: editingEvent.originalEventId || editingEvent.id,
       updatedAt: new Date().toISOString(),
     });
     if (updated) {
+      if (before) onAction?.({ type: "edit_event", before, after: updated });
       setEditingEvent(null);
       setEditTab("basic");
       setTimeout(() => {
@@ -233,7 +250,7 @@ export function EventListModal({
                             : "Mimo"}
                           {event.situation && event.situation !== "even" && (
                             <span className="text-xs text-accentHighlight">
-                              ({event.situation === "powerplay" ? "PP" : "SH"})
+                              ({event.situation === "powerplay" ? "PP" : event.situation === "shorthanded" ? "SH" : event.situation})
                             </span>
                           )}
                           {event.shotTarget && (
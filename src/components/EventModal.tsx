@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import type {
   GoalType,
   ResultType,
@@ -23,6 +23,7 @@ type EventModalProps = {
   }) => void;
   zone: ShotZone | null;
   header: string; // "2. třetina • 14:32 • Slot"
+  defaultSituation?: SituationType; // Pre-filled from the penalty log
 };
 
 export function EventModal({
@@ -31,6 +32,7 @@ export function EventModal({
   onSubmit,
   zone,
   header,
+  defaultSituation = "even",
 }: EventModalProps) {
   const [result, setResult] = useState<ResultType | null>(null);
   const [saveType, setSaveType] = useState<SaveType | undefined>();
@@ -38,15 +40,22 @@ export function EventModal({
   const [situation, setSituation] = useState<SituationType>("even");
   const [goalPosition, setGoalPosition] = useState<GoalPosition | null>(null);
   const [showGoalView, setShowGoalView] = useState(false);
+  // Only pre-fill when the modal opens, not when manpower changes mid-entry
+  const defaultSituationRef = useRef(defaultSituation);
+
+  useEffect(() => {
+    defaultSituationRef.current = defaultSituation;
+  }, [defaultSituation]);
 
   useEffect(() => {
     if (!open) {
       setResult(null);
       setSaveType(undefined);
       setGoalType(undefined);
-      setSituation("even");
       setGoalPosition(null);
       setShowGoalView(false);
+    } else {
+      setSituation(defaultSituationRef.current);
     }
   }, [open]);
 
@@ -54,6 +63,16 @@ export function EventModal({
 
   const canSubmit = !!result;
 
+  const situationOptions: Array<[SituationType, string]> = [
+    ["even", "5v5"],
+    ["powerplay", "PP"],
+    ["shorthanded", "SH"],
+  ];
+  // 4v4 / 3v3 only offered when the penalty log says so
+  if (defaultSituation === "4v4" || defaultSituation === "3v3") {
+    situationOptions.push([defaultSituation, defaultSituation]);
+  }
+
   const handleResultSelect = (r: ResultType) => {
     setResult(r);
     // Show goal position selector for saves and goals
@@ -180,15 +199,11 @@ export function EventModal({
         {/* Situation */}
         <div className="mb-4">
           <p className="mb-2 text-xs text-slate-400">Herní situace</p>
-          <div className="grid grid-cols-3 gap-2 text-xs">
-            {[
-              ["even", "5v5"],
-              ["powerplay", "PP"],
-              ["shorthanded", "SH"],
-            ].map(([value, label]) => (
+          <div className={`grid gap-2 text-xs ${situationOptions.length > 3 ? "grid-cols-4" : "grid-cols-3"}`}>
+            {situationOptions.map(([value, label]) => (
               <button
                 key={value}
-                onClick={() => setSituation(value as SituationType)}
+                onClick={() => setSituation(value)}
                 className={`rounded-xl border px-2 py-2 ${
                   situation === value
                     ? "border-accentPrimary bg-accentPrimary/20 text-accentPrimary"
@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useRef } from "react";
+import React, { useCallback, useEffect, useState, useRef } from "react";
 import {
   exportData,
   importData,
@@ -9,7 +9,33 @@ import {
   type ImportResult,
 } from "@/lib/storage";
 import { dataService } from "@/lib/dataService";
-import type { ExportBundle } from "@/lib/types";
+import {
+  BUNDLE_COLLECTION_LABELS,
+  BUNDLE_COLLECTIONS,
+  countValidRecords,
+  EXPORT_VERSION,
+  validateBundle,
+  type BundleValidation,
+} from "@/lib/exportBundle";
+import {
+  buildImportDiff,
+  getChoiceKey,
+  getDefaultChoices,
+  resolveImport,
+  type ImportChoices,
+  type ImportDiff,
+  type ImportMode,
+} from "@/lib/importDiff";
+import {
+  createSnapshot,
+  getLastImportSnapshot,
+  rollbackImport,
+  type SnapshotSummary,
+} from "@/lib/snapshots";
+import { ImportDiffReview } from "./ImportDiffReview";
+
+// Longer reports are cut, the counts above still cover everything
+const MAX_LISTED_ISSUES = 30;
 
 interface ExportImportModalProps {
   open: boolean;
@@ -25,22 +51,26 @@ export function ExportImportModal({
   onDataChange,
 }: ExportImportModalProps) {
   const [activeTab, setActiveTab] = useState<Tab>("export");
-  const [importMode, setImportMode] = useState<"merge" | "replace">("merge");
+  const [importMode, setImportMode] = useState<ImportMode>("merge");
   const [importResult, setImportResult] = useState<ImportResult | null>(null);
-  const [importPreview, setImportPreview] = useState<{
-    goalies: number;
-    teams: number;
-    seasons: number;
-    competitions: number;
-    matches: number;
-    events: number;
-  } | null>(null);
-  const [importBundle, setImportBundle] = useState<ExportBundle | null>(null);
+  const [importPreview, setImportPreview] = useState<BundleValidation | null>(null);
+  const [importDiff, setImportDiff] = useState<ImportDiff | null>(null);
+  const [importChoices, setImportChoices] = useState<ImportChoices>({});
+  const [rolledBack, setRolledBack] = useState(false);
+  const [lastImport, setLastImport] = useState<SnapshotSummary | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [exportSuccess, setExportSuccess] = useState(false);
   const [clearConfirm, setClearConfirm] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  const loadLastImport = useCallback(async () => {
+    setLastImport(await getLastImportSnapshot());
+  }, []);
+
+  useEffect(() => {
+    if (open) loadLastImport();
+  }, [open, loadLastImport]);
+
   if (!open) return null;
 
   const stats = getStorageStats();
@@ -100,29 +130,25 @@ export function ExportImportModal({
     setError(null);
     setImportResult(null);
     setImportPreview(null);
-    setImportBundle(null);
+    setImportDiff(null);
+    setRolledBack(false);
 
     const reader = new FileReader();
     reader.onload = (event) => {
       try {
         const json = event.target?.result as string;
-        const data = JSON.parse(json) as ExportBundle;
+        const validation = validateBundle(JSON.parse(json));
 
-        // Validate structure
-        if (!data.version || !data.exportedAt) {
-          setError("Neplatný formát souboru. Chybí verze nebo datum exportu.");
+        if (validation.error || !validation.bundle) {
+          setError(validation.error);
           return;
         }
 
-        setImportBundle(data);
-        setImportPreview({
-          goalies: data.goalies?.length || 0,
-          teams: data.teams?.length || 0,
-          seasons: data.seasons?.length || 0,
-          competitions: data.competitions?.length || 0,
-          matches: data.matches?.length || 0,
-          events: data.events?.length || 0,
-        });
+        // Dry run against the data on this device
+        const diff = buildImportDiff(exportData(), validation.bundle);
+        setImportPreview(validation);
+        setImportDiff(diff);
+        setImportChoices(getDefaultChoices(diff));
       } catch {
         setError("Chyba při čtení souboru. Zkontrolujte, že je to platný JSON.");
       }
@@ -131,29 +157,38 @@ export function ExportImportModal({
   };
 
   const handleImport = async () => {
-    if (!importBundle) return;
+    const importBundle = importPreview?.bundle;
+    if (!importBundle || !importDiff) return;
 
-    const result = importData(importBundle, importMode);
+    await createSnapshot("import");
+    const plan = resolveImport(exportData(), importBundle, importDiff, importChoices, importMode);
+    const result = await importData(plan);
     setImportResult(result);
+    await loadLastImport();
 
     if (result.success) {
-      if (importBundle.competitions?.length) {
-        for (const competition of importBundle.competitions) {
-          await dataService.saveCompetition(competition);
-        }
+      const competitions = importBundle.competitions.filter(
+        (competition) =>
+          importMode === "replace" ||
+          importChoices[getChoiceKey({ collection: "competitions", key: competition.id })] === "incoming"
+      );
+      for (const competition of competitions) {
+        await dataService.saveCompetition(competition);
       }
-      setImportBundle(null);
       setImportPreview(null);
+      setImportDiff(null);
       onDataChange?.();
     }
   };
 
-  const handleClearAll = () => {
+  const handleClearAll = async () => {
     if (!clearConfirm) {
       setClearConfirm(true);
       return;
     }
 
+    // Restorable from Nastavení → Body obnovení
+    await createSnapshot("clear");
     clearAllData();
     setClearConfirm(false);
     onDataChange?.();
@@ -161,8 +196,8 @@ export function ExportImportModal({
   };
 
   const resetImport = () => {
-    setImportBundle(null);
     setImportPreview(null);
+    setImportDiff(null);
     setImportResult(null);
     setError(null);
     if (fileInputRef.current) {
@@ -170,6 +205,29 @@ export function ExportImportModal({
     }
   };
 
+  const handleRollback = async () => {
+    if (!lastImport || !confirm("Vrátit data do stavu před posledním importem?")) return;
+    if (!(await rollbackImport(lastImport.id))) {
+      setError("Import se nepodařilo vrátit");
+      return;
+    }
+    resetImport();
+    setRolledBack(true);
+    setLastImport(null);
+    onDataChange?.();
+  };
+
+  const selectedCount = Object.values(importChoices).filter((side) => side === "incoming").length;
+
+  const rollbackButton = lastImport && (
+    <button
+      onClick={handleRollback}
+      className="w-full rounded-xl bg-slate-800 py-3 text-sm font-medium text-slate-300"
+    >
+      ↩️ Vrátit poslední import ({new Date(lastImport.createdAt).toLocaleString("cs-CZ")})
+    </button>
+  );
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4">
       <div className="max-h-[90vh] w-full max-w-md overflow-y-auto rounded-2xl bg-bgSurfaceSoft">
@@ -305,6 +363,13 @@ export function ExportImportModal({
                   >
                     📁 Vybrat JSON soubor
                   </button>
+
+                  {rolledBack && (
+                    <div className="rounded-lg bg-accentSuccess/20 p-3 text-sm text-accentSuccess">
+                      ✓ Import vrácen
+                    </div>
+                  )}
+                  {rollbackButton}
                 </>
               )}
 
@@ -318,23 +383,81 @@ export function ExportImportModal({
                     <div className="grid grid-cols-3 gap-2 text-xs">
                       <div className="text-center">
                         <div className="text-lg font-bold text-accentHighlight">
-                          {importPreview.goalies}
+                          {importPreview.counts.goalies.valid}
                         </div>
                         <div className="text-slate-500">Brankáři</div>
                       </div>
                       <div className="text-center">
                         <div className="text-lg font-bold text-accentHighlight">
-                          {importPreview.matches}
+                          {importPreview.counts.matches.valid}
                         </div>
                         <div className="text-slate-500">Zápasy</div>
                       </div>
                       <div className="text-center">
                         <div className="text-lg font-bold text-accentHighlight">
-                          {importPreview.events}
+                          {importPreview.counts.events.valid}
                         </div>
                         <div className="text-slate-500">Události</div>
                       </div>
                     </div>
+                    {importPreview.sourceVersion !== EXPORT_VERSION && (
+                      <p className="mt-2 text-xs text-slate-500">
+                        Záloha z verze {importPreview.sourceVersion} byla převedena na verzi {EXPORT_VERSION}.
+                      </p>
+                    )}
+                  </div>
+
+                  {/* Validation report */}
+                  <div className="rounded-lg bg-slate-800/50 p-3 text-xs">
+                    <h4 className="mb-2 font-semibold text-slate-400">
+                      KONTROLA ZÁZNAMŮ
+                    </h4>
+                    <ul className="space-y-1 text-slate-300">
+                      {BUNDLE_COLLECTIONS.filter(
+                        (collection) => importPreview.counts[collection].total > 0
+                      ).map((collection) => {
+                        const count = importPreview.counts[collection];
+                        return (
+                          <li key={collection} className="flex justify-between">
+                            <span>{BUNDLE_COLLECTION_LABELS[collection]}</span>
+                            <span>
+                              {count.valid} / {count.total}
+                              {count.invalid > 0 && (
+                                <span className="text-accentDanger">
+                                  {" "}• {count.invalid} vadných
+                                </span>
+                              )}
+                            </span>
+                          </li>
+                        );
+                      })}
+                    </ul>
+
+                    {importPreview.issues.length > 0 && (
+                      <ul className="mt-3 max-h-40 space-y-1 overflow-y-auto border-t border-borderSoft pt-2">
+                        {importPreview.issues.slice(0, MAX_LISTED_ISSUES).map((issue, i) => (
+                          <li
+                            key={i}
+                            className={
+                              issue.severity === "error" ? "text-accentDanger" : "text-accentHighlight"
+                            }
+                          >
+                            {issue.severity === "error" ? "✗" : "⚠"}{" "}
+                            {BUNDLE_COLLECTION_LABELS[issue.collection]} #{issue.index + 1}
+                            {issue.field && <> ({issue.field})</>}: {issue.message}
+                          </li>
+                        ))}
+                        {importPreview.issues.length > MAX_LISTED_ISSUES && (
+                          <li className="text-slate-500">
+                            … a dalších {importPreview.issues.length - MAX_LISTED_ISSUES}
+                          </li>
+                        )}
+                      </ul>
+                    )}
+
+                    {importPreview.issues.some((issue) => issue.severity === "error") && (
+                      <p className="mt-2 text-slate-500">Vadné záznamy se neimportují.</p>
+                    )}
                   </div>
 
                   {/* Import mode selector */}
@@ -366,11 +489,36 @@ export function ExportImportModal({
                     </div>
                     <p className="text-xs text-slate-500">
                       {importMode === "merge"
-                        ? "Přidá nové záznamy, existující ponechá beze změny."
+                        ? "Přidá vybrané záznamy ze zálohy, ostatní data ponechá."
                         : "⚠️ Smaže všechna stávající data a nahradí je importovanými!"}
                     </p>
                   </div>
 
+                  {/* Dry-run diff */}
+                  {importDiff && importMode === "merge" && (
+                    <div className="space-y-2">
+                      <h4 className="text-xs font-semibold text-slate-400">
+                        ZMĚNY
+                      </h4>
+                      <ImportDiffReview
+                        diff={importDiff}
+                        choices={importChoices}
+                        onChange={setImportChoices}
+                      />
+                    </div>
+                  )}
+                  {importDiff && importMode === "replace" && (
+                    <div className="rounded-lg bg-accentDanger/10 p-3 text-xs text-accentDanger">
+                      Odstraní se záznamy, které v záloze nejsou:{" "}
+                      {BUNDLE_COLLECTIONS.filter((collection) => importDiff.localOnly[collection] > 0)
+                        .map(
+                          (collection) =>
+                            `${BUNDLE_COLLECTION_LABELS[collection]} ${importDiff.localOnly[collection]}`
+                        )
+                        .join(", ") || "žádné"}
+                    </div>
+                  )}
+
                   <div className="flex gap-3">
                     <button
                       onClick={resetImport}
@@ -380,13 +528,17 @@ export function ExportImportModal({
                     </button>
                     <button
                       onClick={handleImport}
-                      className={`flex-1 rounded-xl py-3 text-sm font-semibold text-white ${
+                      disabled={
+                        countValidRecords(importPreview) === 0 ||
+                        (importMode === "merge" && selectedCount === 0)
+                      }
+                      className={`flex-1 rounded-xl py-3 text-sm font-semibold text-white disabled:opacity-50 ${
                         importMode === "replace"
                           ? "bg-accentDanger"
                           : "bg-accentSuccess"
                       }`}
                     >
-                      Importovat
+                      Importovat{importMode === "merge" && ` (${selectedCount})`}
                     </button>
                   </div>
                 </>
@@ -448,6 +600,7 @@ export function ExportImportModal({
                   >
                     OK
                   </button>
+                  {importResult.success && rollbackButton}
                 </>
               )}
             </div>
@@ -0,0 +1,103 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { FIXTURE_CHANGE_LABELS, formatChangeValue, type FixtureChange } from "@/lib/fixtureRefresh";
+
+interface FixtureChangeLogProps {
+  changes: FixtureChange[]; // Newest first
+  refreshedAt: string | null;
+  onMarkAllSeen: () => void;
+  onDismiss: (id: string) => void;
+}
+
+const TYPE_STYLES: Record<FixtureChange["type"], string> = {
+  new: "bg-accentPrimary/20 text-accentPrimary",
+  score: "bg-accentSuccess/20 text-accentSuccess",
+  rescheduled: "bg-yellow-900/20 text-yellow-200",
+  postponed: "bg-accentDanger/20 text-accentDanger",
+  venue: "bg-slate-700 text-slate-300",
+};
+
+const COLLAPSED_COUNT = 3;
+
+export function FixtureChangeLog({ changes, refreshedAt, onMarkAllSeen, onDismiss }: FixtureChangeLogProps) {
+  const [expanded, setExpanded] = useState(false);
+  const unseen = changes.filter((c) => !c.seen);
+
+  // Nothing new - the log stays out of the way
+  if (unseen.length === 0 && !expanded) {
+    if (changes.length === 0) return null;
+    return (
+      <button
+        onClick={() => setExpanded(true)}
+        className="mb-4 w-full rounded-xl bg-bgSurfaceSoft px-4 py-2 text-left text-xs text-slate-500"
+      >
+        📰 Změny v rozpisu ({changes.length})
+      </button>
+    );
+  }
+
+  const shown = expanded ? changes : unseen.slice(0, COLLAPSED_COUNT);
+
+  return (
+    <section className="mb-4 rounded-xl bg-bgSurfaceSoft p-3">
+      <div className="mb-2 flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-slate-400">
+          📰 ZMĚNY V ROZPISU{unseen.length > 0 && ` (${unseen.length} nových)`}
+        </h2>
+        {unseen.length > 0 && (
+          <button onClick={onMarkAllSeen} className="text-xs text-accentPrimary">
+            Označit jako přečtené
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        {shown.map((change) => (
+          <div
+            key={change.id}
+            className={`flex items-center justify-between gap-2 rounded-lg px-3 py-2 text-xs ${
+              change.seen ? "bg-slate-800/40" : "bg-slate-800/80"
+            }`}
+          >
+            <Link href={`/match/${change.matchId}`} className="min-w-0 flex-1">
+              <div className="flex items-center gap-2">
+                <span className={`shrink-0 rounded-full px-2 py-0.5 text-[10px] ${TYPE_STYLES[change.type]}`}>
+                  {FIXTURE_CHANGE_LABELS[change.type]}
+                </span>
+                <span className="truncate text-slate-200">{change.label}</span>
+              </div>
+              <div className="mt-0.5 text-[10px] text-slate-500">
+                {change.type === "new"
+                  ? formatChangeValue(change, change.after)
+                  : `${formatChangeValue(change, change.before)} → ${formatChangeValue(change, change.after)}`}
+              </div>
+            </Link>
+            <button onClick={() => onDismiss(change.id)} className="shrink-0 text-slate-500">
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-2 flex items-center justify-between text-[10px] text-slate-500">
+        <span>
+          {refreshedAt
+            ? `Naposledy zkontrolováno ${new Date(refreshedAt).toLocaleString("cs-CZ", {
+                day: "numeric",
+                month: "numeric",
+                hour: "2-digit",
+                minute: "2-digit",
+              })}`
+            : "Zatím nezkontrolováno"}
+        </span>
+        {changes.length > shown.length || expanded ? (
+          <button onClick={() => setExpanded((e) => !e)} className="text-accentPrimary">
+            {expanded ? "Skrýt" : `Zobrazit vše (${changes.length})`}
+          </button>
+        ) : null}
+      </div>
+    </section>
+  );
+}
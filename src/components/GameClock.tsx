@@ -0,0 +1,141 @@
+"use client";
+
+import { useState } from "react";
+import type { Period } from "@/lib/types";
+import { formatClockTime, parseClockTime, type ClockPhase } from "@/lib/gameClock";
+
+interface GameClockProps {
+  period: Period;
+  phase: ClockPhase;
+  running: boolean;
+  remainingMs: number;
+  canStartOvertime: boolean;
+  disabled?: boolean;
+  onToggle: () => void;
+  onAdjust: (deltaMs: number) => void;
+  onSetRemaining: (remainingMs: number) => void;
+  onEndIntermission: () => void;
+  onStartOvertime: () => void;
+}
+
+export function GameClock({
+  period,
+  phase,
+  running,
+  remainingMs,
+  canStartOvertime,
+  disabled = false,
+  onToggle,
+  onAdjust,
+  onSetRemaining,
+  onEndIntermission,
+  onStartOvertime,
+}: GameClockProps) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState("");
+
+  const time = formatClockTime(remainingMs);
+
+  const commitDraft = () => {
+    const parsed = parseClockTime(draft);
+    if (parsed !== null) {
+      onSetRemaining(parsed);
+    }
+    setEditing(false);
+  };
+
+  if (phase === "intermission") {
+    return (
+      <div className="flex items-center gap-2">
+        <span className="text-[10px] uppercase text-slate-500">
+          Přestávka po {period}. třetině
+        </span>
+        <span className="font-mono text-sm text-slate-300">{time}</span>
+        <button
+          onClick={onEndIntermission}
+          disabled={disabled}
+          className="rounded-lg bg-accentPrimary/20 px-2 py-1 text-[10px] font-medium text-accentPrimary disabled:opacity-50"
+        >
+          {period === 3 ? "Prodloužení →" : "Další třetina →"}
+        </button>
+      </div>
+    );
+  }
+
+  if (phase === "ended") {
+    return (
+      <div className="flex items-center gap-2">
+        <span className="text-[10px] uppercase text-slate-500">
+          {period === "OT" ? "Konec prodloužení" : "Konec základní doby"}
+        </span>
+        {canStartOvertime && period !== "OT" && (
+          <button
+            onClick={onStartOvertime}
+            disabled={disabled}
+            className="rounded-lg bg-accentPrimary/20 px-2 py-1 text-[10px] font-medium text-accentPrimary disabled:opacity-50"
+          >
+            Prodloužení →
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-1">
+      <button
+        onClick={() => onAdjust(-10_000)}
+        disabled={disabled}
+        className="h-8 rounded-lg bg-slate-800 px-1.5 text-[10px] text-slate-400 disabled:opacity-50"
+      >
+        −10s
+      </button>
+      {editing ? (
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={commitDraft}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") commitDraft();
+            if (e.key === "Escape") setEditing(false);
+          }}
+          inputMode="numeric"
+          className="h-8 w-16 rounded-lg bg-slate-800 text-center font-mono text-sm text-slate-100"
+          autoFocus
+        />
+      ) : (
+        <button
+          onClick={() => {
+            if (disabled) return;
+            setDraft(time);
+            setEditing(true);
+          }}
+          className={`h-8 w-16 rounded-lg bg-slate-800 text-center font-mono text-sm ${
+            running ? "text-slate-50" : "text-slate-400"
+          }`}
+        >
+          {time}
+        </button>
+      )}
+      <button
+        onClick={() => onAdjust(10_000)}
+        disabled={disabled}
+        className="h-8 rounded-lg bg-slate-800 px-1.5 text-[10px] text-slate-400 disabled:opacity-50"
+      >
+        +10s
+      </button>
+      <button
+        onClick={onToggle}
+        disabled={disabled}
+        className={`h-8 w-8 rounded-lg text-xs font-bold disabled:opacity-50 ${
+          running
+            ? "bg-accentDanger/20 text-accentDanger"
+            : "bg-accentSuccess/20 text-accentSuccess"
+        }`}
+        aria-label={running ? "Zastavit čas" : "Spustit čas"}
+      >
+        {running ? "❚❚" : "▶"}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { GameSheet, GameSheetSide, GoalieEvent, Match } from "@/lib/types";
+import type { PeriodSettings } from "@/lib/gameClock";
+import {
+  GOAL_RECONCILIATION_LABELS,
+  getOfficialGoalieLine,
+  reconcileGoals,
+  setGameSheetSide,
+  type GoalReconciliation,
+} from "@/lib/gameSheet";
+import { getClub } from "@/lib/storage";
+
+interface GameSheetPanelProps {
+  match: Match;
+  events: GoalieEvent[]; // Non-deleted events of the match
+  periodSettings: PeriodSettings;
+  source?: string; // Competition.source
+  disabled?: boolean;
+  onSheetChange: (sheet: GameSheet) => void;
+  onAlign: (items: GoalReconciliation[]) => void;
+}
+
+const STATUS_STYLES: Record<GoalReconciliation["status"], string> = {
+  matched: "bg-accentSuccess/20 text-accentSuccess",
+  time_differs: "bg-yellow-900/20 text-yellow-200",
+  missing: "bg-accentDanger/20 text-accentDanger",
+  extra: "bg-slate-700 text-slate-300",
+};
+
+const formatPeriod = (period: GoalieEvent["period"]) => (period === "OT" ? "P" : `${period}.`);
+
+const formatDifference = (seconds: number) => `${seconds > 0 ? "+" : "−"}${Math.abs(seconds)} s`;
+
+export function GameSheetPanel({
+  match,
+  events,
+  periodSettings,
+  source,
+  disabled = false,
+  onSheetChange,
+  onAlign,
+}: GameSheetPanelProps) {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const sheet = match.gameSheet;
+  const items = useMemo(
+    () => (sheet ? reconcileGoals(sheet, events, periodSettings) : []),
+    [sheet, events, periodSettings]
+  );
+  const alignable = items.filter((item) => item.status === "time_differs");
+  const officialLine = sheet ? getOfficialGoalieLine(sheet) : null;
+  const trackedShots = events.filter((e) => e.result === "save" || e.result === "goal").length;
+  const trackedSaves = events.filter((e) => e.result === "save").length;
+
+  const handleLoad = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/matches/game-sheet", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          season: match.seasonId,
+          externalMatchId: match.externalId,
+          url: match.externalUrl,
+          source,
+          club: getClub(),
+          homeTeamName: match.homeTeamName || match.home,
+          awayTeamName: match.awayTeamName || match.away,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Načtení selhalo");
+      if (!data.gameSheet) {
+        setError("Zápis o utkání zatím není zveřejněný.");
+        return;
+      }
+      onSheetChange(data.gameSheet as GameSheet);
+    } catch (err) {
+      console.error("[GameSheetPanel] Load failed:", err);
+      setError("Nepodařilo se načíst zápis o utkání.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSide = (side: GameSheetSide) => {
+    if (sheet) onSheetChange(setGameSheetSide(sheet, side));
+  };
+
+  return (
+    <div className="border-t border-borderSoft bg-bgSurfaceSoft/50 px-4 py-3">
+      <div className="mb-2 flex items-center justify-between">
+        <h3 className="text-xs font-semibold uppercase tracking-wide text-slate-400">
+          📄 Oficiální zápis
+        </h3>
+        {!disabled && (
+          <button
+            onClick={handleLoad}
+            disabled={loading || (!match.externalId && !match.externalUrl)}
+            className="rounded-lg bg-slate-800 px-3 py-1 text-xs font-medium text-slate-300 disabled:opacity-50"
+          >
+            {loading ? "Načítám..." : sheet ? "Načíst znovu" : "Načíst oficiální zápis"}
+          </button>
+        )}
+      </div>
+
+      {!match.externalId && !match.externalUrl && !sheet && (
+        <p className="text-xs text-slate-500">Zápis lze načíst jen u importovaných zápasů.</p>
+      )}
+      {error && <p className="text-xs text-accentDanger">{error}</p>}
+
+      {sheet && (
+        <div className="space-y-3">
+          <div className="text-xs text-slate-400">
+            Skóre podle zápisu:{" "}
+            <span className="font-semibold text-slate-50">
+              {sheet.homeScore}:{sheet.awayScore}
+            </span>
+            {sheet.sourceUrl && (
+              <a
+                href={sheet.sourceUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="ml-2 text-accentPrimary"
+              >
+                Otevřít
+              </a>
+            )}
+          </div>
+
+          {!sheet.ourSide ? (
+            <div className="rounded-lg bg-slate-800/70 p-3 text-xs">
+              <p className="mb-2 text-slate-300">Za který tým chytal náš brankář?</p>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => handleSide("home")}
+                  disabled={disabled}
+                  className="flex-1 rounded-lg bg-slate-700 py-2 text-slate-200 disabled:opacity-50"
+                >
+                  {match.homeTeamName || match.home}
+                </button>
+                <button
+                  onClick={() => handleSide("away")}
+                  disabled={disabled}
+                  className="flex-1 rounded-lg bg-slate-700 py-2 text-slate-200 disabled:opacity-50"
+                >
+                  {match.awayTeamName || match.away}
+                </button>
+              </div>
+            </div>
+          ) : (
+            <>
+              {officialLine && (
+                <div className="grid grid-cols-3 gap-2 text-center text-xs">
+                  <div className="rounded-lg bg-slate-800/70 p-2">
+                    <div className="text-slate-500">Střely</div>
+                    <div className="text-slate-50">
+                      {officialLine.shotsAgainst} <span className="text-slate-500">/ {trackedShots}</span>
+                    </div>
+                  </div>
+                  <div className="rounded-lg bg-slate-800/70 p-2">
+                    <div className="text-slate-500">Zákroky</div>
+                    <div className="text-accentSuccess">
+                      {officialLine.saves} <span className="text-slate-500">/ {trackedSaves}</span>
+                    </div>
+                  </div>
+                  <div className="rounded-lg bg-slate-800/70 p-2">
+                    <div className="text-slate-500">Góly</div>
+                    <div className="text-accentDanger">
+                      {officialLine.goalsAgainst}{" "}
+                      <span className="text-slate-500">/ {events.filter((e) => e.result === "goal").length}</span>
+                    </div>
+                  </div>
+                  <div className="col-span-3 text-[10px] text-slate-500">Zápis / náš záznam</div>
+                </div>
+              )}
+
+              {items.length === 0 ? (
+                <p className="text-xs text-slate-500">Brankář podle zápisu neinkasoval.</p>
+              ) : (
+                <div className="space-y-1">
+                  {items.map((item, i) => (
+                    <div
+                      key={item.event?.id || `goal-${i}`}
+                      className="flex items-center justify-between gap-2 rounded-lg bg-slate-800/70 px-3 py-2 text-xs"
+                    >
+                      <div className="min-w-0">
+                        <div className="truncate text-slate-200">
+                          {item.goal
+                            ? `${formatPeriod(item.goal.period)} ${item.officialGameTime} • ${item.goal.scorer}`
+                            : `${formatPeriod(item.event!.period)} ${item.event!.gameTime} • jen v našem záznamu`}
+                        </div>
+                        {item.goal && item.goal.assists.length > 0 && (
+                          <div className="truncate text-[10px] text-slate-500">
+                            Asistence: {item.goal.assists.join(", ")}
+                          </div>
+                        )}
+                        {item.event && item.goal && item.status === "time_differs" && (
+                          <div className="text-[10px] text-slate-500">
+                            Náš čas {item.event.gameTime} ({formatDifference(item.differenceSeconds ?? 0)})
+                          </div>
+                        )}
+                      </div>
+                      <div className="flex shrink-0 items-center gap-2">
+                        <span className={`rounded-full px-2 py-0.5 text-[10px] ${STATUS_STYLES[item.status]}`}>
+                          {GOAL_RECONCILIATION_LABELS[item.status]}
+                        </span>
+                        {item.status === "time_differs" && !disabled && (
+                          <button onClick={() => onAlign([item])} className="text-accentPrimary">
+                            Zarovnat
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {alignable.length > 1 && !disabled && (
+                <button
+                  onClick={() => onAlign(alignable)}
+                  className="w-full rounded-lg bg-accentPrimary/20 py-2 text-xs font-medium text-accentPrimary"
+                >
+                  Zarovnat vše na čas zápisu ({alignable.length})
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+"use client";
+
+import type { Goalie, GoalieChange } from "@/lib/types";
+import { formatClockTime } from "@/lib/gameClock";
+
+interface GoalieChangePanelProps {
+  goalies: Goalie[];
+  changes: GoalieChange[]; // Sorted by game time
+  onIceGoalieId: string | null;
+  timeOnIce: Record<string, number>; // Seconds per goalie
+  disabled?: boolean;
+  onPull: () => void;
+  onReturn: () => void;
+  onSwap: () => void;
+  onDelete: (changeId: string) => void;
+}
+
+function getGoalieName(goalies: Goalie[], goalieId: string | null): string {
+  if (!goalieId) return "Prázdná branka";
+  const goalie = goalies.find((g) => g.id === goalieId);
+  return goalie ? `${goalie.firstName} ${goalie.lastName}` : "Neznámý brankář";
+}
+
+export function GoalieChangePanel({
+  goalies,
+  changes,
+  onIceGoalieId,
+  timeOnIce,
+  disabled = false,
+  onPull,
+  onReturn,
+  onSwap,
+  onDelete,
+}: GoalieChangePanelProps) {
+  const onIce = goalies.find((g) => g.id === onIceGoalieId);
+  const timeEntries = Object.entries(timeOnIce);
+
+  return (
+    <div className="border-b border-borderSoft bg-bgSurfaceSoft/50 px-4 py-2">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          {onIce ? (
+            <>
+              <span className="flex h-6 w-6 items-center justify-center rounded-full bg-accentPrimary/20 text-xs font-bold text-accentPrimary">
+                {onIce.jerseyNumber || onIce.firstName[0]}
+              </span>
+              <span className="text-sm">
+                {onIce.firstName} {onIce.lastName}
+              </span>
+            </>
+          ) : (
+            <span className="rounded bg-accentDanger/20 px-2 py-0.5 text-xs font-semibold text-accentDanger">
+              🥅 Prázdná branka
+            </span>
+          )}
+        </div>
+        {!disabled && (
+          <div className="flex gap-1">
+            {onIceGoalieId ? (
+              <button
+                onClick={onPull}
+                className="rounded-lg bg-slate-800 px-2 py-1 text-[10px] text-slate-300"
+              >
+                Odvolat
+              </button>
+            ) : (
+              <button
+                onClick={onReturn}
+                className="rounded-lg bg-accentSuccess/20 px-2 py-1 text-[10px] text-accentSuccess"
+              >
+                Vrátit
+              </button>
+            )}
+            <button
+              onClick={onSwap}
+              className="rounded-lg bg-slate-800 px-2 py-1 text-[10px] text-slate-300"
+            >
+              Střídat
+            </button>
+          </div>
+        )}
+      </div>
+
+      {changes.length > 0 && (
+        <div className="mt-2 space-y-1 text-[10px] text-slate-400">
+          {changes.map((change) => (
+            <div key={change.id} className="flex items-center justify-between">
+              <span>
+                <span className="font-mono text-slate-500">
+                  {change.period === "OT" ? "OT" : `${change.period}.`} {change.gameTime}
+                </span>{" "}
+                {change.goalieId ? `→ ${getGoalieName(goalies, change.goalieId)}` : "Brankář odvolán"}
+              </span>
+              {!disabled && (
+                <button
+                  onClick={() => {
+                    if (confirm("Smazat změnu brankáře?")) onDelete(change.id);
+                  }}
+                  className="text-accentDanger"
+                >
+                  ✕
+                </button>
+              )}
+            </div>
+          ))}
+          {timeEntries.length > 0 && (
+            <div className="flex flex-wrap gap-x-3 pt-1 text-slate-500">
+              {timeEntries.map(([goalieId, seconds]) => (
+                <span key={goalieId}>
+                  {getGoalieName(goalies, goalieId)}:{" "}
+                  <span className="font-mono text-slate-300">{formatClockTime(seconds * 1000)}</span>
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+"use client";
+
+import { useState } from "react";
+import { BUNDLE_COLLECTION_LABELS, BUNDLE_COLLECTIONS, type BundleCollection } from "@/lib/exportBundle";
+import {
+  getChoiceKey,
+  IMPORT_DIFF_KIND_LABELS,
+  type ImportChoices,
+  type ImportDiff,
+  type ImportDiffEntry,
+  type ImportSide,
+} from "@/lib/importDiff";
+
+// Events can run into thousands, the list shows the first ones
+const MAX_LISTED_ENTRIES = 50;
+
+const KIND_CLASSES: Record<ImportDiffEntry["kind"], string> = {
+  new: "text-accentSuccess",
+  changed: "text-accentPrimary",
+  conflict: "text-accentHighlight",
+  unchanged: "text-slate-500",
+};
+
+interface ImportDiffReviewProps {
+  diff: ImportDiff;
+  choices: ImportChoices;
+  onChange: (choices: ImportChoices) => void;
+}
+
+function getSideLabel(entry: ImportDiffEntry, side: ImportSide): string {
+  if (entry.kind === "new") return side === "incoming" ? "Přidat" : "Vynechat";
+  return side === "incoming" ? "Ze zálohy" : "Moje";
+}
+
+export function ImportDiffReview({ diff, choices, onChange }: ImportDiffReviewProps) {
+  const [openCollection, setOpenCollection] = useState<BundleCollection | null>(null);
+
+  const pending = (collection: BundleCollection) =>
+    diff.entries.filter((entry) => entry.collection === collection && entry.kind !== "unchanged");
+
+  const setCollectionSide = (collection: BundleCollection, side: ImportSide) => {
+    const next = { ...choices };
+    pending(collection).forEach((entry) => {
+      next[getChoiceKey(entry)] = side;
+    });
+    onChange(next);
+  };
+
+  const toggleEntry = (entry: ImportDiffEntry) => {
+    const key = getChoiceKey(entry);
+    onChange({ ...choices, [key]: choices[key] === "incoming" ? "local" : "incoming" });
+  };
+
+  const collections = BUNDLE_COLLECTIONS.filter((collection) => pending(collection).length > 0);
+
+  if (collections.length === 0) {
+    return (
+      <div className="rounded-lg bg-slate-800/50 p-3 text-xs text-slate-400">
+        Záloha neobsahuje nic nového – všechny záznamy už v zařízení jsou.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {collections.map((collection) => {
+        const entries = pending(collection);
+        const counts = diff.counts[collection];
+        const taken = entries.filter((entry) => choices[getChoiceKey(entry)] === "incoming").length;
+        const isOpen = openCollection === collection;
+
+        return (
+          <div key={collection} className="rounded-lg bg-slate-800/50 p-3 text-xs">
+            <button
+              onClick={() => setOpenCollection(isOpen ? null : collection)}
+              className="flex w-full items-center justify-between text-left"
+            >
+              <span className="font-semibold text-slate-300">
+                {isOpen ? "▾" : "▸"} {BUNDLE_COLLECTION_LABELS[collection]}
+              </span>
+              <span className="text-slate-400">
+                {taken} / {entries.length} ze zálohy
+              </span>
+            </button>
+            <div className="mt-1 text-slate-500">
+              {counts.new > 0 && <span className={KIND_CLASSES.new}>{counts.new} nových </span>}
+              {counts.changed > 0 && <span className={KIND_CLASSES.changed}>• {counts.changed} změněných </span>}
+              {counts.conflict > 0 && <span className={KIND_CLASSES.conflict}>• {counts.conflict} v konfliktu </span>}
+              {counts.unchanged > 0 && <span>• {counts.unchanged} beze změny</span>}
+            </div>
+
+            <div className="mt-2 flex gap-2">
+              <button
+                onClick={() => setCollectionSide(collection, "incoming")}
+                className="flex-1 rounded bg-slate-700 py-1 text-slate-200"
+              >
+                Vše ze zálohy
+              </button>
+              <button
+                onClick={() => setCollectionSide(collection, "local")}
+                className="flex-1 rounded bg-slate-700 py-1 text-slate-200"
+              >
+                Ponechat moje
+              </button>
+            </div>
+
+            {isOpen && (
+              <ul className="mt-2 max-h-60 space-y-1 overflow-y-auto border-t border-borderSoft pt-2">
+                {entries.slice(0, MAX_LISTED_ENTRIES).map((entry) => {
+                  const side = choices[getChoiceKey(entry)] || "local";
+                  return (
+                    <li key={entry.key} className="flex items-center justify-between gap-2">
+                      <div className="min-w-0">
+                        <div className="truncate text-slate-300">{entry.label}</div>
+                        <div className={KIND_CLASSES[entry.kind]}>
+                          {IMPORT_DIFF_KIND_LABELS[entry.kind]}
+                          {entry.changedFields.length > 0 && (
+                            <span className="text-slate-500"> • {entry.changedFields.join(", ")}</span>
+                          )}
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => toggleEntry(entry)}
+                        className={`shrink-0 rounded px-2 py-1 ${
+                          side === "incoming" ? "bg-accentPrimary text-white" : "bg-slate-700 text-slate-300"
+                        }`}
+                      >
+                        {getSideLabel(entry, side)}
+                      </button>
+                    </li>
+                  );
+                })}
+                {entries.length > MAX_LISTED_ENTRIES && (
+                  <li className="text-slate-500">
+                    … a dalších {entries.length - MAX_LISTED_ENTRIES} (použij tlačítka výše)
+                  </li>
+                )}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -14,8 +14,9 @@ import {
   saveExternalMapping,
   findExternalMapping,
   getCurrentSeason,
+  getClub,
 } from "@/lib/storage";
-import { isSupabaseConfigured } from "@/lib/supabaseClient";
+import { isCloudEnabled } from "@/lib/supabaseClient";
 import {
   createMatch as createMatchSupabase,
   findMatchByExternalId,
@@ -141,6 +142,10 @@ export function ImportWizard({ open, onClose, onComplete }: ImportWizardProps) {
         body: JSON.stringify({
           season: seasonId || "2025-2026",
           competitionAbbreviation: competitionAbbreviation || undefined,
+          // Site the competition's matches come from (ceskyhokej when not set)
+          source: selectedCompetition?.source,
+          leagueFilter: selectedCompetition?.source === "ustecky" ? selectedCompetition.externalId : undefined,
+          club: getClub(),
         }),
       });
 
@@ -177,7 +182,7 @@ export function ImportWizard({ open, onClose, onComplete }: ImportWizardProps) {
             source: "ceskyhokej" as const,
           };
 
-          if (isSupabaseConfigured()) {
+          if (isCloudEnabled()) {
             existingCompetition = await createCompetitionSupabase(createPayload);
           } else {
             existingCompetition = await addCompetition({
@@ -260,7 +265,7 @@ export function ImportWizard({ open, onClose, onComplete }: ImportWizardProps) {
       // Track created matches with their new IDs for navigation
       const createdMatches: Match[] = [];
       let validCompetitionId = mappings.competitionId || "";
-      if (isSupabaseConfigured() && validCompetitionId) {
+      if (isCloudEnabled() && validCompetitionId) {
         const exists = await getCompetitionById(validCompetitionId);
         if (!exists) {
           console.warn("[ImportWizard] Competition not found in Supabase, importing as unassigned.");
@@ -268,11 +273,11 @@ export function ImportWizard({ open, onClose, onComplete }: ImportWizardProps) {
         }
       }
       
-      if (isSupabaseConfigured()) {
+      if (isCloudEnabled()) {
         // Save to Supabase - process sequentially to avoid race conditions
         for (const match of selectedMatches) {
           try {
-            const homeTeamName = match.home || match.homeTeamName || "HC Slovan Ústí n.L.";
+            const homeTeamName = match.home || match.homeTeamName || getClub().name;
             const awayTeamName = match.away || match.awayTeamName || "Hosté";
             const mappedHomeId =
               mappings.homeTeamId && isUuid(mappings.homeTeamId)
@@ -472,7 +477,7 @@ export function ImportWizard({ open, onClose, onComplete }: ImportWizardProps) {
           {step === 0 && (
             <div className="space-y-4">
               <p className="text-sm text-slate-400">
-                Vyberte soutěž pro import zápasů HC Slovan Ústí.
+                Vyberte soutěž pro import zápasů {getClub().name}.
               </p>
 
               {userCompetitions.length > 0 && (
@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import type {
   Period,
   ResultType,
@@ -12,12 +12,23 @@ import type {
 interface LandscapeTrackingViewProps {
   period: Period;
   gameTime: string;
+  clockRunning?: boolean;
+  onToggleClock?: () => void;
+  situation?: SituationType; // Pre-filled from the penalty log
+  manpowerLabel?: string; // e.g. "5v4"
   events: GoalieEvent[];
   onAddEvent: (event: {
     result: ResultType;
     situation: SituationType;
     shotPosition?: { x: number; y: number; zone: ShotZone };
   }) => void;
+  onSituationChange?: (situation: SituationType) => void;
+  canUndo?: boolean;
+  canRedo?: boolean;
+  undoLabel?: string;
+  redoLabel?: string;
+  onUndo?: () => void;
+  onRedo?: () => void;
   onClose: () => void;
   totalStats: { shots: number; saves: number; goals: number };
 }
@@ -32,11 +43,29 @@ function getZoneFromCoords(x: number, y: number): ShotZone {
   return "slot";
 }
 
+function getSituationLabel(s: SituationType): string {
+  if (s === "even") return "5v5";
+  if (s === "powerplay") return "PP";
+  if (s === "shorthanded") return "SH";
+  return s;
+}
+
 export function LandscapeTrackingView({
   period,
   gameTime,
+  clockRunning = false,
+  onToggleClock,
+  situation = "even",
+  manpowerLabel,
   events,
   onAddEvent,
+  onSituationChange,
+  canUndo = false,
+  canRedo = false,
+  undoLabel,
+  redoLabel,
+  onUndo,
+  onRedo,
   onClose,
   totalStats,
 }: LandscapeTrackingViewProps) {
@@ -47,7 +76,22 @@ export function LandscapeTrackingView({
     zone: ShotZone;
   } | null>(null);
   const [selectedSituation, setSelectedSituation] =
-    useState<SituationType>("even");
+    useState<SituationType>(situation);
+
+  // Follow the penalty log whenever the manpower changes
+  useEffect(() => {
+    setSelectedSituation(situation);
+  }, [situation]);
+
+  const situationOptions: SituationType[] = ["even", "powerplay", "shorthanded"];
+  if (situation === "4v4" || situation === "3v3") {
+    situationOptions.push(situation);
+  }
+
+  const handleSituationSelect = (s: SituationType) => {
+    setSelectedSituation(s);
+    onSituationChange?.(s);
+  };
 
   const handleRinkTap = (e: React.MouseEvent<HTMLDivElement>) => {
     const rect = e.currentTarget.getBoundingClientRect();
@@ -99,10 +143,27 @@ export function LandscapeTrackingView({
               ← Zavřít
             </button>
 
-            {/* Period/Time display */}
-            <div className="absolute right-2 top-2 z-10 rounded-lg bg-slate-800/80 px-3 py-2 text-xs text-slate-300">
-              {period}. třetina • {gameTime}
-            </div>
+            {/* Period/Time display - tap to start/stop the game clock */}
+            <button
+              onClick={onToggleClock}
+              disabled={!onToggleClock}
+              className="absolute right-2 top-2 z-10 flex items-center gap-2 rounded-lg bg-slate-800/80 px-3 py-2 text-xs text-slate-300"
+            >
+              {onToggleClock && (
+                <span className={clockRunning ? "text-accentDanger" : "text-accentSuccess"}>
+                  {clockRunning ? "❚❚" : "▶"}
+                </span>
+              )}
+              <span>
+                {period === "OT" ? "OT" : `${period}. třetina`} •{" "}
+                <span className="font-mono">{gameTime}</span>
+              </span>
+              {manpowerLabel && manpowerLabel !== "5v5" && (
+                <span className="rounded bg-accentPrimary/20 px-1.5 font-mono text-accentPrimary">
+                  {manpowerLabel}
+                </span>
+              )}
+            </button>
 
             {/* Stats display */}
             <div className="absolute bottom-2 left-2 z-10 rounded-lg bg-slate-800/80 px-3 py-2 text-xs">
@@ -206,24 +267,45 @@ export function LandscapeTrackingView({
 
           {/* Quick action panel - right side */}
           <div className="flex w-32 flex-col justify-center gap-3 bg-bgSurfaceSoft p-3">
+            {(onUndo || onRedo) && (
+              <div className="grid grid-cols-2 gap-1">
+                <button
+                  onClick={onUndo}
+                  disabled={!canUndo}
+                  title={undoLabel}
+                  className="rounded-lg bg-slate-800 py-2 text-sm text-slate-300 disabled:opacity-30"
+                >
+                  ↶
+                </button>
+                <button
+                  onClick={onRedo}
+                  disabled={!canRedo}
+                  title={redoLabel}
+                  className="rounded-lg bg-slate-800 py-2 text-sm text-slate-300 disabled:opacity-30"
+                >
+                  ↷
+                </button>
+              </div>
+            )}
+
             <p className="text-center text-[10px] text-slate-500">
               Rychlé přidání
             </p>
 
             {/* Situation selector */}
             <div className="flex justify-center gap-1">
-              {(["even", "powerplay", "shorthanded"] as SituationType[]).map(
+              {situationOptions.map(
                 (s) => (
                   <button
                     key={s}
-                    onClick={() => setSelectedSituation(s)}
+                    onClick={() => handleSituationSelect(s)}
                     className={`rounded px-2 py-1 text-[10px] font-medium ${
                       selectedSituation === s
                         ? "bg-accentPrimary text-white"
                         : "bg-slate-800 text-slate-400"
                     }`}
                   >
-                    {s === "even" ? "5v5" : s === "powerplay" ? "PP" : "SH"}
+                    {getSituationLabel(s)}
                   </button>
                 )
               )}
@@ -276,18 +358,18 @@ export function LandscapeTrackingView({
 
           {/* Situation selector */}
           <div className="flex justify-center gap-2 bg-bgSurfaceSoft/50 py-3">
-            {(["even", "powerplay", "shorthanded"] as SituationType[]).map(
+            {situationOptions.map(
               (s) => (
                 <button
                   key={s}
-                  onClick={() => setSelectedSituation(s)}
+                  onClick={() => handleSituationSelect(s)}
                   className={`rounded-lg px-4 py-2 text-sm font-medium ${
                     selectedSituation === s
                       ? "bg-accentPrimary text-white"
                       : "bg-slate-800 text-slate-300"
                   }`}
                 >
-                  {s === "even" ? "5v5" : s === "powerplay" ? "PP" : "SH"}
+                  {getSituationLabel(s)}
                 </button>
               )
             )}
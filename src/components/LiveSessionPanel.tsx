@@ -0,0 +1,110 @@
+"use client";
+
+import {
+  LIVE_ROLES,
+  LIVE_ROLE_LABELS,
+  type LiveParticipant,
+  type LiveRole,
+  type LiveTransport,
+} from "@/lib/liveSession";
+
+interface LiveSessionPanelProps {
+  active: boolean;
+  role: LiveRole;
+  participants: LiveParticipant[];
+  deviceId: string;
+  transportKind: LiveTransport["kind"] | null;
+  controlsClock: boolean;
+  mergedDuplicates: number;
+  disabled?: boolean;
+  onToggle: () => void;
+  onRoleChange: (role: LiveRole) => void;
+}
+
+const ROLE_HINTS: Record<LiveRole, string> = {
+  all: "Zadáváš vše sám",
+  shots: "Klepej na kluziště, kde se střílelo",
+  targets: "Tlačítky Zákrok / Gól vyber zónu v brance",
+  clock: "Ovládáš čas a třetiny pro všechny",
+};
+
+export function LiveSessionPanel({
+  active,
+  role,
+  participants,
+  deviceId,
+  transportKind,
+  controlsClock,
+  mergedDuplicates,
+  disabled = false,
+  onToggle,
+  onRoleChange,
+}: LiveSessionPanelProps) {
+  const others = participants.filter((p) => p.deviceId !== deviceId);
+
+  return (
+    <div className="border-b border-borderSoft bg-bgSurfaceSoft/30 px-4 py-2">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-xs text-slate-400">
+          <span
+            className={`h-2 w-2 rounded-full ${
+              active && transportKind ? "bg-accentSuccess" : "bg-slate-600"
+            }`}
+          />
+          <span>
+            Společné sledování
+            {active && ` • ${others.length + 1} zař.`}
+          </span>
+          {active && transportKind === "local" && (
+            <span className="text-[10px] text-slate-500">(jen tento prohlížeč)</span>
+          )}
+        </div>
+        <button
+          onClick={onToggle}
+          disabled={disabled}
+          className={`rounded-lg px-2 py-1 text-[10px] font-medium disabled:opacity-40 ${
+            active ? "bg-accentDanger/20 text-accentDanger" : "bg-accentPrimary/20 text-accentPrimary"
+          }`}
+        >
+          {active ? "Odpojit" : "Připojit"}
+        </button>
+      </div>
+
+      {active && (
+        <div className="mt-2 space-y-2">
+          <div className="flex gap-1">
+            {LIVE_ROLES.map((r) => (
+              <button
+                key={r}
+                onClick={() => onRoleChange(r)}
+                className={`flex-1 rounded-lg px-2 py-1 text-[10px] font-medium ${
+                  role === r ? "bg-accentPrimary text-white" : "bg-slate-800 text-slate-300"
+                }`}
+              >
+                {LIVE_ROLE_LABELS[r]}
+              </button>
+            ))}
+          </div>
+          <p className="text-[10px] text-slate-500">
+            {ROLE_HINTS[role]}
+            {!controlsClock && " • čas řídí jiné zařízení"}
+          </p>
+          {others.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {others.map((p) => (
+                <span key={p.deviceId} className="rounded bg-slate-800 px-2 py-0.5 text-[10px] text-slate-300">
+                  📱 {LIVE_ROLE_LABELS[p.role]}
+                </span>
+              ))}
+            </div>
+          )}
+          {mergedDuplicates > 0 && (
+            <p className="text-[10px] text-accentHighlight">
+              Sloučeno duplicitních záznamů: {mergedDuplicates}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
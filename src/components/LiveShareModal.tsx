@@ -0,0 +1,111 @@
+"use client";
+
+import React, { useState } from "react";
+import { getLiveSharePath } from "@/lib/liveShare";
+import { isCloudEnabled } from "@/lib/supabaseClient";
+import { shareText } from "@/lib/utils";
+
+type LiveShareModalProps = {
+  open: boolean;
+  onClose: () => void;
+  shareToken?: string;
+  matchTitle: string; // "Home vs Away"
+  onCreate: () => Promise<void> | void; // New token (replaces the old one)
+  onRevoke: () => Promise<void> | void;
+};
+
+export function LiveShareModal({
+  open,
+  onClose,
+  shareToken,
+  matchTitle,
+  onCreate,
+  onRevoke,
+}: LiveShareModalProps) {
+  const [status, setStatus] = useState<string | null>(null);
+
+  if (!open) return null;
+
+  // The viewer's page reads the match from the cloud - a local-only match
+  // would never show up there
+  const cloudEnabled = isCloudEnabled();
+  const url = cloudEnabled && shareToken ? `${window.location.origin}${getLiveSharePath(shareToken)}` : null;
+
+  const handleShare = async () => {
+    if (!url) return;
+    const result = await shareText(`${matchTitle} - živě`, url);
+    setStatus(result === "copied" ? "Odkaz zkopírován" : result === "failed" ? "Odkaz se nepodařilo sdílet" : null);
+  };
+
+  const handleRenew = async () => {
+    if (!confirm("Vytvořit nový odkaz? Starý odkaz přestane fungovat.")) return;
+    await onCreate();
+    setStatus(null);
+  };
+
+  const handleRevoke = async () => {
+    if (!confirm("Zrušit sdílení? Odkaz přestane fungovat.")) return;
+    await onRevoke();
+    setStatus(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4">
+      <div className="w-full max-w-sm rounded-2xl bg-bgSurfaceSoft p-5">
+        <h3 className="mb-2 text-center text-lg font-semibold">Živé sledování</h3>
+        <p className="mb-4 text-center text-xs text-slate-400">
+          Kdo má odkaz, uvidí skóre, třetinu, úspěšnost, mapu střel a poslední události – bez možnosti cokoli měnit.
+        </p>
+
+        {!cloudEnabled ? (
+          <div className="space-y-2">
+            <p className="rounded-lg bg-yellow-900/20 px-3 py-2 text-center text-xs text-yellow-200">
+              Živé sledování vyžaduje přihlášení a synchronizaci s cloudem – bez nich se zápas k divákům nedostane.
+            </p>
+            {shareToken && (
+              <button
+                onClick={handleRevoke}
+                className="w-full rounded-lg bg-accentDanger/20 py-2 text-xs font-medium text-accentDanger"
+              >
+                Zrušit sdílení
+              </button>
+            )}
+          </div>
+        ) : url ? (
+          <div className="space-y-2">
+            <div className="break-all rounded-lg bg-slate-800 px-3 py-2 text-xs text-slate-300">{url}</div>
+            <button
+              onClick={handleShare}
+              className="w-full rounded-lg bg-accentPrimary py-2 text-sm font-medium text-white"
+            >
+              📤 Sdílet odkaz
+            </button>
+            {status && <p className="text-center text-xs text-accentSuccess">{status}</p>}
+            <div className="grid grid-cols-2 gap-2">
+              <button onClick={handleRenew} className="rounded-lg bg-slate-800 py-2 text-xs text-slate-300">
+                Nový odkaz
+              </button>
+              <button
+                onClick={handleRevoke}
+                className="rounded-lg bg-accentDanger/20 py-2 text-xs font-medium text-accentDanger"
+              >
+                Zrušit sdílení
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button
+            onClick={() => onCreate()}
+            className="w-full rounded-lg bg-accentPrimary py-2 text-sm font-medium text-white"
+          >
+            Vytvořit odkaz
+          </button>
+        )}
+
+        <button onClick={onClose} className="mt-4 w-full rounded-lg bg-slate-800 py-2 text-sm text-slate-300">
+          Zavřít
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+"use client";
+
+import React, { useState } from "react";
+import type { Match, MatchResultType } from "@/lib/types";
+import { MATCH_RESULT_TYPE_LABELS } from "@/lib/decisions";
+
+type MatchResultModalProps = {
+  open: boolean;
+  onClose: () => void;
+  onSave: (data: {
+    homeScore: number;
+    awayScore: number;
+    resultType: MatchResultType;
+  }) => void;
+  match: Match;
+  defaultResultType: MatchResultType; // Inferred from OT events when not set
+};
+
+// The form takes the stored result when it mounts - the caller remounts it
+// on every opening (`key`), so edits made elsewhere meanwhile are picked up
+export function MatchResultModal({
+  open,
+  onClose,
+  onSave,
+  match,
+  defaultResultType,
+}: MatchResultModalProps) {
+  const [homeScore, setHomeScore] = useState(() =>
+    match.homeScore !== undefined ? String(match.homeScore) : ""
+  );
+  const [awayScore, setAwayScore] = useState(() =>
+    match.awayScore !== undefined ? String(match.awayScore) : ""
+  );
+  const [resultType, setResultType] = useState<MatchResultType>(
+    () => match.resultType || defaultResultType
+  );
+
+  if (!open) return null;
+
+  const home = parseInt(homeScore, 10);
+  const away = parseInt(awayScore, 10);
+  const scoreValid = !Number.isNaN(home) && !Number.isNaN(away) && home >= 0 && away >= 0;
+  // OT and shootout always produce a winner
+  const tieInvalid = scoreValid && home === away && resultType !== "regulation";
+
+  const handleSubmit = () => {
+    if (!scoreValid || tieInvalid) return;
+    onSave({ homeScore: home, awayScore: away, resultType });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4">
+      <div className="w-full max-w-sm rounded-2xl bg-bgSurfaceSoft p-5">
+        <h3 className="mb-4 text-center text-lg font-semibold">Výsledek zápasu</h3>
+
+        {/* Score */}
+        <div className="mb-4 grid grid-cols-[1fr_auto_1fr] items-end gap-3">
+          <div>
+            <label className="mb-1 block truncate text-center text-xs text-slate-400">
+              {match.home}
+            </label>
+            <input
+              type="number"
+              min="0"
+              value={homeScore}
+              onChange={(e) => setHomeScore(e.target.value)}
+              className="w-full rounded-lg bg-slate-800 px-3 py-2 text-center text-lg font-bold text-slate-100"
+            />
+          </div>
+          <span className="pb-2 text-lg font-bold text-slate-500">:</span>
+          <div>
+            <label className="mb-1 block truncate text-center text-xs text-slate-400">
+              {match.away}
+            </label>
+            <input
+              type="number"
+              min="0"
+              value={awayScore}
+              onChange={(e) => setAwayScore(e.target.value)}
+              className="w-full rounded-lg bg-slate-800 px-3 py-2 text-center text-lg font-bold text-slate-100"
+            />
+          </div>
+        </div>
+
+        {/* Result type */}
+        <div className="mb-4">
+          <label className="mb-2 block text-xs text-slate-400">Rozhodnuto</label>
+          <div className="grid grid-cols-3 gap-2 text-xs">
+            {(Object.keys(MATCH_RESULT_TYPE_LABELS) as MatchResultType[]).map((value) => (
+              <button
+                key={value}
+                onClick={() => setResultType(value)}
+                className={`rounded-xl border px-1 py-2 ${
+                  resultType === value
+                    ? "border-accentPrimary bg-accentPrimary/20 text-accentPrimary"
+                    : "border-borderSoft bg-slate-800 text-slate-300"
+                }`}
+              >
+                {MATCH_RESULT_TYPE_LABELS[value]}
+              </button>
+            ))}
+          </div>
+          {tieInvalid && (
+            <p className="mt-2 text-center text-xs text-accentDanger">
+              Po prodloužení nebo nájezdech nemůže být remíza
+            </p>
+          )}
+        </div>
+
+        {/* Actions */}
+        <div className="flex gap-3">
+          <button
+            onClick={onClose}
+            className="flex-1 rounded-xl bg-slate-800 py-2.5 text-sm text-slate-300"
+          >
+            Zrušit
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={!scoreValid || tieInvalid}
+            className="flex-1 rounded-xl bg-accentPrimary py-2.5 text-sm font-semibold text-white disabled:opacity-40"
+          >
+            Uložit
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+"use client";
+
+import { useMemo } from "react";
+import type { GoalieEvent, Match } from "@/lib/types";
+import type { PeriodSettings } from "@/lib/gameClock";
+import {
+  buildMatchTimeline,
+  getPeakPressure,
+  getPressureLevel,
+  getShotsInWindow,
+  type TimelineMarkerType,
+  type TimelinePoint,
+} from "@/lib/timeline";
+
+interface MatchTimelineProps {
+  match: Match;
+  events: GoalieEvent[];
+  settings: PeriodSettings;
+  elapsed?: number; // Current game time in seconds - live mode when set
+}
+
+// Graph area inside the SVG viewBox
+const WIDTH = 300;
+const HEIGHT = 110;
+const TOP = 14; // Room for markers
+const BOTTOM = 100;
+
+const MARKER_COLORS: Record<TimelineMarkerType, string> = {
+  goal: "#ef4444",
+  penalty: "#facc15",
+  goalie_change: "#3b82f6",
+};
+
+const PRESSURE_STYLES = {
+  low: "bg-slate-800 text-slate-400",
+  medium: "bg-accentHighlight/20 text-accentHighlight",
+  high: "bg-accentDanger/20 text-accentDanger",
+} as const;
+
+function toStepPath(
+  points: TimelinePoint[],
+  value: (p: TimelinePoint) => number,
+  x: (at: number) => number,
+  y: (count: number) => number,
+  until: number
+): string {
+  let path = `M ${x(0)} ${y(0)}`;
+  let current = 0;
+  for (const point of points) {
+    if (point.at > until) break;
+    path += ` H ${x(point.at)} V ${y(value(point))}`;
+    current = value(point);
+  }
+  return `${path} H ${x(until)} V ${y(current)}`;
+}
+
+export function MatchTimeline({ match, events, settings, elapsed }: MatchTimelineProps) {
+  const timeline = useMemo(
+    () => buildMatchTimeline(match, events, settings),
+    [match, events, settings]
+  );
+  const peak = useMemo(() => getPeakPressure(events, settings), [events, settings]);
+
+  const live = elapsed !== undefined;
+  const until = live ? Math.min(elapsed, timeline.end) : timeline.end;
+  const recentShots = live ? getShotsInWindow(events, settings, elapsed) : peak.shots;
+  const pressure = getPressureLevel(recentShots);
+
+  const totalShots = timeline.points.length > 0 ? timeline.points[timeline.points.length - 1].shots : 0;
+  const maxShots = Math.max(totalShots, 5);
+  const x = (at: number) => (at / timeline.end) * WIDTH;
+  const y = (count: number) => BOTTOM - (count / maxShots) * (BOTTOM - TOP);
+
+  return (
+    <div className="border-b border-borderSoft bg-bgSurfaceSoft/50 px-4 py-3">
+      <div className="mb-2 flex items-center justify-between text-xs">
+        <span className="font-semibold text-slate-300">Průběh zápasu</span>
+        <span className={`rounded px-2 py-0.5 ${PRESSURE_STYLES[pressure]}`}>
+          {live
+            ? `Tlak (5 min): ${recentShots} stř.`
+            : peak.shots > 0
+            ? `Největší tlak: ${peak.shots} stř. / 5 min (${peak.period === "OT" ? "OT" : `${peak.period}.`} ${peak.gameTime})`
+            : "Bez střel"}
+        </span>
+      </div>
+
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full">
+        {/* Periods */}
+        {timeline.periods.map((p) => (
+          <g key={String(p.period)}>
+            {p.start > 0 && (
+              <line
+                x1={x(p.start)}
+                y1={TOP - 4}
+                x2={x(p.start)}
+                y2={BOTTOM}
+                stroke="rgba(148,163,184,0.3)"
+                strokeWidth="0.5"
+                strokeDasharray="2,2"
+              />
+            )}
+            <text
+              x={(x(p.start) + x(p.end)) / 2}
+              y={HEIGHT - 2}
+              textAnchor="middle"
+              fontSize="7"
+              fill="rgba(148,163,184,0.7)"
+            >
+              {p.period === "OT" ? "OT" : `${p.period}.`}
+            </text>
+          </g>
+        ))}
+        <line x1="0" y1={BOTTOM} x2={WIDTH} y2={BOTTOM} stroke="rgba(148,163,184,0.4)" strokeWidth="0.5" />
+
+        {/* Cumulative shots and goals */}
+        <path
+          d={toStepPath(timeline.points, (p) => p.shots, x, y, until)}
+          fill="none"
+          stroke="#3b82f6"
+          strokeWidth="1.5"
+        />
+        <path
+          d={toStepPath(timeline.points, (p) => p.goals, x, y, until)}
+          fill="none"
+          stroke="#ef4444"
+          strokeWidth="1.5"
+        />
+
+        {/* Markers */}
+        {timeline.markers
+          .filter((m) => m.at <= until)
+          .map((m, i) => (
+            <g key={`${m.type}-${i}`}>
+              <title>
+                {m.label} – {m.period === "OT" ? "OT" : `${m.period}.`} {m.gameTime}
+              </title>
+              {m.type === "goal" ? (
+                <circle cx={x(m.at)} cy={TOP - 7} r="2.5" fill={MARKER_COLORS.goal} />
+              ) : m.type === "penalty" ? (
+                <rect x={x(m.at) - 2} y={TOP - 9} width="4" height="4" fill={MARKER_COLORS.penalty} />
+              ) : (
+                <path
+                  d={`M ${x(m.at)} ${TOP - 10} l 2.5 3 l -2.5 3 l -2.5 -3 Z`}
+                  fill={MARKER_COLORS.goalie_change}
+                />
+              )}
+            </g>
+          ))}
+
+        {/* Now */}
+        {live && (
+          <line
+            x1={x(until)}
+            y1={TOP - 4}
+            x2={x(until)}
+            y2={BOTTOM}
+            stroke="rgba(248,250,252,0.5)"
+            strokeWidth="0.5"
+          />
+        )}
+      </svg>
+
+      {/* Per period */}
+      <div
+        className={`mt-1 grid gap-1 text-center text-[10px] ${
+          timeline.periods.length > 3 ? "grid-cols-4" : "grid-cols-3"
+        }`}
+      >
+        {timeline.periods.map((p) => (
+          <div key={String(p.period)} className="rounded bg-slate-800/50 px-1 py-1">
+            <span className="text-slate-500">{p.period === "OT" ? "OT" : `${p.period}.`}</span>{" "}
+            <span className="text-slate-200">{p.shots} stř.</span>{" "}
+            <span className="text-accentDanger">{p.goals} G</span>
+          </div>
+        ))}
+      </div>
+
+      {/* Legend */}
+      <div className="mt-2 flex flex-wrap gap-3 text-[10px] text-slate-500">
+        <span><span className="text-accentPrimary">━</span> Střely</span>
+        <span><span className="text-accentDanger">━</span> Góly</span>
+        <span><span className="text-accentDanger">●</span> Gól</span>
+        <span><span className="text-accentHighlight">■</span> Trest</span>
+        <span><span className="text-accentPrimary">◆</span> Změna brankáře</span>
+      </div>
+    </div>
+  );
+}
@@ -2,20 +2,24 @@
 
 import React, { useState, useEffect } from "react";
 import { useCompetitions } from "@/lib/competitionService";
-import { getCurrentSeason } from "@/lib/storage";
+import { getClub, getClubConfig, getCurrentSeason, saveClubConfig } from "@/lib/storage";
+import { ensurePresetsExist } from "@/lib/dataService";
+import type { ClubConfig } from "@/lib/club";
 import {
   CompetitionSearchDropdown,
   type DiscoveredCompetition,
 } from "@/components/CompetitionSearchDropdown";
+import { ClubSetup } from "@/components/ClubSetup";
 
 interface OnboardingWizardProps {
   onComplete?: () => void;
 }
 
 /**
- * Onboarding wizard displayed on first app launch when no competitions exist,
- * or when user wants to switch/create a competition.
- * Allows user to select existing competition or create a new one.
+ * Onboarding wizard displayed on first app launch when no club is picked yet
+ * or no competitions exist, or when user wants to switch/create a competition.
+ * Asks for the club first, then lets the user select an existing competition
+ * or create a new one.
  */
 export function OnboardingWizard({ onComplete }: OnboardingWizardProps) {
   const { 
@@ -23,9 +27,12 @@ export function OnboardingWizard({ onComplete }: OnboardingWizardProps) {
     addCompetition, 
     setActiveCompetitionId,
     needsOnboarding, 
-    isLoading 
+    isLoading,
+    reload,
   } = useCompetitions();
   
+  // Skipping asks again on the next start
+  const [needsClub, setNeedsClub] = useState(() => !getClubConfig());
   const [mode, setMode] = useState<"select" | "create">("select");
   const [selectedCompetitionId, setSelectedCompetitionId] = useState<string>("");
   const [createMode, setCreateMode] = useState<"web" | "manual">("web");
@@ -49,10 +56,47 @@ export function OnboardingWizard({ onComplete }: OnboardingWizardProps) {
   }, [competitions]);
 
   // Don't render if loading or if onboarding is not needed
-  if (isLoading || !needsOnboarding) {
+  if (isLoading || (!needsOnboarding && !needsClub)) {
     return null;
   }
 
+  const handleSaveClub = async (club: ClubConfig) => {
+    saveClubConfig(club);
+    // Competitions of the club's tracked categories
+    await ensurePresetsExist();
+    await reload();
+    setNeedsClub(false);
+  };
+
+  if (needsClub) {
+    return (
+      <div className="fixed inset-0 z-[100] flex items-center justify-center overflow-y-auto bg-bgMain p-4">
+        <div className="w-full max-w-sm">
+          <div className="mb-8 text-center">
+            <div className="mb-4 text-6xl">🏒</div>
+            <h1 className="mb-2 text-2xl font-bold">Goalie Tracker</h1>
+            <p className="text-sm text-slate-400">Sledování statistik hokejových brankářů</p>
+          </div>
+
+          <div className="rounded-2xl bg-bgSurfaceSoft p-6">
+            <h2 className="mb-2 text-center text-lg font-semibold">Za jaký klub chytáš?</h2>
+            <p className="mb-6 text-center text-sm text-slate-400">
+              Podle klubu se načítají zápasy z ceskyhokej.cz
+            </p>
+            <ClubSetup club={getClub()} submitLabel="Pokračovat" onSave={handleSaveClub} />
+            <button
+              type="button"
+              onClick={() => setNeedsClub(false)}
+              className="mt-3 w-full text-center text-xs text-slate-500"
+            >
+              Přeskočit
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   const handleSelectCompetition = () => {
     if (!selectedCompetitionId) {
       setError("Prosím vyberte soutěž");
@@ -0,0 +1,161 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import type { PenaltyTeam, PenaltyType, Period } from "@/lib/types";
+import { PENALTY_TYPE_LABELS } from "@/lib/penalties";
+import { parseClockTime } from "@/lib/gameClock";
+
+type PenaltyModalProps = {
+  open: boolean;
+  onClose: () => void;
+  onSave: (data: {
+    team: PenaltyTeam;
+    playerNumber?: number;
+    type: PenaltyType;
+    period: Period;
+    gameTime: string;
+  }) => void;
+  period: Period; // Current clock reading, used as default start
+  gameTime: string;
+};
+
+export function PenaltyModal({
+  open,
+  onClose,
+  onSave,
+  period,
+  gameTime,
+}: PenaltyModalProps) {
+  const [team, setTeam] = useState<PenaltyTeam>("opponent");
+  const [playerNumber, setPlayerNumber] = useState("");
+  const [type, setType] = useState<PenaltyType>("minor");
+  const [time, setTime] = useState(gameTime);
+  // Take the clock reading only when the modal opens
+  const gameTimeRef = useRef(gameTime);
+
+  useEffect(() => {
+    gameTimeRef.current = gameTime;
+  }, [gameTime]);
+
+  useEffect(() => {
+    if (open) {
+      setTeam("opponent");
+      setPlayerNumber("");
+      setType("minor");
+      setTime(gameTimeRef.current);
+    }
+  }, [open]);
+
+  if (!open) return null;
+
+  const timeValid = parseClockTime(time) !== null;
+
+  const handleSubmit = () => {
+    if (!timeValid) return;
+    const number = parseInt(playerNumber, 10);
+    onSave({
+      team,
+      playerNumber: Number.isNaN(number) ? undefined : number,
+      type,
+      period,
+      gameTime: time.trim(),
+    });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4">
+      <div className="w-full max-w-sm rounded-2xl bg-bgSurfaceSoft p-5">
+        <h3 className="mb-1 text-center text-lg font-semibold">Nový trest</h3>
+        <p className="mb-4 text-center text-xs text-slate-400">
+          {period === "OT" ? "Prodloužení" : `${period}. třetina`}
+        </p>
+
+        {/* Team */}
+        <div className="mb-4 grid grid-cols-2 gap-2 text-sm">
+          {(
+            [
+              ["our", "Náš tým"],
+              ["opponent", "Soupeř"],
+            ] as Array<[PenaltyTeam, string]>
+          ).map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => setTeam(value)}
+              className={`rounded-xl border px-2 py-2 ${
+                team === value
+                  ? "border-accentPrimary bg-accentPrimary/20 text-accentPrimary"
+                  : "border-borderSoft bg-slate-800 text-slate-300"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {/* Type */}
+        <div className="mb-4">
+          <label className="mb-2 block text-xs text-slate-400">Trest</label>
+          <div className="grid grid-cols-4 gap-2 text-xs">
+            {(Object.keys(PENALTY_TYPE_LABELS) as PenaltyType[]).map((value) => (
+              <button
+                key={value}
+                onClick={() => setType(value)}
+                className={`rounded-xl border px-1 py-2 ${
+                  type === value
+                    ? "border-accentPrimary bg-accentPrimary/20 text-accentPrimary"
+                    : "border-borderSoft bg-slate-800 text-slate-300"
+                }`}
+              >
+                {PENALTY_TYPE_LABELS[value]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Player number and time */}
+        <div className="mb-4 grid grid-cols-2 gap-3">
+          <div>
+            <label className="mb-1 block text-xs text-slate-400">Číslo hráče</label>
+            <input
+              type="number"
+              min="0"
+              value={playerNumber}
+              onChange={(e) => setPlayerNumber(e.target.value)}
+              placeholder="—"
+              className="w-full rounded-lg bg-slate-800 px-3 py-2 text-center text-sm text-slate-100"
+            />
+          </div>
+          <div>
+            <label className="mb-1 block text-xs text-slate-400">Čas (zbývá)</label>
+            <input
+              value={time}
+              onChange={(e) => setTime(e.target.value)}
+              inputMode="numeric"
+              className={`w-full rounded-lg bg-slate-800 px-3 py-2 text-center font-mono text-sm ${
+                timeValid ? "text-slate-100" : "text-accentDanger"
+              }`}
+            />
+          </div>
+        </div>
+
+        {/* Actions */}
+        <div className="flex gap-3">
+          <button
+            onClick={onClose}
+            className="flex-1 rounded-xl bg-slate-800 py-2.5 text-sm text-slate-300"
+          >
+            Zrušit
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={!timeValid}
+            className="flex-1 rounded-xl bg-accentPrimary py-2.5 text-sm font-semibold text-white disabled:opacity-40"
+          >
+            Uložit
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
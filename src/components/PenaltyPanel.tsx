@@ -0,0 +1,130 @@
+"use client";
+
+import { useState } from "react";
+import type { Penalty } from "@/lib/types";
+import {
+  PENALTY_TYPE_LABELS,
+  getPenaltyRemainingSeconds,
+  type ManpowerState,
+  type PenaltyWindow,
+} from "@/lib/penalties";
+import { formatClockTime } from "@/lib/gameClock";
+
+interface PenaltyPanelProps {
+  penalties: Penalty[];
+  windows: PenaltyWindow[];
+  elapsed: number; // Current elapsed game time in seconds
+  manpower: ManpowerState;
+  disabled?: boolean;
+  onAdd: () => void;
+  onEnd: (penaltyId: string) => void;
+  onDelete: (penaltyId: string) => void;
+}
+
+export function PenaltyPanel({
+  penalties,
+  windows,
+  elapsed,
+  manpower,
+  disabled = false,
+  onAdd,
+  onEnd,
+  onDelete,
+}: PenaltyPanelProps) {
+  const [showLog, setShowLog] = useState(false);
+
+  const active = penalties.filter(
+    (p) => getPenaltyRemainingSeconds(windows, p.id, elapsed) !== null
+  );
+  const listed = showLog ? penalties : active;
+  const isEven = manpower.our === manpower.opponent && manpower.our === 5;
+
+  return (
+    <div className="border-b border-borderSoft bg-bgSurfaceSoft/50 px-4 py-2 text-xs text-slate-400">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <span
+            className={`rounded px-1.5 py-0.5 font-mono font-semibold ${
+              isEven
+                ? "bg-slate-800 text-slate-400"
+                : manpower.our > manpower.opponent
+                ? "bg-accentSuccess/20 text-accentSuccess"
+                : manpower.our < manpower.opponent
+                ? "bg-accentDanger/20 text-accentDanger"
+                : "bg-accentPrimary/20 text-accentPrimary"
+            }`}
+          >
+            {manpower.label}
+          </span>
+          {penalties.length > 0 && (
+            <button
+              onClick={() => setShowLog(!showLog)}
+              className="text-[10px] text-slate-500"
+            >
+              {showLog ? "Jen aktivní" : `Tresty (${penalties.length})`}
+            </button>
+          )}
+        </div>
+        <button
+          onClick={onAdd}
+          disabled={disabled}
+          className="rounded-lg bg-slate-800 px-2 py-1 text-[10px] text-slate-300 disabled:opacity-50"
+        >
+          + Trest
+        </button>
+      </div>
+
+      {listed.length > 0 && (
+        <div className="mt-2 space-y-1">
+          {listed.map((p) => {
+            const remaining = getPenaltyRemainingSeconds(windows, p.id, elapsed);
+            const window = windows.find((w) => w.penaltyId === p.id);
+            const waiting = remaining !== null && !!window && window.start > elapsed;
+            return (
+              <div
+                key={p.id}
+                className="flex items-center justify-between rounded-lg bg-slate-800/60 px-2 py-1"
+              >
+                <span className={p.team === "our" ? "text-accentDanger" : "text-accentSuccess"}>
+                  {p.team === "our" ? "Náš tým" : "Soupeř"}
+                  {p.playerNumber !== undefined && ` #${p.playerNumber}`}
+                  <span className="ml-1 text-slate-500">
+                    {PENALTY_TYPE_LABELS[p.type]} • {p.period === "OT" ? "OT" : `${p.period}.`} {p.gameTime}
+                  </span>
+                </span>
+                <span className="flex items-center gap-2">
+                  {remaining !== null ? (
+                    <span className="font-mono text-slate-200">
+                      {waiting ? "čeká" : formatClockTime(remaining * 1000)}
+                    </span>
+                  ) : (
+                    <span className="text-slate-600">odpykáno</span>
+                  )}
+                  {!disabled && remaining !== null && !waiting && (
+                    <button
+                      onClick={() => onEnd(p.id)}
+                      className="text-[10px] text-slate-400"
+                      title="Ukončit trest (gól v přesilovce)"
+                    >
+                      Ukončit
+                    </button>
+                  )}
+                  {!disabled && showLog && (
+                    <button
+                      onClick={() => {
+                        if (confirm("Smazat trest?")) onDelete(p.id);
+                      }}
+                      className="text-[10px] text-accentDanger"
+                    >
+                      ✕
+                    </button>
+                  )}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
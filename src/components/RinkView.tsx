@@ -3,15 +3,19 @@
 import React from "react";
 import type { GoalieEvent, Period } from "@/lib/types";
 
+// Only the fields the rink needs (also used by the public live page)
+type RinkEvent = Pick<GoalieEvent, "id" | "period" | "result" | "shotPosition">;
+
 type RinkViewProps = {
   period: Period;
-  events: GoalieEvent[];
-  onTap: (coords: { x: number; y: number }) => void;
+  events: RinkEvent[];
+  onTap?: (coords: { x: number; y: number }) => void; // Omitted = read-only
   showHeatmap?: boolean;
 };
 
 export function RinkView({ period, events, onTap, showHeatmap = false }: RinkViewProps) {
   const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!onTap) return;
     const rect = e.currentTarget.getBoundingClientRect();
     const x = ((e.clientX - rect.left) / rect.width) * 100;
     const y = ((e.clientY - rect.top) / rect.height) * 100;
@@ -34,7 +38,7 @@ export function RinkView({ period, events, onTap, showHeatmap = false }: RinkVie
   return (
     <div className="px-4 py-4">
       <div
-        className="relative cursor-crosshair overflow-hidden rounded-2xl border-2 border-accentPrimary/50 bg-gradient-to-b from-blue-900/30 to-blue-950/60"
+        className={`relative ${onTap ? "cursor-crosshair" : ""} overflow-hidden rounded-2xl border-2 border-accentPrimary/50 bg-gradient-to-b from-blue-900/30 to-blue-950/60`}
         style={{ aspectRatio: "1.2/1" }}
         onClick={handleClick}
       >
@@ -241,7 +245,7 @@ export function RinkView({ period, events, onTap, showHeatmap = false }: RinkVie
   );
 }
 
-function calculateHeatmap(events: GoalieEvent[]) {
+function calculateHeatmap(events: RinkEvent[]) {
   const gridSize = 10;
   const grid: { [key: string]: number } = {};
 
@@ -0,0 +1,120 @@
+"use client";
+
+import type { Goalie, ShotAttempt } from "@/lib/types";
+import {
+  SHOOTOUT_MOVE_LABELS,
+  SHOT_ATTEMPT_KIND_LABELS,
+  getShotAttemptSummary,
+} from "@/lib/shootout";
+
+interface ShootoutPanelProps {
+  attempts: ShotAttempt[]; // Shootout and penalty shots, in recorded order
+  goalies: Goalie[];
+  disabled?: boolean;
+  onAdd: () => void;
+  onDelete: (attemptId: string) => void;
+}
+
+const RESULT_LABELS = {
+  save: "Zákrok",
+  goal: "Gól",
+  miss: "Mimo",
+} as const;
+
+export function ShootoutPanel({
+  attempts,
+  goalies,
+  disabled = false,
+  onAdd,
+  onDelete,
+}: ShootoutPanelProps) {
+  const shootout = attempts.filter((a) => a.kind === "shootout");
+  const penaltyShots = attempts.filter((a) => a.kind === "penalty_shot");
+  const summary = getShotAttemptSummary(shootout);
+
+  const renderAttempt = (attempt: ShotAttempt, label: string) => {
+    const goalie = goalies.find((g) => g.id === attempt.goalieId);
+    return (
+      <div
+        key={attempt.id}
+        className="flex items-center justify-between rounded-lg bg-slate-800/70 px-3 py-2 text-xs"
+      >
+        <div className="flex items-center gap-3">
+          <div
+            className={`flex h-7 w-7 items-center justify-center rounded-full font-bold ${
+              attempt.result === "save"
+                ? "bg-accentSuccess"
+                : attempt.result === "goal"
+                ? "bg-accentDanger"
+                : "bg-slate-600"
+            }`}
+          >
+            {label}
+          </div>
+          <div>
+            <div className="text-slate-200">
+              {RESULT_LABELS[attempt.result]} • {SHOOTOUT_MOVE_LABELS[attempt.move]}
+              {attempt.shooterNumber !== undefined && ` • #${attempt.shooterNumber}`}
+            </div>
+            <div className="text-[10px] text-slate-500">
+              {attempt.kind === "penalty_shot" && attempt.period
+                ? `${attempt.period === "OT" ? "OT" : `${attempt.period}.`} ${attempt.gameTime || ""} • `
+                : ""}
+              {goalie ? `${goalie.firstName} ${goalie.lastName}` : "Neznámý brankář"}
+            </div>
+          </div>
+        </div>
+        {!disabled && (
+          <button
+            onClick={() => {
+              if (confirm(`Smazat ${SHOT_ATTEMPT_KIND_LABELS[attempt.kind].toLowerCase()}?`)) {
+                onDelete(attempt.id);
+              }
+            }}
+            className="text-accentDanger"
+          >
+            ✕
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex-1 px-4 py-3">
+      <div className="mb-3 flex items-center justify-between">
+        <div>
+          <div className="text-sm font-semibold">Samostatné nájezdy</div>
+          <div className="text-xs text-slate-400">
+            {summary.saves}/{summary.shots} zákroků
+            {summary.shots > 0 && ` • ${summary.savePercentage.toFixed(1)}%`}
+            <span className="ml-1 text-slate-500">(mimo statistiky zápasu)</span>
+          </div>
+        </div>
+        <button
+          onClick={onAdd}
+          disabled={disabled}
+          className="rounded-lg bg-accentPrimary px-3 py-2 text-xs font-semibold text-white disabled:opacity-50"
+        >
+          + Nájezd
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        {shootout.length === 0 && (
+          <p className="text-xs text-slate-600">Zatím žádné nájezdy</p>
+        )}
+        {shootout.map((attempt, i) => renderAttempt(attempt, String(i + 1)))}
+      </div>
+
+      {penaltyShots.length > 0 && (
+        <>
+          <div className="mb-2 mt-4 text-xs font-semibold text-slate-400">Trestná střílení</div>
+          <div className="space-y-2">
+            {penaltyShots.map((attempt) => renderAttempt(attempt, "TS"))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
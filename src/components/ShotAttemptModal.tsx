@@ -0,0 +1,137 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import type { ResultType, ShootoutMove, ShotAttemptKind, ShotTargetZone } from "@/lib/types";
+import { SHOOTOUT_MOVE_LABELS } from "@/lib/shootout";
+import { GoalTargetSelector } from "./GoalTargetSelector";
+
+type ShotAttemptModalProps = {
+  open: boolean;
+  kind: ShotAttemptKind;
+  round?: number; // Shootout round of the attempt
+  goalieCatchHand?: "L" | "R";
+  onClose: () => void;
+  onSave: (data: {
+    shooterNumber?: number;
+    move: ShootoutMove;
+    target?: ShotTargetZone;
+    result: ResultType;
+  }) => void;
+};
+
+export function ShotAttemptModal({
+  open,
+  kind,
+  round,
+  goalieCatchHand = "L",
+  onClose,
+  onSave,
+}: ShotAttemptModalProps) {
+  const [shooterNumber, setShooterNumber] = useState("");
+  const [move, setMove] = useState<ShootoutMove>("deke");
+  const [target, setTarget] = useState<ShotTargetZone | undefined>(undefined);
+
+  useEffect(() => {
+    if (open) {
+      setShooterNumber("");
+      setMove("deke");
+      setTarget(undefined);
+    }
+  }, [open]);
+
+  if (!open) return null;
+
+  const handleResult = (result: ResultType) => {
+    const number = parseInt(shooterNumber, 10);
+    onSave({
+      shooterNumber: Number.isNaN(number) ? undefined : number,
+      move,
+      target: result === "miss" ? undefined : target,
+      result,
+    });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4">
+      <div className="w-full max-w-sm rounded-2xl bg-bgSurfaceSoft p-5">
+        <h3 className="mb-4 text-center text-lg font-semibold">
+          {kind === "shootout" ? `Nájezd${round ? ` – ${round}. série` : ""}` : "Trestné střílení"}
+        </h3>
+
+        {/* Shooter */}
+        <div className="mb-4">
+          <label className="mb-1 block text-xs text-slate-400">Číslo střelce</label>
+          <input
+            type="number"
+            min="0"
+            value={shooterNumber}
+            onChange={(e) => setShooterNumber(e.target.value)}
+            placeholder="—"
+            className="w-full rounded-lg bg-slate-800 px-3 py-2 text-center text-sm text-slate-100"
+          />
+        </div>
+
+        {/* Move */}
+        <div className="mb-4">
+          <label className="mb-2 block text-xs text-slate-400">Provedení</label>
+          <div className="grid grid-cols-4 gap-2 text-xs">
+            {(Object.keys(SHOOTOUT_MOVE_LABELS) as ShootoutMove[]).map((value) => (
+              <button
+                key={value}
+                onClick={() => setMove(value)}
+                className={`rounded-xl border px-1 py-2 ${
+                  move === value
+                    ? "border-accentPrimary bg-accentPrimary/20 text-accentPrimary"
+                    : "border-borderSoft bg-slate-800 text-slate-300"
+                }`}
+              >
+                {SHOOTOUT_MOVE_LABELS[value]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Target */}
+        <div className="mb-4">
+          <label className="mb-2 block text-xs text-slate-400">Kam mířil</label>
+          <GoalTargetSelector
+            selected={target}
+            onSelect={setTarget}
+            catchHand={goalieCatchHand}
+            showLabels={false}
+          />
+        </div>
+
+        {/* Result */}
+        <div className="mb-3 grid grid-cols-3 gap-2">
+          <button
+            onClick={() => handleResult("save")}
+            className="rounded-xl bg-accentSuccess py-3 text-sm font-semibold text-white"
+          >
+            Zákrok
+          </button>
+          <button
+            onClick={() => handleResult("goal")}
+            className="rounded-xl bg-accentDanger py-3 text-sm font-semibold text-white"
+          >
+            Gól
+          </button>
+          <button
+            onClick={() => handleResult("miss")}
+            className="rounded-xl bg-slate-700 py-3 text-sm font-semibold text-slate-200"
+          >
+            Mimo
+          </button>
+        </div>
+
+        <button
+          onClick={onClose}
+          className="w-full rounded-xl bg-slate-800 py-2.5 text-sm text-slate-300"
+        >
+          Zrušit
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,13 @@
 
 import React, { useState } from "react";
 import type { GoalieEvent } from "@/lib/types";
+import {
+  DANGER_LEVELS,
+  DANGER_LEVEL_LABELS,
+  HIGH_DANGER_PATH,
+  MEDIUM_DANGER_PATH,
+  getDangerBreakdown,
+} from "@/lib/danger";
 
 type ShotHeatmapProps = {
   events: GoalieEvent[];
@@ -19,6 +26,7 @@ export function ShotHeatmap({ events, title }: ShotHeatmapProps) {
   });
 
   const heatmapData = calculateHeatmap(filteredEvents, filter);
+  const dangerBreakdown = getDangerBreakdown(filteredEvents);
 
   const totalShots = events.filter(
     (e) => e.result === "save" || e.result === "goal"
@@ -120,6 +128,22 @@ export function ShotHeatmap({ events, title }: ShotHeatmapProps) {
             strokeWidth="0.5"
           />
 
+          {/* Danger zones */}
+          <path
+            d={MEDIUM_DANGER_PATH}
+            fill="none"
+            stroke="rgba(250,204,21,0.35)"
+            strokeWidth="0.5"
+            strokeDasharray="2,2"
+          />
+          <path
+            d={HIGH_DANGER_PATH}
+            fill="none"
+            stroke="rgba(239,68,68,0.45)"
+            strokeWidth="0.5"
+            strokeDasharray="2,2"
+          />
+
           {/* Goal crease */}
           <path
             d="M 35 95 Q 50 78 65 95"
@@ -189,6 +213,22 @@ export function ShotHeatmap({ events, title }: ShotHeatmapProps) {
           );
         })}
       </div>
+
+      {/* Danger breakdown */}
+      <div className="mt-1 grid grid-cols-3 gap-1 text-center text-[10px]">
+        {DANGER_LEVELS.map((level) => {
+          const { shots, savePercentage } = dangerBreakdown[level];
+          return (
+            <div key={level} className="rounded bg-slate-800/50 px-1 py-1.5">
+              <div className="font-bold text-slate-200">{shots}</div>
+              <div className="text-slate-500">{DANGER_LEVEL_LABELS[level]} nebezp.</div>
+              {shots > 0 && filter === "all" && (
+                <div className="text-[9px] text-accentPrimary">{savePercentage.toFixed(0)}%</div>
+              )}
+            </div>
+          );
+        })}
+      </div>
     </div>
   );
 }
@@ -0,0 +1,114 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useToast } from "@/contexts/ToastContext";
+import {
+  createSnapshot,
+  deleteSnapshot,
+  getSnapshots,
+  restoreSnapshot,
+  SNAPSHOT_REASON_LABELS,
+  type SnapshotSummary,
+} from "@/lib/snapshots";
+
+export function SnapshotSettings() {
+  const { addToast } = useToast();
+  const [snapshots, setSnapshots] = useState<SnapshotSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    setSnapshots(await getSnapshots());
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleCreate = async () => {
+    setBusy(true);
+    const snapshot = await createSnapshot("manual");
+    setBusy(false);
+    if (!snapshot) {
+      addToast("Bod obnovení se nepodařilo vytvořit", "error");
+      return;
+    }
+    addToast("Bod obnovení vytvořen", "success");
+    await load();
+  };
+
+  const handleRestore = async (snapshot: SnapshotSummary) => {
+    const when = new Date(snapshot.createdAt).toLocaleString("cs-CZ");
+    if (!confirm(`Obnovit data ze ${when}? Současná data se uloží jako nový bod obnovení.`)) return;
+    setBusy(true);
+    if (await restoreSnapshot(snapshot.id)) {
+      // Every screen reads the restored data from scratch
+      window.location.reload();
+      return;
+    }
+    setBusy(false);
+    addToast("Data se nepodařilo obnovit", "error");
+  };
+
+  const handleDelete = async (snapshot: SnapshotSummary) => {
+    if (!confirm("Smazat tento bod obnovení?")) return;
+    if (await deleteSnapshot(snapshot.id)) await load();
+  };
+
+  return (
+    <section className="rounded-2xl bg-bgSurfaceSoft p-4">
+      <h2 className="mb-1 text-sm font-semibold text-slate-400">🕒 BODY OBNOVENÍ</h2>
+      <p className="mb-3 text-xs text-slate-500">
+        Kopie dat v zařízení – denně, před importem, před aktualizací dat a před smazáním. Obnovení se
+        týká jen tohoto zařízení, novější změny v cloudu se při synchronizaci vrátí.
+      </p>
+
+      {loading ? (
+        <p className="text-center text-xs text-slate-500">Načítání...</p>
+      ) : snapshots.length === 0 ? (
+        <p className="text-center text-xs text-slate-500">Zatím žádné body obnovení</p>
+      ) : (
+        <div className="max-h-80 space-y-2 overflow-y-auto">
+          {snapshots.map((snapshot) => (
+            <div key={snapshot.id} className="rounded-lg bg-slate-800/50 px-3 py-2">
+              <div className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <div className="text-sm font-medium text-slate-200">
+                    {new Date(snapshot.createdAt).toLocaleString("cs-CZ")}
+                  </div>
+                  <div className="text-[11px] text-slate-400">{SNAPSHOT_REASON_LABELS[snapshot.reason]}</div>
+                </div>
+                <div className="flex shrink-0 gap-2 text-xs">
+                  <button
+                    onClick={() => handleRestore(snapshot)}
+                    disabled={busy}
+                    className="rounded bg-accentPrimary/20 px-2 py-1 font-medium text-accentPrimary disabled:opacity-50"
+                  >
+                    Obnovit
+                  </button>
+                  <button onClick={() => handleDelete(snapshot)} disabled={busy} className="text-accentDanger">
+                    ✕
+                  </button>
+                </div>
+              </div>
+              <div className="mt-1 text-[11px] text-slate-500">
+                {snapshot.counts.goalies} brankářů • {snapshot.counts.matches} zápasů •{" "}
+                {snapshot.counts.events} událostí • {snapshot.counts.competitions} soutěží
+                {snapshot.counts.standings > 0 && <> • {snapshot.counts.standings} tabulek</>}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <button
+        onClick={handleCreate}
+        disabled={busy}
+        className="mt-3 w-full rounded-lg bg-slate-700 py-2 text-sm font-medium text-slate-200 disabled:opacity-50"
+      >
+        Vytvořit bod obnovení
+      </button>
+    </section>
+  );
+}
@@ -76,6 +76,11 @@ export function StandingsTable({ standings, title, compact = false }: StandingsT
                 <td className={`px-2 py-2 ${row.isOurTeam ? "text-accentPrimary" : "text-slate-200"}`}>
                   {row.teamName}
                   {row.isOurTeam && <span className="ml-1 text-xs">⭐</span>}
+                  {row.tiebreak && (
+                    <span className="ml-1 text-[10px] text-slate-500" title={`Rozhodlo: ${row.tiebreak}`}>
+                      *
+                    </span>
+                  )}
                 </td>
                 <td className="px-2 py-2 text-center text-slate-400">
                   {row.gamesPlayed}
@@ -127,6 +132,7 @@ interface StandingsModalProps {
   title?: string;
   loading?: boolean;
   onRefresh?: () => void;
+  notice?: React.ReactNode; // Shown above the table
 }
 
 export function StandingsModal({
@@ -136,6 +142,7 @@ export function StandingsModal({
   title,
   loading,
   onRefresh,
+  notice,
 }: StandingsModalProps) {
   if (!open) return null;
 
@@ -152,6 +159,7 @@ export function StandingsModal({
         
         {/* Content */}
         <div className="flex-1 overflow-y-auto p-4">
+          {notice}
           {loading ? (
             <div className="flex items-center justify-center py-12">
               <div className="text-sm text-slate-400">Načítám tabulku...</div>
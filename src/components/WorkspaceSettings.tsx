@@ -0,0 +1,336 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/contexts/ToastContext";
+import { useWorkspaces } from "@/contexts/WorkspaceContext";
+import {
+  createWorkspace,
+  createWorkspaceInvite,
+  deleteWorkspace,
+  deleteWorkspaceInvite,
+  getWorkspaceInvites,
+  getWorkspaceMembers,
+  removeWorkspaceMember,
+  updateWorkspaceMember,
+} from "@/lib/repositories/workspaces";
+import { generateShareToken } from "@/lib/liveShare";
+import { shareText } from "@/lib/utils";
+import {
+  canManageMembers,
+  getInvitePath,
+  INVITE_ROLES,
+  WORKSPACE_ROLE_DESCRIPTIONS,
+  WORKSPACE_ROLE_LABELS,
+  type Workspace,
+  type WorkspaceInvite,
+  type WorkspaceMember,
+  type WorkspaceRole,
+} from "@/lib/workspaces";
+import type { Goalie } from "@/lib/types";
+
+interface WorkspaceSettingsProps {
+  goalies: Goalie[];
+}
+
+interface GoalieChipsProps {
+  goalies: Goalie[];
+  selected: string[];
+  onChange: (goalieIds: string[]) => void;
+}
+
+// Trackers record matches only for the goalies picked here
+function GoalieChips({ goalies, selected, onChange }: GoalieChipsProps) {
+  if (goalies.length === 0) {
+    return <p className="text-[11px] text-slate-500">V prostoru zatím nejsou žádní brankáři</p>;
+  }
+  return (
+    <div className="flex flex-wrap gap-1">
+      {goalies.map((g) => {
+        const isSelected = selected.includes(g.id);
+        return (
+          <button
+            key={g.id}
+            type="button"
+            onClick={() => onChange(isSelected ? selected.filter((id) => id !== g.id) : [...selected, g.id])}
+            className={`rounded-full px-2 py-0.5 text-[11px] ${
+              isSelected ? "bg-accentPrimary/20 text-accentPrimary" : "bg-slate-700 text-slate-400"
+            }`}
+          >
+            {g.firstName} {g.lastName}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+interface WorkspaceDetailProps {
+  workspace: Workspace;
+  goalies: Goalie[];
+  userId: string;
+  onChanged: () => Promise<void>;
+}
+
+function WorkspaceDetail({ workspace, goalies, userId, onChanged }: WorkspaceDetailProps) {
+  const { addToast } = useToast();
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [invites, setInvites] = useState<WorkspaceInvite[]>([]);
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<WorkspaceInvite["role"]>("tracker");
+  const [inviteGoalieIds, setInviteGoalieIds] = useState<string[]>([]);
+  const isOwner = canManageMembers(workspace.role);
+  const workspaceGoalies = goalies.filter((g) => g.workspaceId === workspace.id);
+
+  const load = useCallback(async () => {
+    const [loadedMembers, loadedInvites] = await Promise.all([
+      getWorkspaceMembers(workspace.id),
+      isOwner ? getWorkspaceInvites(workspace.id) : Promise.resolve([]),
+    ]);
+    setMembers(loadedMembers);
+    setInvites(loadedInvites);
+  }, [workspace.id, isOwner]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const shareInvite = async (invite: WorkspaceInvite) => {
+    const url = `${window.location.origin}${getInvitePath(invite.token)}`;
+    const result = await shareText(`Pozvánka do ${workspace.name}`, url);
+    if (result === "copied") addToast("Odkaz na pozvánku zkopírován", "success");
+    else if (result === "failed") addToast("Odkaz se nepodařilo sdílet", "error");
+  };
+
+  const handleInvite = async () => {
+    const email = inviteEmail.trim();
+    if (!email.includes("@")) {
+      addToast("Vyplň e-mail", "error");
+      return;
+    }
+    const invite = await createWorkspaceInvite({
+      workspaceId: workspace.id,
+      email,
+      role: inviteRole,
+      goalieIds: inviteRole === "tracker" ? inviteGoalieIds : [],
+      token: generateShareToken(),
+    });
+    if (!invite) {
+      addToast("Pozvánku se nepodařilo vytvořit", "error");
+      return;
+    }
+    setInviteEmail("");
+    setInviteGoalieIds([]);
+    await load();
+    await shareInvite(invite);
+  };
+
+  const handleRevokeInvite = async (invite: WorkspaceInvite) => {
+    if (!confirm(`Zrušit pozvánku pro ${invite.email}?`)) return;
+    if (await deleteWorkspaceInvite(invite.id)) await load();
+  };
+
+  const handleMemberChange = async (member: WorkspaceMember, changes: { role?: WorkspaceRole; goalieIds?: string[] }) => {
+    if (await updateWorkspaceMember(workspace.id, member.userId, changes)) await load();
+    else addToast("Změnu se nepodařilo uložit", "error");
+  };
+
+  const handleRemoveMember = async (member: WorkspaceMember) => {
+    if (!confirm(`Odebrat ${member.email || "člena"} z prostoru?`)) return;
+    if (await removeWorkspaceMember(workspace.id, member.userId)) await load();
+  };
+
+  const handleLeave = async () => {
+    if (!confirm(`Opustit ${workspace.name}? Brankáři prostoru zmizí z tohoto zařízení po synchronizaci.`)) return;
+    if (await removeWorkspaceMember(workspace.id, userId)) await onChanged();
+  };
+
+  const handleDelete = async () => {
+    if (!confirm(`Smazat ${workspace.name}? Brankáři prostoru se stanou osobními brankáři svých autorů.`)) return;
+    if (await deleteWorkspace(workspace.id)) await onChanged();
+  };
+
+  return (
+    <div className="mt-2 space-y-3 rounded-xl bg-slate-800/50 p-3">
+      <div>
+        <div className="mb-1 text-xs font-semibold text-slate-400">ČLENOVÉ</div>
+        <div className="space-y-2">
+          {members.map((member) => {
+            const editable = isOwner && member.role !== "owner" && member.userId !== userId;
+            return (
+              <div key={member.userId} className="rounded-lg bg-slate-900/50 p-2">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="truncate text-xs">
+                    {member.email || "Člen"}
+                    {member.userId === userId && <span className="text-slate-500"> (ty)</span>}
+                  </span>
+                  {editable ? (
+                    <div className="flex shrink-0 items-center gap-2">
+                      <select
+                        value={member.role}
+                        onChange={(e) => handleMemberChange(member, { role: e.target.value as WorkspaceRole })}
+                        className="rounded bg-slate-800 px-1 py-0.5 text-[11px]"
+                      >
+                        {INVITE_ROLES.map((role) => (
+                          <option key={role} value={role}>
+                            {WORKSPACE_ROLE_LABELS[role]}
+                          </option>
+                        ))}
+                      </select>
+                      <button onClick={() => handleRemoveMember(member)} className="text-xs text-accentDanger">
+                        ✕
+                      </button>
+                    </div>
+                  ) : (
+                    <span className="shrink-0 text-[11px] text-slate-400">{WORKSPACE_ROLE_LABELS[member.role]}</span>
+                  )}
+                </div>
+                {editable && member.role === "tracker" && (
+                  <div className="mt-2">
+                    <GoalieChips
+                      goalies={workspaceGoalies}
+                      selected={member.goalieIds}
+                      onChange={(goalieIds) => handleMemberChange(member, { goalieIds })}
+                    />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {isOwner && (
+        <div>
+          <div className="mb-1 text-xs font-semibold text-slate-400">POZVAT ČLENA</div>
+          <div className="space-y-2">
+            <input
+              type="email"
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+              placeholder="E-mail"
+              className="w-full rounded-lg bg-slate-900/50 px-3 py-2 text-sm"
+            />
+            <select
+              value={inviteRole}
+              onChange={(e) => setInviteRole(e.target.value as WorkspaceInvite["role"])}
+              className="w-full rounded-lg bg-slate-900/50 px-3 py-2 text-sm"
+            >
+              {INVITE_ROLES.map((role) => (
+                <option key={role} value={role}>
+                  {WORKSPACE_ROLE_LABELS[role]} – {WORKSPACE_ROLE_DESCRIPTIONS[role]}
+                </option>
+              ))}
+            </select>
+            {inviteRole === "tracker" && (
+              <GoalieChips goalies={workspaceGoalies} selected={inviteGoalieIds} onChange={setInviteGoalieIds} />
+            )}
+            <button
+              onClick={handleInvite}
+              className="w-full rounded-lg bg-accentPrimary py-2 text-sm font-medium text-white"
+            >
+              Vytvořit pozvánku
+            </button>
+          </div>
+
+          {invites.length > 0 && (
+            <div className="mt-2 space-y-1">
+              {invites.map((invite) => (
+                <div key={invite.id} className="flex items-center justify-between gap-2 text-xs">
+                  <span className="truncate text-slate-300">
+                    ✉️ {invite.email} • {WORKSPACE_ROLE_LABELS[invite.role]}
+                  </span>
+                  <div className="flex shrink-0 gap-2">
+                    <button onClick={() => shareInvite(invite)} className="text-accentPrimary">
+                      Odkaz
+                    </button>
+                    <button onClick={() => handleRevokeInvite(invite)} className="text-accentDanger">
+                      Zrušit
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      <button
+        onClick={isOwner ? handleDelete : handleLeave}
+        className="w-full rounded-lg bg-accentDanger/20 py-2 text-xs font-medium text-accentDanger"
+      >
+        {isOwner ? "Smazat prostor" : "Opustit prostor"}
+      </button>
+    </div>
+  );
+}
+
+export function WorkspaceSettings({ goalies }: WorkspaceSettingsProps) {
+  const { user } = useAuth();
+  const { workspaces, refresh } = useWorkspaces();
+  const { addToast } = useToast();
+  const [name, setName] = useState("");
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  if (!user) return null;
+
+  const handleCreate = async () => {
+    if (!name.trim()) return;
+    const id = await createWorkspace(name);
+    if (!id) {
+      addToast("Prostor se nepodařilo založit", "error");
+      return;
+    }
+    setName("");
+    await refresh();
+    setOpenId(id);
+  };
+
+  const handleChanged = async () => {
+    setOpenId(null);
+    await refresh();
+  };
+
+  return (
+    <section className="rounded-2xl bg-bgSurfaceSoft p-4">
+      <h2 className="mb-1 text-sm font-semibold text-slate-400">🏒 KLUBOVÉ PROSTORY</h2>
+      <p className="mb-3 text-xs text-slate-500">
+        Trenér brankářů vidí všechny brankáře klubu, rodiče zapisují zápasy svých dětí.
+      </p>
+
+      <div className="space-y-2">
+        {workspaces.map((workspace) => (
+          <div key={workspace.id}>
+            <button
+              onClick={() => setOpenId(openId === workspace.id ? null : workspace.id)}
+              className="flex w-full items-center justify-between rounded-xl bg-slate-800/50 px-3 py-2 text-left"
+            >
+              <span className="text-sm font-medium">{workspace.name}</span>
+              <span className="text-[11px] text-slate-400">{WORKSPACE_ROLE_LABELS[workspace.role]}</span>
+            </button>
+            {openId === workspace.id && (
+              <WorkspaceDetail workspace={workspace} goalies={goalies} userId={user.id} onChanged={handleChanged} />
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-3 flex gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Název (např. HC Slovan – brankáři)"
+          className="min-w-0 flex-1 rounded-lg bg-slate-800 px-3 py-2 text-sm"
+        />
+        <button
+          onClick={handleCreate}
+          disabled={!name.trim()}
+          className="shrink-0 rounded-lg bg-accentPrimary px-3 py-2 text-sm font-medium text-white disabled:opacity-50"
+        >
+          Založit
+        </button>
+      </div>
+    </section>
+  );
+}
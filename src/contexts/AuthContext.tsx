@@ -0,0 +1,171 @@
+"use client";
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from "react";
+import type { User } from "@supabase/supabase-js";
+import { supabase, isSupabaseConfigured } from "@/lib/supabaseClient";
+import * as storage from "@/lib/storage";
+import { clearSnapshots } from "@/lib/snapshots";
+import { forceSync } from "@/lib/autoSync";
+import { getPendingChangeCounts } from "@/lib/sync";
+
+interface AuthContextValue {
+  isConfigured: boolean; // Accounts exist only with Supabase
+  user: User | null;
+  isLoading: boolean;
+  // Actions return an error message (Czech) or null on success
+  signInWithPassword: (email: string, password: string) => Promise<string | null>;
+  signUp: (email: string, password: string) => Promise<string | null>;
+  sendMagicLink: (email: string) => Promise<string | null>;
+  // Returns a message when changes could not be uploaded first (nothing is
+  // removed then); `discardPending` signs out anyway
+  signOut: (options?: { discardPending?: boolean }) => Promise<string | null>;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+const AUTH_ERROR_MESSAGES: Record<string, string> = {
+  "Invalid login credentials": "Nesprávný e-mail nebo heslo",
+  "Email not confirmed": "E-mail ještě není potvrzený – otevři odkaz z e-mailu",
+  "User already registered": "Účet s tímto e-mailem už existuje",
+};
+
+function toAuthMessage(error: { message: string } | null): string | null {
+  if (!error) return null;
+  return AUTH_ERROR_MESSAGES[error.message] || error.message;
+}
+
+// Goalies, matches and events changed here and not yet in the cloud
+function countPendingChanges(): number {
+  const counts = getPendingChangeCounts();
+  return counts.goalies + counts.matches + counts.events;
+}
+
+/**
+ * Local data of another account must not be uploaded to this one. Its
+ * changes that never reached the cloud are only thrown away when the user
+ * agrees - null means they declined and the new session has to end.
+ */
+function claimLocalData(userId: string): boolean | null {
+  const owner = storage.getCloudUserId();
+  if (owner === userId) return false;
+  if (owner) {
+    const pending = countPendingChanges();
+    if (
+      pending > 0 &&
+      !confirm(
+        `V zařízení je ${pending} neodeslaných změn jiného účtu. Přihlášením se smažou.\n\n` +
+          "OK = pokračovat a změny smazat, Zrušit = odhlásit a změny ponechat (nahrají se po přihlášení k původnímu účtu)."
+      )
+    ) {
+      return null;
+    }
+    storage.clearAllData({ keepClub: true });
+    localStorage.removeItem("lastSupabaseSync");
+  }
+  storage.saveCloudUserId(userId);
+  return !!owner;
+}
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [user, setUser] = useState<User | null>(null);
+  const [isLoading, setIsLoading] = useState(isSupabaseConfigured());
+  const restoredRef = useRef(false); // Initial session already reported
+  const userIdRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!supabase) return;
+    const { data } = supabase.auth.onAuthStateChange((event, session) => {
+      const nextUser = session?.user ?? null;
+      const switched = nextUser ? claimLocalData(nextUser.id) : false;
+      if (switched === null) {
+        // Not awaited inside the auth callback - supabase-js would deadlock
+        setTimeout(() => supabase?.auth.signOut(), 0);
+        restoredRef.current = true;
+        setUser(null);
+        setIsLoading(false);
+        return;
+      }
+      // Fresh sign-in: reload, so every screen loads the account's cloud data
+      if (switched) {
+        Promise.all([clearSnapshots(), storage.flushStorage()]).finally(() => window.location.reload());
+        return;
+      }
+      if (event === "SIGNED_IN" && restoredRef.current && !userIdRef.current) {
+        window.location.reload();
+        return;
+      }
+      restoredRef.current = true;
+      userIdRef.current = nextUser?.id ?? null;
+      setUser(nextUser);
+      setIsLoading(false);
+    });
+    return () => data.subscription.unsubscribe();
+  }, []);
+
+  const signInWithPassword = useCallback(async (email: string, password: string) => {
+    if (!supabase) return "Supabase není nakonfigurován";
+    const { error } = await supabase.auth.signInWithPassword({ email, password });
+    return toAuthMessage(error);
+  }, []);
+
+  const signUp = useCallback(async (email: string, password: string) => {
+    if (!supabase) return "Supabase není nakonfigurován";
+    const { error } = await supabase.auth.signUp({
+      email,
+      password,
+      options: { emailRedirectTo: `${window.location.origin}/settings` },
+    });
+    return toAuthMessage(error);
+  }, []);
+
+  const sendMagicLink = useCallback(async (email: string) => {
+    if (!supabase) return "Supabase není nakonfigurován";
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: { emailRedirectTo: `${window.location.origin}/settings` },
+    });
+    return toAuthMessage(error);
+  }, []);
+
+  // Signing out removes the account's data from this device, so offline
+  // changes are uploaded first
+  const signOut = useCallback(async (options: { discardPending?: boolean } = {}) => {
+    if (!supabase) return null;
+    if (!options.discardPending && countPendingChanges() > 0) {
+      await forceSync();
+      const pending = countPendingChanges();
+      if (pending > 0) {
+        return `${pending} změn se nepodařilo nahrát do cloudu (jsi offline, nebo synchronizace selhala).`;
+      }
+    }
+    await supabase.auth.signOut();
+    storage.clearAllData({ keepClub: true });
+    localStorage.removeItem("lastSupabaseSync");
+    await Promise.all([clearSnapshots(), storage.flushStorage()]);
+    window.location.reload();
+    return null;
+  }, []);
+
+  const value = useMemo(
+    () => ({
+      isConfigured: isSupabaseConfigured(),
+      user,
+      isLoading,
+      signInWithPassword,
+      signUp,
+      sendMagicLink,
+      signOut,
+    }),
+    [user, isLoading, signInWithPassword, signUp, sendMagicLink, signOut]
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within AuthProvider");
+  }
+  return context;
+}
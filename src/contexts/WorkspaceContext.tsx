@@ -0,0 +1,52 @@
+"use client";
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { getMyWorkspaces } from "@/lib/repositories/workspaces";
+import { getGoalieAccess, type GoalieAccess, type Workspace } from "@/lib/workspaces";
+import * as storage from "@/lib/storage";
+import type { Goalie } from "@/lib/types";
+
+interface WorkspaceContextValue {
+  workspaces: Workspace[];
+  refresh: () => Promise<void>;
+  getAccess: (goalie: Pick<Goalie, "id" | "workspaceId"> | null | undefined) => GoalieAccess;
+}
+
+const WorkspaceContext = createContext<WorkspaceContextValue | null>(null);
+
+export function WorkspaceProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  // Cached memberships keep role checks working offline
+  const [workspaces, setWorkspaces] = useState<Workspace[]>(() => storage.getWorkspaces());
+  const userId = user?.id;
+
+  const refresh = useCallback(async () => {
+    if (!userId) return;
+    const loaded = await getMyWorkspaces();
+    if (!loaded) return;
+    storage.saveWorkspaces(loaded);
+    setWorkspaces(loaded);
+  }, [userId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const getAccess = useCallback(
+    (goalie: Pick<Goalie, "id" | "workspaceId"> | null | undefined) => getGoalieAccess(goalie, workspaces),
+    [workspaces]
+  );
+
+  const value = useMemo(() => ({ workspaces, refresh, getAccess }), [workspaces, refresh, getAccess]);
+
+  return <WorkspaceContext.Provider value={value}>{children}</WorkspaceContext.Provider>;
+}
+
+export function useWorkspaces() {
+  const context = useContext(WorkspaceContext);
+  if (!context) {
+    throw new Error("useWorkspaces must be used within WorkspaceProvider");
+  }
+  return context;
+}
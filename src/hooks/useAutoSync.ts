@@ -2,9 +2,10 @@
 
 import { useEffect, useState, useCallback, useRef } from 'react';
 import { startAutoSync, stopAutoSync, getLastSyncTime, forceSync, onSync } from '@/lib/autoSync';
-import { isSupabaseConfigured } from '@/lib/supabaseClient';
+import { isCloudEnabled } from '@/lib/supabaseClient';
 import type { SyncResult } from '@/lib/sync';
 import { useToast } from '@/contexts/ToastContext';
+import { useAuth } from '@/contexts/AuthContext';
 import { ensurePresetsExist, ensureSeasonsExist } from '@/lib/dataService';
 
 export function useAutoSync() {
@@ -13,10 +14,12 @@ export function useAutoSync() {
   const [lastSyncResult, setLastSyncResult] = useState<SyncResult | null>(null);
   const { addToast } = useToast();
   const hasShownOfflineToast = useRef(false);
+  const { user } = useAuth();
+  const userId = user?.id;
 
   useEffect(() => {
-    // Start auto-sync if Supabase is configured
-    if (isSupabaseConfigured()) {
+    // Start auto-sync if Supabase is configured and someone is signed in
+    if (isCloudEnabled()) {
       const run = async () => {
         await ensureSeasonsExist();
         await ensurePresetsExist();
@@ -46,14 +49,14 @@ export function useAutoSync() {
       };
     }
 
-    if (!isSupabaseConfigured()) {
+    if (!isCloudEnabled()) {
       hasShownOfflineToast.current = true;
     }
-  }, [addToast]);
+  }, [addToast, userId]);
 
   // Manual sync trigger
   const syncNow = useCallback(async () => {
-    if (isSupabaseConfigured()) {
+    if (isCloudEnabled()) {
       setIsSyncing(true);
       const result = await forceSync();
       setLastSync(getLastSyncTime());
@@ -75,7 +78,7 @@ export function useAutoSync() {
     isSyncing,
     lastSyncResult,
     syncNow,
-    isConfigured: isSupabaseConfigured(),
+    isConfigured: isCloudEnabled(),
   };
 }
 
@@ -0,0 +1,66 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { forceRefresh, onRefresh, startAutoRefresh, stopAutoRefresh } from "@/lib/autoRefresh";
+import type { FixtureChange } from "@/lib/fixtureRefresh";
+import { getFixtureChanges, getFixtureRefreshedAt, saveFixtureChanges } from "@/lib/storage";
+
+/**
+ * Background fixture refresh and its change log.
+ * `onMatchesChanged` runs after a refresh that saved something.
+ */
+export function useFixtureRefresh(onMatchesChanged?: () => void) {
+  const [changes, setChanges] = useState<FixtureChange[]>([]);
+  const [refreshedAt, setRefreshedAt] = useState<string | null>(null);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  useEffect(() => {
+    setChanges(getFixtureChanges());
+    setRefreshedAt(getFixtureRefreshedAt());
+
+    const unsubscribe = onRefresh((result) => {
+      setChanges(getFixtureChanges());
+      setRefreshedAt(getFixtureRefreshedAt());
+      if (result.saved > 0) onMatchesChanged?.();
+    });
+    startAutoRefresh();
+
+    return () => {
+      stopAutoRefresh();
+      unsubscribe();
+    };
+  }, [onMatchesChanged]);
+
+  const refreshNow = useCallback(async () => {
+    setIsRefreshing(true);
+    const result = await forceRefresh();
+    setIsRefreshing(false);
+    return result;
+  }, []);
+
+  const updateChanges = useCallback((next: FixtureChange[]) => {
+    saveFixtureChanges(next);
+    setChanges(next);
+  }, []);
+
+  const markAllSeen = useCallback(() => {
+    updateChanges(getFixtureChanges().map((c) => ({ ...c, seen: true })));
+  }, [updateChanges]);
+
+  const dismissChange = useCallback(
+    (id: string) => {
+      updateChanges(getFixtureChanges().filter((c) => c.id !== id));
+    },
+    [updateChanges]
+  );
+
+  return {
+    changes,
+    unseenCount: changes.filter((c) => !c.seen).length,
+    refreshedAt,
+    isRefreshing,
+    refreshNow,
+    markAllSeen,
+    dismissChange,
+  };
+}
@@ -0,0 +1,151 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { Period } from "@/lib/types";
+import * as storage from "@/lib/storage";
+import {
+  adjustClock,
+  advanceClock,
+  createGameClock,
+  getClockGameTime,
+  getRemainingMs,
+  setClockPeriod,
+  setClockRemaining,
+  skipIntermission,
+  startClock,
+  stopClock,
+  updateClockSettings,
+  type GameClockState,
+  type PeriodSettings,
+} from "@/lib/gameClock";
+
+const TICK_MS = 250;
+
+export function useGameClock(matchId: string | undefined, settings: PeriodSettings, tied = false) {
+  const [clock, setClock] = useState<GameClockState | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const clockRef = useRef<GameClockState | null>(null);
+  // Latest settings for a new clock - their changes are applied separately below
+  const settingsRef = useRef(settings);
+
+  useEffect(() => {
+    settingsRef.current = settings;
+  }, [settings]);
+
+  // Score at the moment regulation runs out decides on overtime
+  const tiedRef = useRef(tied);
+
+  useEffect(() => {
+    tiedRef.current = tied;
+  }, [tied]);
+
+  const advance = useCallback(
+    (state: GameClockState, now: number = Date.now()) => advanceClock(state, now, { tied: tiedRef.current }),
+    []
+  );
+
+  const commit = useCallback((next: GameClockState) => {
+    clockRef.current = next;
+    setClock(next);
+    storage.saveGameClock(next);
+  }, []);
+
+  const update = useCallback(
+    (fn: (state: GameClockState, now: number) => GameClockState) => {
+      const current = clockRef.current;
+      if (!current) return;
+      const ts = Date.now();
+      const next = fn(advance(current, ts), ts);
+      setNow(ts);
+      if (next !== current) commit(next);
+    },
+    [commit, advance]
+  );
+
+  // Load persisted clock (or create a new one) when the match changes
+  useEffect(() => {
+    if (!matchId) return;
+    const saved = storage.getGameClock(matchId);
+    const initial = saved ? advance(saved) : createGameClock(matchId, settingsRef.current);
+    commit(initial);
+  }, [matchId, commit, advance]);
+
+  // Apply changed period settings (e.g. competition reassigned)
+  useEffect(() => {
+    const current = clockRef.current;
+    if (!current) return;
+    const { periodMinutes, overtimeMinutes, intermissionMinutes } = current.settings;
+    if (
+      periodMinutes === settings.periodMinutes &&
+      overtimeMinutes === settings.overtimeMinutes &&
+      intermissionMinutes === settings.intermissionMinutes
+    ) {
+      return;
+    }
+    commit(updateClockSettings(current, settings));
+  }, [settings, commit, clock?.matchId]);
+
+  // Tick while running. Time is derived from Date.now(), so throttled timers
+  // in background tabs only delay the display, never the clock itself.
+  useEffect(() => {
+    if (!clock?.running) return;
+    const interval = setInterval(() => update((state) => state), TICK_MS);
+    return () => clearInterval(interval);
+  }, [clock?.running, update]);
+
+  // Catch up immediately after the screen is unlocked or the tab is shown again
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "visible") {
+        update((state) => state);
+      }
+    };
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    window.addEventListener("focus", handleVisibilityChange);
+    return () => {
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      window.removeEventListener("focus", handleVisibilityChange);
+    };
+  }, [update]);
+
+  const start = useCallback(() => update((s, ts) => startClock(s, ts)), [update]);
+  const stop = useCallback(() => update((s, ts) => stopClock(s, ts)), [update]);
+  const toggle = useCallback(
+    () => update((s, ts) => (s.running && s.phase === "period" ? stopClock(s, ts) : startClock(s, ts))),
+    [update]
+  );
+  const adjust = useCallback((deltaMs: number) => update((s, ts) => adjustClock(s, deltaMs, ts)), [update]);
+  const setRemaining = useCallback(
+    (remainingMs: number) => update((s, ts) => setClockRemaining(s, remainingMs, ts)),
+    [update]
+  );
+  const setPeriod = useCallback((period: Period) => update((s) => setClockPeriod(s, period)), [update]);
+  const endIntermission = useCallback(() => update((s) => skipIntermission(s)), [update]);
+  // Clock state received from another device in a live session
+  const replace = useCallback((next: GameClockState) => commit(advance(next)), [commit, advance]);
+
+  // Read the clock at the moment of the call (not the last rendered tick)
+  const getGameTime = useCallback((): string => {
+    const current = clockRef.current;
+    if (!current) return "00:00";
+    return getClockGameTime(advance(current));
+  }, [advance]);
+
+  return {
+    clock,
+    period: clock?.period ?? 1,
+    phase: clock?.phase ?? "period",
+    running: clock?.running ?? false,
+    remainingMs: clock ? getRemainingMs(clock, now) : 0,
+    gameTime: clock ? getClockGameTime(clock, now) : "00:00",
+    getGameTime,
+    start,
+    stop,
+    toggle,
+    adjust,
+    setRemaining,
+    setPeriod,
+    endIntermission,
+    replace,
+  };
+}
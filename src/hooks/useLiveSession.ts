@@ -0,0 +1,196 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import * as storage from "@/lib/storage";
+import { dataService } from "@/lib/dataService";
+import type { GameClockState } from "@/lib/gameClock";
+import type { GoalieEvent } from "@/lib/types";
+import { isSameValue, mergeEvent } from "@/lib/syncMerge";
+import {
+  canControlClock,
+  createLiveTransport,
+  findDuplicateEvent,
+  mergeDuplicateEvents,
+  receiveClock,
+  type LiveMessage,
+  type LiveParticipant,
+  type LiveRole,
+  type LiveTransport,
+} from "@/lib/liveSession";
+
+interface UseLiveSessionOptions {
+  matchId: string | undefined;
+  events: GoalieEvent[]; // All events of the match, deleted included
+  clock: GameClockState | null;
+  onClock: (clock: GameClockState) => void;
+  onEventsChange: () => Promise<void> | void;
+}
+
+function getVersion(event: GoalieEvent): string {
+  return event.updatedAt || event.createdAt || event.timestamp;
+}
+
+export function useLiveSession({ matchId, events, clock, onClock, onEventsChange }: UseLiveSessionOptions) {
+  const [active, setActive] = useState(false);
+  const [role, setRoleState] = useState<LiveRole>("all");
+  const [participants, setParticipants] = useState<LiveParticipant[]>([]);
+  const [transportKind, setTransportKind] = useState<LiveTransport["kind"] | null>(null);
+  const [mergedDuplicates, setMergedDuplicates] = useState(0);
+  const [deviceId, setDeviceId] = useState("");
+
+  const transportRef = useRef<LiveTransport | null>(null);
+  const deviceIdRef = useRef("");
+  // Last version of each event / the clock this device sent or received
+  const knownEventsRef = useRef(new Map<string, string>());
+  const knownClockRef = useRef<string | null>(null);
+
+  // Latest values for the transport handlers (created once per session)
+  const eventsRef = useRef(events);
+  const clockRef = useRef(clock);
+  const canControlRef = useRef(true);
+  const onClockRef = useRef(onClock);
+  const onEventsChangeRef = useRef(onEventsChange);
+
+  const controlsClock = canControlClock(role, participants, deviceId);
+
+  useEffect(() => {
+    eventsRef.current = events;
+    clockRef.current = clock;
+    canControlRef.current = controlsClock;
+    onClockRef.current = onClock;
+    onEventsChangeRef.current = onEventsChange;
+  });
+
+  useEffect(() => {
+    if (!matchId) return;
+    deviceIdRef.current = storage.getDeviceId();
+    setDeviceId(deviceIdRef.current);
+    setRoleState(storage.getLiveRole(matchId));
+  }, [matchId]);
+
+  const setRole = useCallback(
+    (next: LiveRole) => {
+      if (!matchId) return;
+      storage.saveLiveRole(matchId, next);
+      setRoleState(next);
+    },
+    [matchId]
+  );
+
+  const sendClock = useCallback((state: GameClockState) => {
+    knownClockRef.current = state.updatedAt;
+    transportRef.current?.send({
+      type: "clock",
+      deviceId: deviceIdRef.current,
+      clock: state,
+      sentAt: Date.now(),
+    });
+  }, []);
+
+  const receiveEvent = useCallback(async (incoming: GoalieEvent) => {
+    // Events of other matches never belong here, whoever sent them
+    if (!matchId || incoming?.matchId !== matchId) return;
+    const existing = storage.getAllEventsByMatch(matchId).find((e) => e.id === incoming.id);
+    const next = existing ? mergeEvent(existing, incoming) : incoming;
+    if (existing && isSameValue(next, existing)) return;
+
+    // The sending device owns the event and uploads it itself
+    storage.saveEvent(next, { fromSync: true });
+    knownEventsRef.current.set(next.id, getVersion(next));
+
+    const duplicate = findDuplicateEvent(
+      next,
+      storage.getAllEventsByMatch(next.matchId)
+    );
+    if (duplicate) {
+      const { kept, removed } = mergeDuplicateEvents(next, duplicate);
+      await dataService.saveEvent(kept);
+      await dataService.saveEvent(removed);
+      setMergedDuplicates((count) => count + 1);
+    }
+
+    await onEventsChangeRef.current();
+  }, [matchId]);
+
+  const handleMessage = useCallback(
+    (message: LiveMessage) => {
+      if (message.deviceId === deviceIdRef.current) return;
+
+      if (message.type === "hello") {
+        // Bring the new device up to date
+        eventsRef.current.forEach((event) =>
+          transportRef.current?.send({ type: "event", deviceId: deviceIdRef.current, event })
+        );
+        if (canControlRef.current && clockRef.current) sendClock(clockRef.current);
+        return;
+      }
+
+      if (message.type === "event") {
+        receiveEvent(message.event).catch((err) => {
+          console.error("[useLiveSession] Failed to apply remote event:", err);
+        });
+        return;
+      }
+
+      if (message.type === "clock" && !canControlRef.current) {
+        const next = receiveClock(message.clock, message.sentAt);
+        knownClockRef.current = next.updatedAt;
+        onClockRef.current(next);
+      }
+    },
+    [receiveEvent, sendClock]
+  );
+
+  // Join / leave the live channel of the match
+  useEffect(() => {
+    if (!active || !matchId) return;
+    knownEventsRef.current = new Map(eventsRef.current.map((e) => [e.id, getVersion(e)]));
+    knownClockRef.current = clockRef.current?.updatedAt ?? null;
+
+    const transport = createLiveTransport(
+      matchId,
+      { deviceId: deviceIdRef.current, role, joinedAt: new Date().toISOString() },
+      { onMessage: handleMessage, onPresence: setParticipants }
+    );
+    transportRef.current = transport;
+    setTransportKind(transport?.kind ?? null);
+
+    return () => {
+      transport?.close();
+      transportRef.current = null;
+      setParticipants([]);
+      setTransportKind(null);
+    };
+  }, [active, matchId, role, handleMessage]);
+
+  // Broadcast events saved on this device
+  useEffect(() => {
+    const transport = transportRef.current;
+    if (!transport) return;
+    for (const event of events) {
+      const version = getVersion(event);
+      if (knownEventsRef.current.get(event.id) === version) continue;
+      knownEventsRef.current.set(event.id, version);
+      transport.send({ type: "event", deviceId: deviceIdRef.current, event });
+    }
+  }, [events, transportKind]);
+
+  // Broadcast the clock (clock keeper only)
+  useEffect(() => {
+    if (!transportRef.current || !clock || !controlsClock) return;
+    if (knownClockRef.current === clock.updatedAt) return;
+    sendClock(clock);
+  }, [clock, controlsClock, transportKind, sendClock]);
+
+  return {
+    deviceId,
+    active,
+    setActive,
+    role,
+    setRole,
+    participants,
+    transportKind,
+    controlsClock,
+    mergedDuplicates,
+  };
+}
@@ -0,0 +1,82 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import * as storage from "@/lib/storage";
+import {
+  createUndoHistory,
+  describeAction,
+  pushAction,
+  redoAction,
+  undoAction,
+  type TrackerAction,
+  type UndoDirection,
+  type UndoHistoryState,
+} from "@/lib/undoHistory";
+
+type ApplyAction = (action: TrackerAction, direction: UndoDirection) => Promise<void> | void;
+
+export function useUndoHistory(matchId: string | undefined) {
+  const [history, setHistory] = useState<UndoHistoryState | null>(null);
+  const historyRef = useRef<UndoHistoryState | null>(null);
+  const busyRef = useRef(false);
+
+  const commit = useCallback((next: UndoHistoryState) => {
+    historyRef.current = next;
+    setHistory(next);
+    storage.saveUndoHistory(next);
+  }, []);
+
+  // Load persisted history when the match changes
+  useEffect(() => {
+    if (!matchId) return;
+    const saved = storage.getUndoHistory(matchId);
+    const initial = saved || createUndoHistory(matchId);
+    historyRef.current = initial;
+    setHistory(initial);
+  }, [matchId]);
+
+  const record = useCallback(
+    (action: TrackerAction) => {
+      const current = historyRef.current;
+      if (!current) return;
+      commit(pushAction(current, action));
+    },
+    [commit]
+  );
+
+  // The stack only moves once the action was applied, so a failed save can be retried
+  const step = useCallback(
+    async (direction: UndoDirection, apply: ApplyAction) => {
+      const current = historyRef.current;
+      if (!current || busyRef.current) return;
+      const result = direction === "undo" ? undoAction(current) : redoAction(current);
+      if (!result) return;
+      busyRef.current = true;
+      try {
+        await apply(result.action, direction);
+        commit(result.state);
+      } catch (err) {
+        console.error(`Failed to ${direction} tracker action:`, err);
+      } finally {
+        busyRef.current = false;
+      }
+    },
+    [commit]
+  );
+
+  const undo = useCallback((apply: ApplyAction) => step("undo", apply), [step]);
+  const redo = useCallback((apply: ApplyAction) => step("redo", apply), [step]);
+
+  const lastAction = history?.past[history.past.length - 1];
+  const nextAction = history?.future[history.future.length - 1];
+
+  return {
+    canUndo: !!lastAction,
+    canRedo: !!nextAction,
+    undoLabel: lastAction ? `Zpět: ${describeAction(lastAction)}` : "Není co vrátit",
+    redoLabel: nextAction ? `Znovu: ${describeAction(nextAction)}` : "Není co opakovat",
+    record,
+    undo,
+    redo,
+  };
+}
@@ -0,0 +1,176 @@
+/**
+ * Auto-refresh service - re-imports the fixtures of tracked competitions
+ *
+ * While the app is open it checks every 15 minutes whether the last refresh
+ * is older than FIXTURE_REFRESH_INTERVAL_MS. The scraping and the comparison
+ * run in /api/fixtures/refresh, the device writes the updated matches and
+ * keeps the change log - a closed app refreshes nothing.
+ */
+
+import { dataService } from './dataService';
+import {
+  FIXTURE_REFRESH_INTERVAL_MS,
+  getRefreshTarget,
+  mergeChangeLog,
+  type FixtureChange,
+  type FixtureRefreshTarget,
+} from './fixtureRefresh';
+import {
+  getClub,
+  getCurrentSeason,
+  getFixtureChanges,
+  getFixtureRefreshedAt,
+  saveFixtureChanges,
+  saveFixtureRefreshedAt,
+} from './storage';
+import type { Match } from './types';
+
+export interface FixtureRefreshResult {
+  success: boolean;
+  changes: FixtureChange[];
+  saved: number;
+  errors: string[];
+}
+
+let refreshInterval: NodeJS.Timeout | null = null;
+let isRefreshing = false;
+let refreshCallbacks: Array<(result: FixtureRefreshResult) => void> = [];
+
+/**
+ * Start checking for a due refresh (every 15 minutes)
+ */
+export function startAutoRefresh(): void {
+  if (refreshInterval) {
+    return;
+  }
+
+  refreshIfDue();
+
+  refreshInterval = setInterval(() => {
+    refreshIfDue();
+  }, 15 * 60 * 1000);
+}
+
+/**
+ * Stop automatic refresh
+ */
+export function stopAutoRefresh(): void {
+  if (refreshInterval) {
+    clearInterval(refreshInterval);
+    refreshInterval = null;
+  }
+}
+
+function refreshIfDue(): void {
+  const refreshedAt = getFixtureRefreshedAt();
+  if (refreshedAt && Date.now() - new Date(refreshedAt).getTime() < FIXTURE_REFRESH_INTERVAL_MS) {
+    return;
+  }
+  // Offline devices try again on the next check
+  if (typeof navigator !== 'undefined' && !navigator.onLine) {
+    return;
+  }
+  performRefresh();
+}
+
+/**
+ * Perform refresh operation
+ */
+async function performRefresh(): Promise<FixtureRefreshResult> {
+  if (isRefreshing) {
+    return { success: false, changes: [], saved: 0, errors: ['Refresh already in progress'] };
+  }
+
+  isRefreshing = true;
+
+  try {
+    // Only competitions of the current season change
+    const seasonId = getCurrentSeason().id;
+    const competitions = await dataService.getCompetitions();
+    const targets = competitions
+      .filter((c) => c.seasonId === seasonId)
+      .map(getRefreshTarget)
+      .filter((t): t is FixtureRefreshTarget => t !== null);
+
+    let result: FixtureRefreshResult = { success: true, changes: [], saved: 0, errors: [] };
+    let refreshedAt = new Date().toISOString();
+
+    if (targets.length > 0) {
+      const matches = (await dataService.getMatches()).filter((m) => m.externalId);
+      const response = await fetch('/api/fixtures/refresh', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ club: getClub(), targets, matches }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `HTTP ${response.status}`);
+      }
+
+      // A match refreshed by two competitions is saved once, last version wins
+      const saves = Array.from(new Map((data.saves as Match[]).map((m) => [m.id, m])).values());
+      for (const match of saves) {
+        await dataService.saveMatch(match);
+      }
+
+      const changes = data.changes as FixtureChange[];
+      if (changes.length > 0) {
+        saveFixtureChanges(mergeChangeLog(getFixtureChanges(), changes));
+      }
+      refreshedAt = data.refreshedAt;
+      result = {
+        success: true,
+        changes,
+        saved: saves.length,
+        errors: (data.errors as Array<{ error: string }>).map((e) => e.error),
+      };
+    }
+
+    saveFixtureRefreshedAt(refreshedAt);
+
+    refreshCallbacks.forEach(cb => {
+      try {
+        cb(result);
+      } catch (err) {
+        console.error('[AutoRefresh] Callback error:', err);
+      }
+    });
+
+    return result;
+  } catch (err) {
+    console.error('[AutoRefresh] Refresh failed:', err);
+    return {
+      success: false,
+      changes: [],
+      saved: 0,
+      errors: [err instanceof Error ? err.message : String(err)],
+    };
+  } finally {
+    isRefreshing = false;
+  }
+}
+
+/**
+ * Force immediate refresh (the home page button)
+ */
+export async function forceRefresh(): Promise<FixtureRefreshResult> {
+  return await performRefresh();
+}
+
+/**
+ * Check if refresh is currently running
+ */
+export function isRefreshRunning(): boolean {
+  return isRefreshing;
+}
+
+/**
+ * Register callback for finished refreshes
+ */
+export function onRefresh(callback: (result: FixtureRefreshResult) => void): () => void {
+  refreshCallbacks.push(callback);
+
+  return () => {
+    refreshCallbacks = refreshCallbacks.filter(cb => cb !== callback);
+  };
+}
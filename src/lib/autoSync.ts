@@ -1,9 +1,9 @@
 /**
- * Auto-sync service - automatically syncs localStorage data to Supabase every minute
+ * Auto-sync service - two-way sync between localStorage and Supabase every minute
  */
 
-import { uploadToSupabase, type SyncResult } from './sync';
-import { isSupabaseConfigured } from './supabaseClient';
+import { syncWithSupabase, type SyncResult } from './sync';
+import { isCloudEnabled } from './supabaseClient';
 
 let syncInterval: NodeJS.Timeout | null = null;
 let isSyncing = false;
@@ -18,7 +18,7 @@ export function startAutoSync(): void {
     return;
   }
 
-  if (!isSupabaseConfigured()) {
+  if (!isCloudEnabled()) {
     return;
   }
   
@@ -53,7 +53,7 @@ async function performSync(): Promise<SyncResult> {
     };
   }
 
-  if (!isSupabaseConfigured()) {
+  if (!isCloudEnabled()) {
     return {
       success: false,
       uploaded: { goalies: 0, matches: 0, events: 0, competitions: 0, teams: 0 },
@@ -64,7 +64,7 @@ async function performSync(): Promise<SyncResult> {
   isSyncing = true;
 
   try {
-    const result = await uploadToSupabase();
+    const result = await syncWithSupabase();
     lastSyncTime = new Date().toISOString();
     
     // Notify callbacks
@@ -0,0 +1,160 @@
+/**
+ * Club - "our club", whose matches the importer looks for
+ *
+ * zapasy.ceskyhokej.cz is filtered by the club's team ID (and region), rows
+ * are kept when one side matches the club's names and the tracked categories
+ * become the competitions offered for import. The club is picked in the
+ * onboarding and stored with the user's data (storage.getClub) - it goes
+ * into backups and snapshots and stays on the device after signing out.
+ * Until then the app works with HC Slovan Ústí nad Labem, the club it was
+ * built for.
+ */
+
+import { COMPETITION_PRESETS, type CompetitionPreset } from "./competitionPresets";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface ClubCategory {
+  id: string;
+  name: string;
+  leagueFilter?: string; // filter[league] on zapasy.ceskyhokej.cz
+  aliases: string[]; // Texts in the "Soutěž" column of the match list
+}
+
+export interface ClubConfig {
+  externalId: string; // filter[team] on zapasy.ceskyhokej.cz
+  regionId?: string; // filter[region]
+  name: string;
+  shortName: string; // Found in the team names of the match list, e.g. "Slovan Ústí"
+  aliases: string[]; // Other spellings used in match lists
+  categories: ClubCategory[];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const DEFAULT_CLUB: ClubConfig = {
+  externalId: "1710",
+  regionId: "6", // Ústecký kraj
+  name: "HC Slovan Ústí nad Labem",
+  shortName: "Slovan Ústí",
+  aliases: [
+    "slovan ústí n.labem",
+    "slovan ústí nad labem",
+    "slovan usti n.labem",
+    "slovan usti",
+  ],
+  categories: COMPETITION_PRESETS.map((preset) => ({
+    id: preset.id,
+    name: preset.name,
+    leagueFilter: preset.leagueFilter,
+    aliases: preset.aliases || [],
+  })),
+};
+
+// Club prefixes left out of the suggested short name
+const CLUB_PREFIXES = new Set(["hc", "hk", "hhk", "sk", "tj", "bk", "ihc", "slhk"]);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+function normalizeClubText(value: string): string {
+  return value
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+/**
+ * Team name belongs to the club ("Slovan Ústí n.Labem B" too)
+ */
+export function isClubTeam(teamName: string | undefined, club: ClubConfig): boolean {
+  const team = normalizeClubText(teamName || "");
+  if (!team) return false;
+  return [club.shortName, ...club.aliases].some((alias) => {
+    const normalized = normalizeClubText(alias);
+    return !!normalized && team.includes(normalized);
+  });
+}
+
+/**
+ * Short name matched in match lists - the full name without the club prefix,
+ * cut to two words ("HC Slovan Ústí nad Labem" -> "Slovan Ústí")
+ */
+export function suggestShortName(name: string): string {
+  const words = name.trim().split(/\s+/);
+  while (words.length > 1 && CLUB_PREFIXES.has(words[0].toLowerCase().replace(/\./g, ""))) {
+    words.shift();
+  }
+  return words.slice(0, 2).join(" ");
+}
+
+/**
+ * Club from untrusted input (stored JSON, API request). The IDs end up in
+ * URLs, so anything unexpected makes the whole config invalid.
+ */
+export function parseClubConfig(value: unknown): ClubConfig | null {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+  if (typeof raw.externalId !== "string" || !/^\d+$/.test(raw.externalId)) return null;
+  if (raw.regionId !== undefined && (typeof raw.regionId !== "string" || !/^\d*$/.test(raw.regionId))) {
+    return null;
+  }
+  if (typeof raw.name !== "string" || typeof raw.shortName !== "string" || !isStringList(raw.aliases)) {
+    return null;
+  }
+  if (!Array.isArray(raw.categories)) return null;
+
+  const categories: ClubCategory[] = [];
+  for (const item of raw.categories) {
+    const category = item as Record<string, unknown>;
+    if (!category || typeof category.id !== "string" || typeof category.name !== "string") return null;
+    if (!isStringList(category.aliases)) return null;
+    if (
+      category.leagueFilter !== undefined &&
+      (typeof category.leagueFilter !== "string" || !/^[\w-]+$/.test(category.leagueFilter))
+    ) {
+      return null;
+    }
+    categories.push({
+      id: category.id,
+      name: category.name,
+      leagueFilter: category.leagueFilter as string | undefined,
+      aliases: category.aliases,
+    });
+  }
+
+  return {
+    externalId: raw.externalId,
+    regionId: (raw.regionId as string | undefined) || undefined,
+    name: raw.name,
+    shortName: raw.shortName,
+    aliases: raw.aliases,
+    categories,
+  };
+}
+
+/**
+ * Competitions seeded for the club. The default club keeps its presets with
+ * the standings links, other clubs get one per tracked category.
+ */
+export function getClubPresets(club: ClubConfig, seasonId: string): CompetitionPreset[] {
+  if (club.externalId === DEFAULT_CLUB.externalId) return COMPETITION_PRESETS;
+  return club.categories.map((category) => ({
+    id: category.id, // Same as the category the importer is asked for
+    name: category.name,
+    season: seasonId,
+    leagueFilter: category.leagueFilter,
+    aliases: category.aliases,
+  }));
+}
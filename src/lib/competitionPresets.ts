@@ -1,5 +1,5 @@
-// Shared competition presets for HC Slovan Ústí nad Labem (zapasy.ceskyhokej.cz)
-// Used for import functionality
+// Competition presets of the default club, HC Slovan Ústí nad Labem
+// (zapasy.ceskyhokej.cz). Other clubs get theirs from club.getClubPresets()
 
 export interface CompetitionPreset {
   id: string;
@@ -10,6 +10,7 @@ export interface CompetitionPreset {
   standingsUrl?: string;
   parentId?: string;
   phase?: "basic" | "playoff" | "placement";
+  aliases?: string[]; // Texts in the "Soutěž" column of the match list
 }
 
 export const COMPETITION_PRESETS: CompetitionPreset[] = [
@@ -19,7 +20,16 @@ export const COMPETITION_PRESETS: CompetitionPreset[] = [
     season: "2025-2026",
     externalId: "Z8",
     leagueFilter: "league_115",
-    standingsUrl: "https://www.ceskyhokej.cz/competition/standings/24"
+    standingsUrl: "https://www.ceskyhokej.cz/competition/standings/24",
+    aliases: [
+      'Liga starších žáků "A" sk. 2',
+      "starsi zaci a",
+      'SŽ "A"',
+      "SŽA",
+      "S3T",
+      "SŽA USK",
+      "SŽA ÚK",
+    ],
   },
   { 
     id: "starsi-zaci-b", 
@@ -27,7 +37,16 @@ export const COMPETITION_PRESETS: CompetitionPreset[] = [
     season: "2025-2026",
     externalId: "Z7",
     leagueFilter: "league_116",
-    standingsUrl: "https://www.ceskyhokej.cz/competition/standings/26"
+    standingsUrl: "https://www.ceskyhokej.cz/competition/standings/26",
+    aliases: [
+      'Liga starších žáků "B" sk. 10',
+      "starsi zaci b",
+      'SŽ "B"',
+      "SŽB",
+      "S3T",
+      "SŽB USK",
+      "SŽB ÚK",
+    ],
   },
   { 
     id: "mladsi-zaci-a", 
@@ -35,7 +54,16 @@ export const COMPETITION_PRESETS: CompetitionPreset[] = [
     season: "2025-2026",
     externalId: "Z6",
     leagueFilter: "league_117",
-    standingsUrl: "https://www.ceskyhokej.cz/competition/standings/25"
+    standingsUrl: "https://www.ceskyhokej.cz/competition/standings/25",
+    aliases: [
+      'Liga mladších žáků "A" sk. 4',
+      "mladsi zaci a",
+      'MŽ "A"',
+      "MŽA",
+      "M3T",
+      "MŽA USK",
+      "MŽA ÚK",
+    ],
   },
   { 
     id: "mladsi-zaci-b", 
@@ -43,7 +71,16 @@ export const COMPETITION_PRESETS: CompetitionPreset[] = [
     season: "2025-2026",
     externalId: "Z5",
     leagueFilter: "league_118",
-    standingsUrl: "https://www.ceskyhokej.cz/competition/standings/27"
+    standingsUrl: "https://www.ceskyhokej.cz/competition/standings/27",
+    aliases: [
+      'Liga mladších žáků "B" sk. 14',
+      "mladsi zaci b",
+      'MŽ "B"',
+      "MŽB",
+      "M3T",
+      "MŽB USK",
+      "MŽB ÚK",
+    ],
   },
 ];
 
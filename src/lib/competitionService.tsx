@@ -2,7 +2,7 @@
 
 import { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react";
 import { v4 as uuidv4 } from "uuid";
-import { isSupabaseConfigured } from "@/lib/supabaseClient";
+import { isCloudEnabled } from "@/lib/supabaseClient";
 import type { Competition, Match } from "@/lib/types";
 import * as storage from "@/lib/storage";
 import * as competitionsRepo from "@/lib/repositories/competitions";
@@ -77,15 +77,6 @@ function updateMatchCompetitionIds(matches: Match[], mapping: Record<string, str
   });
 }
 
-function saveCompetitionsToLocal(competitions: Competition[]) {
-  if (typeof window === "undefined") return;
-  try {
-    localStorage.setItem("goalie-tracker-competitions", JSON.stringify(competitions));
-  } catch {
-    // ignore
-  }
-}
-
 export function CompetitionProvider({ children }: { children: React.ReactNode }) {
   const [competitions, setCompetitions] = useState<Competition[]>([]);
   const [activeCompetitionId, setActiveCompetitionIdState] = useState<string | null>(null);
@@ -94,10 +85,10 @@ export function CompetitionProvider({ children }: { children: React.ReactNode })
   const load = useCallback(async () => {
     setIsLoading(true);
     try {
-      if (isSupabaseConfigured()) {
+      if (isCloudEnabled()) {
         const remote = await competitionsRepo.getCompetitions();
         setCompetitions(remote);
-        saveCompetitionsToLocal(remote);
+        storage.saveCompetitions(remote);
       } else {
         const local = storage.getCompetitions();
         const { competitions: normalized, mapping } = migrateLocalCompetitionIds(local);
@@ -105,7 +96,7 @@ export function CompetitionProvider({ children }: { children: React.ReactNode })
           const matches = storage.getMatches();
           const updatedMatches = updateMatchCompetitionIds(matches, mapping);
           updatedMatches.forEach((match) => storage.saveMatch(match));
-          saveCompetitionsToLocal(normalized);
+          storage.saveCompetitions(normalized);
         }
         setCompetitions(normalized);
       }
@@ -134,14 +125,14 @@ export function CompetitionProvider({ children }: { children: React.ReactNode })
   }, []);
 
   const addCompetition = useCallback(async (data: Omit<Competition, "id" | "createdAt" | "updatedAt">) => {
-    if (isSupabaseConfigured()) {
+    if (isCloudEnabled()) {
       const created = await competitionsRepo.createCompetition(data);
       if (created) {
         setCompetitions((prev) => [...prev, created]);
         if (!activeCompetitionId) {
           setActiveCompetitionId(created.id);
         }
-        saveCompetitionsToLocal([...competitions, created]);
+        storage.saveCompetitions([...competitions, created]);
         return created;
       }
     }
@@ -160,11 +151,11 @@ export function CompetitionProvider({ children }: { children: React.ReactNode })
   }, [activeCompetitionId, competitions, setActiveCompetitionId]);
 
   const updateCompetition = useCallback(async (id: string, data: Partial<Competition>) => {
-    if (isSupabaseConfigured()) {
+    if (isCloudEnabled()) {
       const updated = await competitionsRepo.updateCompetition(id, data);
       if (updated) {
         setCompetitions((prev) => prev.map((c) => (c.id === id ? updated : c)));
-        saveCompetitionsToLocal(competitions.map((c) => (c.id === id ? updated : c)));
+        storage.saveCompetitions(competitions.map((c) => (c.id === id ? updated : c)));
         return updated;
       }
     }
@@ -182,7 +173,7 @@ export function CompetitionProvider({ children }: { children: React.ReactNode })
   }, [competitions]);
 
   const deleteCompetition = useCallback(async (id: string) => {
-    if (isSupabaseConfigured()) {
+    if (isCloudEnabled()) {
       const ok = await competitionsRepo.deleteCompetition(id);
       if (!ok) return false;
     } else {
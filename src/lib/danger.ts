@@ -0,0 +1,120 @@
+/**
+ * Shot Danger - high / medium / low danger classification
+ *
+ * Standard "home plate" model on rink coordinates (0–100, goal line at y = 95):
+ * the inner slot in front of the net is high danger, the rest of the home
+ * plate (posts → faceoff dots → top of the circles) is medium, everything
+ * else is low. Rebounds and breakaways are always high danger.
+ */
+
+import type { DangerLevel, GoalieEvent } from "./types";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface DangerBreakdown {
+  shots: number;
+  saves: number;
+  goals: number;
+  savePercentage: number;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Zones
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const DANGER_LEVELS: DangerLevel[] = ["high", "medium", "low"];
+
+export const DANGER_LEVEL_LABELS: Record<DangerLevel, string> = {
+  high: "Vysoká",
+  medium: "Střední",
+  low: "Nízká",
+};
+
+type Point = [number, number];
+
+// Inner slot: goal posts widening out to roughly the hash marks
+const HIGH_DANGER_ZONE: Point[] = [
+  [43, 95],
+  [57, 95],
+  [63, 68],
+  [37, 68],
+];
+
+// Home plate: goal posts → faceoff dots → top of the circles
+const MEDIUM_DANGER_ZONE: Point[] = [
+  [43, 95],
+  [57, 95],
+  [75, 55],
+  [75, 43],
+  [25, 43],
+  [25, 55],
+];
+
+function toSvgPath(points: Point[]): string {
+  return `M ${points.map(([x, y]) => `${x} ${y}`).join(" L ")} Z`;
+}
+
+// SVG outlines for rink overlays (viewBox 0 0 100 100)
+export const HIGH_DANGER_PATH = toSvgPath(HIGH_DANGER_ZONE);
+export const MEDIUM_DANGER_PATH = toSvgPath(MEDIUM_DANGER_ZONE);
+
+// Ray casting point-in-polygon test
+function isInside([x, y]: Point, polygon: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Classification
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function getShotDanger(event: GoalieEvent): DangerLevel {
+  if (event.isRebound || event.rebound || event.goalType === "rebound") return "high";
+  if (event.goalType === "breakaway") return "high";
+
+  const position = event.shotPosition;
+  if (!position) return "low";
+
+  if (Number.isFinite(position.x) && Number.isFinite(position.y)) {
+    const point: Point = [position.x, position.y];
+    if (isInside(point, HIGH_DANGER_ZONE)) return "high";
+    if (isInside(point, MEDIUM_DANGER_ZONE)) return "medium";
+    return "low";
+  }
+
+  // Zone only - the slot is the home plate at best
+  return position.zone === "slot" ? "medium" : "low";
+}
+
+/**
+ * Shots, saves and save % per danger tier (shots on goal only)
+ */
+export function getDangerBreakdown(events: GoalieEvent[]): Record<DangerLevel, DangerBreakdown> {
+  const result = {} as Record<DangerLevel, DangerBreakdown>;
+  for (const level of DANGER_LEVELS) {
+    result[level] = { shots: 0, saves: 0, goals: 0, savePercentage: 0 };
+  }
+
+  for (const e of events) {
+    if (e.status === "deleted" || (e.result !== "save" && e.result !== "goal")) continue;
+    const tier = result[getShotDanger(e)];
+    tier.shots++;
+    if (e.result === "save") tier.saves++;
+    else tier.goals++;
+  }
+
+  for (const level of DANGER_LEVELS) {
+    const tier = result[level];
+    tier.savePercentage = tier.shots > 0 ? (tier.saves / tier.shots) * 100 : 0;
+  }
+  return result;
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { isSupabaseConfigured, supabase } from "@/lib/supabaseClient";
+import { isCloudEnabled, supabase } from "@/lib/supabaseClient";
 import { emitToast } from "@/contexts/ToastContext";
 import { generateId, isUuid } from "@/lib/utils/uuid";
 import type { Competition, Goalie, GoalieEvent, GoalieSeasonStats, Match } from "@/lib/types";
@@ -10,7 +10,7 @@ import * as goaliesRepo from "@/lib/repositories/goalies";
 import * as eventsRepo from "@/lib/repositories/events";
 import type { CreateEventPayload } from "@/lib/repositories/events";
 import * as competitionsRepo from "@/lib/repositories/competitions";
-import { COMPETITION_PRESETS } from "@/lib/competitionPresets";
+import { getClubPresets } from "@/lib/club";
 
 const ID_MAP_KEY = "goalie-tracker-id-map";
 
@@ -129,9 +129,15 @@ function matchToCreatePayload(match: Match): matchesRepo.CreateMatchPayload {
     goalie_id: match.goalieId,
     home_score: match.homeScore,
     away_score: match.awayScore,
+    result_type: match.resultType,
     manual_shots: match.manualStats?.shots,
     manual_saves: match.manualStats?.saves,
     manual_goals_against: match.manualStats?.goals,
+    penalties: match.penalties,
+    goalie_changes: match.goalieChanges,
+    shot_attempts: match.shotAttempts,
+    game_sheet: match.gameSheet ?? null,
+    share_token: match.shareToken ?? null,
     source: match.source,
     external_id: match.externalId,
     external_url: match.externalUrl,
@@ -141,22 +147,22 @@ function matchToCreatePayload(match: Match): matchesRepo.CreateMatchPayload {
 
 export const dataService = {
   async getMatches(): Promise<Match[]> {
-    if (isSupabaseConfigured()) {
+    if (isCloudEnabled()) {
       try {
         const remote = await matchesRepo.getMatches();
-        remote.forEach((m) => storage.saveMatch(m));
+        remote.forEach((m) => storage.saveMatch(m, { fromSync: true }));
         return remote;
       } catch (err) {
         console.error("[dataService] getMatches failed, falling back to local:", err);
       }
     }
-    return storage.getMatches();
+    return storage.queryMatches();
   },
 
   async saveMatch(match: Match): Promise<Match> {
     const normalized = normalizeMatchIds(match);
 
-    if (isSupabaseConfigured()) {
+    if (isCloudEnabled()) {
       const payload = matchToCreatePayload(normalized);
       let saved: Match | null = null;
       if (isUuid(normalized.id)) {
@@ -166,10 +172,11 @@ export const dataService = {
         saved = await matchesRepo.createMatch(payload);
       }
       if (saved) {
-        storage.saveMatch(saved);
+        storage.saveMatch(saved, { fromSync: true });
         return saved;
       }
       emitToast("Nepodařilo se uložit do cloudu. Data jsou uložena lokálně.", "error");
+      storage.enqueueSyncChange("match", normalized.id, "upsert");
     }
 
     storage.saveMatch(normalized);
@@ -179,18 +186,19 @@ export const dataService = {
   async deleteMatch(id: string): Promise<boolean> {
     const normalizedId = ensureUuid(id);
     let success = true;
-    if (isSupabaseConfigured() && isUuid(normalizedId)) {
+    if (isCloudEnabled() && isUuid(normalizedId)) {
       success = await matchesRepo.deleteMatch(normalizedId);
+      if (!success) storage.enqueueSyncChange("match", normalizedId, "delete");
     }
     storage.deleteMatch(id);
     return success;
   },
 
   async getGoalies(): Promise<Goalie[]> {
-    if (isSupabaseConfigured()) {
+    if (isCloudEnabled()) {
       try {
         const remote = await goaliesRepo.getGoalies();
-        remote.forEach((g) => storage.saveGoalie(g));
+        remote.forEach((g) => storage.saveGoalie(g, { fromSync: true }));
         return remote;
       } catch (err) {
         console.error("[dataService] getGoalies failed, falling back to local:", err);
@@ -202,7 +210,7 @@ export const dataService = {
   async saveGoalie(goalie: Goalie): Promise<Goalie> {
     const normalized = normalizeGoalieIds(goalie);
 
-    if (isSupabaseConfigured()) {
+    if (isCloudEnabled()) {
       let saved: Goalie | null = null;
       if (isUuid(normalized.id)) {
         saved = await goaliesRepo.updateGoalie(normalized.id, normalized);
@@ -211,10 +219,11 @@ export const dataService = {
         saved = await goaliesRepo.createGoalie(normalized);
       }
       if (saved) {
-        storage.saveGoalie(saved);
+        storage.saveGoalie(saved, { fromSync: true });
         return saved;
       }
       emitToast("Nepodařilo se uložit do cloudu. Data jsou uložena lokálně.", "error");
+      storage.enqueueSyncChange("goalie", normalized.id, "upsert");
     }
 
     storage.saveGoalie(normalized);
@@ -224,15 +233,16 @@ export const dataService = {
   async deleteGoalie(id: string): Promise<boolean> {
     const normalizedId = ensureUuid(id);
     let success = true;
-    if (isSupabaseConfigured() && isUuid(normalizedId)) {
+    if (isCloudEnabled() && isUuid(normalizedId)) {
       success = await goaliesRepo.deleteGoalie(normalizedId);
+      if (!success) storage.enqueueSyncChange("goalie", normalizedId, "delete");
     }
     storage.deleteGoalie(id);
     return success;
   },
 
   async getEvents(matchId?: string): Promise<GoalieEvent[]> {
-    if (isSupabaseConfigured()) {
+    if (isCloudEnabled()) {
       try {
         if (matchId && isUuid(matchId)) {
           const remote = await eventsRepo.getEventsForMatch(matchId);
@@ -244,15 +254,14 @@ export const dataService = {
         console.error("[dataService] getEvents failed, falling back to local:", err);
       }
     }
-    const events = storage.getEvents();
-    return matchId ? events.filter((e) => e.matchId === matchId) : events;
+    return storage.queryEvents({ matchId });
   },
 
   async saveEvent(event: GoalieEvent): Promise<GoalieEvent> {
     const normalized = normalizeEventIds(event);
     const payload = eventToPayload(normalized);
 
-    if (isSupabaseConfigured()) {
+    if (isCloudEnabled()) {
       let saved: GoalieEvent | null = null;
       if (isUuid(normalized.id)) {
         const { match_id: _matchId, ...updatePayload } = payload;
@@ -262,10 +271,11 @@ export const dataService = {
         saved = await eventsRepo.createEvent(payload);
       }
       if (saved) {
-        storage.saveEvent(saved);
+        storage.saveEvent(saved, { fromSync: true });
         return saved;
       }
       emitToast("Nepodařilo se uložit do cloudu. Data jsou uložena lokálně.", "error");
+      storage.enqueueSyncChange("event", normalized.id, "upsert");
     }
 
     storage.saveEvent(normalized);
@@ -275,15 +285,16 @@ export const dataService = {
   async deleteEvent(id: string): Promise<boolean> {
     const normalizedId = ensureUuid(id);
     let success = true;
-    if (isSupabaseConfigured() && isUuid(normalizedId)) {
+    if (isCloudEnabled() && isUuid(normalizedId)) {
       success = await eventsRepo.deleteEvent(normalizedId);
+      if (!success) storage.enqueueSyncChange("event", normalizedId, "delete");
     }
     storage.deleteEvent(id);
     return success;
   },
 
   async getCompetitions(): Promise<Competition[]> {
-    if (isSupabaseConfigured()) {
+    if (isCloudEnabled()) {
       try {
         const remote = await competitionsRepo.getCompetitions();
         return remote;
@@ -300,7 +311,7 @@ export const dataService = {
       id: comp.id ? ensureUuid(comp.id) : generateId(),
     };
 
-    if (isSupabaseConfigured()) {
+    if (isCloudEnabled()) {
       let saved: Competition | null = null;
       if (isUuid(normalized.id)) {
         saved = await competitionsRepo.updateCompetition(normalized.id, normalized);
@@ -320,11 +331,17 @@ export const dataService = {
   },
 
   async calculateGoalieStats(goalieId: string, seasonId?: string, competitionId?: string): Promise<GoalieSeasonStats> {
-    const [events, matches] = await Promise.all([
+    const [events, matches, competitions, goalies] = await Promise.all([
       this.getEvents(),
       this.getMatches(),
+      this.getCompetitions(),
+      this.getGoalies(),
     ]);
-    return storage.calculateGoalieStats(goalieId, seasonId, competitionId, events, matches);
+    return storage.calculateGoalieStats(goalieId, seasonId, competitionId, events, matches, competitions, undefined, {
+      goalie: goalies.find((g) => g.id === goalieId),
+      teams: storage.getTeams(),
+      club: storage.getClub(),
+    });
   },
 };
 
@@ -360,7 +377,7 @@ const SEASON_PRESETS: SeedSeason[] = [
 ];
 
 export async function ensureSeasonsExist(): Promise<void> {
-  if (isSupabaseConfigured() && supabase) {
+  if (isCloudEnabled() && supabase) {
     const rows = SEASON_PRESETS.map((s) => ({
       id: s.id,
       name: s.name,
@@ -370,7 +387,8 @@ export async function ensureSeasonsExist(): Promise<void> {
       end_year: s.endYear,
       is_current: s.isCurrent,
     }));
-    const { error } = await supabase.from("seasons").upsert(rows, { onConflict: "id" });
+    // Existing seasons belong to whoever created them - only the missing ones are added
+    const { error } = await supabase.from("seasons").upsert(rows, { onConflict: "id", ignoreDuplicates: true });
     if (error) {
       console.error("[seed] Failed to ensure seasons:", error.message);
     }
@@ -395,11 +413,18 @@ export async function ensureSeasonsExist(): Promise<void> {
 }
 
 export async function ensurePresetsExist(): Promise<void> {
-  if (isSupabaseConfigured()) {
-    for (const preset of COMPETITION_PRESETS) {
+  // Competitions of our club's tracked categories
+  const presets = getClubPresets(storage.getClub(), storage.getCurrentSeason().id);
+
+  if (isCloudEnabled()) {
+    // Presets without an external ID are matched by name
+    const remote = presets.some((preset) => !preset.externalId)
+      ? await competitionsRepo.getCompetitions()
+      : [];
+    for (const preset of presets) {
       const existing = preset.externalId
         ? await competitionsRepo.findCompetitionByExternalId(preset.externalId)
-        : null;
+        : remote.find((c) => c.name.toLowerCase() === preset.name.toLowerCase());
       if (!existing) {
         await competitionsRepo.createCompetition({
           name: preset.name,
@@ -418,13 +443,14 @@ export async function ensurePresetsExist(): Promise<void> {
   }
 
   const local = storage.getCompetitions();
-  for (const preset of COMPETITION_PRESETS) {
+  for (const preset of presets) {
     const byExternalId = preset.externalId
       ? local.find((c) => c.externalId === preset.externalId)
       : undefined;
     if (byExternalId) continue;
 
     const byName = local.find((c) => c.name.toLowerCase() === preset.name.toLowerCase());
+    if (byName && !preset.externalId) continue;
     if (byName) {
       storage.saveCompetition({
         ...byName,
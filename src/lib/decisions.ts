@@ -0,0 +1,170 @@
+/**
+ * Decisions - win/loss/OT-loss credit for the goalie of record
+ *
+ * Our side of a match is resolved from the goalie's team, the teams stored
+ * in the app and finally the club name. Matches where our side cannot be
+ * determined get no decision rather than a guessed one.
+ */
+
+import type {
+  Goalie,
+  GoalieDecision,
+  GoalieEvent,
+  GoalieSeasonStats,
+  Match,
+  MatchResultType,
+  Team,
+} from "./types";
+import { isMatchCompleted } from "./utils/matchStatus";
+import { getGoalieOfRecord } from "./goalieChanges";
+import { hasShootout } from "./shootout";
+import type { PeriodSettings } from "./gameClock";
+
+export type MatchSide = "home" | "away";
+
+export interface OurSideContext {
+  goalie?: Goalie | null;
+  teams?: Team[];
+  clubName?: string; // e.g. "Slovan Ústí" - matched as a substring
+}
+
+export const MATCH_RESULT_TYPE_LABELS: Record<MatchResultType, string> = {
+  regulation: "Základní doba",
+  overtime: "Prodloužení",
+  shootout: "Nájezdy",
+};
+
+function normalizeName(name: string | undefined): string {
+  return (name || "")
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function nameMatches(teamName: string | undefined, ourName: string | undefined): boolean {
+  const team = normalizeName(teamName);
+  const ours = normalizeName(ourName);
+  if (!team || !ours) return false;
+  return team === ours || team.includes(ours) || ours.includes(team);
+}
+
+/**
+ * Which side of the match is our team (null = unknown)
+ */
+export function getOurSide(match: Match, context: OurSideContext = {}): MatchSide | null {
+  const { goalie, teams = [], clubName } = context;
+  const homeName = match.homeTeamName || match.home;
+  const awayName = match.awayTeamName || match.away;
+
+  // 1. Goalie's team by ID
+  if (goalie?.teamId) {
+    if (match.homeTeamId === goalie.teamId) return "home";
+    if (match.awayTeamId === goalie.teamId) return "away";
+  }
+
+  // 2. Goalie's team by name
+  const goalieTeamName = goalie?.teamName || goalie?.team;
+  if (goalieTeamName) {
+    const home = nameMatches(homeName, goalieTeamName);
+    const away = nameMatches(awayName, goalieTeamName);
+    if (home !== away) return home ? "home" : "away";
+  }
+
+  // 3. Only one side is a team stored in the app
+  const teamIds = new Set(teams.map((t) => t.id));
+  const homeKnown = !!match.homeTeamId && teamIds.has(match.homeTeamId);
+  const awayKnown = !!match.awayTeamId && teamIds.has(match.awayTeamId);
+  if (homeKnown !== awayKnown) return homeKnown ? "home" : "away";
+
+  // 4. Club name
+  if (clubName) {
+    const home = nameMatches(homeName, clubName);
+    const away = nameMatches(awayName, clubName);
+    if (home !== away) return home ? "home" : "away";
+  }
+
+  return null;
+}
+
+/**
+ * How the match was decided. Explicit result type wins, then recorded
+ * shootout attempts, otherwise overtime is assumed when anything was
+ * recorded in the OT period.
+ */
+export function getMatchResultType(match: Match, events: GoalieEvent[] = []): MatchResultType {
+  if (match.resultType) return match.resultType;
+  if (hasShootout(match)) return "shootout";
+  const hasOvertime =
+    events.some((e) => e.matchId === match.id && e.period === "OT" && e.status !== "deleted") ||
+    (match.goalieChanges || []).some((c) => c.period === "OT");
+  return hasOvertime ? "overtime" : "regulation";
+}
+
+/**
+ * Team decision from our perspective (null = not finished or side unknown)
+ */
+export function getMatchDecision(
+  match: Match,
+  side: MatchSide | null,
+  events: GoalieEvent[] = []
+): GoalieDecision | null {
+  if (!side) return null;
+  if (!(isMatchCompleted(match.status) || match.completed)) return null;
+  if (match.homeScore === undefined || match.awayScore === undefined) return null;
+
+  const ours = side === "home" ? match.homeScore : match.awayScore;
+  const theirs = side === "home" ? match.awayScore : match.homeScore;
+
+  if (ours === theirs) return "T";
+  if (ours > theirs) return "W";
+
+  const resultType = getMatchResultType(match, events);
+  if (resultType === "shootout") return "SOL";
+  if (resultType === "overtime") return "OTL";
+  return "L";
+}
+
+/**
+ * Whether the opponent failed to score (null = score or side unknown).
+ * The deciding shootout goal is not a goal against.
+ */
+export function isTeamShutout(
+  match: Match,
+  side: MatchSide | null,
+  events: GoalieEvent[] = []
+): boolean | null {
+  if (!side) return null;
+  if (match.homeScore === undefined || match.awayScore === undefined) return null;
+
+  const ours = side === "home" ? match.homeScore : match.awayScore;
+  let theirs = side === "home" ? match.awayScore : match.homeScore;
+  if (theirs > ours && getMatchResultType(match, events) === "shootout") theirs -= 1;
+  return theirs === 0;
+}
+
+/**
+ * Decision credited to a goalie in a match (only the goalie of record gets one)
+ */
+export function getGoalieDecision(
+  match: Match,
+  goalieId: string,
+  events: GoalieEvent[],
+  settings: PeriodSettings,
+  context: OurSideContext = {}
+): GoalieDecision | null {
+  const matchEvents = events.filter((e) => e.matchId === match.id);
+  if (getGoalieOfRecord(match, matchEvents, settings) !== goalieId) return null;
+  return getMatchDecision(match, getOurSide(match, context), matchEvents);
+}
+
+/**
+ * Goalie record "W-L-OTL" (shootout losses count as OT losses, ties are appended)
+ */
+export function formatGoalieRecord(
+  stats: Pick<GoalieSeasonStats, "wins" | "losses" | "otLosses" | "shootoutLosses" | "ties">
+): string {
+  const record = `${stats.wins}-${stats.losses}-${stats.otLosses + (stats.shootoutLosses || 0)}`;
+  return stats.ties ? `${record}-${stats.ties}` : record;
+}
@@ -0,0 +1,410 @@
+/**
+ * Export Bundle - schema, migrations and validation of backup files
+ *
+ * Every backup carries the `version` of the format it was written in. On
+ * import the raw JSON is first brought up to EXPORT_VERSION by the chain of
+ * bundle migrations (one step per version), then each record is checked
+ * against the schema. Nothing is written until the user has seen the report:
+ * invalid records are listed and left out, valid ones can be imported.
+ */
+
+import { parseClubConfig } from "./club";
+import type { ExportBundle } from "./types";
+import { normalizeMatchStatus } from "./utils/matchStatus";
+
+export const EXPORT_VERSION = 2;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type BundleCollection =
+  | "goalies"
+  | "teams"
+  | "seasons"
+  | "competitions"
+  | "matches"
+  | "events"
+  | "externalMappings"
+  | "standings";
+
+type FieldType = "string" | "number" | "boolean" | "array" | "object";
+
+// Either a value type or a list of allowed values (enums)
+interface FieldRule {
+  type?: FieldType;
+  required?: boolean;
+  values?: readonly (string | number)[];
+}
+
+type RecordSchema = Record<string, FieldRule>;
+
+type RawRecord = Record<string, unknown>;
+
+// Bundle as parsed from JSON, before migrations and validation
+type RawBundle = Record<string, unknown>;
+
+// Takes a bundle of version N and returns it in version N + 1
+type BundleMigration = (bundle: RawBundle) => RawBundle;
+
+export type BundleIssueSeverity = "error" | "warning";
+
+// One finding of the validation - errors leave the record out of the import
+export interface BundleIssue {
+  collection: BundleCollection;
+  index: number;
+  id?: string;
+  field?: string;
+  message: string;
+  severity: BundleIssueSeverity;
+}
+
+export interface BundleCollectionCount {
+  total: number;
+  valid: number;
+  invalid: number;
+}
+
+export interface BundleValidation {
+  error: string | null; // The whole file is unusable
+  sourceVersion: number | null;
+  bundle: ExportBundle | null; // Migrated bundle with valid records only
+  counts: Record<BundleCollection, BundleCollectionCount>;
+  issues: BundleIssue[];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Schema (current version)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const BUNDLE_COLLECTIONS: BundleCollection[] = [
+  "goalies",
+  "teams",
+  "seasons",
+  "competitions",
+  "matches",
+  "events",
+  "externalMappings",
+  "standings",
+];
+
+export const BUNDLE_COLLECTION_LABELS: Record<BundleCollection, string> = {
+  goalies: "Brankáři",
+  teams: "Týmy",
+  seasons: "Sezóny",
+  competitions: "Soutěže",
+  matches: "Zápasy",
+  events: "Události",
+  externalMappings: "Propojení",
+  standings: "Tabulky",
+};
+
+// Collections older bundles may lack entirely
+const OPTIONAL_COLLECTIONS: BundleCollection[] = ["externalMappings", "standings"];
+
+const BUNDLE_SCHEMA: Record<BundleCollection, RecordSchema> = {
+  goalies: {
+    id: { type: "string", required: true },
+    firstName: { type: "string", required: true },
+    lastName: { type: "string", required: true },
+    birthYear: { type: "number" },
+    team: { type: "string" },
+    teamId: { type: "string" },
+    jerseyNumber: { type: "number" },
+    catchHand: { values: ["L", "R"] },
+    workspaceId: { type: "string" },
+    createdAt: { type: "string" },
+  },
+  teams: {
+    id: { type: "string", required: true },
+    name: { type: "string", required: true },
+    shortName: { type: "string" },
+    defaultCompetitionIds: { type: "array" },
+  },
+  seasons: {
+    id: { type: "string", required: true },
+    name: { type: "string", required: true },
+    startYear: { type: "number" },
+    endYear: { type: "number" },
+    isActive: { type: "boolean" },
+    isCurrent: { type: "boolean" },
+  },
+  competitions: {
+    id: { type: "string", required: true },
+    name: { type: "string", required: true },
+    category: { type: "string" },
+    seasonId: { type: "string" },
+    source: { values: ["ceskyhokej", "ustecky", "litomerice", "manual"] },
+    periodLength: { type: "number" },
+    overtimeLength: { type: "number" },
+    intermissionLength: { type: "number" },
+    pointSystem: { values: ["3-2-1-0", "2-1-0", "3-1-0"] },
+  },
+  matches: {
+    id: { type: "string", required: true },
+    home: { type: "string", required: true },
+    away: { type: "string", required: true },
+    datetime: { type: "string", required: true },
+    seasonId: { type: "string" },
+    competitionId: { type: "string" },
+    goalieId: { type: "string" },
+    matchType: { values: ["league", "friendly", "tournament", "cup"] },
+    status: { values: ["scheduled", "in_progress", "completed", "cancelled"] },
+    homeScore: { type: "number" },
+    awayScore: { type: "number" },
+    manualStats: { type: "object" },
+    roster: { type: "object" },
+    gameSheet: { type: "object" },
+    penalties: { type: "array" },
+    goalieChanges: { type: "array" },
+    shotAttempts: { type: "array" },
+  },
+  events: {
+    id: { type: "string", required: true },
+    matchId: { type: "string", required: true },
+    goalieId: { type: "string" }, // "" for empty-net events and matches without a goalie
+    period: { required: true, values: [1, 2, 3, "OT"] },
+    gameTime: { type: "string" },
+    result: { required: true, values: ["save", "goal", "miss"] },
+    situation: { values: ["even", "powerplay", "shorthanded", "4v4", "3v3"] },
+    shotPosition: { type: "object" },
+    goalPosition: { type: "object" },
+    status: { values: ["confirmed", "edited", "deleted"] },
+  },
+  externalMappings: {
+    id: { type: "string", required: true },
+    externalType: { required: true, values: ["team", "competition", "season"] },
+    externalId: { type: "string", required: true },
+    internalId: { type: "string", required: true },
+  },
+  standings: {
+    id: { type: "string", required: true },
+    competitionId: { type: "string", required: true },
+    seasonId: { type: "string", required: true },
+    rows: { type: "array", required: true },
+  },
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Migrations
+// ─────────────────────────────────────────────────────────────────────────────
+
+function mapRecords(bundle: RawBundle, collection: BundleCollection, fn: (record: RawRecord) => RawRecord) {
+  const records = bundle[collection];
+  if (!Array.isArray(records)) return;
+  bundle[collection] = records.map((record) => (isRecord(record) ? fn(record) : record));
+}
+
+// v1 → v2: one spelling for match statuses and game situations
+function migrateV1ToV2(bundle: RawBundle): RawBundle {
+  const next = { ...bundle };
+
+  // "open"/"closed" and the `completed` flag become the unified statuses
+  mapRecords(next, "matches", (match) => {
+    if (match.status === "open" || match.status === "closed") {
+      return { ...match, status: normalizeMatchStatus(match.status) };
+    }
+    if (match.status === undefined && match.completed === true) {
+      return { ...match, status: "completed" };
+    }
+    return match;
+  });
+
+  // Cloud-style "pp"/"sh" become the names the tracker records
+  mapRecords(next, "events", (event) => {
+    if (event.situation === "pp") return { ...event, situation: "powerplay" };
+    if (event.situation === "sh") return { ...event, situation: "shorthanded" };
+    return event;
+  });
+
+  return next;
+}
+
+// Keyed by the version the migration starts from
+const BUNDLE_MIGRATIONS: Record<number, BundleMigration> = {
+  1: migrateV1ToV2,
+};
+
+/**
+ * Run the migrations from `fromVersion` up to EXPORT_VERSION
+ */
+function migrateBundle(raw: RawBundle, fromVersion: number): RawBundle {
+  let bundle = raw;
+  for (let version = fromVersion; version < EXPORT_VERSION; version++) {
+    const migrate = BUNDLE_MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`Chybí převod zálohy z verze ${version}`);
+    }
+    bundle = { ...migrate(bundle), version: version + 1 };
+  }
+  return bundle;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Validation
+// ─────────────────────────────────────────────────────────────────────────────
+
+function isRecord(value: unknown): value is RawRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function typeOf(value: unknown): FieldType | "other" {
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
+    return typeof value as FieldType;
+  }
+  if (isRecord(value)) return "object";
+  return "other";
+}
+
+const TYPE_LABELS: Record<FieldType, string> = {
+  string: "text",
+  number: "číslo",
+  boolean: "ano/ne",
+  array: "seznam",
+  object: "objekt",
+};
+
+function checkRecord(record: unknown, schema: RecordSchema): { field?: string; message: string }[] {
+  if (!isRecord(record)) {
+    return [{ message: "Záznam není objekt" }];
+  }
+
+  const problems: { field?: string; message: string }[] = [];
+  for (const [field, rule] of Object.entries(schema)) {
+    const value = record[field];
+    if (value === undefined || value === null) {
+      if (rule.required) problems.push({ field, message: "Chybí povinná hodnota" });
+      continue;
+    }
+    if (rule.values) {
+      if (!rule.values.includes(value as string | number)) {
+        problems.push({ field, message: `Neznámá hodnota „${String(value)}“` });
+      }
+      continue;
+    }
+    if (rule.type && typeOf(value) !== rule.type) {
+      problems.push({ field, message: `Očekáván ${TYPE_LABELS[rule.type]}` });
+    } else if (rule.required && rule.type === "string" && !(value as string).trim()) {
+      problems.push({ field, message: "Chybí povinná hodnota" });
+    }
+  }
+  return problems;
+}
+
+function emptyCounts(): Record<BundleCollection, BundleCollectionCount> {
+  return Object.fromEntries(
+    BUNDLE_COLLECTIONS.map((collection) => [collection, { total: 0, valid: 0, invalid: 0 }])
+  ) as Record<BundleCollection, BundleCollectionCount>;
+}
+
+function fatal(message: string, sourceVersion: number | null = null): BundleValidation {
+  return { error: message, sourceVersion, bundle: null, counts: emptyCounts(), issues: [] };
+}
+
+/**
+ * Migrate a parsed backup file to the current version and validate every
+ * record. The returned bundle contains only the records without errors;
+ * warnings (e.g. an event whose match is not in the backup) do not block
+ * the import.
+ */
+export function validateBundle(raw: unknown): BundleValidation {
+  if (!isRecord(raw)) {
+    return fatal("Soubor neobsahuje zálohu Goalie Trackeru");
+  }
+
+  const sourceVersion = raw.version;
+  if (typeof sourceVersion !== "number" || !Number.isInteger(sourceVersion) || sourceVersion < 1) {
+    return fatal("Neplatný formát souboru. Chybí verze exportu.");
+  }
+  if (typeof raw.exportedAt !== "string") {
+    return fatal("Neplatný formát souboru. Chybí datum exportu.", sourceVersion);
+  }
+  if (sourceVersion > EXPORT_VERSION) {
+    return fatal(
+      `Záloha je z novější verze aplikace (verze ${sourceVersion}, podporovaná ${EXPORT_VERSION}). Aktualizuj aplikaci.`,
+      sourceVersion
+    );
+  }
+
+  let migrated: RawBundle;
+  try {
+    migrated = migrateBundle(raw, sourceVersion);
+  } catch (err) {
+    return fatal(err instanceof Error ? err.message : "Zálohu se nepodařilo převést", sourceVersion);
+  }
+
+  const counts = emptyCounts();
+  const issues: BundleIssue[] = [];
+  const valid = {} as Record<BundleCollection, RawRecord[]>;
+  const sourceIndex = new Map<RawRecord, number>(); // Position in the file, for the report
+
+  for (const collection of BUNDLE_COLLECTIONS) {
+    const records = migrated[collection];
+    valid[collection] = [];
+    if (records === undefined && OPTIONAL_COLLECTIONS.includes(collection)) continue;
+    if (!Array.isArray(records)) {
+      return fatal(`Neplatný formát souboru. ${BUNDLE_COLLECTION_LABELS[collection]} nejsou seznam.`, sourceVersion);
+    }
+
+    const seenIds = new Set<string>();
+    records.forEach((record, index) => {
+      const problems = checkRecord(record, BUNDLE_SCHEMA[collection]);
+      const id = isRecord(record) && typeof record.id === "string" ? record.id : undefined;
+      if (id && seenIds.has(id)) {
+        problems.push({ field: "id", message: "Duplicitní ID v záloze" });
+      }
+
+      counts[collection].total++;
+      if (problems.length > 0) {
+        counts[collection].invalid++;
+        problems.forEach((problem) => issues.push({ collection, index, id, ...problem, severity: "error" }));
+        return;
+      }
+      counts[collection].valid++;
+      if (id) seenIds.add(id);
+      valid[collection].push(record as RawRecord);
+      sourceIndex.set(record as RawRecord, index);
+    });
+  }
+
+  // References between collections - the target may already exist locally
+  const matchIds = new Set(valid.matches.map((m) => m.id));
+  const goalieIds = new Set(valid.goalies.map((g) => g.id));
+  const warn = (collection: BundleCollection, record: RawRecord, field: string, message: string) => {
+    issues.push({
+      collection,
+      index: sourceIndex.get(record) ?? -1,
+      id: record.id as string,
+      field,
+      message,
+      severity: "warning",
+    });
+  };
+  valid.events.forEach((event) => {
+    if (!matchIds.has(event.matchId)) warn("events", event, "matchId", "Zápas události není v záloze");
+    if (event.goalieId && !goalieIds.has(event.goalieId)) warn("events", event, "goalieId", "Brankář události není v záloze");
+  });
+  valid.matches.forEach((match) => {
+    if (typeof match.goalieId === "string" && !goalieIds.has(match.goalieId)) {
+      warn("matches", match, "goalieId", "Brankář zápasu není v záloze");
+    }
+  });
+
+  const bundle = {
+    ...valid,
+    version: EXPORT_VERSION,
+    exportedAt: raw.exportedAt,
+    // An unusable club is left out - the device keeps its own
+    club: parseClubConfig(migrated.club) || undefined,
+  } as unknown as ExportBundle;
+
+  return { error: null, sourceVersion, bundle, counts, issues };
+}
+
+/**
+ * Number of records that would be imported
+ */
+export function countValidRecords(validation: BundleValidation): number {
+  return BUNDLE_COLLECTIONS.reduce((sum, collection) => sum + validation.counts[collection].valid, 0);
+}
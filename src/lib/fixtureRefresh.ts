@@ -0,0 +1,241 @@
+/**
+ * Fixture refresh - re-scraped fixtures compared with the saved matches
+ *
+ * Imported matches are paired with the fresh list by externalId. Scores,
+ * dates and venues that moved on the website are written back and every
+ * change goes to a log the user reviews on the home page. The comparison is
+ * pure, so the API route and the device timer (autoRefresh.ts) share it.
+ */
+
+import type { Competition, Match, ScraperSource } from "./types";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+// postponed = moved more than a day later, rescheduled = any other new date
+export type FixtureChangeType = "new" | "score" | "rescheduled" | "postponed" | "venue";
+
+export interface FixtureChange {
+  id: string;
+  type: FixtureChangeType;
+  matchId: string;
+  competitionId?: string;
+  label: string; // "HC Most – HC Litoměřice"
+  before?: string; // Previous value - ISO date for date changes, "3:1" for scores
+  after?: string;
+  datetime: string; // Match date after the change
+  detectedAt: string;
+  seen?: boolean;
+}
+
+// One competition to re-scrape, sent to /api/fixtures/refresh
+export interface FixtureRefreshTarget {
+  competitionId: string;
+  season: string;
+  source?: ScraperSource;
+  leagueFilter?: string;
+  competitionAbbreviation?: string;
+}
+
+export interface FixtureDiff {
+  saves: Match[]; // Matches to write, new ones included
+  changes: FixtureChange[];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+// How often the device refreshes on its own
+export const FIXTURE_REFRESH_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+// Entries kept in the change log
+export const FIXTURE_CHANGE_LOG_LIMIT = 200;
+
+// Sites listing fixtures - hclitomerice.cz only has standings
+const FIXTURE_SOURCES: ScraperSource[] = ["ceskyhokej", "ustecky"];
+
+// A new date more than this later is a postponement
+const POSTPONED_AFTER_MS = 24 * 60 * 60 * 1000;
+
+export const FIXTURE_CHANGE_LABELS: Record<FixtureChangeType, string> = {
+  new: "Nový zápas",
+  score: "Výsledek",
+  rescheduled: "Změna času",
+  postponed: "Odloženo",
+  venue: "Změna místa",
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+function formatScore(match: Pick<Match, "homeScore" | "awayScore">): string | undefined {
+  if (match.homeScore === undefined || match.awayScore === undefined) return undefined;
+  return `${match.homeScore}:${match.awayScore}`;
+}
+
+function getMatchLabel(match: Match): string {
+  return `${match.homeTeamName || match.home} – ${match.awayTeamName || match.away}`;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Targets
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * What to re-scrape for each competition, null for manual competitions and
+ * those the site cannot be asked about
+ */
+export function getRefreshTarget(competition: Competition): FixtureRefreshTarget | null {
+  const source = competition.source === "manual" ? null : competition.source || "ceskyhokej";
+  if (!source || !FIXTURE_SOURCES.includes(source)) return null;
+
+  if (source === "ustecky") {
+    if (!competition.externalId) return null;
+    return {
+      competitionId: competition.id,
+      season: competition.seasonId,
+      source,
+      leagueFilter: competition.externalId,
+    };
+  }
+
+  const abbreviation = competition.abbreviation || undefined;
+  if (!competition.leagueFilter && !abbreviation) return null;
+  return {
+    competitionId: competition.id,
+    season: competition.seasonId,
+    source,
+    leagueFilter: competition.leagueFilter || undefined,
+    competitionAbbreviation: competition.leagueFilter ? undefined : abbreviation,
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Comparison
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Fresh fixtures of one competition against the saved matches.
+ *
+ * New fixtures are only added to competitions that already have imported
+ * matches - the first import stays with the import wizard. A match being
+ * tracked live keeps its score.
+ */
+export function diffFixtures(
+  existing: Match[],
+  fetched: Match[],
+  competitionId: string,
+  detectedAt: string = new Date().toISOString()
+): FixtureDiff {
+  const byExternalId = new Map(
+    existing.filter((m) => m.externalId).map((m) => [m.externalId as string, m])
+  );
+  const hasImported = existing.some((m) => m.externalId && m.competitionId === competitionId);
+  const saves: Match[] = [];
+  const changes: FixtureChange[] = [];
+
+  const addChange = (change: Omit<FixtureChange, "id" | "detectedAt">) => {
+    changes.push({ ...change, id: crypto.randomUUID(), detectedAt });
+  };
+
+  for (const fresh of fetched) {
+    const saved = fresh.externalId ? byExternalId.get(fresh.externalId) : undefined;
+
+    if (!saved) {
+      if (!hasImported) continue;
+      const created: Match = { ...fresh, competitionId, competitionIdManuallySet: false };
+      saves.push(created);
+      addChange({
+        type: "new",
+        matchId: created.id,
+        competitionId,
+        label: getMatchLabel(created),
+        after: created.datetime,
+        datetime: created.datetime,
+      });
+      continue;
+    }
+
+    let updated: Match = saved;
+    const label = getMatchLabel(saved);
+
+    const freshScore = formatScore(fresh);
+    const savedScore = formatScore(saved);
+    if (freshScore && freshScore !== savedScore && saved.status !== "in_progress") {
+      updated = {
+        ...updated,
+        homeScore: fresh.homeScore,
+        awayScore: fresh.awayScore,
+        completed: true,
+        status: saved.status === "scheduled" || !saved.status ? "completed" : saved.status,
+      };
+      addChange({
+        type: "score",
+        matchId: saved.id,
+        competitionId: saved.competitionId,
+        label,
+        before: savedScore,
+        after: freshScore,
+        datetime: updated.datetime,
+      });
+    }
+
+    const shift = new Date(fresh.datetime).getTime() - new Date(saved.datetime).getTime();
+    if (!saved.completed && !freshScore && Math.abs(shift) >= 60 * 1000) {
+      updated = { ...updated, datetime: fresh.datetime };
+      addChange({
+        type: shift > POSTPONED_AFTER_MS ? "postponed" : "rescheduled",
+        matchId: saved.id,
+        competitionId: saved.competitionId,
+        label,
+        before: saved.datetime,
+        after: fresh.datetime,
+        datetime: fresh.datetime,
+      });
+    }
+
+    if (fresh.venue && fresh.venue !== saved.venue) {
+      updated = { ...updated, venue: fresh.venue };
+      // A venue filled in for the first time is not news
+      if (saved.venue) {
+        addChange({
+          type: "venue",
+          matchId: saved.id,
+          competitionId: saved.competitionId,
+          label,
+          before: saved.venue,
+          after: fresh.venue,
+          datetime: updated.datetime,
+        });
+      }
+    }
+
+    if (updated !== saved) saves.push({ ...updated, updatedAt: detectedAt });
+  }
+
+  return { saves, changes };
+}
+
+/**
+ * Change value for the log - dates in the device's time zone
+ */
+export function formatChangeValue(change: FixtureChange, value: string | undefined): string {
+  if (!value) return "–";
+  if (change.type === "score" || change.type === "venue") return value;
+  return new Date(value).toLocaleString("cs-CZ", {
+    day: "numeric",
+    month: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * Newest changes first, trimmed to the log limit
+ */
+export function mergeChangeLog(log: FixtureChange[], changes: FixtureChange[]): FixtureChange[] {
+  return [...changes, ...log].slice(0, FIXTURE_CHANGE_LOG_LIMIT);
+}
@@ -0,0 +1,333 @@
+/**
+ * Game Clock - countdown clock for live match tracking
+ *
+ * The clock never counts ticks. It stores the remaining time at the moment it
+ * was last started (anchor) and derives the current value from the wall clock,
+ * so it stays correct when the phone screen locks or the tab is backgrounded.
+ */
+
+import type { Competition, Period } from "./types";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface PeriodSettings {
+  periodMinutes: number; // Length of regulation period
+  overtimeMinutes: number; // Length of overtime (0 = no overtime)
+  intermissionMinutes: number; // Break between periods (0 = no break)
+}
+
+// "period" = play, "intermission" = break after `period` ends,
+// "ended" = regulation/overtime over, waiting for overtime or match end
+export type ClockPhase = "period" | "intermission" | "ended";
+
+export interface ClockAdvanceOptions {
+  tied?: boolean; // Score level when regulation ends - overtime follows
+}
+
+export interface GameClockState {
+  matchId: string;
+  period: Period;
+  phase: ClockPhase;
+  running: boolean;
+  remainingMs: number; // Remaining time at anchorAt (or now, when stopped)
+  anchorAt: number | null; // Epoch ms when the clock was last started
+  settings: PeriodSettings;
+  updatedAt: string;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Period settings
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const DEFAULT_PERIOD_SETTINGS: PeriodSettings = {
+  periodMinutes: 20,
+  overtimeMinutes: 5,
+  intermissionMinutes: 15,
+};
+
+// Default period lengths by category keyword (youth categories play shorter periods)
+const CATEGORY_PERIOD_PRESETS: Array<{ keyword: string; settings: PeriodSettings }> = [
+  { keyword: "přípravk", settings: { periodMinutes: 15, overtimeMinutes: 0, intermissionMinutes: 5 } },
+  { keyword: "mladších žáků", settings: { periodMinutes: 20, overtimeMinutes: 5, intermissionMinutes: 10 } },
+  { keyword: "starších žáků", settings: { periodMinutes: 20, overtimeMinutes: 5, intermissionMinutes: 10 } },
+];
+
+/**
+ * Resolve period settings for a competition.
+ * Explicit values on the competition win over category presets.
+ */
+export function getPeriodSettings(competition?: Competition | null): PeriodSettings {
+  const label = `${competition?.category || ""} ${competition?.name || ""}`.toLowerCase();
+  const preset =
+    CATEGORY_PERIOD_PRESETS.find((p) => label.includes(p.keyword))?.settings ||
+    DEFAULT_PERIOD_SETTINGS;
+
+  return {
+    periodMinutes: competition?.periodLength ?? preset.periodMinutes,
+    overtimeMinutes: competition?.overtimeLength ?? preset.overtimeMinutes,
+    intermissionMinutes: competition?.intermissionLength ?? preset.intermissionMinutes,
+  };
+}
+
+/**
+ * Full length of a period in milliseconds
+ */
+export function getPeriodLengthMs(period: Period, settings: PeriodSettings): number {
+  const minutes = period === "OT" ? settings.overtimeMinutes : settings.periodMinutes;
+  return minutes * 60 * 1000;
+}
+
+// Overtime follows regulation only in a tied game of a competition that plays it
+function getNextPeriod(period: Period, settings: PeriodSettings, tied: boolean): Period | null {
+  if (period === 1) return 2;
+  if (period === 2) return 3;
+  if (period === 3 && tied && settings.overtimeMinutes > 0) return "OT";
+  return null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Time formatting
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Format milliseconds as "mm:ss" (rounded up, so 19:59.4 shows as 20:00)
+ */
+export function formatClockTime(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${String(minutes).padStart(2, "0")}:${String(seconds).padStart(2, "0")}`;
+}
+
+/**
+ * Parse "mm:ss" (or plain minutes) to milliseconds. Returns null for invalid input.
+ */
+export function parseClockTime(value: string): number | null {
+  const match = value.trim().match(/^(\d{1,2})(?::(\d{1,2}))?$/);
+  if (!match) return null;
+  const minutes = parseInt(match[1], 10);
+  const seconds = match[2] ? parseInt(match[2], 10) : 0;
+  if (seconds > 59) return null;
+  return (minutes * 60 + seconds) * 1000;
+}
+
+/**
+ * Convert period + remaining time to elapsed seconds since the opening face-off
+ */
+export function toElapsedSeconds(
+  period: Period,
+  gameTime: string,
+  settings: PeriodSettings
+): number {
+  const periodIndex = period === "OT" ? 3 : period - 1;
+  const periodSeconds = getPeriodLengthMs(1, settings) / 1000;
+  const lengthSeconds = getPeriodLengthMs(period, settings) / 1000;
+  const remaining = (parseClockTime(gameTime) ?? 0) / 1000;
+  return periodIndex * periodSeconds + Math.max(0, lengthSeconds - remaining);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// State transitions (pure - callers persist the returned state)
+// ─────────────────────────────────────────────────────────────────────────────
+
+function touch(state: GameClockState): GameClockState {
+  return { ...state, updatedAt: new Date().toISOString() };
+}
+
+export function createGameClock(matchId: string, settings: PeriodSettings): GameClockState {
+  return {
+    matchId,
+    period: 1,
+    phase: "period",
+    running: false,
+    remainingMs: getPeriodLengthMs(1, settings),
+    anchorAt: null,
+    settings,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Remaining time right now (without resolving expiration)
+ */
+export function getRemainingMs(state: GameClockState, now: number = Date.now()): number {
+  if (!state.running || state.anchorAt === null) return Math.max(0, state.remainingMs);
+  return Math.max(0, state.remainingMs - (now - state.anchorAt));
+}
+
+/**
+ * Resolve expired periods and intermissions.
+ * Called on every tick and whenever the page becomes visible again, so a clock
+ * that ran out while the screen was locked lands in the correct phase.
+ */
+export function advanceClock(
+  state: GameClockState,
+  now: number = Date.now(),
+  options: ClockAdvanceOptions = {}
+): GameClockState {
+  const tied = !!options.tied;
+  let current = state;
+
+  // Loop: a long background pause may cover period end + whole intermission
+  for (let i = 0; i < 4; i++) {
+    if (!current.running || current.anchorAt === null) return current;
+    const remaining = current.remainingMs - (now - current.anchorAt);
+    if (remaining > 0) return current;
+
+    const expiredAt = current.anchorAt + current.remainingMs;
+
+    if (current.phase === "intermission") {
+      // Intermission over - next period waits for the face-off (the break
+      // after the 3rd period is only taken before overtime)
+      const next = getNextPeriod(current.period, current.settings, true) ?? current.period;
+      current = touch({
+        ...current,
+        period: next,
+        phase: "period",
+        running: false,
+        anchorAt: null,
+        remainingMs: getPeriodLengthMs(next, current.settings),
+      });
+      continue;
+    }
+
+    if (current.phase === "period") {
+      const next = getNextPeriod(current.period, current.settings, tied);
+      if (next && current.settings.intermissionMinutes > 0) {
+        current = touch({
+          ...current,
+          phase: "intermission",
+          running: true,
+          anchorAt: expiredAt,
+          remainingMs: current.settings.intermissionMinutes * 60 * 1000,
+        });
+        continue;
+      }
+      if (next) {
+        current = touch({
+          ...current,
+          period: next,
+          phase: "period",
+          running: false,
+          anchorAt: null,
+          remainingMs: getPeriodLengthMs(next, current.settings),
+        });
+        continue;
+      }
+      // End of a decided regulation, or of overtime
+      current = touch({ ...current, phase: "ended", running: false, anchorAt: null, remainingMs: 0 });
+      continue;
+    }
+
+    return touch({ ...current, running: false, anchorAt: null, remainingMs: 0 });
+  }
+
+  return current;
+}
+
+export function startClock(state: GameClockState, now: number = Date.now()): GameClockState {
+  if (state.running || state.phase === "ended") return state;
+  if (getRemainingMs(state, now) <= 0) return state;
+  return touch({ ...state, running: true, anchorAt: now });
+}
+
+export function stopClock(state: GameClockState, now: number = Date.now()): GameClockState {
+  if (!state.running) return state;
+  return touch({
+    ...state,
+    running: false,
+    anchorAt: null,
+    remainingMs: getRemainingMs(state, now),
+  });
+}
+
+/**
+ * Add (positive) or remove (negative) time, capped to the period length
+ */
+export function adjustClock(
+  state: GameClockState,
+  deltaMs: number,
+  now: number = Date.now()
+): GameClockState {
+  const max =
+    state.phase === "intermission"
+      ? state.settings.intermissionMinutes * 60 * 1000
+      : getPeriodLengthMs(state.period, state.settings);
+  const remaining = Math.min(max, Math.max(0, getRemainingMs(state, now) + deltaMs));
+  return touch({
+    ...state,
+    remainingMs: remaining,
+    anchorAt: state.running ? now : null,
+  });
+}
+
+/**
+ * Set the clock to an exact value (e.g. read from the arena scoreboard)
+ */
+export function setClockRemaining(
+  state: GameClockState,
+  remainingMs: number,
+  now: number = Date.now()
+): GameClockState {
+  const max = getPeriodLengthMs(state.period, state.settings);
+  return touch({
+    ...state,
+    remainingMs: Math.min(max, Math.max(0, remainingMs)),
+    anchorAt: state.running ? now : null,
+  });
+}
+
+/**
+ * Manually jump to a period (resets the clock to full length, stopped)
+ */
+export function setClockPeriod(state: GameClockState, period: Period): GameClockState {
+  return touch({
+    ...state,
+    period,
+    phase: "period",
+    running: false,
+    anchorAt: null,
+    remainingMs: getPeriodLengthMs(period, state.settings),
+  });
+}
+
+/**
+ * End the intermission early and prepare the next period
+ */
+export function skipIntermission(state: GameClockState): GameClockState {
+  if (state.phase !== "intermission") return state;
+  return setClockPeriod(state, getNextPeriod(state.period, state.settings, true) ?? state.period);
+}
+
+/**
+ * Apply new period settings (keeps period and elapsed time where possible)
+ */
+export function updateClockSettings(
+  state: GameClockState,
+  settings: PeriodSettings,
+  now: number = Date.now()
+): GameClockState {
+  const stopped = stopClock(state, now);
+  const oldLength = getPeriodLengthMs(state.period, state.settings);
+  const newLength = getPeriodLengthMs(state.period, settings);
+  const elapsed = oldLength - getRemainingMs(stopped, now);
+  return touch({
+    ...stopped,
+    settings,
+    remainingMs:
+      stopped.phase === "period" ? Math.max(0, newLength - elapsed) : stopped.remainingMs,
+  });
+}
+
+/**
+ * Game time to stamp on a new event ("mm:ss" remaining in the period)
+ */
+export function getClockGameTime(state: GameClockState, now: number = Date.now()): string {
+  if (state.phase === "intermission") {
+    // Events recorded during a break belong to the end of the previous period
+    return "00:00";
+  }
+  return formatClockTime(getRemainingMs(state, now));
+}
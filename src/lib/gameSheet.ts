@@ -0,0 +1,224 @@
+/**
+ * Game sheet - the official match report against the tracked events
+ *
+ * The sheet counts game time up ("07:34" of the 2nd period), the tracker
+ * stores the remaining time on the clock ("12:26"). Goals against our goalie
+ * are paired with the tracked goal events by time so the scorekeeper's time
+ * can be taken over, and goals only one side knows about are flagged.
+ */
+
+import { formatClockTime, getPeriodLengthMs, parseClockTime, type PeriodSettings } from "./gameClock";
+import type {
+  GameSheet,
+  GameSheetGoal,
+  GameSheetGoalie,
+  GameSheetSide,
+  GoalieEvent,
+  GoalScorer,
+  Match,
+  MatchRoster,
+} from "./types";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+// matched = same goal within the tolerance, time_differs = same goal at another
+// time, missing = on the sheet only, extra = tracked only
+export type GoalReconciliationStatus = "matched" | "time_differs" | "missing" | "extra";
+
+export interface GoalReconciliation {
+  status: GoalReconciliationStatus;
+  goal?: GameSheetGoal;
+  event?: GoalieEvent;
+  officialGameTime?: string; // Sheet time as remaining time, like GoalieEvent.gameTime
+  differenceSeconds?: number; // Tracked minus official, positive = tracked later
+}
+
+export interface GoalieLine {
+  shotsAgainst: number;
+  saves: number;
+  goalsAgainst: number;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const MATCHED_TOLERANCE_SECONDS = 5;
+// Tracked goals further from the official time are not the same goal
+const MAX_PAIR_DISTANCE_SECONDS = 300;
+
+export const GOAL_RECONCILIATION_LABELS: Record<GoalReconciliationStatus, string> = {
+  matched: "Sedí",
+  time_differs: "Jiný čas",
+  missing: "Chybí v záznamu",
+  extra: "Není v zápisu",
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Time
+// ─────────────────────────────────────────────────────────────────────────────
+
+function getPeriodIndex(period: GameSheetGoal["period"]): number {
+  return period === "OT" ? 3 : period - 1;
+}
+
+/**
+ * Official goal time since the opening face-off, in seconds
+ */
+export function getOfficialElapsedSeconds(goal: GameSheetGoal, settings: PeriodSettings): number {
+  const periodSeconds = getPeriodLengthMs(1, settings) / 1000;
+  return getPeriodIndex(goal.period) * periodSeconds + (parseClockTime(goal.time) ?? 0) / 1000;
+}
+
+/**
+ * Official goal time as the remaining time in the period
+ */
+export function toAppGameTime(goal: GameSheetGoal, settings: PeriodSettings): string {
+  const lengthMs = getPeriodLengthMs(goal.period, settings);
+  return formatClockTime(lengthMs - (parseClockTime(goal.time) ?? 0));
+}
+
+function getTrackedElapsedSeconds(event: GoalieEvent, settings: PeriodSettings): number {
+  const periodSeconds = getPeriodLengthMs(1, settings) / 1000;
+  const lengthMs = getPeriodLengthMs(event.period, settings);
+  const remainingMs = parseClockTime(event.gameTime) ?? lengthMs;
+  return getPeriodIndex(event.period) * periodSeconds + Math.max(0, lengthMs - remainingMs) / 1000;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Reconciliation
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Goals scored on our goalie, empty while the sheet does not know our side
+ */
+export function getGoalsAgainst(sheet: GameSheet): GameSheetGoal[] {
+  if (!sheet.ourSide) return [];
+  return sheet.goals.filter((goal) => goal.side !== sheet.ourSide);
+}
+
+/**
+ * Official goals against paired with the tracked goal events, in game order.
+ * Closest pairs in the same period are taken first.
+ */
+export function reconcileGoals(
+  sheet: GameSheet,
+  events: GoalieEvent[],
+  settings: PeriodSettings
+): GoalReconciliation[] {
+  const goals = getGoalsAgainst(sheet);
+  const tracked = events.filter((e) => e.result === "goal" && e.status !== "deleted");
+
+  const candidates: Array<{ goalIndex: number; eventIndex: number; difference: number }> = [];
+  goals.forEach((goal, goalIndex) => {
+    const official = getOfficialElapsedSeconds(goal, settings);
+    tracked.forEach((event, eventIndex) => {
+      if (event.period !== goal.period) return;
+      const difference = Math.round(getTrackedElapsedSeconds(event, settings) - official);
+      if (Math.abs(difference) <= MAX_PAIR_DISTANCE_SECONDS) candidates.push({ goalIndex, eventIndex, difference });
+    });
+  });
+  candidates.sort((a, b) => Math.abs(a.difference) - Math.abs(b.difference));
+
+  const goalPairs = new Map<number, { eventIndex: number; difference: number }>();
+  const pairedEvents = new Set<number>();
+  for (const candidate of candidates) {
+    if (goalPairs.has(candidate.goalIndex) || pairedEvents.has(candidate.eventIndex)) continue;
+    goalPairs.set(candidate.goalIndex, candidate);
+    pairedEvents.add(candidate.eventIndex);
+  }
+
+  const items: Array<{ item: GoalReconciliation; order: number }> = goals.map((goal, goalIndex) => {
+    const pair = goalPairs.get(goalIndex);
+    const order = getOfficialElapsedSeconds(goal, settings);
+    const officialGameTime = toAppGameTime(goal, settings);
+    if (!pair) return { item: { status: "missing", goal, officialGameTime }, order };
+    return {
+      item: {
+        status: Math.abs(pair.difference) <= MATCHED_TOLERANCE_SECONDS ? "matched" : "time_differs",
+        goal,
+        event: tracked[pair.eventIndex],
+        officialGameTime,
+        differenceSeconds: pair.difference,
+      },
+      order,
+    };
+  });
+  tracked.forEach((event, eventIndex) => {
+    if (!pairedEvents.has(eventIndex)) {
+      items.push({ item: { status: "extra", event }, order: getTrackedElapsedSeconds(event, settings) });
+    }
+  });
+
+  return items.sort((a, b) => a.order - b.order).map((entry) => entry.item);
+}
+
+/**
+ * Tracked goal moved to the official time, null when there is nothing to move
+ */
+export function alignEventToSheet(item: GoalReconciliation): GoalieEvent | null {
+  if (item.status !== "time_differs" || !item.event || !item.goal || !item.officialGameTime) return null;
+  return { ...item.event, period: item.goal.period, gameTime: item.officialGameTime };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Goalies
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function getOfficialGoalies(sheet: GameSheet): GameSheetGoalie[] {
+  if (!sheet.ourSide) return [];
+  return sheet.goalies.filter((goalie) => goalie.side === sheet.ourSide);
+}
+
+/**
+ * Shots and saves of all our goalies together, null when the sheet has none
+ */
+export function getOfficialGoalieLine(sheet: GameSheet): GoalieLine | null {
+  const goalies = getOfficialGoalies(sheet);
+  if (goalies.length === 0) return null;
+  return goalies.reduce(
+    (line, goalie) => ({
+      shotsAgainst: line.shotsAgainst + goalie.shotsAgainst,
+      saves: line.saves + goalie.saves,
+      goalsAgainst: line.goalsAgainst + goalie.goalsAgainst,
+    }),
+    { shotsAgainst: 0, saves: 0, goalsAgainst: 0 }
+  );
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Match
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Roster of the match page - our players and all scorers from the sheet
+ */
+export function getGameSheetRoster(sheet: GameSheet): MatchRoster {
+  const players = sheet.ourSide === "home" ? sheet.homePlayers : sheet.ourSide === "away" ? sheet.awayPlayers : [];
+  const goalScorers: GoalScorer[] = sheet.goals.map((goal) => ({
+    name: goal.scorer,
+    time: goal.time,
+    period: goal.period === "OT" ? 4 : goal.period,
+    assists: goal.assists.length > 0 ? goal.assists : undefined,
+    isOurTeam: goal.side === sheet.ourSide,
+  }));
+  return { players, goalScorers };
+}
+
+export function setGameSheetSide(sheet: GameSheet, ourSide: GameSheetSide): GameSheet {
+  return { ...sheet, ourSide };
+}
+
+/**
+ * Match with the sheet attached, the roster follows the sheet
+ */
+export function applyGameSheet(match: Match, sheet: GameSheet): Match {
+  return {
+    ...match,
+    gameSheet: sheet,
+    roster: getGameSheetRoster(sheet),
+    updatedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,207 @@
+/**
+ * Goalie Changes - who was in net at any moment of a match
+ *
+ * The starting goalie is `Match.goalieId`, every `GoalieChange` replaces the
+ * goalie in net from its moment on (null = pulled for an extra attacker).
+ * Events recorded at the same game time as a change are ordered by the time
+ * they were recorded, so "goal at 10:00, then swap at 10:00" stays with the
+ * goalie who conceded.
+ */
+
+import type { GoalieChange, GoalieEvent, Match, Period } from "./types";
+import { getPeriodLengthMs, parseClockTime, toElapsedSeconds, type PeriodSettings } from "./gameClock";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Ordering
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface GameMoment {
+  period: Period;
+  gameTime: string; // Remaining time in period
+  recordedAt?: string; // ISO, tie-breaker for the same game time
+}
+
+function getPeriodIndex(period: Period): number {
+  return period === "OT" ? 3 : period - 1;
+}
+
+/**
+ * Compare two moments of a match (negative = a happened before b)
+ */
+export function compareGameMoments(a: GameMoment, b: GameMoment): number {
+  const periodDiff = getPeriodIndex(a.period) - getPeriodIndex(b.period);
+  if (periodDiff !== 0) return periodDiff;
+
+  // Clock counts down - more remaining time means earlier
+  const timeDiff = (parseClockTime(b.gameTime) ?? 0) - (parseClockTime(a.gameTime) ?? 0);
+  if (timeDiff !== 0) return timeDiff;
+
+  if (a.recordedAt && b.recordedAt) {
+    return new Date(a.recordedAt).getTime() - new Date(b.recordedAt).getTime();
+  }
+  return 0;
+}
+
+export function getSortedGoalieChanges(match: Match): GoalieChange[] {
+  return [...(match.goalieChanges || [])].sort((a, b) =>
+    compareGameMoments(
+      { period: a.period, gameTime: a.gameTime, recordedAt: a.createdAt },
+      { period: b.period, gameTime: b.gameTime, recordedAt: b.createdAt }
+    )
+  );
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Goalie in net
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Goalie in net at the given moment (null = empty net / no goalie assigned).
+ * Without `recordedAt` changes at exactly that game time are already applied.
+ */
+export function getGoalieOnIce(
+  match: Match,
+  period: Period,
+  gameTime: string,
+  recordedAt?: string
+): string | null {
+  let goalieId: string | null = match.goalieId || null;
+
+  for (const change of getSortedGoalieChanges(match)) {
+    const order = compareGameMoments(
+      { period: change.period, gameTime: change.gameTime, recordedAt: recordedAt ? change.createdAt : undefined },
+      { period, gameTime, recordedAt }
+    );
+    if (order > 0) break;
+    goalieId = change.goalieId;
+  }
+
+  return goalieId;
+}
+
+/**
+ * All goalies who appeared in the match (starter first)
+ */
+export function getMatchGoalieIds(match: Match): string[] {
+  const ids: string[] = [];
+  if (match.goalieId) ids.push(match.goalieId);
+  for (const change of match.goalieChanges || []) {
+    if (change.goalieId && !ids.includes(change.goalieId)) ids.push(change.goalieId);
+  }
+  return ids;
+}
+
+/**
+ * Re-attribute events to the goalie in net when they happened.
+ * Returns only the events whose goalie changed (callers persist them).
+ */
+export function reattributeEvents(match: Match, events: GoalieEvent[]): GoalieEvent[] {
+  return events
+    .map((e) => {
+      const goalieId = getGoalieOnIce(match, e.period, e.gameTime, e.timestamp) || "";
+      return goalieId === e.goalieId ? null : { ...e, goalieId };
+    })
+    .filter((e): e is GoalieEvent => e !== null);
+}
+
+/**
+ * Event happened while our net was empty
+ */
+export function isEmptyNetEvent(match: Match, event: GoalieEvent): boolean {
+  if (!match.goalieChanges?.length) return false;
+  return getGoalieOnIce(match, event.period, event.gameTime, event.timestamp) === null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Time on ice
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Elapsed seconds at the end of the match.
+ * Overtime counts only when something was recorded in it; a goal against in
+ * overtime ends it (sudden death).
+ */
+export function getMatchEndElapsed(
+  match: Match,
+  events: GoalieEvent[],
+  settings: PeriodSettings
+): number {
+  const regulation = (getPeriodLengthMs(1, settings) / 1000) * 3;
+  const overtimeEvents = events.filter((e) => e.period === "OT" && e.status !== "deleted");
+  const playedOvertime =
+    settings.overtimeMinutes > 0 &&
+    (overtimeEvents.length > 0 || (match.goalieChanges || []).some((c) => c.period === "OT"));
+  if (!playedOvertime) return regulation;
+
+  const overtimeGoals = overtimeEvents
+    .filter((e) => e.result === "goal")
+    .map((e) => toElapsedSeconds(e.period, e.gameTime, settings));
+  if (overtimeGoals.length > 0) return Math.min(...overtimeGoals);
+
+  return regulation + getPeriodLengthMs("OT", settings) / 1000;
+}
+
+/**
+ * Seconds in net per goalie (empty-net time is not credited to anyone)
+ *
+ * @param until - Elapsed seconds to count to (defaults to the end of the match)
+ */
+export function getGoalieTimeOnIce(
+  match: Match,
+  events: GoalieEvent[],
+  settings: PeriodSettings,
+  until?: number
+): Record<string, number> {
+  const end = until ?? getMatchEndElapsed(match, events, settings);
+  const result: Record<string, number> = {};
+
+  let goalieId: string | null = match.goalieId || null;
+  let from = 0;
+
+  const credit = (to: number) => {
+    const seconds = Math.max(0, Math.min(to, end) - from);
+    if (goalieId && seconds > 0) {
+      result[goalieId] = (result[goalieId] || 0) + seconds;
+    }
+  };
+
+  for (const change of getSortedGoalieChanges(match)) {
+    const at = toElapsedSeconds(change.period, change.gameTime, settings);
+    credit(at);
+    from = Math.max(from, Math.min(at, end));
+    goalieId = change.goalieId;
+  }
+  credit(end);
+
+  return result;
+}
+
+/**
+ * Rate per 60 minutes in net (GAA, shots/60, saves/60)
+ */
+export function getPer60(count: number, secondsPlayed: number): number {
+  return secondsPlayed > 0 ? (count * 3600) / secondsPlayed : 0;
+}
+
+/**
+ * Goalie credited with the decision: the one with most time in net,
+ * the starter on a tie
+ */
+export function getGoalieOfRecord(
+  match: Match,
+  events: GoalieEvent[],
+  settings: PeriodSettings
+): string | undefined {
+  const timeOnIce = getGoalieTimeOnIce(match, events, settings);
+  let best: string | undefined = match.goalieId;
+  let bestSeconds = best ? timeOnIce[best] || 0 : -1;
+
+  for (const [goalieId, seconds] of Object.entries(timeOnIce)) {
+    if (seconds > bestSeconds) {
+      best = goalieId;
+      bestSeconds = seconds;
+    }
+  }
+
+  return best;
+}
@@ -0,0 +1,246 @@
+/**
+ * Import Diff - dry run of a backup import
+ *
+ * Before anything is written, every record of the backup is compared with the
+ * local copy (same id; standings by competition + season):
+ * - new: not on this device yet
+ * - changed: differs and the backup copy is the newer one
+ * - conflict: differs and the local copy was edited later (or it can't be told)
+ * - unchanged: same content
+ * The user then picks per collection or per record which side wins and
+ * resolveImport() builds the final data that storage writes in one go.
+ */
+
+import type { ExportBundle, GoalieEvent } from "./types";
+import type { SyncEntity } from "./syncMerge";
+import { BUNDLE_COLLECTIONS, type BundleCollection } from "./exportBundle";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type ImportDiffKind = "new" | "changed" | "conflict" | "unchanged";
+
+// Which copy wins - for new records "local" means the record is skipped
+export type ImportSide = "incoming" | "local";
+
+export type ImportMode = "merge" | "replace";
+
+export interface ImportDiffEntry {
+  collection: BundleCollection;
+  key: string;
+  kind: ImportDiffKind;
+  label: string;
+  changedFields: string[];
+}
+
+export interface ImportDiff {
+  entries: ImportDiffEntry[];
+  counts: Record<BundleCollection, Record<ImportDiffKind, number>>;
+  localOnly: Record<BundleCollection, number>; // Removed by a replace import
+}
+
+// Keyed by getChoiceKey()
+export type ImportChoices = Record<string, ImportSide>;
+
+// Final data for storage.importData()
+export interface ImportPlan {
+  bundle: ExportBundle;
+  imported: Record<BundleCollection, number>;
+  dirty: Record<SyncEntity, string[]>; // Records the next sync uploads
+}
+
+type AnyRecord = Record<string, unknown>;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const IMPORT_DIFF_KIND_LABELS: Record<ImportDiffKind, string> = {
+  new: "Nový",
+  changed: "Změněný",
+  conflict: "Konflikt",
+  unchanged: "Beze změny",
+};
+
+// Bookkeeping fields that don't count as a change
+const IGNORED_FIELDS = new Set(["id", "createdAt", "updatedAt"]);
+
+const SYNC_ENTITIES: Partial<Record<BundleCollection, SyncEntity>> = {
+  goalies: "goalie",
+  matches: "match",
+  events: "event",
+};
+
+const RESULT_LABELS: Record<GoalieEvent["result"], string> = {
+  save: "zákrok",
+  goal: "gól",
+  miss: "mimo",
+};
+
+function getRecords(bundle: ExportBundle, collection: BundleCollection): AnyRecord[] {
+  return ((bundle[collection] as unknown[] | undefined) || []) as AnyRecord[];
+}
+
+function getRecordKey(collection: BundleCollection, record: AnyRecord): string {
+  // One standings table per competition and season, ids differ per device
+  if (collection === "standings") return `${record.competitionId}:${record.seasonId}`;
+  return String(record.id);
+}
+
+export function getChoiceKey(entry: Pick<ImportDiffEntry, "collection" | "key">): string {
+  return `${entry.collection}:${entry.key}`;
+}
+
+function getRecordLabel(collection: BundleCollection, record: AnyRecord): string {
+  switch (collection) {
+    case "goalies":
+      return `${record.firstName} ${record.lastName}`;
+    case "matches": {
+      const date = new Date(String(record.datetime));
+      const day = isNaN(date.getTime()) ? "" : ` (${date.toLocaleDateString("cs-CZ")})`;
+      return `${record.home} – ${record.away}${day}`;
+    }
+    case "events": {
+      const period = record.period === "OT" ? "P" : `${record.period}.`;
+      const result = RESULT_LABELS[record.result as GoalieEvent["result"]] || record.result;
+      return `${period} tř. ${record.gameTime || ""} – ${result}`;
+    }
+    case "externalMappings":
+      return `${record.externalType}: ${record.externalName || record.externalId}`;
+    case "standings":
+      return String(record.competitionName || record.competitionId);
+    default:
+      return String(record.name || record.id);
+  }
+}
+
+function getChangedFields(local: AnyRecord, incoming: AnyRecord): string[] {
+  const fields = new Set([...Object.keys(local), ...Object.keys(incoming)]);
+  return [...fields].filter(
+    (field) => !IGNORED_FIELDS.has(field) && JSON.stringify(local[field]) !== JSON.stringify(incoming[field])
+  );
+}
+
+function getRecordTime(record: AnyRecord): string {
+  return String(record.updatedAt || record.createdAt || "");
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Diff
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function buildImportDiff(local: ExportBundle, incoming: ExportBundle): ImportDiff {
+  const entries: ImportDiffEntry[] = [];
+  const counts = {} as ImportDiff["counts"];
+  const localOnly = {} as ImportDiff["localOnly"];
+
+  for (const collection of BUNDLE_COLLECTIONS) {
+    counts[collection] = { new: 0, changed: 0, conflict: 0, unchanged: 0 };
+    const localByKey = new Map(getRecords(local, collection).map((r) => [getRecordKey(collection, r), r]));
+    const incomingKeys = new Set<string>();
+
+    for (const record of getRecords(incoming, collection)) {
+      const key = getRecordKey(collection, record);
+      incomingKeys.add(key);
+      const existing = localByKey.get(key);
+
+      let kind: ImportDiffKind = "new";
+      let changedFields: string[] = [];
+      if (existing) {
+        changedFields = getChangedFields(existing, record);
+        if (changedFields.length === 0) kind = "unchanged";
+        else if (getRecordTime(record) > getRecordTime(existing)) kind = "changed";
+        else kind = "conflict";
+      }
+
+      counts[collection][kind]++;
+      entries.push({ collection, key, kind, label: getRecordLabel(collection, record), changedFields });
+    }
+
+    localOnly[collection] = [...localByKey.keys()].filter((key) => !incomingKeys.has(key)).length;
+  }
+
+  return { entries, counts, localOnly };
+}
+
+/**
+ * Suggested side: new records and newer backup copies are taken,
+ * local edits made after the backup are kept
+ */
+export function getDefaultChoice(entry: ImportDiffEntry): ImportSide {
+  return entry.kind === "new" || entry.kind === "changed" ? "incoming" : "local";
+}
+
+export function getDefaultChoices(diff: ImportDiff): ImportChoices {
+  return Object.fromEntries(diff.entries.map((entry) => [getChoiceKey(entry), getDefaultChoice(entry)]));
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Resolve
+// ─────────────────────────────────────────────────────────────────────────────
+
+function withImportDefaults(collection: BundleCollection, record: AnyRecord, now: string): AnyRecord {
+  const next: AnyRecord = { ...record, createdAt: record.createdAt || now };
+  if (collection === "events") {
+    next.status = record.status || "confirmed";
+    next.inputSource = record.inputSource || "live";
+  }
+  return next;
+}
+
+/**
+ * Final data after the import. A replace import takes the backup as it is,
+ * a merge keeps local records and applies only the records chosen from the
+ * backup. Records overriding a local copy get a fresh `updatedAt` so the sync
+ * does not bring the old cloud version back.
+ */
+export function resolveImport(
+  local: ExportBundle,
+  incoming: ExportBundle,
+  diff: ImportDiff,
+  choices: ImportChoices,
+  mode: ImportMode
+): ImportPlan {
+  const now = new Date().toISOString();
+  const bundle = {
+    ...local,
+    version: incoming.version,
+    exportedAt: incoming.exportedAt,
+    // Replacing takes the backup's club, merging keeps the one picked here
+    club: mode === "replace" ? incoming.club || local.club : local.club || incoming.club,
+  };
+  const imported = {} as ImportPlan["imported"];
+  const dirty: ImportPlan["dirty"] = { goalie: [], match: [], event: [] };
+  const kinds = new Map(diff.entries.map((entry) => [getChoiceKey(entry), entry.kind]));
+
+  for (const collection of BUNDLE_COLLECTIONS) {
+    const records = new Map(
+      (mode === "replace" ? [] : getRecords(local, collection)).map((r) => [getRecordKey(collection, r), r])
+    );
+    imported[collection] = 0;
+
+    for (const record of getRecords(incoming, collection)) {
+      const key = getRecordKey(collection, record);
+      const kind = kinds.get(getChoiceKey({ collection, key }));
+      if (mode === "merge" && (kind === "unchanged" || choices[getChoiceKey({ collection, key })] !== "incoming")) {
+        continue;
+      }
+
+      let next = withImportDefaults(collection, record, now);
+      const existing = records.get(key);
+      if (existing) {
+        next = { ...next, id: existing.id, updatedAt: now };
+      }
+      records.set(key, next);
+      imported[collection]++;
+
+      const entity = SYNC_ENTITIES[collection];
+      if (entity) dirty[entity].push(String(next.id));
+    }
+
+    (bundle as unknown as Record<string, unknown>)[collection] = [...records.values()];
+  }
+
+  return { bundle, imported, dirty };
+}
@@ -0,0 +1,308 @@
+/**
+ * Live Session - several devices tracking the same match together
+ *
+ * Devices join a channel per match and broadcast every saved event and the
+ * clock state. Each device has a role: one parent taps shot locations, another
+ * picks goal target zones, a third runs the clock. The same shot recorded on
+ * two devices is detected and merged into one event (location from one side,
+ * target zone from the other).
+ *
+ * The channel is Supabase Realtime when configured, otherwise a local
+ * stand-in (BroadcastChannel) that connects tabs of the same browser. The
+ * Realtime channel is private - its policies (migration-v14.sql) let in only
+ * accounts with access to the match.
+ */
+
+import type { RealtimeChannel } from "@supabase/supabase-js";
+import { supabase, isCloudEnabled } from "./supabaseClient";
+import { parseClockTime, type GameClockState } from "./gameClock";
+import type { GoalieEvent } from "./types";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type LiveRole = "all" | "shots" | "targets" | "clock";
+
+export interface LiveParticipant {
+  deviceId: string;
+  role: LiveRole;
+  joinedAt: string;
+}
+
+export type LiveMessage =
+  | { type: "hello"; deviceId: string } // New device asks for the current state
+  | { type: "event"; deviceId: string; event: GoalieEvent }
+  | { type: "clock"; deviceId: string; clock: GameClockState; sentAt: number };
+
+export interface LiveTransport {
+  kind: "supabase" | "local";
+  send: (message: LiveMessage) => void;
+  close: () => void;
+}
+
+export interface LiveTransportHandlers {
+  onMessage: (message: LiveMessage) => void;
+  onPresence: (participants: LiveParticipant[]) => void;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const LIVE_ROLES: LiveRole[] = ["all", "shots", "targets", "clock"];
+
+export const LIVE_ROLE_LABELS: Record<LiveRole, string> = {
+  all: "Vše",
+  shots: "Místa střel",
+  targets: "Zóny v brance",
+  clock: "Časomíra",
+};
+
+// Two entries of the same shot are rarely more than a few seconds apart
+const DUPLICATE_WINDOW_MS = 10_000;
+
+// Quick entries without a rink tap sit in the middle of the rink
+const PLACEHOLDER_POSITION = { x: 50, y: 50 };
+
+// Local stand-in: presence heartbeat and when a silent device is dropped
+const HEARTBEAT_MS = 5_000;
+const PRESENCE_TIMEOUT_MS = 15_000;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Roles
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function canRecordShots(role: LiveRole): boolean {
+  return role === "all" || role === "shots" || role === "targets";
+}
+
+/**
+ * The clock is run by one device - the clock keeper, or anyone with the "all"
+ * role when nobody took the clock
+ */
+export function canControlClock(role: LiveRole, participants: LiveParticipant[], deviceId: string): boolean {
+  if (role === "clock") return true;
+  if (role !== "all") return false;
+  return !participants.some((p) => p.deviceId !== deviceId && p.role === "clock");
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Duplicate detection
+// ─────────────────────────────────────────────────────────────────────────────
+
+function hasShotLocation(event: GoalieEvent): boolean {
+  const position = event.shotPosition;
+  return !!position && (position.x !== PLACEHOLDER_POSITION.x || position.y !== PLACEHOLDER_POSITION.y);
+}
+
+function hasTarget(event: GoalieEvent): boolean {
+  return !!event.goalPosition || !!event.shotTarget;
+}
+
+/**
+ * Event in `existing` that records the same shot as `incoming`: same period
+ * and result, clock readings within a few seconds and details that do not
+ * contradict each other (two different rink locations are two shots).
+ */
+export function findDuplicateEvent(incoming: GoalieEvent, existing: GoalieEvent[]): GoalieEvent | null {
+  if (incoming.status === "deleted") return null;
+  const incomingTime = parseClockTime(incoming.gameTime);
+  if (incomingTime === null) return null;
+
+  const candidates = existing.filter((event) => {
+    if (event.id === incoming.id || event.status === "deleted") return false;
+    if (event.matchId !== incoming.matchId || event.period !== incoming.period) return false;
+    if (event.result !== incoming.result) return false;
+    const time = parseClockTime(event.gameTime);
+    if (time === null || Math.abs(time - incomingTime) > DUPLICATE_WINDOW_MS) return false;
+    // Complementary entries only - each side brings what the other is missing
+    if (hasShotLocation(event) && hasShotLocation(incoming)) return false;
+    if (hasTarget(event) && hasTarget(incoming)) return false;
+    return true;
+  });
+
+  if (candidates.length === 0) return null;
+  return candidates.reduce((closest, event) =>
+    Math.abs((parseClockTime(event.gameTime) ?? 0) - incomingTime) <
+    Math.abs((parseClockTime(closest.gameTime) ?? 0) - incomingTime)
+      ? event
+      : closest
+  );
+}
+
+/**
+ * Merge two entries of the same shot. The older entry is kept (every device
+ * picks the same one), the other one is soft-deleted.
+ */
+export function mergeDuplicateEvents(
+  a: GoalieEvent,
+  b: GoalieEvent
+): { kept: GoalieEvent; removed: GoalieEvent } {
+  const aFirst = (a.createdAt || a.timestamp) < (b.createdAt || b.timestamp) ||
+    ((a.createdAt || a.timestamp) === (b.createdAt || b.timestamp) && a.id < b.id);
+  const [keep, drop] = aFirst ? [a, b] : [b, a];
+  const now = new Date().toISOString();
+
+  const kept: GoalieEvent = {
+    ...keep,
+    shotPosition: hasShotLocation(keep) ? keep.shotPosition : drop.shotPosition || keep.shotPosition,
+    goalPosition: keep.goalPosition || drop.goalPosition,
+    shotTarget: keep.shotTarget || drop.shotTarget,
+    saveType: keep.saveType || drop.saveType,
+    goalType: keep.goalType || drop.goalType,
+    isRebound: keep.isRebound || drop.isRebound,
+    isScreened: keep.isScreened || drop.isScreened,
+    status: "edited",
+    updatedAt: now,
+  };
+
+  return {
+    kept,
+    removed: { ...drop, status: "deleted", originalEventId: keep.id, updatedAt: now },
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Clock
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Clock state from another device, shifted to this device's time
+ * (device clocks are rarely in sync)
+ */
+export function receiveClock(clock: GameClockState, sentAt: number, now: number = Date.now()): GameClockState {
+  if (clock.anchorAt === null) return clock;
+  return { ...clock, anchorAt: clock.anchorAt + (now - sentAt) };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Transports
+// ─────────────────────────────────────────────────────────────────────────────
+
+function createSupabaseTransport(
+  matchId: string,
+  participant: LiveParticipant,
+  handlers: LiveTransportHandlers
+): LiveTransport | null {
+  if (!supabase) return null;
+  const client = supabase;
+
+  const channel: RealtimeChannel = client.channel(`live-match:${matchId}`, {
+    config: {
+      private: true,
+      broadcast: { self: false },
+      presence: { key: participant.deviceId },
+    },
+  });
+
+  channel
+    .on("broadcast", { event: "live" }, ({ payload }) => handlers.onMessage(payload as LiveMessage))
+    .on("presence", { event: "sync" }, () => {
+      const state = channel.presenceState<LiveParticipant>();
+      handlers.onPresence(
+        Object.values(state).map((presences) => {
+          const { deviceId, role, joinedAt } = presences[0];
+          return { deviceId, role, joinedAt };
+        })
+      );
+    })
+    .subscribe((status, err) => {
+      if (status === "CHANNEL_ERROR") console.error("[liveSession] Channel refused:", err);
+      if (status !== "SUBSCRIBED") return;
+      channel.track({ ...participant }).catch((err) => {
+        console.error("[liveSession] Presence failed:", err);
+      });
+      channel.send({ type: "broadcast", event: "live", payload: { type: "hello", deviceId: participant.deviceId } });
+    });
+
+  return {
+    kind: "supabase",
+    send: (message) => {
+      channel.send({ type: "broadcast", event: "live", payload: message }).catch((err) => {
+        console.error("[liveSession] Broadcast failed:", err);
+      });
+    },
+    close: () => {
+      client.removeChannel(channel);
+    },
+  };
+}
+
+type LocalEnvelope =
+  | { kind: "message"; message: LiveMessage }
+  | { kind: "presence"; participant: LiveParticipant }
+  | { kind: "leave"; deviceId: string };
+
+function createLocalTransport(
+  matchId: string,
+  participant: LiveParticipant,
+  handlers: LiveTransportHandlers
+): LiveTransport | null {
+  if (typeof window === "undefined" || typeof BroadcastChannel === "undefined") return null;
+
+  const channel = new BroadcastChannel(`goalie-tracker-live-${matchId}`);
+  const seen = new Map<string, { participant: LiveParticipant; lastSeen: number }>();
+  seen.set(participant.deviceId, { participant, lastSeen: Date.now() });
+
+  const emitPresence = () => {
+    const now = Date.now();
+    for (const [deviceId, entry] of seen) {
+      if (deviceId !== participant.deviceId && now - entry.lastSeen > PRESENCE_TIMEOUT_MS) {
+        seen.delete(deviceId);
+      }
+    }
+    handlers.onPresence(Array.from(seen.values()).map((entry) => entry.participant));
+  };
+
+  const post = (envelope: LocalEnvelope) => channel.postMessage(envelope);
+
+  channel.onmessage = (e: MessageEvent<LocalEnvelope>) => {
+    const envelope = e.data;
+    if (envelope.kind === "message") {
+      handlers.onMessage(envelope.message);
+    } else if (envelope.kind === "presence") {
+      const isNew = !seen.has(envelope.participant.deviceId);
+      seen.set(envelope.participant.deviceId, { participant: envelope.participant, lastSeen: Date.now() });
+      // Answer a newcomer right away, so both sides see each other
+      if (isNew) post({ kind: "presence", participant });
+      emitPresence();
+    } else if (envelope.kind === "leave") {
+      seen.delete(envelope.deviceId);
+      emitPresence();
+    }
+  };
+
+  const heartbeat = setInterval(() => {
+    post({ kind: "presence", participant });
+    emitPresence();
+  }, HEARTBEAT_MS);
+
+  post({ kind: "presence", participant });
+  post({ kind: "message", message: { type: "hello", deviceId: participant.deviceId } });
+  emitPresence();
+
+  return {
+    kind: "local",
+    send: (message) => post({ kind: "message", message }),
+    close: () => {
+      clearInterval(heartbeat);
+      post({ kind: "leave", deviceId: participant.deviceId });
+      channel.close();
+    },
+  };
+}
+
+/**
+ * Join the live channel of a match (Supabase Realtime, or the local stand-in)
+ */
+export function createLiveTransport(
+  matchId: string,
+  participant: LiveParticipant,
+  handlers: LiveTransportHandlers
+): LiveTransport | null {
+  if (isCloudEnabled()) {
+    return createSupabaseTransport(matchId, participant, handlers);
+  }
+  return createLocalTransport(matchId, participant, handlers);
+}
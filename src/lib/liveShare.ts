@@ -0,0 +1,100 @@
+/**
+ * Live Share - public read-only view of a match being tracked
+ *
+ * The match page creates a random share token, the public page
+ * `/live/[shareToken]` polls a snapshot of the match by that token. Revoking
+ * removes the token from the match, so old links stop working.
+ */
+
+import type { Goalie, GoalieEvent, GoalPosition, Match, Period, ResultType, ShotPosition, SituationType } from "./types";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Only what the public page shows - no notes, roster or internal IDs
+export interface LiveEvent {
+  id: string;
+  period: Period;
+  gameTime: string;
+  result: ResultType;
+  situation?: SituationType;
+  shotPosition?: ShotPosition;
+  goalPosition?: GoalPosition;
+}
+
+export interface LiveSnapshot {
+  home: string;
+  away: string;
+  category?: string;
+  datetime: string;
+  homeScore?: number;
+  awayScore?: number;
+  completed: boolean;
+  goalieName: string | null;
+  period: Period;
+  events: LiveEvent[];
+  generatedAt: string;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const LIVE_POLL_INTERVAL_MS = 10_000;
+
+export const LIVE_PATH_PREFIX = "/live/";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Random URL-safe token (128 bits), hard to guess unlike match IDs in URLs
+ */
+export function generateShareToken(): string {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export function getLiveSharePath(shareToken: string): string {
+  return `${LIVE_PATH_PREFIX}${shareToken}`;
+}
+
+// The public page runs without the tracker's app shell (sync, onboarding)
+export function isLiveSharePath(pathname: string | null): boolean {
+  return !!pathname && pathname.startsWith(LIVE_PATH_PREFIX);
+}
+
+/**
+ * Public snapshot of a shared match
+ */
+export function buildLiveSnapshot(match: Match, events: GoalieEvent[], goalie: Goalie | null): LiveSnapshot {
+  const liveEvents = events
+    .filter((e) => e.matchId === match.id && e.status !== "deleted")
+    .map((e) => ({
+      id: e.id,
+      period: e.period,
+      gameTime: e.gameTime,
+      result: e.result,
+      situation: e.situation,
+      shotPosition: e.shotPosition,
+      goalPosition: e.goalPosition,
+    }));
+
+  return {
+    home: match.homeTeamName || match.home,
+    away: match.awayTeamName || match.away,
+    category: match.category,
+    datetime: match.datetime,
+    homeScore: match.homeScore,
+    awayScore: match.awayScore,
+    completed: !!match.completed,
+    goalieName: goalie ? `${goalie.firstName} ${goalie.lastName}` : null,
+    // The clock lives on the tracking phone, the latest event tells the period
+    period: liveEvents.length > 0 ? liveEvents[liveEvents.length - 1].period : 1,
+    events: liveEvents,
+    generatedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,172 @@
+/**
+ * Local DB - IndexedDB store behind storage.ts
+ *
+ * One object store per collection. Records are wrapped with their position
+ * in the collection, so lists keep the order they had in localStorage, and
+ * the foreign keys the app filters by are indexed. Every write is its own
+ * transaction; writing several stores at once is atomic.
+ */
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type LocalDbStore =
+  | "goalies"
+  | "teams"
+  | "seasons"
+  | "competitions"
+  | "matches"
+  | "events"
+  | "externalMappings"
+  | "standings";
+
+export type LocalDbIndex = "matchId" | "goalieId" | "seasonId" | "competitionId";
+
+// Stored form of a record
+export interface LocalDbEntry<T = unknown> {
+  id: string;
+  order: number;
+  data: T;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+const DB_NAME = "goalie-tracker-data";
+const DB_VERSION = 1;
+
+export const LOCAL_DB_STORES: LocalDbStore[] = [
+  "goalies",
+  "teams",
+  "seasons",
+  "competitions",
+  "matches",
+  "events",
+  "externalMappings",
+  "standings",
+];
+
+const STORE_INDEXES: Partial<Record<LocalDbStore, LocalDbIndex[]>> = {
+  matches: ["goalieId", "seasonId", "competitionId"],
+  events: ["matchId", "goalieId"],
+  competitions: ["seasonId"],
+  standings: ["competitionId"],
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function isLocalDbSupported(): boolean {
+  return typeof window !== "undefined" && "indexedDB" in window;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        LOCAL_DB_STORES.forEach((name) => {
+          const store = request.result.createObjectStore(name, { keyPath: "id" });
+          (STORE_INDEXES[name] || []).forEach((index) => store.createIndex(index, `data.${index}`));
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((err) => {
+      dbPromise = null; // Try again on the next call
+      throw err;
+    });
+  }
+  return dbPromise;
+}
+
+async function runTransaction(
+  stores: LocalDbStore[],
+  mode: IDBTransactionMode,
+  run: (transaction: IDBTransaction) => void
+): Promise<void> {
+  const db = await openDb();
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(stores, mode);
+    run(transaction);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function byOrder<T>(entries: LocalDbEntry<T>[]): T[] {
+  return entries.sort((a, b) => a.order - b.order).map((entry) => entry.data);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Reads
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Whole stores at once, in one transaction
+ */
+export async function loadStores(stores: LocalDbStore[]): Promise<Record<LocalDbStore, LocalDbEntry[]>> {
+  const result = {} as Record<LocalDbStore, LocalDbEntry[]>;
+  await runTransaction(stores, "readonly", (transaction) => {
+    stores.forEach((name) => {
+      const request = transaction.objectStore(name).getAll();
+      request.onsuccess = () => {
+        result[name] = (request.result as LocalDbEntry[]).sort((a, b) => a.order - b.order);
+      };
+    });
+  });
+  return result;
+}
+
+/**
+ * Records with the given foreign key, e.g. the events of one match
+ */
+export async function getByIndex<T>(store: LocalDbStore, index: LocalDbIndex, value: string): Promise<T[]> {
+  let entries: LocalDbEntry<T>[] = [];
+  await runTransaction([store], "readonly", (transaction) => {
+    const request = transaction.objectStore(store).index(index).getAll(value);
+    request.onsuccess = () => {
+      entries = request.result as LocalDbEntry<T>[];
+    };
+  });
+  return byOrder(entries);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Writes
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function putEntries(store: LocalDbStore, entries: LocalDbEntry[]): Promise<void> {
+  return runTransaction([store], "readwrite", (transaction) => {
+    const objectStore = transaction.objectStore(store);
+    entries.forEach((entry) => objectStore.put(entry));
+  });
+}
+
+export function deleteEntries(store: LocalDbStore, ids: string[]): Promise<void> {
+  return runTransaction([store], "readwrite", (transaction) => {
+    const objectStore = transaction.objectStore(store);
+    ids.forEach((id) => objectStore.delete(id));
+  });
+}
+
+/**
+ * Replace the whole content of the given stores - all or nothing
+ */
+export function replaceStores(contents: Partial<Record<LocalDbStore, LocalDbEntry[]>>): Promise<void> {
+  const stores = Object.keys(contents) as LocalDbStore[];
+  if (stores.length === 0) return Promise.resolve();
+  return runTransaction(stores, "readwrite", (transaction) => {
+    stores.forEach((name) => {
+      const objectStore = transaction.objectStore(name);
+      objectStore.clear();
+      (contents[name] || []).forEach((entry) => objectStore.put(entry));
+    });
+  });
+}
@@ -2,10 +2,12 @@
  * Migration utilities for Goalie Tracker
  * 
  * These functions ensure backward compatibility when the data model changes.
- * They run automatically on app startup.
+ * They run automatically on app startup, on the localStorage data from before
+ * storage.initStorage() moves the collections to IndexedDB.
  */
 
 import { v4 as uuidv4 } from "uuid";
+import { createSnapshot } from "./snapshots";
 
 const MIGRATION_VERSION_KEY = 'goalie-tracker-migration-version';
 const CURRENT_MIGRATION_VERSION = 2;
@@ -13,10 +15,15 @@ const CURRENT_MIGRATION_VERSION = 2;
 /**
  * Run all pending migrations on app startup
  */
-export function runMigrations(): void {
+export async function runMigrations(): Promise<void> {
   if (typeof window === 'undefined') return;
 
   const currentVersion = getMigrationVersion();
+
+  // Keep a copy of the data the migrations are about to change
+  if (currentVersion < CURRENT_MIGRATION_VERSION) {
+    await createSnapshot("migration");
+  }
   
   // Run migrations in order
   if (currentVersion < 1) {
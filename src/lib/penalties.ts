@@ -0,0 +1,227 @@
+/**
+ * Penalties - manpower state derived from the match penalty log
+ *
+ * All calculations work on elapsed game time in seconds (0 = opening face-off),
+ * converted from the "mm:ss remaining" format used by events and the game clock.
+ */
+
+import type { GoalieEvent, Penalty, PenaltyTeam, PenaltyType, SituationType } from "./types";
+import { toElapsedSeconds, type PeriodSettings } from "./gameClock";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Time interval a penalty is actually served (after queueing and early release)
+export interface PenaltyWindow {
+  penaltyId: string;
+  team: PenaltyTeam;
+  type: PenaltyType;
+  start: number; // Elapsed seconds
+  end: number; // Elapsed seconds (exclusive)
+}
+
+export interface ManpowerState {
+  our: number; // Skaters on ice (without goalie)
+  opponent: number;
+  label: string; // "5v4" from our perspective
+  situation: SituationType;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const PENALTY_TYPE_LABELS: Record<PenaltyType, string> = {
+  minor: "2 min",
+  double_minor: "2+2 min",
+  major: "5 min",
+  misconduct: "10 min OT",
+};
+
+const PENALTY_DURATION_SECONDS: Record<PenaltyType, number> = {
+  minor: 120,
+  double_minor: 240,
+  major: 300,
+  misconduct: 600,
+};
+
+const FULL_STRENGTH = 5;
+const MIN_SKATERS = 3;
+// At most two penalties per team count against manpower at once, the rest wait
+const MAX_SERVING = FULL_STRENGTH - MIN_SKATERS;
+
+function affectsManpower(type: PenaltyType): boolean {
+  return type !== "misconduct";
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Penalty windows
+// ─────────────────────────────────────────────────────────────────────────────
+
+function applyManualEnd(
+  window: PenaltyWindow,
+  penalty: Penalty,
+  settings: PeriodSettings
+): PenaltyWindow {
+  if (!penalty.endedPeriod || !penalty.endedGameTime) return window;
+  const endedAt = toElapsedSeconds(penalty.endedPeriod, penalty.endedGameTime, settings);
+  return { ...window, end: Math.max(window.start, Math.min(window.end, endedAt)) };
+}
+
+function buildWindows(
+  penalties: Penalty[],
+  releases: Map<string, number>,
+  settings: PeriodSettings
+): PenaltyWindow[] {
+  const windows: PenaltyWindow[] = [];
+
+  for (const team of ["our", "opponent"] as PenaltyTeam[]) {
+    const teamPenalties = penalties
+      .filter((p) => p.team === team)
+      .map((p) => ({ penalty: p, calledAt: toElapsedSeconds(p.period, p.gameTime, settings) }))
+      .sort((a, b) => a.calledAt - b.calledAt);
+
+    let serving: PenaltyWindow[] = [];
+
+    for (const { penalty, calledAt } of teamPenalties) {
+      if (!affectsManpower(penalty.type)) {
+        // Misconduct: player sits out, team stays at full strength
+        const end = calledAt + PENALTY_DURATION_SECONDS[penalty.type];
+        windows.push(
+          applyManualEnd({ penaltyId: penalty.id, team, type: penalty.type, start: calledAt, end }, penalty, settings)
+        );
+        continue;
+      }
+
+      let start = calledAt;
+      serving = serving.filter((w) => w.end > start);
+
+      // Delayed penalty: starts when the first of the serving ones expires
+      if (serving.length >= MAX_SERVING) {
+        const first = serving.reduce((a, b) => (b.end < a.end ? b : a));
+        start = first.end;
+        serving = serving.filter((w) => w !== first);
+      }
+
+      let end = start + PENALTY_DURATION_SECONDS[penalty.type];
+
+      const releasedAt = releases.get(penalty.id);
+      if (releasedAt !== undefined && releasedAt >= start && releasedAt < end) {
+        // A goal during the first half of a double minor only ends the first 2 minutes
+        end =
+          penalty.type === "double_minor" && releasedAt < start + 120
+            ? releasedAt + 120
+            : releasedAt;
+      }
+
+      const window = applyManualEnd(
+        { penaltyId: penalty.id, team, type: penalty.type, start, end },
+        penalty,
+        settings
+      );
+      serving.push(window);
+      windows.push(window);
+    }
+  }
+
+  return windows;
+}
+
+function countSkaters(windows: PenaltyWindow[], team: PenaltyTeam, at: number): number {
+  const serving = windows.filter(
+    (w) => w.team === team && affectsManpower(w.type) && w.start <= at && at < w.end
+  ).length;
+  return Math.max(MIN_SKATERS, FULL_STRENGTH - serving);
+}
+
+/**
+ * Resolve when each penalty is actually served.
+ * Goals against our goalie release our earliest-expiring minor penalty when
+ * we were shorthanded. Our own goals are not tracked as events, so opponent
+ * penalties have to be ended manually (endedPeriod/endedGameTime).
+ */
+export function getPenaltyWindows(
+  penalties: Penalty[],
+  events: GoalieEvent[],
+  settings: PeriodSettings
+): PenaltyWindow[] {
+  const releases = new Map<string, number>();
+  let windows = buildWindows(penalties, releases, settings);
+
+  const goalsAgainst = events
+    .filter((e) => e.result === "goal" && e.status !== "deleted")
+    .map((e) => toElapsedSeconds(e.period, e.gameTime, settings))
+    .sort((a, b) => a - b);
+
+  for (const goalAt of goalsAgainst) {
+    if (countSkaters(windows, "our", goalAt) >= countSkaters(windows, "opponent", goalAt)) {
+      continue;
+    }
+    const releasable = windows
+      .filter(
+        (w) =>
+          w.team === "our" &&
+          (w.type === "minor" || w.type === "double_minor") &&
+          w.start <= goalAt &&
+          goalAt < w.end &&
+          !releases.has(w.penaltyId)
+      )
+      .sort((a, b) => a.end - b.end)[0];
+    if (!releasable) continue;
+
+    releases.set(releasable.penaltyId, goalAt);
+    windows = buildWindows(penalties, releases, settings);
+  }
+
+  return windows;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Manpower
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Map skater counts to the event situation (legacy values are what the UI uses)
+ */
+export function getSituationForManpower(our: number, opponent: number): SituationType {
+  if (our > opponent) return "powerplay";
+  if (our < opponent) return "shorthanded";
+  if (our === 4) return "4v4";
+  if (our === 3) return "3v3";
+  return "even";
+}
+
+/**
+ * Stats split of a situation - 4 on 4 and 3 on 3 are even strength, so the
+ * even / PP / SH splits add up to all shots
+ */
+export function getStrengthSplit(situation: SituationType | undefined): "even" | "powerplay" | "shorthanded" {
+  if (situation === "powerplay" || situation === "pp") return "powerplay";
+  if (situation === "shorthanded" || situation === "sh") return "shorthanded";
+  return "even";
+}
+
+export function getManpowerAt(windows: PenaltyWindow[], at: number): ManpowerState {
+  const our = countSkaters(windows, "our", at);
+  const opponent = countSkaters(windows, "opponent", at);
+  return {
+    our,
+    opponent,
+    label: `${our}v${opponent}`,
+    situation: getSituationForManpower(our, opponent),
+  };
+}
+
+/**
+ * Seconds left to serve for a penalty at the given moment (null = not serving / finished)
+ */
+export function getPenaltyRemainingSeconds(
+  windows: PenaltyWindow[],
+  penaltyId: string,
+  at: number
+): number | null {
+  const window = windows.find((w) => w.penaltyId === penaltyId);
+  if (!window || at >= window.end) return null;
+  return window.end - Math.max(at, window.start);
+}
@@ -2,7 +2,7 @@
  * Competitions Repository - Supabase integration for competitions table
  */
 
-import { supabase, isSupabaseConfigured } from "@/lib/supabaseClient";
+import { supabase, isCloudEnabled } from "@/lib/supabaseClient";
 import type { Competition } from "@/lib/types";
 import { isUuid } from "@/lib/utils/uuid";
 
@@ -22,6 +22,10 @@ export interface DbCompetition {
   parent_id: string | null;
   source: string | null;
   standings_url: string | null;
+  period_length: number | null;
+  overtime_length: number | null;
+  intermission_length: number | null;
+  point_system: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -43,6 +47,10 @@ export function dbCompetitionToApp(db: DbCompetition): Competition {
     parentId: db.parent_id || undefined,
     source: (db.source as Competition["source"]) || "manual",
     standingsUrl: db.standings_url || undefined,
+    periodLength: db.period_length ?? undefined,
+    overtimeLength: db.overtime_length ?? undefined,
+    intermissionLength: db.intermission_length ?? undefined,
+    pointSystem: (db.point_system as Competition["pointSystem"]) || undefined,
     createdAt: db.created_at,
     updatedAt: db.updated_at,
   };
@@ -61,6 +69,10 @@ export function appCompetitionToDbPayload(comp: Partial<Competition>): Partial<D
   if (comp.parentId !== undefined) payload.parent_id = comp.parentId || null;
   if (comp.source !== undefined) payload.source = comp.source || "manual";
   if (comp.standingsUrl !== undefined) payload.standings_url = comp.standingsUrl || null;
+  if (comp.periodLength !== undefined) payload.period_length = comp.periodLength ?? null;
+  if (comp.overtimeLength !== undefined) payload.overtime_length = comp.overtimeLength ?? null;
+  if (comp.intermissionLength !== undefined) payload.intermission_length = comp.intermissionLength ?? null;
+  if (comp.pointSystem !== undefined) payload.point_system = comp.pointSystem || null;
 
   return payload as Partial<DbCompetition>;
 }
@@ -73,7 +85,7 @@ export function appCompetitionToDbPayload(comp: Partial<Competition>): Partial<D
  * Get all competitions
  */
 export async function getCompetitions(): Promise<Competition[]> {
-  if (!isSupabaseConfigured() || !supabase) {
+  if (!isCloudEnabled() || !supabase) {
     console.warn("[competitions] Supabase not configured");
     return [];
   }
@@ -100,7 +112,7 @@ export async function getCompetitions(): Promise<Competition[]> {
  * Get competition by ID
  */
 export async function getCompetitionById(id: string): Promise<Competition | null> {
-  if (!isSupabaseConfigured() || !supabase || !isUuid(id)) {
+  if (!isCloudEnabled() || !supabase || !isUuid(id)) {
     return null;
   }
 
@@ -127,7 +139,7 @@ export async function getCompetitionById(id: string): Promise<Competition | null
  * Find competition by external ID
  */
 export async function findCompetitionByExternalId(externalId: string): Promise<Competition | null> {
-  if (!isSupabaseConfigured() || !supabase || !externalId) {
+  if (!isCloudEnabled() || !supabase || !externalId) {
     return null;
   }
 
@@ -154,7 +166,7 @@ export async function findCompetitionByExternalId(externalId: string): Promise<C
  * Find competition by league filter
  */
 export async function findCompetitionByLeagueFilter(leagueFilter: string): Promise<Competition | null> {
-  if (!isSupabaseConfigured() || !supabase || !leagueFilter) {
+  if (!isCloudEnabled() || !supabase || !leagueFilter) {
     return null;
   }
 
@@ -181,7 +193,7 @@ export async function findCompetitionByLeagueFilter(leagueFilter: string): Promi
  * Get competitions by season
  */
 export async function getCompetitionsBySeason(seasonId: string): Promise<Competition[]> {
-  if (!isSupabaseConfigured() || !supabase) {
+  if (!isCloudEnabled() || !supabase) {
     return [];
   }
 
@@ -208,7 +220,7 @@ export async function getCompetitionsBySeason(seasonId: string): Promise<Competi
  * Create a new competition
  */
 export async function createCompetition(comp: Omit<Competition, "id" | "createdAt">): Promise<Competition | null> {
-  if (!isSupabaseConfigured() || !supabase) {
+  if (!isCloudEnabled() || !supabase) {
     console.warn("[competitions] Supabase not configured");
     return null;
   }
@@ -238,7 +250,7 @@ export async function createCompetition(comp: Omit<Competition, "id" | "createdA
  * Update a competition
  */
 export async function updateCompetition(id: string, comp: Partial<Competition>): Promise<Competition | null> {
-  if (!isSupabaseConfigured() || !supabase || !isUuid(id)) {
+  if (!isCloudEnabled() || !supabase || !isUuid(id)) {
     return null;
   }
 
@@ -271,7 +283,7 @@ export async function updateCompetition(id: string, comp: Partial<Competition>):
  * Delete a competition
  */
 export async function deleteCompetition(id: string): Promise<boolean> {
-  if (!isSupabaseConfigured() || !supabase || !isUuid(id)) {
+  if (!isCloudEnabled() || !supabase || !isUuid(id)) {
     return false;
   }
 
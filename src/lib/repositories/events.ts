@@ -2,7 +2,7 @@
  * Events Repository - Supabase integration for goalie_events table
  */
 
-import { supabase, isSupabaseConfigured } from "@/lib/supabaseClient";
+import { supabase, isCloudEnabled } from "@/lib/supabaseClient";
 import type {
   GoalieEvent,
   Period,
@@ -103,6 +103,39 @@ export function dbEventToAppEvent(db: DbGoalieEvent): GoalieEvent {
   };
 }
 
+/**
+ * Convert app GoalieEvent to a full database row (cleared values are sent as null)
+ */
+export function appEventToDbRow(event: GoalieEvent): Omit<DbGoalieEvent, "created_at" | "updated_at"> {
+  let situation = (event.situation || "even") as string;
+  if (situation === "powerplay") situation = "pp";
+  if (situation === "shorthanded") situation = "sh";
+
+  return {
+    id: event.id,
+    match_id: event.matchId,
+    goalie_id: event.goalieId || null,
+    period: String(event.period) as DbGoalieEvent["period"],
+    game_time: event.gameTime || null,
+    result: event.result,
+    shot_x: event.shotPosition?.x ?? null,
+    shot_y: event.shotPosition?.y ?? null,
+    shot_zone: event.shotPosition?.zone || null,
+    goal_x: event.goalPosition?.x ?? null,
+    goal_y: event.goalPosition?.y ?? null,
+    goal_zone: event.goalPosition?.zone || null,
+    shot_type: event.shotType || null,
+    save_type: event.saveType || null,
+    goal_type: event.goalType || null,
+    situation: situation as DbGoalieEvent["situation"],
+    is_rebound: event.isRebound ?? event.rebound ?? false,
+    is_screened: event.isScreened ?? event.screenedView ?? false,
+    // "edited" is a local marker only
+    status: event.status === "deleted" ? "deleted" : "confirmed",
+    input_source: event.inputSource || "manual",
+  };
+}
+
 /**
  * Get zone from coordinates
  */
@@ -122,7 +155,7 @@ function getZoneFromCoords(x: number, y: number): "slot" | "left_wing" | "right_
  * Get all events for a match, sorted by created_at
  */
 export async function getEventsForMatch(matchId: string): Promise<GoalieEvent[]> {
-  if (!isSupabaseConfigured() || !supabase) {
+  if (!isCloudEnabled() || !supabase) {
     console.warn("[events] Supabase not configured, returning empty array");
     return [];
   }
@@ -150,7 +183,7 @@ export async function getEventsForMatch(matchId: string): Promise<GoalieEvent[]>
  * Get all events for a goalie (across all matches)
  */
 export async function getEventsForGoalie(goalieId: string): Promise<GoalieEvent[]> {
-  if (!isSupabaseConfigured() || !supabase) {
+  if (!isCloudEnabled() || !supabase) {
     console.warn("[events] Supabase not configured, returning empty array");
     return [];
   }
@@ -178,7 +211,7 @@ export async function getEventsForGoalie(goalieId: string): Promise<GoalieEvent[
  * Get all events (for all goalies, across all matches)
  */
 export async function getAllEvents(): Promise<GoalieEvent[]> {
-  if (!isSupabaseConfigured() || !supabase) {
+  if (!isCloudEnabled() || !supabase) {
     console.warn("[events] Supabase not configured, returning empty array");
     return [];
   }
@@ -227,7 +260,7 @@ export interface CreateEventPayload {
 }
 
 export async function createEvent(payload: CreateEventPayload): Promise<GoalieEvent | null> {
-  if (!isSupabaseConfigured() || !supabase) {
+  if (!isCloudEnabled() || !supabase) {
     console.warn("[events] Supabase not configured");
     return null;
   }
@@ -286,7 +319,7 @@ export async function updateEvent(
   id: string,
   payload: Partial<Omit<CreateEventPayload, "match_id">>
 ): Promise<GoalieEvent | null> {
-  if (!isSupabaseConfigured() || !supabase) {
+  if (!isCloudEnabled() || !supabase) {
     console.warn("[events] Supabase not configured");
     return null;
   }
@@ -344,7 +377,7 @@ export async function updateEvent(
  * Delete an event
  */
 export async function deleteEvent(id: string): Promise<boolean> {
-  if (!isSupabaseConfigured() || !supabase) {
+  if (!isCloudEnabled() || !supabase) {
     console.warn("[events] Supabase not configured");
     return false;
   }
@@ -371,7 +404,7 @@ export async function deleteEvent(id: string): Promise<boolean> {
  * Delete all events for a match
  */
 export async function deleteEventsForMatch(matchId: string): Promise<boolean> {
-  if (!isSupabaseConfigured() || !supabase) {
+  if (!isCloudEnabled() || !supabase) {
     console.warn("[events] Supabase not configured");
     return false;
   }
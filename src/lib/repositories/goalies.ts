@@ -2,7 +2,7 @@
  * Goalies Repository - Supabase integration for goalies table
  */
 
-import { supabase, isSupabaseConfigured } from "@/lib/supabaseClient";
+import { supabase, isCloudEnabled } from "@/lib/supabaseClient";
 import type { Goalie } from "@/lib/types";
 import { isUuid } from "@/lib/utils/uuid";
 
@@ -22,6 +22,7 @@ export interface DbGoalie {
   photo_url: string | null;
   competition_id: string | null;
   note: string | null;
+  workspace_id: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -46,6 +47,7 @@ export function dbGoalieToAppGoalie(db: DbGoalie): Goalie {
     profilePhotoUrl: db.photo_url || undefined,
     competitionId: db.competition_id || undefined,
     note: db.note || undefined,
+    workspaceId: db.workspace_id || undefined,
     createdAt: db.created_at,
     updatedAt: db.updated_at,
   };
@@ -68,6 +70,8 @@ export function appGoalieToDbPayload(goalie: Partial<Goalie>): Partial<DbGoalie>
   }
   if (goalie.competitionId !== undefined) payload.competition_id = isUuid(goalie.competitionId) ? goalie.competitionId : null;
   if (goalie.note !== undefined) payload.note = goalie.note || null;
+  // Present but empty = moved back to personal goalies
+  if ("workspaceId" in goalie) payload.workspace_id = isUuid(goalie.workspaceId) ? goalie.workspaceId : null;
 
   return payload as Partial<DbGoalie>;
 }
@@ -80,7 +84,7 @@ export function appGoalieToDbPayload(goalie: Partial<Goalie>): Partial<DbGoalie>
  * Get all goalies
  */
 export async function getGoalies(): Promise<Goalie[]> {
-  if (!isSupabaseConfigured() || !supabase) {
+  if (!isCloudEnabled() || !supabase) {
     console.warn("[goalies] Supabase not configured");
     return [];
   }
@@ -107,7 +111,7 @@ export async function getGoalies(): Promise<Goalie[]> {
  * Get goalie by ID
  */
 export async function getGoalieById(id: string): Promise<Goalie | null> {
-  if (!isSupabaseConfigured() || !supabase || !isUuid(id)) {
+  if (!isCloudEnabled() || !supabase || !isUuid(id)) {
     return null;
   }
 
@@ -134,7 +138,7 @@ export async function getGoalieById(id: string): Promise<Goalie | null> {
  * Create a new goalie
  */
 export async function createGoalie(goalie: Omit<Goalie, "id" | "createdAt">): Promise<Goalie | null> {
-  if (!isSupabaseConfigured() || !supabase) {
+  if (!isCloudEnabled() || !supabase) {
     console.warn("[goalies] Supabase not configured");
     return null;
   }
@@ -164,7 +168,7 @@ export async function createGoalie(goalie: Omit<Goalie, "id" | "createdAt">): Pr
  * Update a goalie
  */
 export async function updateGoalie(id: string, goalie: Partial<Goalie>): Promise<Goalie | null> {
-  if (!isSupabaseConfigured() || !supabase || !isUuid(id)) {
+  if (!isCloudEnabled() || !supabase || !isUuid(id)) {
     return null;
   }
 
@@ -197,7 +201,7 @@ export async function updateGoalie(id: string, goalie: Partial<Goalie>): Promise
  * Delete a goalie
  */
 export async function deleteGoalie(id: string): Promise<boolean> {
-  if (!isSupabaseConfigured() || !supabase || !isUuid(id)) {
+  if (!isCloudEnabled() || !supabase || !isUuid(id)) {
     return false;
   }
 
@@ -7,6 +7,7 @@ export * from "./events";
 export * from "./goalies";
 export * from "./competitions";
 export * from "./teams";
+export * from "./workspaces";
 
 
 
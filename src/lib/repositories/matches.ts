@@ -2,10 +2,13 @@
  * Matches Repository - Supabase integration for matches table
  */
 
-import { supabase, isSupabaseConfigured } from "@/lib/supabaseClient";
-import type { Match, MatchType, MatchStatus } from "@/lib/types";
+import { supabase, isCloudEnabled, isSupabaseConfigured } from "@/lib/supabaseClient";
+import { getGameSheetRoster } from "@/lib/gameSheet";
+import type { GameSheet, Goalie, GoalieChange, GoalieEvent, Match, MatchResultType, MatchType, MatchStatus, Penalty, ShotAttempt } from "@/lib/types";
 import { normalizeMatchStatus } from "@/lib/utils/matchStatus";
 import { isUuid } from "@/lib/utils/uuid";
+import { dbEventToAppEvent, type DbGoalieEvent } from "./events";
+import { dbGoalieToAppGoalie, type DbGoalie } from "./goalies";
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Database types (match Supabase schema)
@@ -27,9 +30,15 @@ export interface DbMatch {
   goalie_id: string | null;
   home_score: number | null;
   away_score: number | null;
+  result_type: MatchResultType | null;
   manual_shots: number | null;
   manual_saves: number | null;
   manual_goals_against: number | null;
+  penalties: Penalty[] | null; // JSONB penalty log
+  goalie_changes: GoalieChange[] | null; // JSONB goalie changes / pulled goalie
+  shot_attempts: ShotAttempt[] | null; // JSONB shootout / penalty shot attempts
+  game_sheet: GameSheet | null; // JSONB official game sheet
+  share_token: string | null; // Public live page token
   source: string | null;
   external_id: string | null;
   external_url: string | null;
@@ -100,6 +109,7 @@ export function dbMatchToAppMatch(db: DbMatch): Match {
     // Scores
     homeScore: db.home_score ?? undefined,
     awayScore: db.away_score ?? undefined,
+    resultType: db.result_type || undefined,
     // Goalie
     goalieId: db.goalie_id || undefined,
     // Manual stats
@@ -108,6 +118,14 @@ export function dbMatchToAppMatch(db: DbMatch): Match {
       saves: db.manual_saves || 0,
       goals: db.manual_goals_against || 0,
     } : undefined,
+    // Penalties
+    penalties: db.penalties || undefined,
+    goalieChanges: db.goalie_changes || undefined,
+    shotAttempts: db.shot_attempts || undefined,
+    // Official game sheet, the roster is derived from it
+    gameSheet: db.game_sheet || undefined,
+    roster: db.game_sheet ? getGameSheetRoster(db.game_sheet) : undefined,
+    shareToken: db.share_token || undefined,
     // Source
 source: (db.source || "manual") as "manual" | "imported" | "ceskyhokej",
     externalId: db.external_id || undefined,
@@ -159,6 +177,7 @@ export function appMatchToDbPayload(match: Partial<Match>): Partial<DbMatch> {
   if (match.goalieId !== undefined) payload.goalie_id = match.goalieId || null;
   if (match.homeScore !== undefined) payload.home_score = match.homeScore ?? null;
   if (match.awayScore !== undefined) payload.away_score = match.awayScore ?? null;
+  if (match.resultType !== undefined) payload.result_type = match.resultType || null;
   
   if (match.manualStats !== undefined) {
     payload.manual_shots = match.manualStats.shots ?? null;
@@ -166,6 +185,16 @@ export function appMatchToDbPayload(match: Partial<Match>): Partial<DbMatch> {
     payload.manual_goals_against = match.manualStats.goals ?? null;
   }
   
+  if (match.penalties !== undefined) payload.penalties = match.penalties.length > 0 ? match.penalties : null;
+  if (match.goalieChanges !== undefined) {
+    payload.goalie_changes = match.goalieChanges.length > 0 ? match.goalieChanges : null;
+  }
+  if (match.shotAttempts !== undefined) {
+    payload.shot_attempts = match.shotAttempts.length > 0 ? match.shotAttempts : null;
+  }
+  if (match.gameSheet !== undefined) payload.game_sheet = match.gameSheet || null;
+  if (match.shareToken !== undefined) payload.share_token = match.shareToken || null;
+  
   if (match.source !== undefined) payload.source = match.source || null;
   if (match.externalId !== undefined) payload.external_id = match.externalId || null;
   if (match.externalUrl !== undefined) payload.external_url = match.externalUrl || null;
@@ -181,7 +210,7 @@ export function appMatchToDbPayload(match: Partial<Match>): Partial<DbMatch> {
  * Get all matches, sorted by datetime descending
  */
 export async function getMatches(): Promise<Match[]> {
-  if (!isSupabaseConfigured() || !supabase) {
+  if (!isCloudEnabled() || !supabase) {
     console.warn("[matches] Supabase not configured, returning empty array");
     return [];
   }
@@ -221,7 +250,7 @@ export async function getMatches(): Promise<Match[]> {
  * Get match by ID
  */
 export async function getMatchById(id: string): Promise<Match | null> {
-  if (!isSupabaseConfigured() || !supabase) {
+  if (!isCloudEnabled() || !supabase) {
     console.warn("[matches] Supabase not configured");
     return null;
   }
@@ -255,7 +284,7 @@ export async function getMatchById(id: string): Promise<Match | null> {
  * Find match by external ID
  */
 export async function findMatchByExternalId(externalId: string): Promise<Match | null> {
-  if (!isSupabaseConfigured() || !supabase || !externalId) {
+  if (!isCloudEnabled() || !supabase || !externalId) {
     return null;
   }
 
@@ -270,6 +299,7 @@ export async function findMatchByExternalId(externalId: string): Promise<Match |
         goalie:goalies!matches_goalie_id_fkey(id, first_name, last_name, jersey_number)
       `)
       .eq("external_id", externalId)
+      .limit(1) // Club workspaces can share a game imported by several members
       .maybeSingle();
 
     if (error) {
@@ -284,6 +314,45 @@ export async function findMatchByExternalId(externalId: string): Promise<Match |
   }
 }
 
+export interface SharedMatch {
+  match: Match;
+  events: GoalieEvent[];
+  goalie: Goalie | null;
+}
+
+/**
+ * Find match shared on the public live page.
+ *
+ * Viewers are not signed in, so row level security hides the tables - the
+ * `get_live_match` function returns only the match behind the share token,
+ * and of it only the columns buildLiveSnapshot() reads.
+ */
+export async function getSharedMatch(shareToken: string): Promise<SharedMatch | null> {
+  if (!isSupabaseConfigured() || !supabase || !shareToken) {
+    return null;
+  }
+
+  try {
+    const { data, error } = await supabase.rpc("get_live_match", { p_share_token: shareToken });
+
+    if (error) {
+      console.error("[matches] Error fetching shared match:", error.message);
+      return null;
+    }
+    if (!data) return null;
+
+    const shared = data as { match: DbMatch; events: DbGoalieEvent[] | null; goalie: DbGoalie | null };
+    return {
+      match: dbMatchToAppMatch(shared.match),
+      events: (shared.events || []).map(dbEventToAppEvent),
+      goalie: shared.goalie ? dbGoalieToAppGoalie(shared.goalie) : null,
+    };
+  } catch (err) {
+    console.error("[matches] Unexpected error:", err);
+    return null;
+  }
+}
+
 /**
  * Create a new match
  */
@@ -303,9 +372,15 @@ export interface CreateMatchPayload {
   goalie_id?: string;
   home_score?: number;
   away_score?: number;
+  result_type?: MatchResultType;
   manual_shots?: number;
   manual_saves?: number;
   manual_goals_against?: number;
+  penalties?: Penalty[];
+  goalie_changes?: GoalieChange[];
+  shot_attempts?: ShotAttempt[];
+  game_sheet?: GameSheet | null;
+  share_token?: string | null; // null = revoked
   source?: string;
   external_id?: string;
   external_url?: string;
@@ -313,7 +388,7 @@ export interface CreateMatchPayload {
 }
 
 export async function createMatch(payload: CreateMatchPayload): Promise<Match | null> {
-  if (!isSupabaseConfigured() || !supabase) {
+  if (!isCloudEnabled() || !supabase) {
     console.warn("[matches] Supabase not configured");
     return null;
   }
@@ -333,9 +408,15 @@ export async function createMatch(payload: CreateMatchPayload): Promise<Match |
       goalie_id: isUuid(payload.goalie_id) ? payload.goalie_id : null,
       home_score: payload.home_score ?? null,
       away_score: payload.away_score ?? null,
+      result_type: payload.result_type || null,
       manual_shots: payload.manual_shots ?? null,
       manual_saves: payload.manual_saves ?? null,
       manual_goals_against: payload.manual_goals_against ?? null,
+      penalties: payload.penalties?.length ? payload.penalties : null,
+      goalie_changes: payload.goalie_changes?.length ? payload.goalie_changes : null,
+      shot_attempts: payload.shot_attempts?.length ? payload.shot_attempts : null,
+      game_sheet: payload.game_sheet || null,
+      share_token: payload.share_token || null,
       source: payload.source || "manual",
       external_id: payload.external_id || null,
       external_url: payload.external_url || null,
@@ -378,7 +459,7 @@ export async function updateMatch(
   id: string,
   payload: Partial<CreateMatchPayload>
 ): Promise<Match | null> {
-  if (!isSupabaseConfigured() || !supabase) {
+  if (!isCloudEnabled() || !supabase) {
     console.warn("[matches] Supabase not configured");
     return null;
   }
@@ -403,9 +484,15 @@ export async function updateMatch(
     if (payload.goalie_id !== undefined) updatePayload.goalie_id = isUuid(payload.goalie_id) ? payload.goalie_id : null;
     if (payload.home_score !== undefined) updatePayload.home_score = payload.home_score;
     if (payload.away_score !== undefined) updatePayload.away_score = payload.away_score;
+    if (payload.result_type !== undefined) updatePayload.result_type = payload.result_type || null;
     if (payload.manual_shots !== undefined) updatePayload.manual_shots = payload.manual_shots ?? null;
     if (payload.manual_saves !== undefined) updatePayload.manual_saves = payload.manual_saves ?? null;
     if (payload.manual_goals_against !== undefined) updatePayload.manual_goals_against = payload.manual_goals_against ?? null;
+    if (payload.penalties !== undefined) updatePayload.penalties = payload.penalties.length > 0 ? payload.penalties : null;
+    if (payload.goalie_changes !== undefined) updatePayload.goalie_changes = payload.goalie_changes.length > 0 ? payload.goalie_changes : null;
+    if (payload.shot_attempts !== undefined) updatePayload.shot_attempts = payload.shot_attempts.length > 0 ? payload.shot_attempts : null;
+    if (payload.game_sheet !== undefined) updatePayload.game_sheet = payload.game_sheet || null;
+    if (payload.share_token !== undefined) updatePayload.share_token = payload.share_token || null;
     if (payload.source !== undefined) updatePayload.source = payload.source || null;
     if (payload.external_id !== undefined) updatePayload.external_id = payload.external_id || null;
     if (payload.external_url !== undefined) updatePayload.external_url = payload.external_url || null;
@@ -439,7 +526,7 @@ export async function updateMatch(
  * Delete a match
  */
 export async function deleteMatch(id: string): Promise<boolean> {
-  if (!isSupabaseConfigured() || !supabase) {
+  if (!isCloudEnabled() || !supabase) {
     console.warn("[matches] Supabase not configured");
     return false;
   }
@@ -2,7 +2,7 @@
  * Teams Repository - Supabase integration for teams table
  */
 
-import { supabase, isSupabaseConfigured } from "@/lib/supabaseClient";
+import { supabase, isCloudEnabled } from "@/lib/supabaseClient";
 
 type DbTeam = {
   id: string;
@@ -15,7 +15,7 @@ type DbTeam = {
 };
 
 export async function findTeamByName(name: string): Promise<DbTeam | null> {
-  if (!isSupabaseConfigured() || !supabase || !name) {
+  if (!isCloudEnabled() || !supabase || !name) {
     return null;
   }
 
@@ -39,7 +39,7 @@ export async function findTeamByName(name: string): Promise<DbTeam | null> {
 }
 
 export async function findOrCreateTeam(name: string, clubExternalId?: string): Promise<string | null> {
-  if (!isSupabaseConfigured() || !supabase || !name) {
+  if (!isCloudEnabled() || !supabase || !name) {
     return null;
   }
 
@@ -0,0 +1,335 @@
+/**
+ * Workspaces Repository - Supabase integration for club workspaces,
+ * their members and invitations
+ */
+
+import { supabase, isCloudEnabled, getCurrentUserId } from "@/lib/supabaseClient";
+import type { Workspace, WorkspaceInvite, WorkspaceMember, WorkspaceRole } from "@/lib/workspaces";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Database types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface DbWorkspaceMember {
+  workspace_id: string;
+  user_id: string;
+  email: string | null;
+  role: WorkspaceRole;
+  goalie_ids: string[] | null;
+  created_at: string;
+}
+
+export interface DbWorkspaceInvite {
+  id: string;
+  workspace_id: string;
+  email: string;
+  role: WorkspaceInvite["role"];
+  goalie_ids: string[] | null;
+  token: string;
+  created_at: string;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Mappers
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function dbMemberToAppMember(db: DbWorkspaceMember): WorkspaceMember {
+  return {
+    workspaceId: db.workspace_id,
+    userId: db.user_id,
+    email: db.email || undefined,
+    role: db.role,
+    goalieIds: db.goalie_ids || [],
+    createdAt: db.created_at,
+  };
+}
+
+export function dbInviteToAppInvite(db: DbWorkspaceInvite): WorkspaceInvite {
+  return {
+    id: db.id,
+    workspaceId: db.workspace_id,
+    email: db.email,
+    role: db.role,
+    goalieIds: db.goalie_ids || [],
+    token: db.token,
+    createdAt: db.created_at,
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Repository functions
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Workspaces the signed-in user is a member of, with their role.
+ * Returns null when they could not be loaded (keep the cached ones).
+ */
+export async function getMyWorkspaces(): Promise<Workspace[] | null> {
+  const userId = getCurrentUserId();
+  if (!isCloudEnabled() || !supabase || !userId) {
+    return null;
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from("workspace_members")
+      .select("role, goalie_ids, workspace:workspaces(id, name)")
+      .eq("user_id", userId);
+
+    if (error) {
+      console.error("[workspaces] Error fetching:", error.message);
+      return null;
+    }
+
+    const rows = (data || []) as unknown as {
+      role: WorkspaceRole;
+      goalie_ids: string[] | null;
+      workspace: { id: string; name: string } | null;
+    }[];
+    return rows
+      .flatMap((row) =>
+        row.workspace
+          ? [{ id: row.workspace.id, name: row.workspace.name, role: row.role, goalieIds: row.goalie_ids || [] }]
+          : []
+      )
+      .sort((a, b) => a.name.localeCompare(b.name, "cs"));
+  } catch (err) {
+    console.error("[workspaces] Unexpected error:", err);
+    return null;
+  }
+}
+
+/**
+ * Create a workspace, the signed-in user becomes its owner
+ */
+export async function createWorkspace(name: string): Promise<string | null> {
+  if (!isCloudEnabled() || !supabase || !name.trim()) {
+    return null;
+  }
+
+  try {
+    const { data, error } = await supabase.rpc("create_workspace", { p_name: name.trim() });
+
+    if (error) {
+      console.error("[workspaces] Error creating:", error.message);
+      return null;
+    }
+
+    return (data as string) || null;
+  } catch (err) {
+    console.error("[workspaces] Unexpected error:", err);
+    return null;
+  }
+}
+
+export async function deleteWorkspace(id: string): Promise<boolean> {
+  if (!isCloudEnabled() || !supabase) {
+    return false;
+  }
+
+  try {
+    const { error } = await supabase.from("workspaces").delete().eq("id", id);
+
+    if (error) {
+      console.error("[workspaces] Error deleting:", error.message);
+      return false;
+    }
+
+    return true;
+  } catch (err) {
+    console.error("[workspaces] Unexpected error:", err);
+    return false;
+  }
+}
+
+export async function getWorkspaceMembers(workspaceId: string): Promise<WorkspaceMember[]> {
+  if (!isCloudEnabled() || !supabase) {
+    return [];
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from("workspace_members")
+      .select("*")
+      .eq("workspace_id", workspaceId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("[workspaces] Error fetching members:", error.message);
+      return [];
+    }
+
+    return (data || []).map(dbMemberToAppMember);
+  } catch (err) {
+    console.error("[workspaces] Unexpected error:", err);
+    return [];
+  }
+}
+
+/**
+ * Change a member's role or assigned goalies (owner only)
+ */
+export async function updateWorkspaceMember(
+  workspaceId: string,
+  userId: string,
+  changes: { role?: WorkspaceRole; goalieIds?: string[] }
+): Promise<boolean> {
+  if (!isCloudEnabled() || !supabase) {
+    return false;
+  }
+
+  const payload: Record<string, unknown> = {};
+  if (changes.role !== undefined) payload.role = changes.role;
+  if (changes.goalieIds !== undefined) payload.goalie_ids = changes.goalieIds;
+
+  try {
+    const { error } = await supabase
+      .from("workspace_members")
+      .update(payload)
+      .eq("workspace_id", workspaceId)
+      .eq("user_id", userId);
+
+    if (error) {
+      console.error("[workspaces] Error updating member:", error.message);
+      return false;
+    }
+
+    return true;
+  } catch (err) {
+    console.error("[workspaces] Unexpected error:", err);
+    return false;
+  }
+}
+
+/**
+ * Remove a member - or leave the workspace when it is the signed-in user
+ */
+export async function removeWorkspaceMember(workspaceId: string, userId: string): Promise<boolean> {
+  if (!isCloudEnabled() || !supabase) {
+    return false;
+  }
+
+  try {
+    const { error } = await supabase
+      .from("workspace_members")
+      .delete()
+      .eq("workspace_id", workspaceId)
+      .eq("user_id", userId);
+
+    if (error) {
+      console.error("[workspaces] Error removing member:", error.message);
+      return false;
+    }
+
+    return true;
+  } catch (err) {
+    console.error("[workspaces] Unexpected error:", err);
+    return false;
+  }
+}
+
+export async function getWorkspaceInvites(workspaceId: string): Promise<WorkspaceInvite[]> {
+  if (!isCloudEnabled() || !supabase) {
+    return [];
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from("workspace_invites")
+      .select("*")
+      .eq("workspace_id", workspaceId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("[workspaces] Error fetching invites:", error.message);
+      return [];
+    }
+
+    return (data || []).map(dbInviteToAppInvite);
+  } catch (err) {
+    console.error("[workspaces] Unexpected error:", err);
+    return [];
+  }
+}
+
+export interface CreateInvitePayload {
+  workspaceId: string;
+  email: string;
+  role: WorkspaceInvite["role"];
+  goalieIds: string[];
+  token: string;
+}
+
+export async function createWorkspaceInvite(payload: CreateInvitePayload): Promise<WorkspaceInvite | null> {
+  if (!isCloudEnabled() || !supabase) {
+    return null;
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from("workspace_invites")
+      .insert({
+        workspace_id: payload.workspaceId,
+        email: payload.email.trim().toLowerCase(),
+        role: payload.role,
+        goalie_ids: payload.goalieIds,
+        token: payload.token,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error("[workspaces] Error creating invite:", error.message);
+      return null;
+    }
+
+    return data ? dbInviteToAppInvite(data) : null;
+  } catch (err) {
+    console.error("[workspaces] Unexpected error:", err);
+    return null;
+  }
+}
+
+export async function deleteWorkspaceInvite(id: string): Promise<boolean> {
+  if (!isCloudEnabled() || !supabase) {
+    return false;
+  }
+
+  try {
+    const { error } = await supabase.from("workspace_invites").delete().eq("id", id);
+
+    if (error) {
+      console.error("[workspaces] Error deleting invite:", error.message);
+      return false;
+    }
+
+    return true;
+  } catch (err) {
+    console.error("[workspaces] Unexpected error:", err);
+    return false;
+  }
+}
+
+/**
+ * Join a workspace by invitation token. The invitation is bound to the
+ * e-mail it was sent to and is used up on acceptance.
+ */
+export async function acceptWorkspaceInvite(token: string): Promise<string | null> {
+  if (!isCloudEnabled() || !supabase || !token) {
+    return null;
+  }
+
+  try {
+    const { data, error } = await supabase.rpc("accept_workspace_invite", { p_token: token });
+
+    if (error) {
+      console.error("[workspaces] Error accepting invite:", error.message);
+      return null;
+    }
+
+    return (data as string) || null;
+  } catch (err) {
+    console.error("[workspaces] Unexpected error:", err);
+    return null;
+  }
+}
@@ -0,0 +1,404 @@
+/**
+ * zapasy.ceskyhokej.cz - the national match list
+ *
+ * Every league of every club is on one filterable table (seznam-zapasu).
+ * Filtered by a league it shows the whole season, otherwise only the
+ * neighbouring weeks; the club's full list is paged with "do=more".
+ */
+
+import * as cheerio from "cheerio";
+import { isClubTeam, type ClubCategory, type ClubConfig } from "../club";
+import type { ScrapedMatchDraft } from "../types";
+import {
+  fetchHtml,
+  getSeasonYears,
+  normalizeName,
+  normalizeText,
+  parseDateRange,
+  parseScore,
+  slugify,
+} from "./html";
+import { parseGameSheet } from "./gameSheetParser";
+import type {
+  DiscoveredCompetition,
+  FixtureQuery,
+  HtmlFetcher,
+  MatchDetailQuery,
+  ScraperProvider,
+} from "./types";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+// One row of the match table, texts as shown
+export interface MatchListRow {
+  index: number;
+  dateText: string;
+  timeText: string;
+  venue: string;
+  competitionText: string;
+  matchNumber: string;
+  homeTeam: string;
+  awayTeam: string;
+  statusText: string;
+  detailUrl?: string; // Match page with the game sheet
+}
+
+export interface MatchListOptions {
+  club?: ClubConfig; // Keep only the club's matches
+  categoryId?: string; // Requested ClubCategory, other categories are skipped
+  competitionAbbreviation?: string; // Keep only this "Soutěž" text
+  from?: Date;
+  to?: Date;
+  sourceUrl?: string;
+  scrapedAt?: string;
+}
+
+export interface FilterOption {
+  id: string;
+  name: string;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const ZAPASY_URL = "https://zapasy.ceskyhokej.cz/seznam-zapasu";
+
+const PAGE_SIZE = 30;
+const MAX_START = 600;
+
+const ABBR_TO_FULL: Record<string, string> = {
+  "LSŽ A": 'Liga starších žáků "A"',
+  "LSŽ B": 'Liga starších žáků "B"',
+  "LMŽ A": 'Liga mladších žáků "A"',
+  "LMŽ B": 'Liga mladších žáků "B"',
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// URLs
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Match list of the club's team, narrowed to one league
+export function getLeagueUrl(club: ClubConfig, startYear: number, leagueId: string): string {
+  return `${ZAPASY_URL}?filter%5Bseason%5D=${startYear}&filter%5BdateRange%5D=&filter%5BmanagingAuthorities%5D=all&filter%5Bregion%5D=${club.regionId || ""}&filter%5Bteam%5D=${club.externalId}&filter%5BtimeShortcut%5D=this-season&filter%5Bleague%5D=${leagueId}&filter%5Bnumber%5D=&filter%5Bstadium%5D=all&filter%5Bstate%5D=&filter%5BteamType%5D=all&filter%5Bsort%5D=&filter%5Bdirection%5D=ASC`;
+}
+
+// One page of the team's whole season, the first page is the plain list
+export function getTeamPageUrl(teamId: string, startYear: number, start: number): string {
+  const baseUrl =
+    `${ZAPASY_URL}?` +
+    `filter%5Bseason%5D=${startYear}` +
+    `&filter%5Bteam%5D=${teamId}` +
+    `&filter%5BtimeShortcut%5D=this-season` +
+    `&filter%5Bdirection%5D=ASC` +
+    `&filter%5BteamType%5D=all`;
+  return start === 0 ? baseUrl : `${baseUrl}&start=${start}&count=${PAGE_SIZE}&actionType=default&do=more`;
+}
+
+export function getMatchNumberUrl(startYear: number, matchNumber: string): string {
+  return `${ZAPASY_URL}?filter%5Bseason%5D=${startYear}&filter%5Bnumber%5D=${matchNumber}`;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Parsing
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Rows of the match table. The first cell is a checkbox, older layouts
+ * without the round/number columns have the teams in cells 6 and 7.
+ */
+export function parseMatchListRows(html: string): MatchListRow[] {
+  const $ = cheerio.load(html);
+  const rows: MatchListRow[] = [];
+  $("table tbody tr, table tr").each((index, row) => {
+    const cells = $(row).find("td");
+    if (cells.length < 7) return;
+    const text = (i: number) => normalizeText($(cells[i] || {}).text());
+    // Links to team pages sit next to the one to the match
+    const detailHref = $(row)
+      .find("a[href]")
+      .toArray()
+      .map((link) => $(link).attr("href") || "")
+      .find((href) => /zapas|utkani|match|game/i.test(href) && !/tym|team|klub|club/i.test(href));
+
+    rows.push({
+      index,
+      dateText: text(2),
+      timeText: text(3),
+      venue: text(4),
+      competitionText: text(5),
+      matchNumber: text(7),
+      homeTeam: text(8) || text(6),
+      awayTeam: text(9) || text(7),
+      statusText: cells[10] ? text(10) : text(cells.length - 1),
+      detailUrl: detailHref ? new URL(detailHref, ZAPASY_URL).toString() : undefined,
+    });
+  });
+  return rows;
+}
+
+function getCategoryFromText(text: string, club: ClubConfig): ClubCategory | null {
+  const normalized = text.toLowerCase();
+  return (
+    club.categories.find((cfg) => cfg.aliases.some((alias) => normalized.includes(alias.toLowerCase()))) ||
+    null
+  );
+}
+
+/**
+ * Drafts of the match table rows that pass the options
+ */
+export function parseMatchList(html: string, options: MatchListOptions = {}): ScrapedMatchDraft[] {
+  const { club, categoryId, competitionAbbreviation, from, to } = options;
+  const scrapedAt = options.scrapedAt || new Date().toISOString();
+  const target = competitionAbbreviation ? normalizeName(competitionAbbreviation) : null;
+  const requestedCategory =
+    club && categoryId ? club.categories.find((cfg) => cfg.id === categoryId) || null : null;
+  const drafts: ScrapedMatchDraft[] = [];
+
+  parseMatchListRows(html).forEach((row) => {
+    if (target && normalizeName(row.competitionText) !== target) return;
+
+    const datetimes = parseDateRange(row.dateText, row.timeText);
+    if (datetimes.length === 0) return;
+    if (from && to && !datetimes.some((dt) => new Date(dt) >= from && new Date(dt) <= to)) return;
+
+    if (club && !isClubTeam(row.homeTeam, club) && !isClubTeam(row.awayTeam, club)) return;
+
+    let competitionName = row.competitionText;
+    if (club && !target) {
+      const categoryFromText = getCategoryFromText(row.competitionText, club);
+      if (requestedCategory && categoryFromText && requestedCategory.id !== categoryFromText.id) return;
+      competitionName = (requestedCategory || categoryFromText)?.name || row.competitionText || "Neznámá soutěž";
+    }
+
+    const score = parseScore(row.statusText);
+    const matchNum = row.matchNumber.replace(/\D/g, "");
+
+    datetimes.forEach((datetime, idx) => {
+      let externalMatchId: string;
+      if (matchNum) {
+        externalMatchId = `ceskyhokej-${matchNum}`;
+      } else {
+        const base = slugify(`${datetime}-${row.homeTeam}-${row.awayTeam}`) || `row-${row.index}`;
+        externalMatchId = datetimes.length > 1 ? `${base}-${idx + 1}` : base;
+      }
+
+      drafts.push({
+        source: "ceskyhokej",
+        sourceUrl: options.sourceUrl,
+        detailUrl: row.detailUrl,
+        homeTeamName: row.homeTeam,
+        awayTeamName: row.awayTeam,
+        competitionName,
+        externalMatchId,
+        datetime,
+        venue: row.venue || undefined,
+        homeScore: score?.[0],
+        awayScore: score?.[1],
+        scrapedAt,
+      });
+    });
+  });
+
+  return drafts;
+}
+
+function inferAbbreviation(label: string): string | null {
+  const normalized = label.toLowerCase();
+  let prefix: string | null = null;
+  if (normalized.includes("starších žáků") || normalized.includes("starsi zaku")) {
+    prefix = "LSŽ";
+  }
+  if (normalized.includes("mladších žáků") || normalized.includes("mladsi zaku")) {
+    prefix = "LMŽ";
+  }
+  if (!prefix) return null;
+  const letterMatch =
+    label.match(/"([AB])"/) || label.match(/\b([AB])\b/) || label.match(/žáků\s+([AB])\b/i);
+  const letter = letterMatch ? letterMatch[1] : null;
+  return letter ? `${prefix} ${letter}` : prefix;
+}
+
+/**
+ * Adds the competitions of one page of the match table to the map,
+ * returns the number of rows read
+ */
+export function collectCompetitions(html: string, map: Map<string, DiscoveredCompetition>): number {
+  const rows = parseMatchListRows(html);
+  rows.forEach((row) => {
+    const competitionText = row.competitionText;
+    if (!competitionText) return;
+
+    const hasScore = /\d+\s*:\s*\d+/.test(row.statusText);
+    const abbreviation = ABBR_TO_FULL[competitionText]
+      ? competitionText
+      : inferAbbreviation(competitionText) || competitionText;
+    const fullName = ABBR_TO_FULL[competitionText] || competitionText;
+    const existing: DiscoveredCompetition = map.get(competitionText) || {
+      name: competitionText,
+      fullName,
+      abbreviation,
+      matchCount: 0,
+      completedCount: 0,
+      upcomingCount: 0,
+      hasUpcoming: false,
+      hasCompleted: false,
+    };
+
+    existing.matchCount += 1;
+    if (hasScore) {
+      existing.hasCompleted = true;
+      existing.completedCount = (existing.completedCount || 0) + 1;
+    } else {
+      existing.hasUpcoming = true;
+      existing.upcomingCount = (existing.upcomingCount || 0) + 1;
+    }
+    if (!existing.sampleMatch && row.homeTeam && row.awayTeam) {
+      existing.sampleMatch = `${row.homeTeam} vs ${row.awayTeam}`;
+    }
+
+    map.set(competitionText, existing);
+  });
+  return rows.length;
+}
+
+/**
+ * Options of a filter select on the match list (filter[team],
+ * filter[region], ...), without the "all" entry
+ */
+export function parseFilterOptions(html: string, selectName: string): FilterOption[] {
+  const $ = cheerio.load(html);
+  const options: FilterOption[] = [];
+  $(`select[name="${selectName}"] option`).each((_, option) => {
+    const id = ($(option).attr("value") || "").trim();
+    const name = normalizeText($(option).text());
+    if (/^\d+$/.test(id) && name) options.push({ id, name });
+  });
+  return options;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Provider
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function createCeskyhokejProvider(fetchPage: HtmlFetcher = fetchHtml): ScraperProvider {
+  // Pages of the team's season until two in a row come back empty
+  const forEachTeamPage = async (teamId: string, startYear: number, onPage: (html: string, url: string) => number) => {
+    let emptyPages = 0;
+    for (let start = 0; start <= MAX_START && emptyPages < 2; start += PAGE_SIZE) {
+      const url = getTeamPageUrl(teamId, startYear, start);
+      const html = await fetchPage(url);
+      if (html === null) break;
+      emptyPages = onPage(html, url) === 0 ? emptyPages + 1 : 0;
+    }
+  };
+
+  const listFixtures = async (query: FixtureQuery): Promise<ScrapedMatchDraft[]> => {
+    const { club } = query;
+    const { startYear } = getSeasonYears(query.season);
+    const scrapedAt = new Date().toISOString();
+
+    const category = query.categoryId ? club.categories.find((cfg) => cfg.id === query.categoryId) : undefined;
+    const abbreviation =
+      query.competitionAbbreviation ||
+      (category && !category.leagueFilter && !query.leagueFilter ? category.aliases[0] : undefined);
+
+    // Competitions without a league filter are picked from the club's whole season
+    if (abbreviation && !query.url) {
+      const drafts: ScrapedMatchDraft[] = [];
+      await forEachTeamPage(club.externalId, startYear, (html, sourceUrl) => {
+        drafts.push(...parseMatchList(html, { club, competitionAbbreviation: abbreviation, sourceUrl, scrapedAt }));
+        return parseMatchListRows(html).length;
+      });
+      return drafts;
+    }
+
+    const leagueFilter = query.leagueFilter || category?.leagueFilter;
+    const url = query.url || (leagueFilter ? getLeagueUrl(club, startYear, leagueFilter) : ZAPASY_URL);
+    const html = await fetchPage(url);
+    if (html === null) return [];
+
+    // A league filter shows the whole season, other lists 1 week back and 3 forward
+    const now = Date.now();
+    const fullSeason = url.includes("filter%5Bleague%5D=") || url.includes("filter[league]=");
+    const from = fullSeason ? new Date(`${startYear}-01-01`) : new Date(now - 7 * 24 * 60 * 60 * 1000);
+    const to = fullSeason ? new Date(`${startYear + 1}-12-31`) : new Date(now + 21 * 24 * 60 * 60 * 1000);
+
+    const drafts = parseMatchList(html, {
+      club,
+      categoryId: query.leagueFilter ? undefined : query.categoryId,
+      from,
+      to,
+      sourceUrl: url,
+      scrapedAt,
+    });
+    if (drafts.length === 0) console.warn("[Scrapers] No matches parsed from", url);
+    return drafts;
+  };
+
+  // The match list filtered by the match number is the only public detail
+  const fetchMatchDetail = async ({ season, externalMatchId }: MatchDetailQuery) => {
+    const matchNumber = externalMatchId.replace(/\D/g, "");
+    if (!matchNumber) return null;
+    const url = getMatchNumberUrl(getSeasonYears(season).startYear, matchNumber);
+    const html = await fetchPage(url);
+    if (html === null) return null;
+    return parseMatchList(html, { sourceUrl: url }).find((draft) => draft.externalMatchId === externalMatchId) || null;
+  };
+
+  return {
+    source: "ceskyhokej",
+    label: "zapasy.ceskyhokej.cz",
+
+    async discoverCompetitions({ season, teamId }) {
+      const map = new Map<string, DiscoveredCompetition>();
+      await forEachTeamPage(teamId, getSeasonYears(season).startYear, (html) => collectCompetitions(html, map));
+      return Array.from(map.values()).sort((a, b) => b.matchCount - a.matchCount);
+    },
+
+    listFixtures,
+
+    fetchMatchDetail,
+
+    // The report is linked from the match row once the match is played
+    async fetchGameSheet(query) {
+      const detail = query.url ? null : await fetchMatchDetail(query);
+      const url = query.url || detail?.detailUrl;
+      if (!url) return null;
+      const html = await fetchPage(url);
+      if (html === null) return null;
+      return parseGameSheet(html, {
+        source: "ceskyhokej",
+        sourceUrl: url,
+        externalMatchId: query.externalMatchId,
+        homeTeamName: query.homeTeamName || detail?.homeTeamName,
+        awayTeamName: query.awayTeamName || detail?.awayTeamName,
+        club: query.club,
+      });
+    },
+  };
+}
+
+/**
+ * Clubs and regions offered by the match list filters
+ */
+export async function fetchClubOptions(
+  season: string,
+  regionId = "",
+  fetchPage: HtmlFetcher = fetchHtml
+): Promise<{ clubs: FilterOption[]; regions: FilterOption[] } | null> {
+  const url =
+    `${ZAPASY_URL}?` +
+    `filter%5Bseason%5D=${getSeasonYears(season).startYear}` +
+    `&filter%5Bregion%5D=${regionId}` +
+    `&filter%5BtimeShortcut%5D=this-season`;
+  const html = await fetchPage(url);
+  if (html === null) return null;
+  return {
+    clubs: parseFilterOptions(html, "filter[team]").sort((a, b) => a.name.localeCompare(b.name, "cs")),
+    regions: parseFilterOptions(html, "filter[region]"),
+  };
+}
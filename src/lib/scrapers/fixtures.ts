@@ -0,0 +1,46 @@
+/**
+ * Saved pages for running the providers offline (Node only)
+ *
+ * createRecordingFetcher stores every page a provider loads, and
+ * createFixtureFetcher later serves the same URLs from those files, so a
+ * parser change can be checked against real HTML without the network.
+ * The pages in data/fixtures are replayed by scripts/check-scrapers.ts.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { fetchHtml, slugify } from "./html";
+import type { HtmlFetcher } from "./types";
+
+// Readable start of the URL plus a hash of all of it - list URLs differ
+// only in their last parameters
+export function getFixtureFileName(url: string): string {
+  let hash = 5381;
+  for (let i = 0; i < url.length; i++) {
+    hash = ((hash << 5) + hash + url.charCodeAt(i)) >>> 0;
+  }
+  const readable = slugify(url.replace(/^https?:\/\//, "").split("?")[0]).slice(0, 60);
+  return `${readable}-${hash.toString(16)}.html`;
+}
+
+export function createFixtureFetcher(dir: string): HtmlFetcher {
+  return async (url) => {
+    const file = path.join(dir, getFixtureFileName(url));
+    if (!fs.existsSync(file)) {
+      console.warn("[Scrapers] No fixture for", url, "expected", file);
+      return null;
+    }
+    return fs.readFileSync(file, "utf8");
+  };
+}
+
+export function createRecordingFetcher(dir: string, fetchPage: HtmlFetcher = fetchHtml): HtmlFetcher {
+  return async (url) => {
+    const html = await fetchPage(url);
+    if (html !== null) {
+      fs.mkdirSync(dir, { recursive: true });
+      fs.writeFileSync(path.join(dir, getFixtureFileName(url)), html, "utf8");
+    }
+    return html;
+  };
+}
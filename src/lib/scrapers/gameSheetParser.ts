@@ -0,0 +1,341 @@
+/**
+ * Game sheet parser - the official match report (zápis o utkání)
+ *
+ * Federation systems print the report as a set of tables - goals, penalties,
+ * goalies and the two rosters - whose columns move around between sites and
+ * seasons. Tables are therefore recognized by their header texts and columns
+ * looked up by name, not by position.
+ */
+
+import * as cheerio from "cheerio";
+import { isClubTeam, type ClubConfig } from "../club";
+import type {
+  GameSheet,
+  GameSheetGoal,
+  GameSheetGoalie,
+  GameSheetPenalty,
+  GameSheetSide,
+  Period,
+  RosterPlayer,
+  ScraperSource,
+} from "../types";
+import { normalizeName, normalizeText } from "./html";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface GameSheetOptions {
+  source: ScraperSource;
+  sourceUrl?: string;
+  externalMatchId?: string;
+  homeTeamName?: string;
+  awayTeamName?: string;
+  club?: ClubConfig; // Sets ourSide
+  periodMinutes?: number; // To split the running game time into periods
+}
+
+interface SheetTable {
+  headers: string[]; // Normalized header texts
+  rows: string[][];
+  title: string; // Nearest heading before the table
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+const DEFAULT_PERIOD_MINUTES = 20;
+
+const POSITION_CODES: Record<string, string> = {
+  b: "G",
+  brankar: "G",
+  o: "D",
+  obrance: "D",
+  u: "F",
+  utocnik: "F",
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+function readTables(html: string): SheetTable[] {
+  const $ = cheerio.load(html);
+  return $("table")
+    .toArray()
+    .map((table) => {
+      const rows = $(table).find("tr").toArray();
+      const headerIndex = rows.findIndex((row) => $(row).find("th").length > 0);
+      const headerRow = headerIndex >= 0 ? rows[headerIndex] : rows[0];
+      const headers = $(headerRow)
+        .find("th,td")
+        .toArray()
+        .map((cell) => normalizeName($(cell).text()));
+      const body = rows
+        .filter((row) => row !== headerRow)
+        .map((row) =>
+          $(row)
+            .find("td,th")
+            .toArray()
+            .map((cell) => normalizeText($(cell).text()))
+        )
+        .filter((cells) => cells.some(Boolean));
+      const title = normalizeName($(table).prevAll("h1,h2,h3,h4,h5,caption").first().text() || $(table).find("caption").text());
+      return { headers, rows: body, title };
+    });
+}
+
+function findColumn(headers: string[], keys: string[]): number {
+  for (const key of keys) {
+    const index = headers.findIndex((header) => header === key || header.startsWith(key));
+    if (index >= 0) return index;
+  }
+  return -1;
+}
+
+function hasColumn(table: SheetTable, keys: string[]): boolean {
+  return findColumn(table.headers, keys) >= 0;
+}
+
+function cell(row: string[], index: number): string {
+  return index >= 0 ? row[index] || "" : "";
+}
+
+function toNumber(value: string): number | undefined {
+  const parsed = parseInt(value, 10);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+// "12 Novák Jan (3)" -> "Novák Jan"
+function cleanPlayerName(value: string): string {
+  return value
+    .replace(/^\d+\.?\s+/, "")
+    .replace(/\s*\(\d+\)\s*$/, "")
+    .trim();
+}
+
+function formatSeconds(seconds: number): string {
+  return `${String(Math.floor(seconds / 60)).padStart(2, "0")}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+function parsePeriod(value: string): Period | null {
+  const normalized = normalizeName(value);
+  if (!normalized) return null;
+  if (/^(p|pr|prodl|ot|4)/.test(normalized)) return "OT";
+  const number = parseInt(normalized, 10);
+  return number === 1 || number === 2 || number === 3 ? number : null;
+}
+
+/**
+ * Sheet time to period + elapsed time in it. The sheets count the running
+ * game time ("27:34" = 7:34 of the 2nd period); times within the period
+ * work too when the table has a period column.
+ */
+function parseSheetTime(
+  timeText: string,
+  periodText: string,
+  periodMinutes: number
+): { period: Period; time: string } | null {
+  const match = timeText.match(/(\d{1,3}):(\d{2})/);
+  if (!match) return null;
+  const total = parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+  const periodSeconds = periodMinutes * 60;
+
+  const explicit = parsePeriod(periodText);
+  const index = explicit
+    ? explicit === "OT"
+      ? 3
+      : explicit - 1
+    : Math.min(Math.floor(Math.max(total - 1, 0) / periodSeconds), 3);
+  const elapsed = total > index * periodSeconds ? total - index * periodSeconds : total;
+  const period: Period = index === 3 ? "OT" : ((index + 1) as 1 | 2 | 3);
+  return { period, time: formatSeconds(Math.min(elapsed, periodSeconds)) };
+}
+
+function createSideResolver(options: GameSheetOptions) {
+  const home = normalizeName(options.homeTeamName || "");
+  const away = normalizeName(options.awayTeamName || "");
+  const ourSide = getOurSide(options);
+
+  return (teamText: string): GameSheetSide | null => {
+    const team = normalizeName(teamText);
+    if (!team) return null;
+    if (team === "d" || team === "domaci") return "home";
+    if (team === "h" || team === "hoste") return "away";
+    const matches = (name: string) => !!name && (name.includes(team) || team.includes(name));
+    if (matches(home) && !matches(away)) return "home";
+    if (matches(away) && !matches(home)) return "away";
+    if (options.club && ourSide && isClubTeam(teamText, options.club)) return ourSide;
+    return null;
+  };
+}
+
+function getOurSide(options: GameSheetOptions): GameSheetSide | undefined {
+  if (!options.club) return undefined;
+  const home = isClubTeam(options.homeTeamName, options.club);
+  const away = isClubTeam(options.awayTeamName, options.club);
+  if (home === away) return undefined; // Derby of two club teams or unknown
+  return home ? "home" : "away";
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tables
+// ─────────────────────────────────────────────────────────────────────────────
+
+const isGoalTable = (table: SheetTable) =>
+  hasColumn(table, ["cas"]) && hasColumn(table, ["strelec", "branka"]);
+
+const isPenaltyTable = (table: SheetTable) =>
+  !isGoalTable(table) && hasColumn(table, ["cas"]) && hasColumn(table, ["trest", "prestupek", "min"]);
+
+const isGoalieTable = (table: SheetTable) =>
+  hasColumn(table, ["brankar"]) && hasColumn(table, ["strel", "zasah", "zakrok"]);
+
+const isRosterTable = (table: SheetTable) =>
+  !isGoalTable(table) &&
+  !isPenaltyTable(table) &&
+  !isGoalieTable(table) &&
+  hasColumn(table, ["jmeno", "hrac"]) &&
+  hasColumn(table, ["c", "c.", "cislo", "#"]);
+
+function parseGoals(table: SheetTable, resolveSide: ReturnType<typeof createSideResolver>, periodMinutes: number) {
+  const { headers } = table;
+  const timeCol = findColumn(headers, ["cas"]);
+  const periodCol = findColumn(headers, ["tretina", "per"]);
+  const teamCol = findColumn(headers, ["tym", "druzstvo"]);
+  const scorerCol = findColumn(headers, ["strelec", "branka"]);
+  const situationCol = findColumn(headers, ["situace", "stav", "typ"]);
+  const assistCols = headers
+    .map((header, index) => (header.includes("asist") || header.includes("nahravk") ? index : -1))
+    .filter((index) => index >= 0);
+
+  const goals: GameSheetGoal[] = [];
+  for (const row of table.rows) {
+    const when = parseSheetTime(cell(row, timeCol), cell(row, periodCol), periodMinutes);
+    const side = resolveSide(cell(row, teamCol));
+    const scorer = cleanPlayerName(cell(row, scorerCol));
+    if (!when || !side || !scorer) continue;
+
+    const assists = assistCols
+      .flatMap((index) => cell(row, index).split(","))
+      .map(cleanPlayerName)
+      .filter(Boolean);
+    goals.push({ ...when, side, scorer, assists, situation: cell(row, situationCol) || undefined });
+  }
+  return goals;
+}
+
+function parsePenalties(table: SheetTable, resolveSide: ReturnType<typeof createSideResolver>, periodMinutes: number) {
+  const { headers } = table;
+  const timeCol = findColumn(headers, ["cas"]);
+  const periodCol = findColumn(headers, ["tretina", "per"]);
+  const teamCol = findColumn(headers, ["tym", "druzstvo"]);
+  const playerCol = findColumn(headers, ["hrac", "jmeno", "potrestany"]);
+  const minutesCol = findColumn(headers, ["min", "trest"]);
+  const reasonCol = findColumn(headers, ["prestupek", "duvod"]);
+
+  const penalties: GameSheetPenalty[] = [];
+  for (const row of table.rows) {
+    const when = parseSheetTime(cell(row, timeCol), cell(row, periodCol), periodMinutes);
+    const side = resolveSide(cell(row, teamCol));
+    const minutes = toNumber(cell(row, minutesCol)) ?? toNumber(cell(row, reasonCol).match(/(\d+)\s*min/)?.[1] || "");
+    if (!when || !side || !minutes) continue;
+    penalties.push({
+      ...when,
+      side,
+      player: cleanPlayerName(cell(row, playerCol)),
+      minutes,
+      reason: cell(row, reasonCol) || undefined,
+    });
+  }
+  return penalties;
+}
+
+function parseGoalies(table: SheetTable, resolveSide: ReturnType<typeof createSideResolver>) {
+  const { headers } = table;
+  const teamCol = findColumn(headers, ["tym", "druzstvo"]);
+  const nameCol = findColumn(headers, ["brankar", "jmeno"]);
+  const numberCol = findColumn(headers, ["c", "c.", "cislo", "#"]);
+  const shotsCol = findColumn(headers, ["strel"]);
+  const savesCol = findColumn(headers, ["zasah", "zakrok"]);
+  const goalsCol = findColumn(headers, ["obdrz", "ob", "gol", "ig"]);
+  const timeCol = findColumn(headers, ["cas", "toi", "min"]);
+
+  const goalies: GameSheetGoalie[] = [];
+  for (const row of table.rows) {
+    const side = resolveSide(cell(row, teamCol) || table.title);
+    const name = cleanPlayerName(cell(row, nameCol));
+    if (!side || !name) continue;
+    const shots = toNumber(cell(row, shotsCol));
+    const saves = toNumber(cell(row, savesCol));
+    const goals = toNumber(cell(row, goalsCol));
+    goalies.push({
+      side,
+      name,
+      number: toNumber(cell(row, numberCol)),
+      shotsAgainst: shots ?? (saves ?? 0) + (goals ?? 0),
+      saves: saves ?? (shots ?? 0) - (goals ?? 0),
+      goalsAgainst: goals ?? (shots ?? 0) - (saves ?? 0),
+      timeOnIce: cell(row, timeCol) || undefined,
+    });
+  }
+  return goalies;
+}
+
+function parseRoster(table: SheetTable): RosterPlayer[] {
+  const { headers } = table;
+  const numberCol = findColumn(headers, ["c", "c.", "cislo", "#"]);
+  const nameCol = findColumn(headers, ["jmeno", "hrac"]);
+  const positionCol = findColumn(headers, ["post", "pozice"]);
+
+  return table.rows
+    .map((row) => {
+      const position = normalizeName(cell(row, positionCol));
+      return {
+        number: toNumber(cell(row, numberCol)),
+        name: cleanPlayerName(cell(row, nameCol)),
+        position: POSITION_CODES[position] || cell(row, positionCol) || undefined,
+      };
+    })
+    .filter((player) => !!player.name);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Parsing
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Game sheet of the page, null when it has no goals, goalies or rosters
+ * (match not played yet, or not a report page at all)
+ */
+export function parseGameSheet(html: string, options: GameSheetOptions): GameSheet | null {
+  const periodMinutes = options.periodMinutes || DEFAULT_PERIOD_MINUTES;
+  const resolveSide = createSideResolver(options);
+  const tables = readTables(html);
+
+  const goals = tables.filter(isGoalTable).flatMap((table) => parseGoals(table, resolveSide, periodMinutes));
+  const penalties = tables
+    .filter(isPenaltyTable)
+    .flatMap((table) => parsePenalties(table, resolveSide, periodMinutes));
+  const goalies = tables.filter(isGoalieTable).flatMap((table) => parseGoalies(table, resolveSide));
+  // Rosters come home first
+  const [homeRoster, awayRoster] = tables.filter(isRosterTable).map(parseRoster);
+
+  if (goals.length === 0 && goalies.length === 0 && !homeRoster?.length) return null;
+
+  return {
+    source: options.source,
+    sourceUrl: options.sourceUrl,
+    externalMatchId: options.externalMatchId,
+    ourSide: getOurSide(options),
+    homeScore: goals.filter((goal) => goal.side === "home").length,
+    awayScore: goals.filter((goal) => goal.side === "away").length,
+    goals,
+    penalties,
+    goalies,
+    homePlayers: homeRoster || [],
+    awayPlayers: awayRoster || [],
+    scrapedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,118 @@
+/**
+ * Shared helpers of the scraper providers - loading pages and reading the
+ * dates, scores and names all the Czech hockey sites write the same way
+ */
+
+import type { HtmlFetcher } from "./types";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+const USER_AGENT =
+  "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.0.0 Safari/537.36";
+
+const FETCH_TIMEOUT_MS = 12000;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Fetching
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Live site fetcher, the default of every provider
+ */
+export const fetchHtml: HtmlFetcher = async (url) => {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(url, {
+      headers: {
+        "User-Agent": USER_AGENT,
+        Accept: "text/html,application/xhtml+xml",
+      },
+      cache: "no-store",
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      console.error(`[Scrapers] HTTP error ${response.status} for ${url}`);
+      return null;
+    }
+    return await response.text();
+  } catch (error) {
+    console.error(`[Scrapers] Failed to load ${url}:`, error);
+    return null;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Parsing
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function normalizeText(value: string): string {
+  return value.replace(/\s+/g, " ").trim();
+}
+
+// Lowercase without diacritics, for comparing names
+export function normalizeName(value: string): string {
+  return normalizeText(
+    value
+      .toLowerCase()
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+  );
+}
+
+export function slugify(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-zA-Z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .toLowerCase();
+}
+
+/**
+ * "2025-2026" or "2025" -> both years of the season
+ */
+export function getSeasonYears(season: string): { startYear: number; endYear: number } {
+  const startYear = parseInt(season.slice(0, 4), 10) || 2025;
+  return { startYear, endYear: startYear + 1 };
+}
+
+/**
+ * "17.1.2026" + "08:00" (or "10:00 - 19:00") -> "2026-01-17T08:00:00"
+ */
+export function parseDateTime(dateStr: string, timeStr: string): string | null {
+  const dateMatch = dateStr.match(/(\d{1,2})\.(\d{1,2})\.(\d{4})/);
+  if (!dateMatch) return null;
+  const [, day, month, year] = dateMatch;
+
+  const timePart = (timeStr || "").split("-")[0]?.trim() || "";
+  const [hh = "00", mm = "00"] = timePart.split(":");
+
+  return `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}T${hh.padStart(2, "0")}:${mm.padStart(2, "0")}:00`;
+}
+
+/**
+ * Tournaments span days ("17.01.2026 - 18.01.2026"), one datetime per day
+ */
+export function parseDateRange(dateCell: string, timeCell: string): string[] {
+  const datetimes = dateCell
+    .split("-")
+    .map((part) => parseDateTime(part.trim(), timeCell))
+    .filter((iso): iso is string => !!iso);
+  if (datetimes.length > 0) return datetimes;
+  const single = parseDateTime(dateCell.trim(), timeCell);
+  return single ? [single] : [];
+}
+
+/**
+ * "3:2", "[3:2]" or "3 - 2" -> [3, 2]
+ */
+export function parseScore(text: string): [number, number] | null {
+  const match = text.match(/(\d+)\s*[:\-]\s*(\d+)/);
+  return match ? [parseInt(match[1], 10), parseInt(match[2], 10)] : null;
+}
@@ -0,0 +1,78 @@
+/**
+ * Scraper provider registry
+ *
+ * Competitions say which site their matches come from (Competition.source);
+ * the API routes and the scripts look the provider up here instead of
+ * knowing the sites themselves.
+ */
+
+import type { Competition, Match, ScrapedMatchDraft, ScraperSource } from "../types";
+import { createCeskyhokejProvider } from "./ceskyhokej";
+import { fetchHtml } from "./html";
+import { createLitomericeProvider } from "./litomerice";
+import type { HtmlFetcher, ScraperProvider } from "./types";
+import { createUsteckyProvider } from "./ustecky";
+
+export type { DiscoveredCompetition, HtmlFetcher, ScraperProvider } from "./types";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Registry
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const SCRAPER_SOURCES: ScraperSource[] = ["ceskyhokej", "ustecky", "litomerice"];
+
+export function createScraperProviders(fetchPage: HtmlFetcher = fetchHtml): Record<ScraperSource, ScraperProvider> {
+  return {
+    ceskyhokej: createCeskyhokejProvider(fetchPage),
+    ustecky: createUsteckyProvider(fetchPage),
+    litomerice: createLitomericeProvider(fetchPage),
+  };
+}
+
+const providers = createScraperProviders();
+
+export function isScraperSource(value: unknown): value is ScraperSource {
+  return typeof value === "string" && (SCRAPER_SOURCES as string[]).includes(value);
+}
+
+export function getScraperProvider(source: ScraperSource): ScraperProvider {
+  return providers[source];
+}
+
+/**
+ * Provider importing the competition's matches. Manual competitions and
+ * those created before providers existed use zapasy.ceskyhokej.cz.
+ */
+export function getCompetitionProvider(competition?: Pick<Competition, "source"> | null): ScraperProvider {
+  return isScraperSource(competition?.source) ? providers[competition.source] : providers.ceskyhokej;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Conversion
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Draft as a match ready to be saved
+ */
+export function draftToMatch(draft: ScrapedMatchDraft, seasonId: string): Match {
+  const externalId = draft.externalMatchId || `${draft.datetime}-${draft.homeTeamName}-${draft.awayTeamName}`;
+  const completed = draft.homeScore !== undefined && draft.awayScore !== undefined;
+  return {
+    id: `imported-${externalId}`,
+    externalId,
+    home: draft.homeTeamName,
+    away: draft.awayTeamName,
+    homeScore: draft.homeScore,
+    awayScore: draft.awayScore,
+    datetime: draft.datetime,
+    category: draft.competitionName || "",
+    matchType: "league",
+    source: draft.source === "ceskyhokej" ? "ceskyhokej" : "imported",
+    completed,
+    seasonId,
+    venue: draft.venue,
+    externalUrl: draft.detailUrl,
+    status: completed ? "completed" : "scheduled",
+    manualStats: completed ? { shots: 0, saves: 0, goals: 0 } : undefined,
+  };
+}
@@ -0,0 +1,194 @@
+/**
+ * hclitomerice.cz - standings of the youth leagues
+ *
+ * The club site runs the same competition system as the whole group, so its
+ * tables are the standings of the Ústí region leagues. Categories are school
+ * years (Z8 = 8th grade) and the season parameter is the year it ends.
+ */
+
+import * as cheerio from "cheerio";
+import { isClubTeam, type ClubConfig } from "../club";
+import type { CompetitionStandings, StandingsRow } from "../types";
+import { fetchHtml, getSeasonYears, normalizeText, parseScore } from "./html";
+import type { HtmlFetcher, ScraperProvider } from "./types";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type LitomericeCategory = "Z8" | "Z7" | "Z6" | "Z5";
+
+export interface StandingsPageOptions {
+  competitionId: string;
+  season: string;
+  club?: ClubConfig; // Marks isOurTeam
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const LITOMERICE_COMPETITIONS: { code: LitomericeCategory; name: string; display: string }[] = [
+  {
+    code: "Z8",
+    name: 'Liga starších žáků "A" sk. 2',
+    display: "Starší žáci A (8. třída)",
+  },
+  {
+    code: "Z7",
+    name: 'Liga starších žáků "B" sk. 10',
+    display: "Starší žáci B (7. třída)",
+  },
+  {
+    code: "Z6",
+    name: 'Liga mladších žáků "A" sk. 4',
+    display: "Mladší žáci A (6. třída)",
+  },
+  {
+    code: "Z5",
+    name: 'Liga mladších žáků "B" sk. 14',
+    display: "Mladší žáci B (5. třída)",
+  },
+];
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Parsing
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function getStandingsUrl(season: string, competitionId: string): string {
+  return `https://www.hclitomerice.cz/standings?season=${getSeasonYears(season).endYear}&category=${competitionId}`;
+}
+
+function toNumber(value: string | undefined): number {
+  return parseInt(value || "", 10) || 0;
+}
+
+/**
+ * Standings table of the page, null when there is none
+ */
+export function parseStandingsPage(html: string, options: StandingsPageOptions): CompetitionStandings | null {
+  const { competitionId, season, club } = options;
+  const $ = cheerio.load(html);
+
+  // The page can hold more tables (overviews, schedules), the standings
+  // one has "Tým" and "Z" in its header
+  let table = $("table")
+    .filter((_, el) => {
+      const headerTexts = $(el)
+        .find("thead tr")
+        .first()
+        .find("th")
+        .map((_, c) => $(c).text().trim().toLowerCase())
+        .get();
+      return (
+        headerTexts.length > 0 &&
+        headerTexts.some((t) => t.includes("tým")) &&
+        headerTexts.some((t) => t.startsWith("z"))
+      );
+    })
+    .first();
+  if (table.length === 0) table = $("table").first();
+  if (table.length === 0) return null;
+
+  // Without <thead> the first row is the header
+  const headRow = table.find("thead tr").first().length > 0 ? table.find("thead tr").first() : table.find("tr").first();
+  const headerTexts = headRow
+    .find("th,td")
+    .map((_, c) => $(c).text().trim().toUpperCase())
+    .get();
+  const hasVP = headerTexts.some((t) => t.includes("VP"));
+  const hasPP = headerTexts.some((t) => t.includes("PP"));
+  const hasR = headerTexts.some((t) => t === "R");
+
+  const rows: StandingsRow[] = [];
+  table
+    .find("tr")
+    .slice(1)
+    .each((index, row) => {
+      const cells = $(row)
+        .find("th,td")
+        .map((_, c) => normalizeText($(c).text()))
+        .get();
+      if (cells.length < 6) return;
+
+      const teamName = cells[1] || "";
+      if (!teamName) return;
+
+      const entry: StandingsRow = {
+        position: toNumber(cells[0].replace(".", "")) || index + 1,
+        teamName,
+        gamesPlayed: toNumber(cells[2]),
+        wins: toNumber(cells[3]),
+        winsOT: 0,
+        draws: 0,
+        lossesOT: 0,
+        losses: 0,
+        goalsFor: 0,
+        goalsAgainst: 0,
+        goalDifference: 0,
+        points: 0,
+        isOurTeam: club ? isClubTeam(teamName, club) : false,
+      };
+
+      if (hasVP && hasPP && cells.length >= 11) {
+        // P., TÝM, Z, V, VP, R, PP, P, VB, IB, B
+        entry.winsOT = toNumber(cells[4]);
+        entry.draws = toNumber(cells[5]);
+        entry.lossesOT = toNumber(cells[6]);
+        entry.losses = toNumber(cells[7]);
+        entry.goalsFor = toNumber(cells[8]);
+        entry.goalsAgainst = toNumber(cells[9]);
+        entry.points = toNumber(cells[10]);
+      } else if (hasR && cells.length >= 8) {
+        // Poř., Tým, Z, V, R, P, Skóre, B
+        const goals = parseScore(cells[6] || "");
+        entry.draws = toNumber(cells[4]);
+        entry.losses = toNumber(cells[5]);
+        entry.goalsFor = goals?.[0] ?? 0;
+        entry.goalsAgainst = goals?.[1] ?? 0;
+        entry.points = toNumber(cells[7]);
+      } else {
+        // Unknown layout: the last number are the points, the score has ":"
+        const goals = parseScore(cells.find((text) => text.includes(":")) || "");
+        entry.goalsFor = goals?.[0] ?? 0;
+        entry.goalsAgainst = goals?.[1] ?? 0;
+        entry.points = toNumber(cells[cells.length - 1]);
+      }
+      entry.goalDifference = entry.goalsFor - entry.goalsAgainst;
+      rows.push(entry);
+    });
+
+  if (rows.length === 0) return null;
+  rows.sort((a, b) => a.position - b.position);
+
+  const config = LITOMERICE_COMPETITIONS.find((c) => c.code === competitionId);
+  return {
+    id: `standings-${competitionId}-${season}`,
+    competitionId,
+    competitionName: config?.name || competitionId,
+    seasonId: season,
+    externalCompetitionId: competitionId,
+    updatedAt: new Date().toISOString(),
+    rows,
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Provider
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function createLitomericeProvider(fetchPage: HtmlFetcher = fetchHtml): ScraperProvider {
+  return {
+    source: "litomerice",
+    label: "hclitomerice.cz",
+
+    async fetchStandings({ season, competitionId, club }) {
+      const url = getStandingsUrl(season, competitionId);
+      const html = await fetchPage(url);
+      if (html === null) return null;
+      const standings = parseStandingsPage(html, { competitionId, season, club });
+      if (!standings) console.warn("[Scrapers] No standings parsed from", url);
+      return standings;
+    },
+  };
+}
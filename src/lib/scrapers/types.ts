@@ -0,0 +1,78 @@
+/**
+ * Scraper providers - one per website the matches come from
+ *
+ * A provider knows the URLs and the HTML of its site and turns pages into
+ * ScrapedMatchDraft / CompetitionStandings. Pages are loaded through the
+ * HtmlFetcher it was created with, so the same provider runs against the
+ * live site (fetchHtml), a headless browser (scripts/scrape-matches.ts) or
+ * HTML files saved on disk (createFixtureFetcher).
+ */
+
+import type { ClubConfig } from "../club";
+import type { CompetitionStandings, GameSheet, ScrapedMatchDraft, ScraperSource } from "../types";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Page body for a URL, null when it could not be loaded
+export type HtmlFetcher = (url: string) => Promise<string | null>;
+
+// Competition found in the club's match list
+export interface DiscoveredCompetition {
+  name: string;
+  fullName?: string;
+  abbreviation: string;
+  matchCount: number;
+  completedCount?: number;
+  upcomingCount?: number;
+  hasUpcoming: boolean;
+  hasCompleted: boolean;
+  sampleMatch?: string;
+}
+
+export interface DiscoverQuery {
+  season: string; // "2025-2026" or the start year "2025"
+  teamId: string; // Club ID on the site
+}
+
+export interface FixtureQuery {
+  season: string; // "2025-2026" or the start year "2025"
+  club: ClubConfig;
+  categoryId?: string; // ClubCategory.id
+  leagueFilter?: string; // League ID on the site (league_115, 1872, ...)
+  competitionAbbreviation?: string; // Text of the "Soutěž" column
+  url?: string; // Match list URL pasted by the user
+}
+
+export interface StandingsQuery {
+  season: string; // "2025-2026" or the start year "2025"
+  competitionId: string; // Competition ID on the site (Z8, ...)
+  club: ClubConfig;
+}
+
+export interface MatchDetailQuery {
+  season: string;
+  externalMatchId: string; // ScrapedMatchDraft.externalMatchId
+  club: ClubConfig;
+}
+
+export interface GameSheetQuery extends MatchDetailQuery {
+  url?: string; // Match page, looked up by the match number when unset
+  homeTeamName?: string; // Names of the saved match, to tell the sides apart
+  awayTeamName?: string;
+}
+
+/**
+ * Everything is optional - a site offering only standings implements
+ * fetchStandings and nothing else.
+ */
+export interface ScraperProvider {
+  source: ScraperSource;
+  label: string; // Shown in the UI, e.g. "zapasy.ceskyhokej.cz"
+  discoverCompetitions?(query: DiscoverQuery): Promise<DiscoveredCompetition[]>;
+  listFixtures?(query: FixtureQuery): Promise<ScrapedMatchDraft[]>;
+  fetchStandings?(query: StandingsQuery): Promise<CompetitionStandings | null>;
+  fetchMatchDetail?(query: MatchDetailQuery): Promise<ScrapedMatchDraft | null>;
+  fetchGameSheet?(query: GameSheetQuery): Promise<GameSheet | null>;
+}
@@ -0,0 +1,155 @@
+/**
+ * ustecky.ceskyhokej.cz - the regional site of the Ústí region
+ *
+ * Matches are listed per league and round. The league IDs differ between
+ * seasons and the site has no list of them, so the known ones are kept here.
+ */
+
+import * as cheerio from "cheerio";
+import { isClubTeam, type ClubConfig } from "../club";
+import type { ScrapedMatchDraft } from "../types";
+import { fetchHtml, getSeasonYears, normalizeText, parseScore } from "./html";
+import type { HtmlFetcher, ScraperProvider } from "./types";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface UsteckyCompetition {
+  id: string; // leagueFilter-filter-id
+  name: string;
+  category: string;
+}
+
+export interface FixturePageOptions {
+  competition: UsteckyCompetition;
+  club?: ClubConfig; // Keep only the club's matches
+  sourceUrl?: string;
+  scrapedAt?: string;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+const USTECKY_URL = "https://ustecky.ceskyhokej.cz/rozpis-utkani-a-vysledky";
+
+const MAX_ROUNDS = 20;
+
+export const USTECKY_COMPETITIONS: Record<string, UsteckyCompetition[]> = {
+  "2025-2026": [
+    { id: "1860", name: "Liga starších žáků A", category: "Starší žáci A" },
+    { id: "1872", name: "Liga starších žáků B", category: "Starší žáci B" },
+    { id: "1884", name: "Liga mladších žáků A", category: "Mladší žáci A" },
+    { id: "1894", name: "Liga mladších žáků B", category: "Mladší žáci B" },
+  ],
+  "2024-2025": [
+    { id: "1696", name: "Liga starších žáků A", category: "Starší žáci A" },
+    { id: "1706", name: "Liga starších žáků B", category: "Starší žáci B" },
+    { id: "1718", name: "Liga mladších žáků A", category: "Mladší žáci A" },
+    { id: "1727", name: "Liga mladších žáků B", category: "Mladší žáci B" },
+  ],
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+function toSeasonParam(season: string): string {
+  const { startYear, endYear } = getSeasonYears(season);
+  return `${startYear}-${endYear}`;
+}
+
+export function getUsteckyCompetitions(season: string): UsteckyCompetition[] {
+  return USTECKY_COMPETITIONS[toSeasonParam(season)] || [];
+}
+
+export function getRoundUrl(season: string, competitionId: string, round: number): string {
+  return `${USTECKY_URL}?seasonFilter-filter-id=${toSeasonParam(season)}&leagueFilter-filter-id=${competitionId}&roundFilter-filter-id=${round}`;
+}
+
+/**
+ * Matches of one round page. Columns: number, "22.09.2024 17:00",
+ * home, score, (separator), away.
+ */
+export function parseFixturePage(html: string, options: FixturePageOptions): ScrapedMatchDraft[] {
+  const { competition, club } = options;
+  const scrapedAt = options.scrapedAt || new Date().toISOString();
+  const $ = cheerio.load(html);
+  const drafts: ScrapedMatchDraft[] = [];
+
+  $("table.table tbody tr").each((_, row) => {
+    const cells = $(row).find("td");
+    if (cells.length < 6) return;
+    const text = (i: number) => normalizeText($(cells[i]).text());
+
+    const matchId = text(0);
+    const homeTeam = text(2);
+    const awayTeam = text(5);
+    if (!matchId || !homeTeam || !awayTeam) return;
+    if (club && !isClubTeam(homeTeam, club) && !isClubTeam(awayTeam, club)) return;
+
+    const dateMatch = text(1).match(/(\d{2})\.(\d{2})\.(\d{4})\s+(\d{2}):(\d{2})/);
+    if (!dateMatch) return;
+    const [, day, month, year, hour, minute] = dateMatch;
+    const score = parseScore(text(3));
+
+    drafts.push({
+      source: "ustecky",
+      sourceUrl: options.sourceUrl,
+      homeTeamName: homeTeam,
+      awayTeamName: awayTeam,
+      competitionName: competition.category,
+      externalMatchId: `${competition.id}-${matchId}`,
+      externalCompetitionId: competition.id,
+      datetime: `${year}-${month}-${day}T${hour}:${minute}:00`,
+      homeScore: score?.[0],
+      awayScore: score?.[1],
+      scrapedAt,
+    });
+  });
+
+  return drafts;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Provider
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function createUsteckyProvider(fetchPage: HtmlFetcher = fetchHtml): ScraperProvider {
+  return {
+    source: "ustecky",
+    label: "ustecky.ceskyhokej.cz",
+
+    async discoverCompetitions({ season }) {
+      return getUsteckyCompetitions(season).map((competition) => ({
+        name: competition.name,
+        fullName: competition.category,
+        abbreviation: competition.id,
+        matchCount: 0,
+        hasUpcoming: false,
+        hasCompleted: false,
+      }));
+    },
+
+    async listFixtures({ season, club, categoryId, leagueFilter }) {
+      const known = getUsteckyCompetitions(season);
+      const category = categoryId ? club.categories.find((c) => c.id === categoryId) : undefined;
+      const competitions = leagueFilter
+        ? [known.find((c) => c.id === leagueFilter) || { id: leagueFilter, name: leagueFilter, category: category?.name || leagueFilter }]
+        : known;
+      const scrapedAt = new Date().toISOString();
+      const drafts: ScrapedMatchDraft[] = [];
+
+      for (const competition of competitions) {
+        for (let round = 1; round <= MAX_ROUNDS; round++) {
+          const url = getRoundUrl(season, competition.id, round);
+          const html = await fetchPage(url);
+          if (html === null) continue;
+          drafts.push(...parseFixturePage(html, { competition, club, sourceUrl: url, scrapedAt }));
+        }
+      }
+      return drafts;
+    },
+  };
+}
@@ -0,0 +1,55 @@
+/**
+ * Shootout - shootout rounds and penalty shots against our goalie
+ *
+ * Attempts live in `Match.shotAttempts`, separate from the event log, so
+ * save % in regular time stays clean and one-on-one situations get their
+ * own numbers.
+ */
+
+import type { Match, ShootoutMove, ShotAttempt, ShotAttemptKind } from "./types";
+
+export interface ShotAttemptSummary {
+  attempts: number; // Including misses
+  shots: number; // On goal
+  saves: number;
+  goals: number;
+  savePercentage: number;
+}
+
+export const SHOOTOUT_MOVE_LABELS: Record<ShootoutMove, string> = {
+  deke: "Klička",
+  shot: "Střela",
+  backhand: "Bekhend",
+  other: "Jiné",
+};
+
+export const SHOT_ATTEMPT_KIND_LABELS: Record<ShotAttemptKind, string> = {
+  shootout: "Nájezd",
+  penalty_shot: "Trestné střílení",
+};
+
+/**
+ * Attempts of a match in the order they were recorded
+ */
+export function getShotAttempts(match: Match, kind?: ShotAttemptKind): ShotAttempt[] {
+  return [...(match.shotAttempts || [])]
+    .filter((a) => !kind || a.kind === kind)
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+}
+
+export function hasShootout(match: Match): boolean {
+  return (match.shotAttempts || []).some((a) => a.kind === "shootout");
+}
+
+export function getShotAttemptSummary(attempts: ShotAttempt[]): ShotAttemptSummary {
+  const saves = attempts.filter((a) => a.result === "save").length;
+  const goals = attempts.filter((a) => a.result === "goal").length;
+  const shots = saves + goals;
+  return {
+    attempts: attempts.length,
+    shots,
+    saves,
+    goals,
+    savePercentage: shots > 0 ? (saves / shots) * 100 : 0,
+  };
+}
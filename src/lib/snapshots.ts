@@ -0,0 +1,268 @@
+/**
+ * Snapshots - automatic point-in-time copies of the local data
+ *
+ * A snapshot holds the raw stored values of the user data (see
+ * storage.getRawData) and is kept in IndexedDB, so it survives a wipe of
+ * localStorage and does not eat into its quota. Snapshots are taken before
+ * every import, before data migrations, before deleting all data, before a
+ * restore and once a day. Each reason keeps only its newest few.
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import {
+  getCompetitions,
+  getEvents,
+  getGoalies,
+  getMatches,
+  getRawData,
+  getStandings,
+  restoreRawData,
+} from "./storage";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type SnapshotReason = "daily" | "import" | "migration" | "clear" | "restore" | "manual";
+
+export type SnapshotCounts = Record<"goalies" | "matches" | "events" | "competitions" | "standings", number>;
+
+export interface SnapshotSummary {
+  id: string;
+  createdAt: string;
+  reason: SnapshotReason;
+  counts: SnapshotCounts;
+}
+
+// Stored apart from the summaries, so listing does not load the data
+interface SnapshotData {
+  id: string;
+  values: Record<string, string | null>;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const SNAPSHOT_REASON_LABELS: Record<SnapshotReason, string> = {
+  daily: "Denní",
+  import: "Před importem",
+  migration: "Před aktualizací dat",
+  clear: "Před smazáním dat",
+  restore: "Před obnovením",
+  manual: "Ruční",
+};
+
+// How many of the newest snapshots each reason keeps
+const SNAPSHOT_RETENTION: Record<SnapshotReason, number> = {
+  daily: 7,
+  import: 5,
+  migration: 3,
+  clear: 3,
+  restore: 3,
+  manual: 10,
+};
+
+const DAILY_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+const DB_NAME = "goalie-tracker-snapshots";
+const DB_VERSION = 1;
+const SUMMARY_STORE = "summaries";
+const DATA_STORE = "data";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// IndexedDB helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+function isSupported(): boolean {
+  return typeof window !== "undefined" && "indexedDB" in window;
+}
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(SUMMARY_STORE, { keyPath: "id" });
+      request.result.createObjectStore(DATA_STORE, { keyPath: "id" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// One transaction over both stores, resolved once it is committed
+async function withStores<T>(
+  mode: IDBTransactionMode,
+  run: (summaries: IDBObjectStore, data: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const db = await openDb();
+  try {
+    return await new Promise<T | undefined>((resolve, reject) => {
+      const transaction = db.transaction([SUMMARY_STORE, DATA_STORE], mode);
+      const request = run(transaction.objectStore(SUMMARY_STORE), transaction.objectStore(DATA_STORE));
+      transaction.oncomplete = () => resolve(request ? request.result : undefined);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+// Counts of the current data, shown in the restore list
+function countRecords(): SnapshotCounts {
+  return {
+    goalies: getGoalies().length,
+    matches: getMatches().length,
+    events: getEvents().length,
+    competitions: getCompetitions().length,
+    standings: getStandings().length,
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Snapshots
+// ─────────────────────────────────────────────────────────────────────────────
+
+async function getAllSummaries(): Promise<SnapshotSummary[]> {
+  const summaries = await withStores<SnapshotSummary[]>("readonly", (summaries) => summaries.getAll());
+  return (summaries || []).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+function removeSnapshot(id: string): Promise<unknown> {
+  return withStores("readwrite", (summaries, data) => {
+    summaries.delete(id);
+    data.delete(id);
+  });
+}
+
+/**
+ * Newest first
+ */
+export async function getSnapshots(): Promise<SnapshotSummary[]> {
+  if (!isSupported()) return [];
+  try {
+    return await getAllSummaries();
+  } catch (err) {
+    console.error("[snapshots] Error listing:", err);
+    return [];
+  }
+}
+
+// Drop the oldest snapshots over the limit of each reason
+async function applyRetention(): Promise<void> {
+  const kept = new Map<SnapshotReason, number>();
+  const expired = (await getAllSummaries()).filter((snapshot) => {
+    const count = (kept.get(snapshot.reason) || 0) + 1;
+    kept.set(snapshot.reason, count);
+    return count > SNAPSHOT_RETENTION[snapshot.reason];
+  });
+  for (const snapshot of expired) {
+    await removeSnapshot(snapshot.id);
+  }
+}
+
+/**
+ * Save the current data. Never throws - a failed snapshot must not block
+ * the import or migration it protects.
+ */
+export async function createSnapshot(reason: SnapshotReason): Promise<SnapshotSummary | null> {
+  if (!isSupported()) return null;
+  try {
+    const summary: SnapshotSummary = {
+      id: uuidv4(),
+      createdAt: new Date().toISOString(),
+      reason,
+      counts: countRecords(),
+    };
+    const data: SnapshotData = { id: summary.id, values: getRawData() };
+    await withStores("readwrite", (summaries, stored) => {
+      summaries.put(summary);
+      stored.put(data);
+    });
+    await applyRetention();
+    return summary;
+  } catch (err) {
+    console.error("[snapshots] Error creating:", err);
+    return null;
+  }
+}
+
+/**
+ * Take the daily snapshot when the newest one is over a day old
+ */
+export async function ensureDailySnapshot(): Promise<void> {
+  const latest = (await getSnapshots()).find((snapshot) => snapshot.reason === "daily");
+  if (latest && Date.now() - new Date(latest.createdAt).getTime() < DAILY_INTERVAL_MS) return;
+  await createSnapshot("daily");
+}
+
+/**
+ * Put the data back as it was in the snapshot. The current data is saved
+ * first, so a restore can itself be undone.
+ */
+export async function restoreSnapshot(id: string): Promise<boolean> {
+  if (!isSupported()) return false;
+  try {
+    const snapshot = await withStores<SnapshotData | undefined>("readonly", (_, data) => data.get(id));
+    if (!snapshot) return false;
+
+    await createSnapshot("restore");
+    const current = getRawData();
+    try {
+      if (!(await restoreRawData(snapshot.values))) throw new Error("Data were not written");
+    } catch (err) {
+      await restoreRawData(current);
+      throw err;
+    }
+    return true;
+  } catch (err) {
+    console.error("[snapshots] Error restoring:", err);
+    return false;
+  }
+}
+
+/**
+ * Snapshot taken right before the newest import. None once a restore (or a
+ * rollback) came after it - the import was already undone.
+ */
+export async function getLastImportSnapshot(): Promise<SnapshotSummary | null> {
+  const latest = (await getSnapshots()).find(
+    (snapshot) => snapshot.reason === "import" || snapshot.reason === "restore"
+  );
+  return latest?.reason === "import" ? latest : null;
+}
+
+/**
+ * Undo an import - only on this device, records already uploaded by the
+ * sync stay in the cloud. The snapshot is used up.
+ */
+export async function rollbackImport(id: string): Promise<boolean> {
+  if (!(await restoreSnapshot(id))) return false;
+  await deleteSnapshot(id);
+  return true;
+}
+
+export async function deleteSnapshot(id: string): Promise<boolean> {
+  if (!isSupported()) return false;
+  try {
+    await removeSnapshot(id);
+    return true;
+  } catch (err) {
+    console.error("[snapshots] Error deleting:", err);
+    return false;
+  }
+}
+
+// Signing out or switching accounts removes the account's data from this device
+export async function clearSnapshots(): Promise<void> {
+  if (!isSupported()) return;
+  try {
+    await withStores("readwrite", (summaries, data) => {
+      summaries.clear();
+      data.clear();
+    });
+  } catch (err) {
+    console.error("[snapshots] Error clearing:", err);
+  }
+}
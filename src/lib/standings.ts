@@ -0,0 +1,359 @@
+/**
+ * Standings - the competition table computed from the saved matches
+ *
+ * Used when the scraped table is missing, and to check it: a scraped table
+ * that disagrees with the results we know about is flagged. Ties on points
+ * are broken by the rules of the Czech federation (Soutěžní řád ČSLH):
+ *   a) points from the games between the tied teams
+ *   b) goal difference from those games
+ *   c) goals scored in those games
+ *   d) goal difference from all games
+ *   e) goals scored in all games
+ *   f) draw of lots (alphabetical order here)
+ * When a criterion separates only part of the group, the remaining teams
+ * start again from a) with a table of their own games.
+ */
+
+import { isClubTeam, type ClubConfig } from "./club";
+import { getMatchResultType } from "./decisions";
+import type { CompetitionStandings, Match, PointSystemId, StandingsRow } from "./types";
+import { isMatchCompleted } from "./utils/matchStatus";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface PointSystem {
+  id: PointSystemId;
+  label: string;
+  win: number;
+  overtimeWin: number; // Overtime or shootout
+  overtimeLoss: number;
+  draw: number;
+  loss: number;
+}
+
+export interface StandingsOptions {
+  competitionId: string;
+  seasonId: string;
+  competitionName?: string;
+  pointSystem?: PointSystemId;
+  club?: ClubConfig; // Marks isOurTeam
+}
+
+// Team whose place or numbers differ between the two tables
+export interface StandingsDifference {
+  teamName: string;
+  computed?: StandingsRow; // Missing = team not in the computed table
+  scraped?: StandingsRow;
+}
+
+export interface StandingsComparison {
+  agrees: boolean;
+  differences: StandingsDifference[];
+}
+
+interface StandingsGame {
+  home: string; // Team key
+  away: string;
+  homeScore: number;
+  awayScore: number;
+  decidedInOvertime: boolean;
+}
+
+interface TeamRecord {
+  key: string;
+  teamName: string;
+  gamesPlayed: number;
+  wins: number;
+  winsOT: number;
+  lossesOT: number;
+  draws: number;
+  losses: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  points: number;
+}
+
+type Criterion = {
+  label: string;
+  value: (record: TeamRecord) => number;
+  mutual: boolean; // Taken from the games between the tied teams
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const POINT_SYSTEMS: Record<PointSystemId, PointSystem> = {
+  "3-2-1-0": { id: "3-2-1-0", label: "3-2-1-0 (prodloužení a nájezdy)", win: 3, overtimeWin: 2, overtimeLoss: 1, draw: 1, loss: 0 },
+  "2-1-0": { id: "2-1-0", label: "2-1-0 (remízy)", win: 2, overtimeWin: 2, overtimeLoss: 0, draw: 1, loss: 0 },
+  "3-1-0": { id: "3-1-0", label: "3-1-0 (remízy)", win: 3, overtimeWin: 3, overtimeLoss: 0, draw: 1, loss: 0 },
+};
+
+export const DEFAULT_POINT_SYSTEM: PointSystemId = "3-2-1-0";
+
+const TIEBREAK_CRITERIA: Criterion[] = [
+  { label: "body ze vzájemných zápasů", value: (r) => r.points, mutual: true },
+  { label: "rozdíl skóre ze vzájemných zápasů", value: (r) => r.goalsFor - r.goalsAgainst, mutual: true },
+  { label: "góly ze vzájemných zápasů", value: (r) => r.goalsFor, mutual: true },
+  { label: "celkový rozdíl skóre", value: (r) => r.goalsFor - r.goalsAgainst, mutual: false },
+  { label: "celkem vstřelené góly", value: (r) => r.goalsFor, mutual: false },
+];
+
+const LOT_LABEL = "los (abecedně)";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function getPointSystem(id?: PointSystemId): PointSystem {
+  return POINT_SYSTEMS[id || DEFAULT_POINT_SYSTEM] || POINT_SYSTEMS[DEFAULT_POINT_SYSTEM];
+}
+
+// Same team written with other case, diacritics or quotes
+function getTeamKey(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/["'„“”.]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function createRecord(key: string, teamName: string): TeamRecord {
+  return {
+    key,
+    teamName,
+    gamesPlayed: 0,
+    wins: 0,
+    winsOT: 0,
+    lossesOT: 0,
+    draws: 0,
+    losses: 0,
+    goalsFor: 0,
+    goalsAgainst: 0,
+    points: 0,
+  };
+}
+
+function addResult(record: TeamRecord, goalsFor: number, goalsAgainst: number, overtime: boolean, system: PointSystem) {
+  record.gamesPlayed += 1;
+  record.goalsFor += goalsFor;
+  record.goalsAgainst += goalsAgainst;
+  if (goalsFor === goalsAgainst) {
+    record.draws += 1;
+    record.points += system.draw;
+  } else if (goalsFor > goalsAgainst) {
+    if (overtime) record.winsOT += 1;
+    else record.wins += 1;
+    record.points += overtime ? system.overtimeWin : system.win;
+  } else {
+    if (overtime) record.lossesOT += 1;
+    else record.losses += 1;
+    record.points += overtime ? system.overtimeLoss : system.loss;
+  }
+}
+
+function tally(games: StandingsGame[], names: Map<string, string>, system: PointSystem): Map<string, TeamRecord> {
+  const records = new Map<string, TeamRecord>();
+  names.forEach((teamName, key) => records.set(key, createRecord(key, teamName)));
+  for (const game of games) {
+    const home = records.get(game.home);
+    const away = records.get(game.away);
+    if (!home || !away) continue;
+    addResult(home, game.homeScore, game.awayScore, game.decidedInOvertime, system);
+    addResult(away, game.awayScore, game.homeScore, game.decidedInOvertime, system);
+  }
+  return records;
+}
+
+/**
+ * Finished matches with a score, teams as keys
+ */
+function getStandingsGames(matches: Match[], names: Map<string, string>): StandingsGame[] {
+  const games: StandingsGame[] = [];
+  for (const match of matches) {
+    if (match.status === "cancelled" || match.matchType === "friendly") continue;
+    if (!(isMatchCompleted(match.status) || match.completed)) continue;
+    if (match.homeScore === undefined || match.awayScore === undefined) continue;
+
+    const homeName = match.homeTeamName || match.home;
+    const awayName = match.awayTeamName || match.away;
+    const home = getTeamKey(homeName);
+    const away = getTeamKey(awayName);
+    if (!home || !away || home === away) continue;
+    if (!names.has(home)) names.set(home, homeName);
+    if (!names.has(away)) names.set(away, awayName);
+
+    games.push({
+      home,
+      away,
+      homeScore: match.homeScore,
+      awayScore: match.awayScore,
+      decidedInOvertime: getMatchResultType(match) !== "regulation",
+    });
+  }
+  return games;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tiebreaks
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Order of teams level on points, with the criterion that placed each
+ */
+function breakTie(
+  keys: string[],
+  games: StandingsGame[],
+  overall: Map<string, TeamRecord>,
+  names: Map<string, string>,
+  system: PointSystem
+): Array<{ key: string; tiebreak: string }> {
+  if (keys.length === 1) return [{ key: keys[0], tiebreak: "" }];
+
+  const tied = new Set(keys);
+  const mutualNames = new Map(keys.map((key) => [key, names.get(key) || key]));
+  const mutual = tally(
+    games.filter((g) => tied.has(g.home) && tied.has(g.away)),
+    mutualNames,
+    system
+  );
+
+  for (const criterion of TIEBREAK_CRITERIA) {
+    const table = criterion.mutual ? mutual : overall;
+    const value = (key: string) => criterion.value(table.get(key) as TeamRecord);
+    const values = new Set(keys.map(value));
+    if (values.size === 1) continue;
+
+    // Split into groups with the same value, each group starts over
+    const groups = Array.from(values)
+      .sort((a, b) => b - a)
+      .map((v) => keys.filter((key) => value(key) === v));
+    return groups.flatMap((group) =>
+      group.length === 1
+        ? [{ key: group[0], tiebreak: criterion.label }]
+        : breakTie(group, games, overall, names, system)
+    );
+  }
+
+  return [...keys]
+    .sort((a, b) => (names.get(a) || a).localeCompare(names.get(b) || b, "cs"))
+    .map((key) => ({ key, tiebreak: LOT_LABEL }));
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Standings
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Table of the competition from its matches (the caller passes the
+ * competition's matches only)
+ */
+export function computeStandings(matches: Match[], options: StandingsOptions): CompetitionStandings {
+  const system = getPointSystem(options.pointSystem);
+  const names = new Map<string, string>();
+  const games = getStandingsGames(matches, names);
+  const overall = tally(games, names, system);
+
+  const byPoints = new Map<number, string[]>();
+  overall.forEach((record) => {
+    byPoints.set(record.points, [...(byPoints.get(record.points) || []), record.key]);
+  });
+
+  const ordered = Array.from(byPoints.keys())
+    .sort((a, b) => b - a)
+    .flatMap((points) => breakTie(byPoints.get(points) as string[], games, overall, names, system));
+
+  const rows: StandingsRow[] = ordered.map(({ key, tiebreak }, index) => {
+    const record = overall.get(key) as TeamRecord;
+    return {
+      position: index + 1,
+      teamName: record.teamName,
+      gamesPlayed: record.gamesPlayed,
+      wins: record.wins,
+      winsOT: record.winsOT,
+      lossesOT: record.lossesOT,
+      draws: record.draws,
+      losses: record.losses,
+      goalsFor: record.goalsFor,
+      goalsAgainst: record.goalsAgainst,
+      goalDifference: record.goalsFor - record.goalsAgainst,
+      points: record.points,
+      isOurTeam: options.club ? isClubTeam(record.teamName, options.club) : undefined,
+      tiebreak: tiebreak || undefined,
+    };
+  });
+
+  return {
+    id: `computed-${options.competitionId}-${options.seasonId}`,
+    competitionId: options.competitionId,
+    competitionName: options.competitionName,
+    seasonId: options.seasonId,
+    source: "computed",
+    updatedAt: new Date().toISOString(),
+    rows,
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Comparison
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Row of the other table for the same team - names differ between sites
+// ("HC Most" / "HC Most B"), so a contained name counts too
+function findTeamRow(rows: StandingsRow[], teamName: string): StandingsRow | undefined {
+  const key = getTeamKey(teamName);
+  return (
+    rows.find((row) => getTeamKey(row.teamName) === key) ||
+    rows.find((row) => {
+      const other = getTeamKey(row.teamName);
+      return other.includes(key) || key.includes(other);
+    })
+  );
+}
+
+/**
+ * Scraped table of the same competition - the one sharing most teams,
+ * at least half of them
+ */
+export function findMatchingStandings(
+  computed: CompetitionStandings,
+  candidates: CompetitionStandings[]
+): CompetitionStandings | null {
+  let best: { standings: CompetitionStandings; shared: number } | null = null;
+  for (const standings of candidates) {
+    const shared = computed.rows.filter((row) => findTeamRow(standings.rows, row.teamName)).length;
+    if (!best || shared > best.shared) best = { standings, shared };
+  }
+  if (!best || best.shared === 0 || best.shared < computed.rows.length / 2) return null;
+  return best.standings;
+}
+
+/**
+ * Teams placed differently or with other points / games played
+ */
+export function compareStandings(computed: CompetitionStandings, scraped: CompetitionStandings): StandingsComparison {
+  const differences: StandingsDifference[] = [];
+  const seen = new Set<StandingsRow>();
+
+  for (const row of computed.rows) {
+    const other = findTeamRow(scraped.rows, row.teamName);
+    if (other) seen.add(other);
+    if (
+      !other ||
+      other.position !== row.position ||
+      other.points !== row.points ||
+      other.gamesPlayed !== row.gamesPlayed
+    ) {
+      differences.push({ teamName: row.teamName, computed: row, scraped: other });
+    }
+  }
+  for (const row of scraped.rows) {
+    if (!seen.has(row)) differences.push({ teamName: row.teamName, scraped: row });
+  }
+
+  return { agrees: differences.length === 0, differences };
+}
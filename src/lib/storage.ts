@@ -12,8 +12,34 @@ import type {
   GoalieSeasonStats,
   CompetitionStandings,
 } from "./types";
-import { normalizeMatchStatus } from "./utils/matchStatus";
+import { EXPORT_VERSION } from "./exportBundle";
+import type { ImportPlan } from "./importDiff";
+import {
+  getByIndex,
+  isLocalDbSupported,
+  loadStores,
+  putEntries,
+  deleteEntries,
+  replaceStores,
+  type LocalDbEntry,
+  type LocalDbIndex,
+  type LocalDbStore,
+} from "./localDb";
+import { getPeriodSettings, type GameClockState } from "./gameClock";
+import type { UndoHistoryState } from "./undoHistory";
+import type { LiveRole } from "./liveSession";
+import type { Workspace } from "./workspaces";
+import type { SyncBase, SyncChange, SyncConflict, SyncEntity, SyncOperation } from "./syncMerge";
+import type { FixtureChange } from "./fixtureRefresh";
+import { getGoalieTimeOnIce, getMatchGoalieIds, getPer60 } from "./goalieChanges";
+import { getGoalieDecision, getOurSide, isTeamShutout } from "./decisions";
+import { getStrengthSplit } from "./penalties";
+import { getXgModel, getXgSummary, type XgModel } from "./xg";
+import { getDangerBreakdown } from "./danger";
+import { getShotAttemptSummary } from "./shootout";
+import { isMatchCompleted, normalizeMatchStatus } from "./utils/matchStatus";
 import { COMPETITION_PRESETS } from "@/lib/competitionPresets";
+import { DEFAULT_CLUB, parseClubConfig, type ClubConfig } from "./club";
 
 // ═══════════════════════════════════════════════════════════════════════════
 // STORAGE KEYS
@@ -28,9 +54,39 @@ const STORAGE_KEYS = {
   competitions: "goalie-tracker-competitions",
   externalMappings: "goalie-tracker-external-mappings",
   standings: "goalie-tracker-standings",
+  gameClocks: "goalie-tracker-game-clocks",
+  undoHistories: "goalie-tracker-undo-histories",
+  syncQueue: "goalie-tracker-sync-queue",
+  syncBase: "goalie-tracker-sync-base",
+  syncConflicts: "goalie-tracker-sync-conflicts",
+  dirtyRecords: "goalie-tracker-dirty-records",
+  syncCursor: "goalie-tracker-sync-cursor",
+  deviceId: "goalie-tracker-device-id",
+  liveRoles: "goalie-tracker-live-roles",
+  cloudUserId: "goalie-tracker-cloud-user-id",
+  workspaces: "goalie-tracker-workspaces",
+  storageBackend: "goalie-tracker-storage-backend",
+  club: "goalie-tracker-club",
+  fixtureChanges: "goalie-tracker-fixture-changes",
+  fixtureRefreshedAt: "goalie-tracker-fixture-refreshed-at",
 } as const;
 
-const EXPORT_VERSION = 1;
+// Collections moved to IndexedDB by initStorage(), the rest stays in localStorage
+const DB_STORES: Record<string, LocalDbStore> = {
+  [STORAGE_KEYS.goalies]: "goalies",
+  [STORAGE_KEYS.teams]: "teams",
+  [STORAGE_KEYS.seasons]: "seasons",
+  [STORAGE_KEYS.competitions]: "competitions",
+  [STORAGE_KEYS.matches]: "matches",
+  [STORAGE_KEYS.events]: "events",
+  [STORAGE_KEYS.externalMappings]: "externalMappings",
+  [STORAGE_KEYS.standings]: "standings",
+};
+
+// Records from the sync keep their cloud `updatedAt` and are not marked dirty
+interface SaveOptions {
+  fromSync?: boolean;
+}
 
 // ═══════════════════════════════════════════════════════════════════════════
 // DEFAULT DATA
@@ -85,8 +141,66 @@ const DEFAULT_COMPETITIONS: Competition[] = COMPETITION_PRESETS.map((preset) =>
 // HELPER FUNCTIONS
 // ═══════════════════════════════════════════════════════════════════════════
 
+interface StoredRecord {
+  id: string;
+}
+
+interface CachedCollection {
+  records: StoredRecord[];
+  order: Map<string, number>; // Position of each record in IndexedDB
+  nextOrder: number;
+}
+
+// The IndexedDB collections in memory: reads stay synchronous, writes change
+// the cache at once and reach IndexedDB in the background, one by one
+const collectionCache = new Map<string, CachedCollection>();
+
+let pendingWrites: Promise<boolean> = Promise.resolve(true);
+
+function persist(write: () => Promise<void>): Promise<boolean> {
+  pendingWrites = pendingWrites.then(() =>
+    write().then(
+      () => true,
+      (err) => {
+        console.error("[storage] IndexedDB write failed:", err);
+        return false;
+      }
+    )
+  );
+  return pendingWrites;
+}
+
+/**
+ * Wait for the queued IndexedDB writes, e.g. before reloading the page.
+ * Resolves to false when the last write failed.
+ */
+export function flushStorage(): Promise<boolean> {
+  return pendingWrites;
+}
+
+function cacheCollection(key: string, records: StoredRecord[]): CachedCollection {
+  const cached: CachedCollection = {
+    records,
+    order: new Map(records.map((record, index) => [record.id, index])),
+    nextOrder: records.length,
+  };
+  collectionCache.set(key, cached);
+  return cached;
+}
+
+function toEntries(cached: CachedCollection): LocalDbEntry[] {
+  return cached.records.map((record) => ({
+    id: record.id,
+    order: cached.order.get(record.id) ?? 0,
+    data: record,
+  }));
+}
+
 function getItem<T>(key: string, defaultValue: T): T {
   if (typeof window === "undefined") return defaultValue;
+  const cached = collectionCache.get(key);
+  // A copy, callers may change what they get (as with parsed JSON)
+  if (cached) return structuredClone(cached.records) as T;
   try {
     const item = localStorage.getItem(key);
     return item ? JSON.parse(item) : defaultValue;
@@ -97,6 +211,11 @@ function getItem<T>(key: string, defaultValue: T): T {
 
 function setItem<T>(key: string, value: T): void {
   if (typeof window === "undefined") return;
+  if (collectionCache.has(key)) {
+    const cached = cacheCollection(key, value as unknown as StoredRecord[]);
+    persist(() => replaceStores({ [DB_STORES[key]]: toEntries(cached) }));
+    return;
+  }
   try {
     localStorage.setItem(key, JSON.stringify(value));
   } catch (e) {
@@ -104,10 +223,165 @@ function setItem<T>(key: string, value: T): void {
   }
 }
 
+// Matching records, copied - cheaper than filtering getItem() of a large collection
+function filterRecords<T extends StoredRecord>(key: string, predicate: (record: T) => boolean): T[] {
+  const cached = collectionCache.get(key);
+  if (!cached) return getItem<T[]>(key, []).filter(predicate);
+  return structuredClone((cached.records as T[]).filter(predicate));
+}
+
+// Stored record without copying the whole collection - do not change it
+function findRecord<T extends StoredRecord>(key: string, id: string): T | undefined {
+  const cached = collectionCache.get(key);
+  const records = cached ? (cached.records as T[]) : getItem<T[]>(key, []);
+  return records.find((record) => record.id === id);
+}
+
+// Insert or replace one record; in IndexedDB only this record is written
+function putRecord<T extends StoredRecord>(key: string, record: T): void {
+  const cached = collectionCache.get(key);
+  if (!cached) {
+    const records = getItem<T[]>(key, []);
+    const index = records.findIndex((r) => r.id === record.id);
+    if (index >= 0) records[index] = record;
+    else records.push(record);
+    setItem(key, records);
+    return;
+  }
+
+  const index = cached.records.findIndex((r) => r.id === record.id);
+  if (index >= 0) {
+    cached.records[index] = record;
+  } else {
+    cached.records.push(record);
+    cached.order.set(record.id, cached.nextOrder++);
+  }
+  const entry = { id: record.id, order: cached.order.get(record.id) ?? 0, data: record };
+  persist(() => putEntries(DB_STORES[key], [entry]));
+}
+
+function removeRecords(key: string, ids: string[]): void {
+  if (ids.length === 0) return;
+  const removed = new Set(ids);
+  const cached = collectionCache.get(key);
+  if (!cached) {
+    setItem(key, getItem<StoredRecord[]>(key, []).filter((r) => !removed.has(r.id)));
+    return;
+  }
+
+  cached.records = cached.records.filter((r) => !removed.has(r.id));
+  ids.forEach((id) => cached.order.delete(id));
+  persist(() => deleteEntries(DB_STORES[key], ids));
+}
+
 function generateId(): string {
   return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 }
 
+// ═══════════════════════════════════════════════════════════════════════════
+// STORAGE BACKEND
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type StorageBackend = "indexeddb" | "localStorage";
+
+export function getStorageBackend(): StorageBackend {
+  return collectionCache.size > 0 ? "indexeddb" : "localStorage";
+}
+
+// Attempts to open IndexedDB once it holds the data, before giving up
+const LOAD_ATTEMPTS = 3;
+const LOAD_RETRY_DELAY_MS = 500;
+
+type LoadedStores = Record<LocalDbStore, LocalDbEntry[]>;
+
+// Collections read from localStorage, in the form they are written to IndexedDB
+function readLocalStorageCollections(): Partial<Record<LocalDbStore, LocalDbEntry[]>> {
+  const contents: Partial<Record<LocalDbStore, LocalDbEntry[]>> = {};
+  Object.entries(DB_STORES).forEach(([key, store]) => {
+    let records: StoredRecord[] = [];
+    try {
+      const raw = localStorage.getItem(key);
+      records = raw ? JSON.parse(raw) : [];
+    } catch {
+      records = [];
+    }
+    contents[store] = (Array.isArray(records) ? records : [])
+      .filter((record) => record && typeof record.id === "string")
+      .map((record, index) => ({ id: record.id, order: index, data: record }));
+  });
+  return contents;
+}
+
+/**
+ * One-time move of the collections from localStorage, all or nothing. The
+ * localStorage copy is removed only after the data has been read back from
+ * IndexedDB and every record is there.
+ */
+async function moveToLocalDb(): Promise<LoadedStores> {
+  const contents = readLocalStorageCollections();
+  await replaceStores(contents);
+
+  const stores = await loadStores(Object.values(DB_STORES));
+  const missing = (Object.keys(contents) as LocalDbStore[]).filter((store) => {
+    const loaded = new Set((stores[store] || []).map((entry) => entry.id));
+    return (contents[store] || []).some((entry) => !loaded.has(entry.id));
+  });
+  if (missing.length > 0) {
+    throw new Error(`Records missing in IndexedDB after the move: ${missing.join(", ")}`);
+  }
+
+  localStorage.setItem(STORAGE_KEYS.storageBackend, "indexeddb");
+  Object.keys(DB_STORES).forEach((key) => localStorage.removeItem(key));
+  // Pre-import copy of the old rollback, now covered by the import snapshots
+  localStorage.removeItem("goalie-tracker-last-import");
+  return stores;
+}
+
+async function loadStoresWithRetry(): Promise<LoadedStores> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await loadStores(Object.values(DB_STORES));
+    } catch (err) {
+      if (attempt >= LOAD_ATTEMPTS) throw err;
+      console.error(`[storage] IndexedDB load failed (attempt ${attempt}), retrying:`, err);
+      await new Promise((resolve) => setTimeout(resolve, LOAD_RETRY_DELAY_MS * attempt));
+    }
+  }
+}
+
+/**
+ * Load the collections from IndexedDB before the app reads any data. The
+ * first run moves them there from localStorage; until that has succeeded
+ * the data stays in localStorage as before.
+ *
+ * Returns false when the data already lives in IndexedDB and it cannot be
+ * opened - localStorage is empty then, so the app must not start on it.
+ */
+export async function initStorage(): Promise<boolean> {
+  if (!isLocalDbSupported() || collectionCache.size > 0) return true;
+  const moved = localStorage.getItem(STORAGE_KEYS.storageBackend) === "indexeddb";
+  try {
+    const stores = moved ? await loadStoresWithRetry() : await moveToLocalDb();
+    Object.entries(DB_STORES).forEach(([key, store]) => {
+      const entries = stores[store] || [];
+      collectionCache.set(key, {
+        records: entries.map((entry) => entry.data as StoredRecord),
+        order: new Map(entries.map((entry) => [entry.id, entry.order])),
+        nextOrder: entries.length > 0 ? entries[entries.length - 1].order + 1 : 0,
+      });
+    });
+    return true;
+  } catch (err) {
+    collectionCache.clear();
+    if (moved) {
+      console.error("[storage] IndexedDB with the data cannot be opened:", err);
+      return false;
+    }
+    console.error("[storage] IndexedDB unavailable, using localStorage:", err);
+    return true;
+  }
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // GOALIES
 // ═══════════════════════════════════════════════════════════════════════════
@@ -116,22 +390,20 @@ export function getGoalies(): Goalie[] {
   return getItem<Goalie[]>(STORAGE_KEYS.goalies, []);
 }
 
-export function saveGoalie(goalie: Goalie): void {
-  const goalies = getGoalies();
-  const index = goalies.findIndex((g) => g.id === goalie.id);
+export function saveGoalie(goalie: Goalie, options: SaveOptions = {}): void {
+  const exists = !!findRecord<Goalie>(STORAGE_KEYS.goalies, goalie.id);
   const now = new Date().toISOString();
   
-  if (index >= 0) {
-    goalies[index] = { ...goalie, updatedAt: now };
+  if (exists) {
+    putRecord(STORAGE_KEYS.goalies, { ...goalie, updatedAt: options.fromSync ? goalie.updatedAt : now });
   } else {
-    goalies.push({ ...goalie, createdAt: goalie.createdAt || now });
+    putRecord(STORAGE_KEYS.goalies, { ...goalie, createdAt: goalie.createdAt || now });
   }
-  setItem(STORAGE_KEYS.goalies, goalies);
+  if (!options.fromSync) markDirty("goalie", goalie.id);
 }
 
 export function deleteGoalie(id: string): void {
-  const goalies = getGoalies().filter((g) => g.id !== id);
-  setItem(STORAGE_KEYS.goalies, goalies);
+  removeRecords(STORAGE_KEYS.goalies, [id]);
 }
 
 export function getGoalieById(id: string): Goalie | undefined {
@@ -218,6 +490,11 @@ export function saveCompetition(competition: Competition): void {
   setItem(STORAGE_KEYS.competitions, competitions);
 }
 
+// Replace the whole list, e.g. with the competitions from the cloud
+export function saveCompetitions(competitions: Competition[]): void {
+  setItem(STORAGE_KEYS.competitions, competitions);
+}
+
 export function deleteCompetition(id: string): void {
   const competitions = getCompetitions().filter((c) => c.id !== id);
   setItem(STORAGE_KEYS.competitions, competitions);
@@ -250,41 +527,44 @@ export function getMatches(): Match[] {
   }));
 }
 
-export function saveMatch(match: Match): void {
-  const matches = getMatches();
-  const index = matches.findIndex((m) => m.id === match.id);
+export function saveMatch(match: Match, options: SaveOptions = {}): void {
+  const existingMatch = findRecord<Match>(STORAGE_KEYS.matches, match.id);
   const now = new Date().toISOString();
   
-  if (index >= 0) {
+  if (existingMatch && options.fromSync) {
+    putRecord(STORAGE_KEYS.matches, match);
+  } else if (existingMatch) {
     // Preserve goalieId if it exists in the existing match and is not explicitly being removed
-    const existingMatch = matches[index];
     const preservedMatch = {
       ...match,
       // Preserve goalieId from existing match if new match doesn't have it explicitly set
       goalieId: match.goalieId !== undefined ? match.goalieId : existingMatch.goalieId,
       updatedAt: now,
     };
-    matches[index] = preservedMatch;
+    putRecord(STORAGE_KEYS.matches, preservedMatch);
   } else {
-    matches.push({ ...match, createdAt: match.createdAt || now });
+    putRecord(STORAGE_KEYS.matches, { ...match, createdAt: match.createdAt || now });
   }
-  setItem(STORAGE_KEYS.matches, matches);
+  if (!options.fromSync) markDirty("match", match.id);
 }
 
 export function deleteMatch(id: string): void {
-  const matches = getMatches().filter((m) => m.id !== id);
-  setItem(STORAGE_KEYS.matches, matches);
+  removeRecords(STORAGE_KEYS.matches, [id]);
   // Also delete events for this match
-  const events = getEvents().filter((e) => e.matchId !== id);
-  setItem(STORAGE_KEYS.events, events);
+  removeRecords(
+    STORAGE_KEYS.events,
+    getEvents().filter((e) => e.matchId === id).map((e) => e.id)
+  );
+  deleteGameClock(id);
+  deleteUndoHistory(id);
 }
 
 export function getMatchById(id: string): Match | undefined {
-  const match = getItem<Match[]>(STORAGE_KEYS.matches, []).find((m) => m.id === id);
+  const match = findRecord<Match>(STORAGE_KEYS.matches, id);
   if (!match) return undefined;
   // Normalizuj legacy status
   return {
-    ...match,
+    ...structuredClone(match),
     status: normalizeMatchStatus(match.status),
   };
 }
@@ -310,38 +590,39 @@ export function getEvents(): GoalieEvent[] {
 }
 
 export function getEventsByMatch(matchId: string): GoalieEvent[] {
-  return getEvents().filter(
+  return filterRecords<GoalieEvent>(
+    STORAGE_KEYS.events,
     (e) => e.matchId === matchId && e.status !== "deleted"
   );
 }
 
 export function getAllEventsByMatch(matchId: string): GoalieEvent[] {
   // Include deleted events
-  return getEvents().filter((e) => e.matchId === matchId);
+  return filterRecords<GoalieEvent>(STORAGE_KEYS.events, (e) => e.matchId === matchId);
 }
 
 export function getEventsByGoalie(goalieId: string): GoalieEvent[] {
-  return getEvents().filter(
+  return filterRecords<GoalieEvent>(
+    STORAGE_KEYS.events,
     (e) => e.goalieId === goalieId && e.status !== "deleted"
   );
 }
 
-export function saveEvent(event: GoalieEvent): void {
-  const events = getEvents();
-  const index = events.findIndex((e) => e.id === event.id);
+export function saveEvent(event: GoalieEvent, options: SaveOptions = {}): void {
+  const exists = !!findRecord<GoalieEvent>(STORAGE_KEYS.events, event.id);
   const now = new Date().toISOString();
   
-  if (index >= 0) {
-    events[index] = { ...event, updatedAt: now };
+  if (exists) {
+    putRecord(STORAGE_KEYS.events, { ...event, updatedAt: options.fromSync ? event.updatedAt : now });
   } else {
-    events.push({
+    putRecord(STORAGE_KEYS.events, {
       ...event,
       createdAt: event.createdAt || now,
       status: event.status || "confirmed",
       inputSource: event.inputSource || "live",
     });
   }
-  setItem(STORAGE_KEYS.events, events);
+  if (!options.fromSync) markDirty("event", event.id);
 }
 
 export function saveEvents(newEvents: GoalieEvent[]): void {
@@ -349,36 +630,295 @@ export function saveEvents(newEvents: GoalieEvent[]): void {
 }
 
 export function deleteEvent(id: string): void {
-  const events = getEvents().filter((e) => e.id !== id);
-  setItem(STORAGE_KEYS.events, events);
+  removeRecords(STORAGE_KEYS.events, [id]);
 }
 
 export function softDeleteEvent(id: string): void {
-  const events = getEvents();
-  const index = events.findIndex((e) => e.id === id);
-  if (index >= 0) {
-    events[index] = {
-      ...events[index],
+  const event = findRecord<GoalieEvent>(STORAGE_KEYS.events, id);
+  if (event) {
+    putRecord(STORAGE_KEYS.events, {
+      ...event,
       status: "deleted",
       updatedAt: new Date().toISOString(),
-    };
-    setItem(STORAGE_KEYS.events, events);
+    });
+    markDirty("event", id);
   }
 }
 
 export function restoreEvent(id: string): void {
-  const events = getEvents();
-  const index = events.findIndex((e) => e.id === id);
-  if (index >= 0) {
-    events[index] = {
-      ...events[index],
+  const event = findRecord<GoalieEvent>(STORAGE_KEYS.events, id);
+  if (event) {
+    putRecord(STORAGE_KEYS.events, {
+      ...event,
       status: "confirmed",
       updatedAt: new Date().toISOString(),
-    };
-    setItem(STORAGE_KEYS.events, events);
+    });
+    markDirty("event", id);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// INDEXED QUERIES
+// ═══════════════════════════════════════════════════════════════════════════
+
+// Filters of the async queries - the first one set is looked up in its
+// IndexedDB index, the rest are applied to the result
+export interface EventQuery {
+  matchId?: string;
+  goalieId?: string;
+}
+
+export interface MatchQuery {
+  goalieId?: string;
+  seasonId?: string;
+  competitionId?: string;
+}
+
+function matchesQuery<T>(record: T, query: object): boolean {
+  return Object.entries(query).every(
+    ([field, value]) => value === undefined || (record as Record<string, unknown>)[field] === value
+  );
+}
+
+async function queryStore<T extends StoredRecord>(key: string, query: object): Promise<T[]> {
+  const [index, value] = (Object.entries(query).find(([, v]) => v !== undefined) || []) as [
+    LocalDbIndex?,
+    string?,
+  ];
+  if (!collectionCache.has(key) || !index || value === undefined) {
+    return filterRecords<T>(key, (record) => matchesQuery(record, query));
+  }
+
+  // Queued writes first, so the index sees the latest data
+  await flushStorage();
+  try {
+    const records = await getByIndex<T>(DB_STORES[key], index, value);
+    return records.filter((record) => matchesQuery(record, query));
+  } catch (err) {
+    console.error("[storage] Indexed query failed:", err);
+    return filterRecords<T>(key, (record) => matchesQuery(record, query));
   }
 }
 
+// All events including deleted ones, like getAllEventsByMatch()
+export function queryEvents(query: EventQuery = {}): Promise<GoalieEvent[]> {
+  return queryStore<GoalieEvent>(STORAGE_KEYS.events, query);
+}
+
+export async function queryMatches(query: MatchQuery = {}): Promise<Match[]> {
+  const matches = await queryStore<Match>(STORAGE_KEYS.matches, query);
+  return matches.map((m) => ({ ...m, status: normalizeMatchStatus(m.status) }));
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// GAME CLOCKS
+// ═══════════════════════════════════════════════════════════════════════════
+
+// Live clock state is device-local (keyed by match ID), it is not synced
+function getGameClocks(): Record<string, GameClockState> {
+  return getItem<Record<string, GameClockState>>(STORAGE_KEYS.gameClocks, {});
+}
+
+export function getGameClock(matchId: string): GameClockState | undefined {
+  return getGameClocks()[matchId];
+}
+
+export function saveGameClock(state: GameClockState): void {
+  const clocks = getGameClocks();
+  clocks[state.matchId] = state;
+  setItem(STORAGE_KEYS.gameClocks, clocks);
+}
+
+export function deleteGameClock(matchId: string): void {
+  const clocks = getGameClocks();
+  if (!clocks[matchId]) return;
+  delete clocks[matchId];
+  setItem(STORAGE_KEYS.gameClocks, clocks);
+}
+
+// Undo/redo history is device-local as well (keyed by match ID)
+function getUndoHistories(): Record<string, UndoHistoryState> {
+  return getItem<Record<string, UndoHistoryState>>(STORAGE_KEYS.undoHistories, {});
+}
+
+export function getUndoHistory(matchId: string): UndoHistoryState | undefined {
+  return getUndoHistories()[matchId];
+}
+
+export function saveUndoHistory(state: UndoHistoryState): void {
+  const histories = getUndoHistories();
+  histories[state.matchId] = state;
+  setItem(STORAGE_KEYS.undoHistories, histories);
+}
+
+export function deleteUndoHistory(matchId: string): void {
+  const histories = getUndoHistories();
+  if (!histories[matchId]) return;
+  delete histories[matchId];
+  setItem(STORAGE_KEYS.undoHistories, histories);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ACCOUNT
+// ═══════════════════════════════════════════════════════════════════════════
+
+// Account whose cloud data is stored on this device (null = not signed in yet)
+export function getCloudUserId(): string | null {
+  return getItem<string | null>(STORAGE_KEYS.cloudUserId, null);
+}
+
+export function saveCloudUserId(userId: string): void {
+  setItem(STORAGE_KEYS.cloudUserId, userId);
+}
+
+// Club workspaces of the signed-in user, cached for role checks offline
+export function getWorkspaces(): Workspace[] {
+  return getItem<Workspace[]>(STORAGE_KEYS.workspaces, []);
+}
+
+export function saveWorkspaces(workspaces: Workspace[]): void {
+  setItem(STORAGE_KEYS.workspaces, workspaces);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CLUB
+// ═══════════════════════════════════════════════════════════════════════════
+
+// Club picked in the onboarding (null = not picked yet)
+export function getClubConfig(): ClubConfig | null {
+  return parseClubConfig(getItem<unknown>(STORAGE_KEYS.club, null));
+}
+
+export function saveClubConfig(club: ClubConfig): void {
+  setItem(STORAGE_KEYS.club, club);
+}
+
+// Club the importer and "our side" work with
+export function getClub(): ClubConfig {
+  return getClubConfig() || DEFAULT_CLUB;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FIXTURE REFRESH
+// ═══════════════════════════════════════════════════════════════════════════
+
+// Changes found by the fixture refresh, newest first
+export function getFixtureChanges(): FixtureChange[] {
+  return getItem<FixtureChange[]>(STORAGE_KEYS.fixtureChanges, []);
+}
+
+export function saveFixtureChanges(changes: FixtureChange[]): void {
+  setItem(STORAGE_KEYS.fixtureChanges, changes);
+}
+
+// Last finished refresh (null = never)
+export function getFixtureRefreshedAt(): string | null {
+  return getItem<string | null>(STORAGE_KEYS.fixtureRefreshedAt, null);
+}
+
+export function saveFixtureRefreshedAt(refreshedAt: string): void {
+  setItem(STORAGE_KEYS.fixtureRefreshedAt, refreshedAt);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// LIVE SESSIONS
+// ═══════════════════════════════════════════════════════════════════════════
+
+// Identifies this device in shared live sessions
+export function getDeviceId(): string {
+  const saved = getItem<string | null>(STORAGE_KEYS.deviceId, null);
+  if (saved) return saved;
+  const deviceId = crypto.randomUUID();
+  setItem(STORAGE_KEYS.deviceId, deviceId);
+  return deviceId;
+}
+
+// Role of this device per match (device-local)
+export function getLiveRole(matchId: string): LiveRole {
+  return getItem<Record<string, LiveRole>>(STORAGE_KEYS.liveRoles, {})[matchId] || "all";
+}
+
+export function saveLiveRole(matchId: string, role: LiveRole): void {
+  const roles = getItem<Record<string, LiveRole>>(STORAGE_KEYS.liveRoles, {});
+  roles[matchId] = role;
+  setItem(STORAGE_KEYS.liveRoles, roles);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SYNC STATE
+// ═══════════════════════════════════════════════════════════════════════════
+
+// Offline edits waiting for the cloud (one entry per record, latest op wins)
+export function getSyncQueue(): SyncChange[] {
+  return getItem<SyncChange[]>(STORAGE_KEYS.syncQueue, []);
+}
+
+export function enqueueSyncChange(entity: SyncEntity, recordId: string, op: SyncOperation): void {
+  const queue = getSyncQueue().filter((c) => !(c.entity === entity && c.recordId === recordId));
+  queue.push({ entity, recordId, op, queuedAt: new Date().toISOString() });
+  setItem(STORAGE_KEYS.syncQueue, queue);
+}
+
+// Drop changes that were pushed (entries queued later are kept)
+export function clearSyncChanges(pushed: SyncChange[]): void {
+  const queue = getSyncQueue().filter(
+    (c) =>
+      !pushed.some(
+        (p) => p.entity === c.entity && p.recordId === c.recordId && p.queuedAt === c.queuedAt
+      )
+  );
+  setItem(STORAGE_KEYS.syncQueue, queue);
+}
+
+// Records changed locally since the last successful sync (ID -> changed at)
+type DirtyRecords = Record<SyncEntity, Record<string, string>>;
+
+export function getDirtyRecords(): DirtyRecords {
+  return getItem<DirtyRecords>(STORAGE_KEYS.dirtyRecords, { goalie: {}, match: {}, event: {} });
+}
+
+function markDirty(entity: SyncEntity, recordId: string): void {
+  const dirty = getDirtyRecords();
+  dirty[entity][recordId] = new Date().toISOString();
+  setItem(STORAGE_KEYS.dirtyRecords, dirty);
+}
+
+// Keep records changed while the sync was running
+export function clearDirtyRecords(syncStartedAt: string): void {
+  const dirty = getDirtyRecords();
+  (Object.keys(dirty) as SyncEntity[]).forEach((entity) => {
+    Object.entries(dirty[entity]).forEach(([id, changedAt]) => {
+      if (changedAt <= syncStartedAt) delete dirty[entity][id];
+    });
+  });
+  setItem(STORAGE_KEYS.dirtyRecords, dirty);
+}
+
+// Cloud `updated_at` of the newest downloaded change (null = next sync is a full one)
+export function getSyncCursor(): string | null {
+  return getItem<string | null>(STORAGE_KEYS.syncCursor, null);
+}
+
+export function saveSyncCursor(cursor: string): void {
+  setItem(STORAGE_KEYS.syncCursor, cursor);
+}
+
+export function getSyncBase(): SyncBase {
+  return getItem<SyncBase>(STORAGE_KEYS.syncBase, { goalies: {}, matches: {} });
+}
+
+export function saveSyncBase(base: SyncBase): void {
+  setItem(STORAGE_KEYS.syncBase, base);
+}
+
+export function getSyncConflicts(): SyncConflict[] {
+  return getItem<SyncConflict[]>(STORAGE_KEYS.syncConflicts, []);
+}
+
+export function saveSyncConflicts(conflicts: SyncConflict[]): void {
+  setItem(STORAGE_KEYS.syncConflicts, conflicts);
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // SEASONS
 // ═══════════════════════════════════════════════════════════════════════════
@@ -595,28 +1135,77 @@ export function deleteExternalMapping(id: string): void {
 // STATS CALCULATION
 // ═══════════════════════════════════════════════════════════════════════════
 
+// Records "our side" of a match is decided by - passed along with the
+// matches and events, the local ones are used for what is missing
+export interface GoalieStatsContext {
+  goalie?: Goalie;
+  teams?: Team[];
+  club?: ClubConfig;
+}
+
 export function calculateGoalieStats(
   goalieId: string,
   seasonId?: string,
   competitionId?: string,
   allEvents?: GoalieEvent[], // Optional: pass events from Supabase if available
-  allMatches?: Match[] // Optional: pass matches from Supabase if available
+  allMatches?: Match[], // Optional: pass matches from Supabase if available
+  allCompetitions?: Competition[], // Optional: competitions with period lengths
+  xgModel?: XgModel, // Optional: defaults to a model fitted on the passed events
+  context: GoalieStatsContext = {} // Optional: goalie, teams and club of the passed data
 ): GoalieSeasonStats {
   // Use provided matches or fall back to localStorage
+  // (starting goalie or goalie who came in during the match)
   const matches = (allMatches || getMatches()).filter(
     (m) =>
-      m.goalieId === goalieId &&
+      getMatchGoalieIds(m).includes(goalieId) &&
       (!seasonId || m.seasonId === seasonId) &&
       (!competitionId || m.competitionId === competitionId)
   );
   // Use provided events or fall back to localStorage
-  const events = (allEvents || getEvents()).filter(
-    (e) => e.goalieId === goalieId && e.status !== "deleted"
-  );
+  const sourceEvents = (allEvents || getEvents()).filter((e) => e.status !== "deleted");
+  // Events are attributed to the goalie in net, empty-net events have no goalie
+  const events = sourceEvents.filter((e) => e.goalieId === goalieId);
 
   const matchIds = new Set(matches.map((m) => m.id));
   const relevantEvents = events.filter((e) => matchIds.has(e.matchId));
 
+  // Time on ice per match (period lengths from the match competition)
+  const competitions = allCompetitions || getCompetitions();
+  const decisionContext = {
+    goalie: context.goalie || getGoalies().find((g) => g.id === goalieId),
+    teams: context.teams || getTeams(),
+    clubName: (context.club || getClub()).shortName,
+  };
+  let secondsPlayed = 0;
+  let wins = 0,
+    losses = 0,
+    otLosses = 0,
+    shootoutLosses = 0,
+    ties = 0;
+  const playedMatches = matches.filter((match) => {
+    const matchEvents = sourceEvents.filter((e) => e.matchId === match.id);
+    const wasPlayed =
+      isMatchCompleted(match.status) ||
+      !!match.completed ||
+      matchEvents.length > 0 ||
+      (!!match.manualStats && match.manualStats.shots > 0);
+    if (!wasPlayed) return false;
+
+    const settings = getPeriodSettings(competitions.find((c) => c.id === match.competitionId));
+    const seconds = getGoalieTimeOnIce(match, matchEvents, settings)[goalieId] || 0;
+    secondsPlayed += seconds;
+
+    // Decision for the goalie of record
+    const decision = getGoalieDecision(match, goalieId, matchEvents, settings, decisionContext);
+    if (decision === "W") wins++;
+    else if (decision === "L") losses++;
+    else if (decision === "OTL") otLosses++;
+    else if (decision === "SOL") shootoutLosses++;
+    else if (decision === "T") ties++;
+
+    return seconds > 0;
+  });
+
   // Calculate from events
   let totalShots = relevantEvents.filter(
     (e) => e.result === "save" || e.result === "goal"
@@ -639,13 +1228,14 @@ export function calculateGoalieStats(
 
   relevantEvents.forEach((e) => {
     if (e.result === "save" || e.result === "goal") {
-      if (e.situation === "even" || !e.situation) {
+      const split = getStrengthSplit(e.situation);
+      if (split === "even") {
         shotsEven++;
         if (e.result === "save") savesEven++;
-      } else if (e.situation === "powerplay") {
+      } else if (split === "powerplay") {
         shotsPP++;
         if (e.result === "save") savesPP++;
-      } else if (e.situation === "shorthanded") {
+      } else {
         shotsSH++;
         if (e.result === "save") savesSH++;
       }
@@ -678,9 +1268,20 @@ export function calculateGoalieStats(
   });
 
   const savePercentage = totalShots > 0 ? (totalSaves / totalShots) * 100 : 0;
-
-  // Count shutouts
-  const shutouts = matches.filter((match) => {
+  const xg = getXgSummary(relevantEvents, xgModel || getXgModel(sourceEvents));
+  const danger = getDangerBreakdown(relevantEvents);
+
+  // Shootout and penalty shots are kept apart from the event totals
+  const attempts = matches.flatMap((m) => m.shotAttempts || []).filter((a) => a.goalieId === goalieId);
+  const shootout = getShotAttemptSummary(attempts.filter((a) => a.kind === "shootout"));
+  const penaltyShots = getShotAttemptSummary(attempts.filter((a) => a.kind === "penalty_shot"));
+
+  // Count shutouts (only when the goalie played the whole match alone)
+  const shutouts = playedMatches.filter((match) => {
+    if (getMatchGoalieIds(match).length > 1) return false;
+    // Final score catches empty-net goals and goals the tracker missed
+    const shutoutByScore = isTeamShutout(match, getOurSide(match, decisionContext), sourceEvents);
+    if (shutoutByScore === false) return false;
     const matchEvents = relevantEvents.filter((e) => e.matchId === match.id);
     if (matchEvents.length > 0) {
       const goalsAgainst = matchEvents.filter(
@@ -698,24 +1299,42 @@ export function calculateGoalieStats(
     goalieId,
     seasonId: seasonId || "all",
     competitionId,
-    gamesPlayed: matches.length,
+    gamesPlayed: playedMatches.length,
     totalShots,
     totalSaves,
     totalGoals,
     savePercentage,
+    minutesPlayed: Math.round(secondsPlayed / 60),
+    goalsAgainstAverage: getPer60(totalGoals, secondsPlayed),
+    shotsPer60: getPer60(totalShots, secondsPlayed),
+    savesPer60: getPer60(totalSaves, secondsPlayed),
+    expectedGoals: xg.expectedGoals,
+    goalsSavedAboveExpected: xg.goalsSavedAboveExpected,
     shotsEven,
     savesEven,
     shotsPP,
     savesPP,
     shotsSH,
     savesSH,
+    shotsHD: danger.high.shots,
+    savesHD: danger.high.saves,
+    shotsMD: danger.medium.shots,
+    savesMD: danger.medium.saves,
+    shotsLD: danger.low.shots,
+    savesLD: danger.low.saves,
+    shootoutShots: shootout.shots,
+    shootoutSaves: shootout.saves,
+    penaltyShotShots: penaltyShots.shots,
+    penaltyShotSaves: penaltyShots.saves,
     goalsDirect,
     goalsRebound,
     goalsBreakaway,
     shutouts,
-    wins: 0,
-    losses: 0,
-    otLosses: 0,
+    wins,
+    losses,
+    otLosses,
+    shootoutLosses,
+    ties,
     updatedAt: new Date().toISOString(),
   };
 }
@@ -736,6 +1355,7 @@ export function exportData(): ExportBundle {
     events: getEvents(),
     externalMappings: getExternalMappings(),
     standings: getStandings(),
+    club: getClubConfig() || undefined,
   };
 }
 
@@ -754,150 +1374,123 @@ export interface ImportResult {
   errors: string[];
 }
 
-export function importData(
-  bundle: ExportBundle,
-  mode: "merge" | "replace"
-): ImportResult {
-  const result: ImportResult = {
-    success: true,
-    imported: {
-      goalies: 0,
-      teams: 0,
-      seasons: 0,
-      competitions: 0,
-      matches: 0,
-      events: 0,
-      externalMappings: 0,
-      standings: 0,
-    },
-    errors: [],
-  };
-
-  try {
-    // Validate version
-    if (!bundle.version || bundle.version > EXPORT_VERSION) {
-      result.errors.push(
-        `Neplatná verze exportu: ${bundle.version}. Podporovaná verze: ${EXPORT_VERSION}`
-      );
-      result.success = false;
-      return result;
-    }
+// User data (collections, club and sync bookkeeping) - what an import
+// overwrites and what a snapshot saves, always restored together
+const DATA_KEYS: string[] = [
+  STORAGE_KEYS.goalies,
+  STORAGE_KEYS.teams,
+  STORAGE_KEYS.seasons,
+  STORAGE_KEYS.competitions,
+  STORAGE_KEYS.matches,
+  STORAGE_KEYS.events,
+  STORAGE_KEYS.externalMappings,
+  STORAGE_KEYS.standings,
+  STORAGE_KEYS.club,
+  STORAGE_KEYS.dirtyRecords,
+];
+
+// Stored values of DATA_KEYS as they are (null = not set)
+export function getRawData(): Record<string, string | null> {
+  return Object.fromEntries(
+    DATA_KEYS.map((key) => {
+      const cached = collectionCache.get(key);
+      return [key, cached ? JSON.stringify(cached.records) : localStorage.getItem(key)];
+    })
+  );
+}
 
-    if (mode === "replace") {
-      // Clear all data first
-      setItem(STORAGE_KEYS.goalies, []);
-      setItem(STORAGE_KEYS.teams, []);
-      setItem(STORAGE_KEYS.seasons, []);
-      setItem(STORAGE_KEYS.competitions, []);
-      setItem(STORAGE_KEYS.matches, []);
-      setItem(STORAGE_KEYS.events, []);
-      setItem(STORAGE_KEYS.externalMappings, []);
-      setItem(STORAGE_KEYS.standings, []);
-    }
+/**
+ * Put back values from getRawData(). The collections in IndexedDB are
+ * replaced in one transaction; resolves to false when that write fails
+ * and throws when localStorage is full - callers restore the previous values.
+ * Keys the values lack (snapshots older than the key) stay as they are.
+ */
+export async function restoreRawData(values: Record<string, string | null>): Promise<boolean> {
+  const keys = DATA_KEYS.filter((key) => key in values);
+  // Parsed up front, so broken values change nothing
+  const parsed = new Map<string, StoredRecord[]>();
+  keys.forEach((key) => {
+    const value = values[key] ?? null;
+    if (collectionCache.has(key)) parsed.set(key, value === null ? [] : JSON.parse(value));
+  });
 
-    // Import goalies
-    if (bundle.goalies?.length) {
-      const existing = mode === "merge" ? getGoalies() : [];
-      const existingIds = new Set(existing.map((g) => g.id));
-      bundle.goalies.forEach((goalie) => {
-        if (!existingIds.has(goalie.id)) {
-          saveGoalie(goalie);
-          result.imported.goalies++;
-        }
-      });
+  const contents: Partial<Record<LocalDbStore, LocalDbEntry[]>> = {};
+  keys.forEach((key) => {
+    const value = values[key] ?? null;
+    const records = parsed.get(key);
+    if (records) {
+      contents[DB_STORES[key]] = toEntries(cacheCollection(key, records));
+    } else if (value === null) {
+      localStorage.removeItem(key);
+    } else {
+      localStorage.setItem(key, value);
     }
+  });
 
-    // Import teams
-    if (bundle.teams?.length) {
-      const existing = mode === "merge" ? getTeams() : [];
-      const existingIds = new Set(existing.map((t) => t.id));
-      bundle.teams.forEach((team) => {
-        if (!existingIds.has(team.id)) {
-          saveTeam(team);
-          result.imported.teams++;
-        }
-      });
-    }
+  if (Object.keys(contents).length === 0) return true;
+  return persist(() => replaceStores(contents));
+}
 
-    // Import seasons
-    if (bundle.seasons?.length) {
-      const existing = mode === "merge" ? getSeasons() : [];
-      const existingIds = new Set(existing.map((s) => s.id));
-      bundle.seasons.forEach((season) => {
-        if (!existingIds.has(season.id)) {
-          saveSeason(season);
-          result.imported.seasons++;
-        }
-      });
-    }
+/**
+ * Write a resolved import (see importDiff.resolveImport) all at once. When a
+ * write fails, everything is put back as it was. Undoing a finished import
+ * is done with the snapshot taken before it (see snapshots.rollbackImport).
+ */
+export async function importData(plan: ImportPlan): Promise<ImportResult> {
+  const result: ImportResult = {
+    success: true,
+    imported: { ...plan.imported },
+    errors: [],
+  };
 
-    // Import competitions
-    if (bundle.competitions?.length) {
-      const existing = mode === "merge" ? getCompetitions() : [];
-      const existingIds = new Set(existing.map((c) => c.id));
-      bundle.competitions.forEach((competition) => {
-        if (!existingIds.has(competition.id)) {
-          saveCompetition(competition);
-          result.imported.competitions++;
-        }
-      });
-    }
+  // Older bundles must go through validateBundle (migrations) first
+  if (plan.bundle.version !== EXPORT_VERSION) {
+    result.errors.push(
+      `Neplatná verze exportu: ${plan.bundle.version}. Podporovaná verze: ${EXPORT_VERSION}`
+    );
+    result.success = false;
+    return result;
+  }
 
-    // Import matches
-    if (bundle.matches?.length) {
-      const existing = mode === "merge" ? getMatches() : [];
-      const existingIds = new Set(existing.map((m) => m.id));
-      bundle.matches.forEach((match) => {
-        if (!existingIds.has(match.id)) {
-          saveMatch(match);
-          result.imported.matches++;
-        }
-      });
-    }
+  const now = new Date().toISOString();
+  const previous = getRawData();
 
-    // Import events
-    if (bundle.events?.length) {
-      const existing = mode === "merge" ? getEvents() : [];
-      const existingIds = new Set(existing.map((e) => e.id));
-      bundle.events.forEach((event) => {
-        if (!existingIds.has(event.id)) {
-          saveEvent(event);
-          result.imported.events++;
-        }
-      });
-    }
+  const dirty = getDirtyRecords();
+  (Object.keys(plan.dirty) as SyncEntity[]).forEach((entity) => {
+    plan.dirty[entity].forEach((id) => {
+      dirty[entity][id] = now;
+    });
+  });
 
-    // Import external mappings
-    if (bundle.externalMappings?.length) {
-      const existing = mode === "merge" ? getExternalMappings() : [];
-      const existingIds = new Set(existing.map((m) => m.id));
-      bundle.externalMappings.forEach((mapping) => {
-        if (!existingIds.has(mapping.id)) {
-          saveExternalMapping(mapping);
-          result.imported.externalMappings++;
-        }
-      });
-    }
+  let error: unknown = null;
+  try {
+    const saved = await restoreRawData({
+      [STORAGE_KEYS.goalies]: JSON.stringify(plan.bundle.goalies),
+      [STORAGE_KEYS.teams]: JSON.stringify(plan.bundle.teams),
+      [STORAGE_KEYS.seasons]: JSON.stringify(plan.bundle.seasons),
+      [STORAGE_KEYS.competitions]: JSON.stringify(plan.bundle.competitions),
+      [STORAGE_KEYS.matches]: JSON.stringify(plan.bundle.matches),
+      [STORAGE_KEYS.events]: JSON.stringify(plan.bundle.events),
+      [STORAGE_KEYS.externalMappings]: JSON.stringify(plan.bundle.externalMappings || []),
+      [STORAGE_KEYS.standings]: JSON.stringify(plan.bundle.standings || []),
+      // Backups from before the club was exported leave the device's club
+      [STORAGE_KEYS.club]: plan.bundle.club ? JSON.stringify(plan.bundle.club) : previous[STORAGE_KEYS.club],
+      [STORAGE_KEYS.dirtyRecords]: JSON.stringify(dirty),
+    });
+    if (!saved) error = new Error("Zápis do IndexedDB selhal");
+  } catch (err) {
+    error = err;
+  }
 
-    // Import standings
-    if (bundle.standings?.length) {
-      const existing = mode === "merge" ? getStandings() : [];
-      bundle.standings.forEach((standings) => {
-        const existingStandings = existing.find(
-          (s) =>
-            s.competitionId === standings.competitionId &&
-            s.seasonId === standings.seasonId
-        );
-        if (!existingStandings) {
-          saveStandings(standings);
-          result.imported.standings++;
-        }
-      });
+  if (error) {
+    try {
+      await restoreRawData(previous);
+    } catch (err) {
+      console.error("[import] Failed to put the previous data back:", err);
     }
-  } catch (error) {
     result.success = false;
     result.errors.push(
-      `Chyba při importu: ${error instanceof Error ? error.message : "Neznámá chyba"}`
+      `Chyba při importu: ${error instanceof Error ? error.message : "Neznámá chyba"}. Data zůstala beze změny.`
     );
   }
 
@@ -908,10 +1501,23 @@ export function importData(
 // UTILITY FUNCTIONS
 // ═══════════════════════════════════════════════════════════════════════════
 
-export function clearAllData(): void {
+// Signing out keeps the club, the next account on the device would have to
+// pick it again otherwise
+export function clearAllData(options: { keepClub?: boolean } = {}): void {
   Object.values(STORAGE_KEYS).forEach((key) => {
+    // The collections stay in IndexedDB, only emptied
+    if (key === STORAGE_KEYS.storageBackend) return;
+    if (options.keepClub && key === STORAGE_KEYS.club) return;
     localStorage.removeItem(key);
   });
+
+  if (collectionCache.size === 0) return;
+  const contents: Partial<Record<LocalDbStore, LocalDbEntry[]>> = {};
+  collectionCache.forEach((_, key) => {
+    cacheCollection(key, []);
+    contents[DB_STORES[key]] = [];
+  });
+  persist(() => replaceStores(contents));
 }
 
 export function getStorageStats(): {
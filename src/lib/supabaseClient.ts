@@ -59,5 +59,44 @@ export function isSupabaseConfigured(): boolean {
   return supabase !== null;
 }
 
+// ─────────────────────────────────────────────────────────────────────────────
+// Signed-in user
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Kept in sync by the auth listener below (browser only - API routes have no session)
+let currentUserId: string | null = null;
+
+function listenForAuth(): Promise<void> {
+  const client = supabase;
+  if (!client || typeof window === "undefined") return Promise.resolve();
+  return new Promise((resolve) => {
+    client.auth.onAuthStateChange((_event, session) => {
+      currentUserId = session?.user.id ?? null;
+      resolve();
+    });
+  });
+}
+
+const authReady = listenForAuth();
+
+/**
+ * Resolves once the stored session was restored (or found missing)
+ */
+export function whenAuthReady(): Promise<void> {
+  return authReady;
+}
+
+export function getCurrentUserId(): string | null {
+  return currentUserId;
+}
+
+/**
+ * Check if cloud data can be used - Supabase is configured and a user is
+ * signed in. Row level security scopes every query to that user.
+ */
+export function isCloudEnabled(): boolean {
+  return supabase !== null && currentUserId !== null;
+}
+
 // Re-export types for convenience
 export type { SupabaseClient } from "@supabase/supabase-js";
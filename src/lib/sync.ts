@@ -4,14 +4,31 @@
  * Umožňuje:
  * 1. Přenést existující data z localStorage do Supabase
  * 2. Stáhnout data ze Supabase do localStorage
- * 3. Detekovat konflikty a řešit je
+ * 3. Obousměrnou synchronizaci se slučováním změn (syncWithSupabase)
+ * 4. Detekovat konflikty a řešit je
  */
 
-import { supabase, isSupabaseConfigured } from "./supabaseClient";
+import { supabase, isCloudEnabled, isSupabaseConfigured } from "./supabaseClient";
 import * as storage from "./storage";
 import type { Goalie, Match, GoalieEvent, MatchStatus, MatchType, SituationType, GoalZone } from "./types";
 import { v4 as uuidv4 } from "uuid";
 import { normalizeMatchStatus } from "./utils/matchStatus";
+import { appMatchToDbPayload, dbMatchToAppMatch, type DbMatch } from "./repositories/matches";
+import { appGoalieToDbPayload, dbGoalieToAppGoalie, type DbGoalie } from "./repositories/goalies";
+import { appEventToDbRow, dbEventToAppEvent, type DbGoalieEvent } from "./repositories/events";
+import { getGameSheetRoster } from "./gameSheet";
+import {
+  applyConflictValue,
+  isSameValue,
+  mergeEvent,
+  mergeGoalie,
+  mergeMatch,
+  type MatchConflictField,
+  type SyncBase,
+  type SyncChange,
+  type SyncConflict,
+  type SyncEntity,
+} from "./syncMerge";
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Types
@@ -26,6 +43,12 @@ export interface SyncResult {
     competitions: number;
     teams: number;
   };
+  downloaded?: {
+    goalies: number;
+    matches: number;
+    events: number;
+  };
+  conflicts?: number; // Open conflicts after a two-way sync
   errors: string[];
 }
 
@@ -42,6 +65,11 @@ export interface SyncStatus {
     matches: number;
     events: number;
   } | null;
+  pendingChanges: {
+    goalies: number;
+    matches: number;
+    events: number;
+  };
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -64,19 +92,38 @@ function ensureUuid(id: string): string {
 // Check Sync Status
 // ─────────────────────────────────────────────────────────────────────────────
 
+/**
+ * Local records waiting for the next sync (edited, deleted or queued offline)
+ */
+export function getPendingChangeCounts(): SyncStatus["pendingChanges"] {
+  const dirty = storage.getDirtyRecords();
+  const queue = storage.getSyncQueue();
+  const count = (entity: SyncEntity) =>
+    new Set([
+      ...Object.keys(dirty[entity]),
+      ...queue.filter((c) => c.entity === entity).map((c) => c.recordId),
+    ]).size;
+  return { goalies: count("goalie"), matches: count("match"), events: count("event") };
+}
+
+// Row level security lets each user sync only their own data
+const SIGN_IN_REQUIRED = "Pro synchronizaci se přihlas v Nastavení";
+
 export async function getSyncStatus(): Promise<SyncStatus> {
   const localCounts = {
     goalies: storage.getGoalies().length,
     matches: storage.getMatches().length,
     events: storage.getEvents().length,
   };
+  const pendingChanges = getPendingChangeCounts();
 
-  if (!isSupabaseConfigured() || !supabase) {
+  if (!isCloudEnabled() || !supabase) {
     return {
       isConfigured: false,
       lastSync: null,
       localCounts,
       remoteCounts: null,
+      pendingChanges,
     };
   }
 
@@ -96,6 +143,7 @@ export async function getSyncStatus(): Promise<SyncStatus> {
         matches: matchesRes.count || 0,
         events: eventsRes.count || 0,
       },
+      pendingChanges,
     };
   } catch (err) {
     console.error("[sync] Error getting status:", err);
@@ -104,6 +152,7 @@ export async function getSyncStatus(): Promise<SyncStatus> {
       lastSync: null,
       localCounts,
       remoteCounts: null,
+      pendingChanges,
     };
   }
 }
@@ -125,9 +174,13 @@ export async function uploadToSupabase(): Promise<SyncResult> {
     errors: [],
   };
 
-  if (!isSupabaseConfigured() || !supabase) {
+  if (!isCloudEnabled() || !supabase) {
     result.success = false;
-    result.errors.push("Supabase není nakonfigurován. Nastav NEXT_PUBLIC_SUPABASE_URL a NEXT_PUBLIC_SUPABASE_ANON_KEY v .env.local");
+    result.errors.push(
+      isSupabaseConfigured()
+        ? SIGN_IN_REQUIRED
+        : "Supabase není nakonfigurován. Nastav NEXT_PUBLIC_SUPABASE_URL a NEXT_PUBLIC_SUPABASE_ANON_KEY v .env.local"
+    );
     return result;
   }
 
@@ -259,6 +312,10 @@ export async function uploadToSupabase(): Promise<SyncResult> {
           parent_id: c.parentId || null,
           source: c.source || "manual",
           standings_url: c.standingsUrl || null,
+          period_length: c.periodLength ?? null,
+          overtime_length: c.overtimeLength ?? null,
+          intermission_length: c.intermissionLength ?? null,
+          point_system: c.pointSystem || null,
         };
       });
 
@@ -335,6 +392,7 @@ export async function uploadToSupabase(): Promise<SyncResult> {
           photo_url: g.photoUrl || g.photo || g.profilePhotoUrl || null,
           competition_id: isValidUuid(g.competitionId || "") ? g.competitionId : null,
           note: g.note || null,
+          workspace_id: isValidUuid(g.workspaceId || "") ? g.workspaceId : null,
         };
       });
 
@@ -428,6 +486,7 @@ export async function uploadToSupabase(): Promise<SyncResult> {
           status: status as "scheduled" | "in_progress" | "completed" | "cancelled",
           home_score: m.homeScore ?? null,
           away_score: m.awayScore ?? null,
+          result_type: m.resultType || null,
           goalie_id: isValidUuid(goalieId || "") ? goalieId : null,
           source: m.source || "manual",
           external_id: m.externalId || null,
@@ -435,6 +494,11 @@ export async function uploadToSupabase(): Promise<SyncResult> {
           manual_shots: m.manualStats?.shots ?? null,
           manual_saves: m.manualStats?.saves ?? null,
           manual_goals_against: m.manualStats?.goals ?? null, // Fixed: manual_goals_against
+          penalties: m.penalties?.length ? m.penalties : null,
+          goalie_changes: m.goalieChanges?.length ? m.goalieChanges : null,
+          shot_attempts: m.shotAttempts?.length ? m.shotAttempts : null,
+          game_sheet: m.gameSheet || null,
+          share_token: m.shareToken || null,
         };
       });
 
@@ -571,9 +635,9 @@ export async function downloadFromSupabase(): Promise<SyncResult> {
     errors: [],
   };
 
-  if (!isSupabaseConfigured() || !supabase) {
+  if (!isCloudEnabled() || !supabase) {
     result.success = false;
-    result.errors.push("Supabase není nakonfigurován");
+    result.errors.push(isSupabaseConfigured() ? SIGN_IN_REQUIRED : "Supabase není nakonfigurován");
     return result;
   }
 
@@ -642,6 +706,7 @@ export async function downloadFromSupabase(): Promise<SyncResult> {
           completed: isCompleted,
           homeScore: m.home_score ?? undefined,
           awayScore: m.away_score ?? undefined,
+          resultType: m.result_type || undefined,
           goalieId: m.goalie_id || undefined,
           source: m.source || "manual",
           externalId: m.external_id || undefined,
@@ -651,6 +716,12 @@ export async function downloadFromSupabase(): Promise<SyncResult> {
             saves: m.manual_saves || 0,
             goals: m.manual_goals_against || m.manual_goals || 0, // Fixed: manual_goals_against
           } : undefined,
+          penalties: m.penalties || undefined,
+          goalieChanges: m.goalie_changes || undefined,
+          shotAttempts: m.shot_attempts || undefined,
+          gameSheet: m.game_sheet || undefined,
+          roster: m.game_sheet ? getGameSheetRoster(m.game_sheet) : undefined,
+          shareToken: m.share_token || undefined,
           createdAt: m.created_at,
           updatedAt: m.updated_at,
         };
@@ -725,6 +796,464 @@ export async function downloadFromSupabase(): Promise<SyncResult> {
   return result;
 }
 
+// ─────────────────────────────────────────────────────────────────────────────
+// Two-way Sync
+// ─────────────────────────────────────────────────────────────────────────────
+
+// The repository mappers skip undefined values - cleared fields are sent as null
+const NULLABLE_MATCH_COLUMNS = [
+  "venue",
+  "competition_id",
+  "season_id",
+  "goalie_id",
+  "home_score",
+  "away_score",
+  "result_type",
+  "manual_shots",
+  "manual_saves",
+  "manual_goals_against",
+  "penalties",
+  "goalie_changes",
+  "shot_attempts",
+  "game_sheet",
+  "share_token",
+  "external_id",
+  "external_url",
+];
+
+const NULLABLE_GOALIE_COLUMNS = [
+  "birth_year",
+  "team_id",
+  "team_name",
+  "jersey_number",
+  "catch_hand",
+  "photo_url",
+  "competition_id",
+  "note",
+  "workspace_id",
+];
+
+function withNulls(row: Record<string, unknown>, columns: string[]): Record<string, unknown> {
+  columns.forEach((column) => {
+    if (row[column] === undefined) row[column] = null;
+  });
+  return row;
+}
+
+function goalieToRow(goalie: Goalie): Record<string, unknown> {
+  return withNulls({ id: goalie.id, ...appGoalieToDbPayload(goalie) }, NULLABLE_GOALIE_COLUMNS);
+}
+
+function matchToRow(match: Match, remoteGoalieIds: Set<string>): Record<string, unknown> {
+  return withNulls(
+    {
+      id: match.id,
+      ...appMatchToDbPayload(match),
+      home_team_id: isValidUuid(match.homeTeamId || "") ? match.homeTeamId : null,
+      away_team_id: isValidUuid(match.awayTeamId || "") ? match.awayTeamId : null,
+      goalie_id: match.goalieId && remoteGoalieIds.has(match.goalieId) ? match.goalieId : null,
+    },
+    NULLABLE_MATCH_COLUMNS
+  );
+}
+
+function eventToRow(event: GoalieEvent, remoteGoalieIds: Set<string>): Record<string, unknown> {
+  const row = appEventToDbRow(event);
+  return { ...row, goalie_id: row.goalie_id && remoteGoalieIds.has(row.goalie_id) ? row.goalie_id : null };
+}
+
+interface SyncPlan<T> {
+  save: T[]; // Write locally
+  push: T[]; // Upsert to the cloud
+  removeLocal: string[];
+  removeRemote: string[];
+  merged: string[]; // IDs changed on both sides
+}
+
+/**
+ * Decide what happens with every goalie / match on either side.
+ *
+ * `remote` holds the cloud records changed since the last sync (plus the
+ * cloud copies of local pending records), `remoteIds` every ID in the cloud.
+ * Cloud records unknown here are downloaded unless they were deleted here
+ * while offline. Local records missing in the cloud are uploaded, or removed
+ * when the cloud deleted them and they were not edited here since.
+ */
+function planRecords<T extends { id: string }>(
+  entity: SyncEntity,
+  local: T[],
+  remote: T[],
+  remoteIds: Set<string>,
+  pending: Set<string>,
+  base: Record<string, T>,
+  queue: SyncChange[],
+  merge: (local: T, remote: T, base?: T) => { local: T; remote: T },
+  toRow: (record: T) => Record<string, unknown>
+): SyncPlan<T> {
+  const plan: SyncPlan<T> = { save: [], push: [], removeLocal: [], removeRemote: [], merged: [] };
+  // Records with legacy (non-UUID) IDs are left to the one-shot upload
+  const localById = new Map(local.filter((r) => isValidUuid(r.id)).map((r) => [r.id, r]));
+  const remoteById = new Map(remote.map((r) => [r.id, r]));
+  const queuedDeletes = new Set(
+    queue.filter((c) => c.entity === entity && c.op === "delete").map((c) => c.recordId)
+  );
+  const sameRow = (a: T, b: T) => isSameValue(toRow(a), toRow(b));
+
+  for (const [id, localRecord] of localById) {
+    const remoteRecord = remoteById.get(id);
+    const baseRecord = base[id];
+    if (remoteRecord) {
+      const merged = merge(localRecord, remoteRecord, baseRecord);
+      plan.merged.push(id);
+      if (!isSameValue(merged.local, localRecord)) plan.save.push(merged.local);
+      if (!sameRow(merged.remote, remoteRecord)) plan.push.push(merged.remote);
+    } else if (remoteIds.has(id)) {
+      // Unchanged in the cloud and not edited here
+      continue;
+    } else if (baseRecord && (!pending.has(id) || sameRow(localRecord, baseRecord))) {
+      plan.removeLocal.push(id);
+    } else {
+      plan.push.push(localRecord);
+    }
+  }
+
+  for (const remoteRecord of remote) {
+    if (localById.has(remoteRecord.id)) continue;
+    if (queuedDeletes.has(remoteRecord.id)) {
+      plan.removeRemote.push(remoteRecord.id);
+    } else {
+      plan.save.push(remoteRecord);
+    }
+  }
+
+  return plan;
+}
+
+// Keeps request URLs short for `.in("id", ...)` filters
+const ID_CHUNK_SIZE = 100;
+
+async function fetchRows<T>(
+  table: string,
+  options: { since?: string | null; ids?: string[]; columns?: string } = {}
+): Promise<{ data: T[]; error: string | null }> {
+  if (!supabase) return { data: [], error: null };
+  const columns = options.columns || "*";
 
+  if (options.ids) {
+    const data: T[] = [];
+    for (let i = 0; i < options.ids.length; i += ID_CHUNK_SIZE) {
+      const chunk = options.ids.slice(i, i + ID_CHUNK_SIZE);
+      const res = await supabase.from(table).select(columns).in("id", chunk);
+      if (res.error) return { data: [], error: res.error.message };
+      data.push(...((res.data || []) as T[]));
+    }
+    return { data, error: null };
+  }
 
+  const query = supabase.from(table).select(columns);
+  const res = options.since ? await query.gt("updated_at", options.since) : await query;
+  return { data: (res.data || []) as T[], error: res.error?.message || null };
+}
 
+async function upsertRows<T>(
+  table: string,
+  rows: Record<string, unknown>[]
+): Promise<{ data: T[]; error: string | null }> {
+  if (!supabase || rows.length === 0) return { data: [], error: null };
+  const { data, error } = await supabase.from(table).upsert(rows, { onConflict: "id" }).select();
+  return { data: (data || []) as T[], error: error?.message || null };
+}
+
+async function deleteRows(table: string, ids: string[]): Promise<string | null> {
+  if (!supabase || ids.length === 0) return null;
+  const { error } = await supabase.from(table).delete().in("id", ids);
+  return error?.message || null;
+}
+
+/**
+ * Local IDs waiting for the cloud - dirty records and queued offline edits
+ */
+function getPendingIds(entity: SyncEntity, queue: SyncChange[]): Set<string> {
+  return new Set([
+    ...Object.keys(storage.getDirtyRecords()[entity]),
+    ...queue.filter((c) => c.entity === entity && c.op === "upsert").map((c) => c.recordId),
+  ]);
+}
+
+/**
+ * Changed cloud rows since the cursor, plus the cloud copies of pending
+ * local records that did not change there (needed for the merge)
+ */
+async function fetchChanges<T extends { id: string; updated_at: string }>(
+  table: string,
+  since: string | null,
+  pending: Set<string>
+): Promise<{ data: T[]; error: string | null }> {
+  const changed = await fetchRows<T>(table, { since });
+  if (changed.error || !since) return changed;
+  const changedIds = new Set(changed.data.map((row) => row.id));
+  const missing = Array.from(pending).filter((id) => isValidUuid(id) && !changedIds.has(id));
+  const copies = await fetchRows<T>(table, { ids: missing });
+  return { data: [...changed.data, ...copies.data], error: copies.error };
+}
+
+function getLatestUpdatedAt(rows: { updated_at: string }[], current: string | null): string | null {
+  return rows.reduce<string | null>(
+    (latest, row) => (!latest || row.updated_at > latest ? row.updated_at : latest),
+    current
+  );
+}
+
+/**
+ * Two-way sync: merges local and cloud data instead of overwriting either side.
+ *
+ * Only records changed since the last successful sync travel: dirty local
+ * records and offline edits from the change queue are pushed, cloud rows
+ * newer than the sync cursor are downloaded, and records edited on both
+ * sides are merged by the rules in `syncMerge`. Anything that cannot be
+ * merged automatically is stored as a conflict for review in the settings.
+ * Without a cursor (first sync) everything is compared.
+ */
+export async function syncWithSupabase(): Promise<SyncResult> {
+  const downloaded = { goalies: 0, matches: 0, events: 0 };
+  const result: SyncResult = {
+    success: true,
+    uploaded: { goalies: 0, matches: 0, events: 0, competitions: 0, teams: 0 },
+    downloaded,
+    conflicts: 0,
+    errors: [],
+  };
+
+  if (!isCloudEnabled() || !supabase) {
+    result.success = false;
+    result.errors.push(isSupabaseConfigured() ? SIGN_IN_REQUIRED : "Supabase není nakonfigurován");
+    return result;
+  }
+
+  try {
+    const startedAt = new Date().toISOString();
+    const cursor = storage.getSyncCursor();
+    const queue = storage.getSyncQueue();
+    const base = storage.getSyncBase();
+    const previousConflicts = storage.getSyncConflicts();
+    const localGoalies = storage.getGoalies();
+    const localMatches = storage.getMatches();
+    const localEvents = storage.getEvents().filter((e) => isValidUuid(e.id));
+
+    // Full sync compares every local record
+    const pendingGoalies = cursor ? getPendingIds("goalie", queue) : new Set(localGoalies.map((g) => g.id));
+    const pendingMatches = cursor ? getPendingIds("match", queue) : new Set(localMatches.map((m) => m.id));
+    const pendingEvents = cursor ? getPendingIds("event", queue) : new Set(localEvents.map((e) => e.id));
+
+    const [goaliesRes, matchesRes, eventsRes, goalieIdsRes, matchIdsRes] = await Promise.all([
+      fetchChanges<DbGoalie>("goalies", cursor, pendingGoalies),
+      fetchChanges<DbMatch>("matches", cursor, pendingMatches),
+      fetchChanges<DbGoalieEvent>("goalie_events", cursor, pendingEvents),
+      // IDs only - deletions do not show up as changed rows
+      fetchRows<{ id: string }>("goalies", { columns: "id" }),
+      fetchRows<{ id: string }>("matches", { columns: "id" }),
+    ]);
+
+    // Never merge against an incomplete picture of the cloud
+    const fetchError =
+      goaliesRes.error || matchesRes.error || eventsRes.error || goalieIdsRes.error || matchIdsRes.error;
+    if (fetchError) {
+      result.success = false;
+      result.errors.push(`Stažení: ${fetchError}`);
+      return result;
+    }
+
+    const remoteGoalies = goaliesRes.data.map(dbGoalieToAppGoalie);
+    const remoteMatches = matchesRes.data.map(dbMatchToAppMatch);
+    const remoteEvents = eventsRes.data.map(dbEventToAppEvent);
+    const cloudGoalieIds = new Set(goalieIdsRes.data.map((r) => r.id));
+    const cloudMatchIds = new Set(matchIdsRes.data.map((r) => r.id));
+    const nextCursor = getLatestUpdatedAt([...goaliesRes.data, ...matchesRes.data, ...eventsRes.data], cursor);
+
+    const nextBase: SyncBase = { goalies: { ...base.goalies }, matches: { ...base.matches } };
+    const conflicts: SyncConflict[] = [];
+    const now = new Date().toISOString();
+
+    // 1. Goalies
+    const goaliePlan = planRecords<Goalie>(
+      "goalie",
+      localGoalies,
+      remoteGoalies,
+      cloudGoalieIds,
+      pendingGoalies,
+      base.goalies,
+      queue,
+      (local, remote, baseGoalie) => {
+        const merged = mergeGoalie(local, remote, baseGoalie);
+        return { local: merged, remote: merged };
+      },
+      goalieToRow
+    );
+
+    const goalieUpsert = await upsertRows<DbGoalie>("goalies", goaliePlan.push.map(goalieToRow));
+    const goalieDeleteError = await deleteRows("goalies", goaliePlan.removeRemote);
+    if (goalieUpsert.error) result.errors.push(`Goalies: ${goalieUpsert.error}`);
+    if (goalieDeleteError) result.errors.push(`Goalies: ${goalieDeleteError}`);
+
+    const pushedGoalies = new Map(goalieUpsert.data.map((g) => [g.id, dbGoalieToAppGoalie(g)]));
+    for (const goalie of goaliePlan.push) {
+      const pushed = pushedGoalies.get(goalie.id);
+      if (pushed) storage.saveGoalie({ ...goalie, updatedAt: pushed.updatedAt }, { fromSync: true });
+    }
+    goaliePlan.save.forEach((g) => storage.saveGoalie(g, { fromSync: true }));
+    goaliePlan.removeLocal.forEach((id) => storage.deleteGoalie(id));
+    result.uploaded.goalies = pushedGoalies.size;
+    downloaded.goalies = goaliePlan.save.length;
+
+    remoteGoalies.forEach((goalie) => (nextBase.goalies[goalie.id] = goalie));
+    pushedGoalies.forEach((goalie, id) => (nextBase.goalies[id] = goalie));
+    Object.keys(nextBase.goalies).forEach((id) => {
+      if ((!cloudGoalieIds.has(id) && !pushedGoalies.has(id)) || goaliePlan.removeRemote.includes(id)) {
+        delete nextBase.goalies[id];
+      }
+    });
+    const remoteGoalieIds = new Set(Object.keys(nextBase.goalies));
+
+    // 2. Matches (score, result, status and goalie can end up as conflicts)
+    const matchPlan = planRecords<Match>(
+      "match",
+      localMatches,
+      remoteMatches,
+      cloudMatchIds,
+      pendingMatches,
+      base.matches,
+      queue,
+      (local, remote, baseMatch) => {
+        const open = previousConflicts
+          .filter((c) => c.recordId === local.id)
+          .map((c) => c.field as MatchConflictField);
+        const merged = mergeMatch(local, remote, baseMatch, open);
+        merged.conflicts.forEach((c) => {
+          const id = `${c.recordId}:${c.field}`;
+          const previous = previousConflicts.find((p) => p.id === id);
+          conflicts.push({ ...c, id, entity: "match", detectedAt: previous?.detectedAt || now });
+        });
+        return merged;
+      },
+      (match) => matchToRow(match, remoteGoalieIds)
+    );
+
+    const matchUpsert = await upsertRows<DbMatch>(
+      "matches",
+      matchPlan.push.map((m) => matchToRow(m, remoteGoalieIds))
+    );
+    const matchDeleteError = await deleteRows("matches", matchPlan.removeRemote);
+    if (matchUpsert.error) result.errors.push(`Matches: ${matchUpsert.error}`);
+    if (matchDeleteError) result.errors.push(`Matches: ${matchDeleteError}`);
+
+    const pushedMatches = new Map(matchUpsert.data.map((m) => [m.id, dbMatchToAppMatch(m)]));
+    const mergedLocalMatches = new Map(matchPlan.save.map((m) => [m.id, m]));
+    for (const match of matchPlan.push) {
+      const pushed = pushedMatches.get(match.id);
+      if (!pushed) continue;
+      // Conflicted fields keep the local value on this device
+      const local = mergedLocalMatches.get(match.id) || storage.getMatchById(match.id) || match;
+      mergedLocalMatches.set(match.id, { ...local, updatedAt: pushed.updatedAt });
+    }
+    mergedLocalMatches.forEach((m) => storage.saveMatch(m, { fromSync: true }));
+    matchPlan.removeLocal.forEach((id) => storage.deleteMatch(id));
+    result.uploaded.matches = pushedMatches.size;
+    downloaded.matches = matchPlan.save.filter((m) => !pushedMatches.has(m.id)).length;
+
+    remoteMatches.forEach((match) => (nextBase.matches[match.id] = match));
+    pushedMatches.forEach((match, id) => (nextBase.matches[id] = match));
+    Object.keys(nextBase.matches).forEach((id) => {
+      if ((!cloudMatchIds.has(id) && !pushedMatches.has(id)) || matchPlan.removeRemote.includes(id)) {
+        delete nextBase.matches[id];
+      }
+    });
+    const remoteMatchIds = new Set(Object.keys(nextBase.matches));
+
+    // Conflicts of matches that were not merged this time stay open
+    previousConflicts
+      .filter((c) => !matchPlan.merged.includes(c.recordId) && remoteMatchIds.has(c.recordId))
+      .forEach((c) => conflicts.push(c));
+
+    // 3. Events (append-only - only queued offline deletes remove cloud events)
+    const queuedEventDeletes = new Set(
+      queue.filter((c) => c.entity === "event" && c.op === "delete").map((c) => c.recordId)
+    );
+    const remoteEventsById = new Map(remoteEvents.map((e) => [e.id, e]));
+    const localEventIds = new Set(localEvents.map((e) => e.id));
+    const eventsToSave: GoalieEvent[] = [];
+    const eventsToPush: GoalieEvent[] = [];
+
+    for (const local of localEvents) {
+      const remote = remoteEventsById.get(local.id);
+      if (!remote && !pendingEvents.has(local.id)) continue;
+      const merged = remote ? mergeEvent(local, remote) : local;
+      if (!isSameValue(merged, local)) eventsToSave.push(merged);
+      if (!remote || !isSameValue(eventToRow(merged, remoteGoalieIds), eventToRow(remote, remoteGoalieIds))) {
+        // The match has to reach the cloud first
+        if (remoteMatchIds.has(merged.matchId)) eventsToPush.push(merged);
+      }
+    }
+    const eventsToRemove = remoteEvents
+      .filter((e) => !localEventIds.has(e.id) && queuedEventDeletes.has(e.id))
+      .map((e) => e.id);
+    remoteEvents
+      .filter((e) => !localEventIds.has(e.id) && !queuedEventDeletes.has(e.id))
+      .forEach((e) => eventsToSave.push(e));
+
+    const eventUpsert = await upsertRows<DbGoalieEvent>(
+      "goalie_events",
+      eventsToPush.map((e) => eventToRow(e, remoteGoalieIds))
+    );
+    const eventDeleteError = await deleteRows("goalie_events", eventsToRemove);
+    if (eventUpsert.error) result.errors.push(`Events: ${eventUpsert.error}`);
+    if (eventDeleteError) result.errors.push(`Events: ${eventDeleteError}`);
+
+    const pushedEvents = new Map(eventUpsert.data.map((e) => [e.id, dbEventToAppEvent(e)]));
+    const mergedLocalEvents = new Map(eventsToSave.map((e) => [e.id, e]));
+    for (const event of eventsToPush) {
+      const pushed = pushedEvents.get(event.id);
+      if (pushed) mergedLocalEvents.set(event.id, { ...event, updatedAt: pushed.updatedAt });
+    }
+    mergedLocalEvents.forEach((e) => storage.saveEvent(e, { fromSync: true }));
+    result.uploaded.events = pushedEvents.size;
+    downloaded.events = eventsToSave.filter((e) => !pushedEvents.has(e.id)).length;
+
+    // 4. Bookkeeping - pending changes are done once everything went through
+    storage.saveSyncBase(nextBase);
+    storage.saveSyncConflicts(conflicts);
+    result.conflicts = conflicts.length;
+
+    if (result.errors.length === 0) {
+      storage.clearSyncChanges(queue);
+      storage.clearDirtyRecords(startedAt);
+      if (nextCursor) storage.saveSyncCursor(nextCursor);
+      localStorage.setItem("lastSupabaseSync", new Date().toISOString());
+    } else {
+      result.success = false;
+    }
+  } catch (err) {
+    result.success = false;
+    result.errors.push(`Neočekávaná chyba: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  return result;
+}
+
+/**
+ * Resolve a conflict by keeping this device's value or the cloud's.
+ * The picked value is pushed on the next sync.
+ */
+export function resolveSyncConflict(conflictId: string, keep: "local" | "remote"): void {
+  const conflicts = storage.getSyncConflicts();
+  const conflict = conflicts.find((c) => c.id === conflictId);
+  if (!conflict) return;
+
+  const match = storage.getMatchById(conflict.recordId);
+  if (match) {
+    const value = keep === "local" ? conflict.localValue : conflict.remoteValue;
+    const resolved = applyConflictValue(match, conflict.field, value);
+    storage.saveMatch({ ...resolved, updatedAt: new Date().toISOString() }, { fromSync: true });
+    storage.enqueueSyncChange("match", match.id, "upsert");
+  }
+  storage.saveSyncConflicts(conflicts.filter((c) => c.id !== conflictId));
+}
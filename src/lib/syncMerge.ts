@@ -0,0 +1,315 @@
+/**
+ * Sync Merge - deterministic merge rules for the two-way sync
+ *
+ * Records are merged three-way: the local copy, the cloud copy and the
+ * "base" - the version both sides agreed on at the last sync.
+ * - Events are append-only: both sides are unioned and the newer `updatedAt`
+ *   wins, status included - a restore after a synced deletion stays
+ *   restored. Equal times keep a deletion.
+ * - Goalie and match metadata merge field by field. A field changed on one
+ *   side only is taken from that side; changed on both sides, the newer
+ *   record wins (last writer wins).
+ * - Match logs (penalties, goalie changes, shot attempts) merge item by item.
+ * - Score, result, status and the starting goalie are never overwritten
+ *   silently: different edits on both sides become a conflict to review.
+ */
+
+import { getGameSheetRoster } from "./gameSheet";
+import type { Goalie, GoalieEvent, Match } from "./types";
+import { normalizeMatchStatus } from "./utils/matchStatus";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type SyncEntity = "goalie" | "match" | "event";
+
+export type SyncOperation = "upsert" | "delete";
+
+// Local change that has not reached the cloud yet (offline edit)
+export interface SyncChange {
+  entity: SyncEntity;
+  recordId: string;
+  op: SyncOperation;
+  queuedAt: string;
+}
+
+export type MatchConflictField = "homeScore" | "awayScore" | "resultType" | "status" | "goalieId";
+
+export type SyncConflictValue = string | number | null;
+
+export interface SyncConflict {
+  id: string; // `${recordId}:${field}`
+  entity: "match";
+  recordId: string;
+  field: MatchConflictField;
+  localValue: SyncConflictValue;
+  remoteValue: SyncConflictValue;
+  detectedAt: string;
+}
+
+// Last synced versions (device-local)
+export interface SyncBase {
+  goalies: Record<string, Goalie>;
+  matches: Record<string, Match>;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const MATCH_CONFLICT_FIELDS: MatchConflictField[] = [
+  "homeScore",
+  "awayScore",
+  "resultType",
+  "status",
+  "goalieId",
+];
+
+export const MATCH_CONFLICT_FIELD_LABELS: Record<MatchConflictField, string> = {
+  homeScore: "Skóre domácích",
+  awayScore: "Skóre hostů",
+  resultType: "Způsob rozhodnutí",
+  status: "Stav zápasu",
+  goalieId: "Brankář",
+};
+
+// Last-writer-wins fields (everything stored in the cloud except the logs)
+const MATCH_FIELDS: (keyof Match)[] = [
+  "home",
+  "away",
+  "homeTeamId",
+  "homeTeamName",
+  "awayTeamId",
+  "awayTeamName",
+  "matchType",
+  "competitionId",
+  "seasonId",
+  "datetime",
+  "venue",
+  "manualStats",
+  "gameSheet",
+  "shareToken",
+  "source",
+  "externalId",
+  "externalUrl",
+];
+
+const GOALIE_FIELDS: (keyof Goalie)[] = [
+  "firstName",
+  "lastName",
+  "birthYear",
+  "teamId",
+  "teamName",
+  "team",
+  "jerseyNumber",
+  "catchHand",
+  "photoUrl",
+  "competitionId",
+  "note",
+  "workspaceId",
+];
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+// undefined, null and "" are the same "no value" on both sides
+function normalizeValue(value: unknown): unknown {
+  return value === undefined || value === "" ? null : value;
+}
+
+export function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(normalizeValue(a)) === JSON.stringify(normalizeValue(b));
+}
+
+function getTime(value?: string): number {
+  const time = value ? new Date(value).getTime() : 0;
+  return Number.isNaN(time) ? 0 : time;
+}
+
+function getLatest(a?: string, b?: string): string | undefined {
+  return getTime(a) >= getTime(b) ? a : b;
+}
+
+// Ties go to the cloud, so every device resolves them the same way
+export function isLocalNewer(local: { updatedAt?: string }, remote: { updatedAt?: string }): boolean {
+  return getTime(local.updatedAt) > getTime(remote.updatedAt);
+}
+
+function mergeField<T>(local: T, remote: T, base: T | undefined, hasBase: boolean, localNewer: boolean): T {
+  if (isSameValue(local, remote)) return local;
+  if (hasBase && isSameValue(local, base)) return remote;
+  if (hasBase && isSameValue(remote, base)) return local;
+  return localNewer ? local : remote;
+}
+
+/**
+ * Item-by-item merge of a match log (items are matched by ID)
+ */
+export function mergeLog<T extends { id: string }>(
+  local: T[] | undefined,
+  remote: T[] | undefined,
+  base: T[] | undefined,
+  localNewer: boolean
+): T[] | undefined {
+  if (!local && !remote) return undefined;
+  const remoteById = new Map((remote || []).map((item) => [item.id, item]));
+  const baseById = new Map((base || []).map((item) => [item.id, item]));
+  const localIds = new Set((local || []).map((item) => item.id));
+  const merged: T[] = [];
+
+  for (const item of local || []) {
+    const remoteItem = remoteById.get(item.id);
+    const baseItem = baseById.get(item.id);
+    if (!remoteItem) {
+      // Removed in the cloud since the last sync
+      if (baseItem) continue;
+      merged.push(item);
+      continue;
+    }
+    merged.push(mergeField(item, remoteItem, baseItem, !!baseItem, localNewer));
+  }
+
+  for (const item of remote || []) {
+    // Removed locally since the last sync
+    if (localIds.has(item.id) || baseById.has(item.id)) continue;
+    merged.push(item);
+  }
+
+  return merged;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Merge rules
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Events are append-only - only the winner of the same event is picked
+ */
+export function mergeEvent(local: GoalieEvent, remote: GoalieEvent): GoalieEvent {
+  if (isLocalNewer(local, remote)) return local;
+  if (isLocalNewer(remote, local)) return remote;
+  // Same moment on both sides - the deletion is kept
+  return local.status === "deleted" ? local : remote;
+}
+
+export function mergeGoalie(local: Goalie, remote: Goalie, base?: Goalie): Goalie {
+  const localNewer = isLocalNewer(local, remote);
+  const merged: Goalie = { ...local };
+  for (const field of GOALIE_FIELDS) {
+    (merged as unknown as Record<string, unknown>)[field] = mergeField(
+      local[field],
+      remote[field],
+      base?.[field],
+      !!base,
+      localNewer
+    );
+  }
+  merged.photo = merged.photoUrl;
+  merged.profilePhotoUrl = merged.photoUrl;
+  merged.updatedAt = getLatest(local.updatedAt, remote.updatedAt);
+  return merged;
+}
+
+function getMatchFieldValue(match: Match, field: MatchConflictField): Match[MatchConflictField] {
+  if (field !== "status") return match[field];
+  // The cloud stores a completed match as status "completed"
+  const status = normalizeMatchStatus(match.status);
+  return match.completed && status !== "cancelled" ? "completed" : status;
+}
+
+function setMatchFieldValue(match: Match, field: MatchConflictField, value: unknown): void {
+  (match as unknown as Record<string, unknown>)[field] = value ?? undefined;
+  if (field === "status") {
+    match.completed = value === "completed" || value === "cancelled";
+  }
+}
+
+/**
+ * Match with the value the user picked for a conflicted field
+ */
+export function applyConflictValue(match: Match, field: MatchConflictField, value: SyncConflictValue): Match {
+  const resolved: Match = { ...match };
+  setMatchFieldValue(resolved, field, value);
+  return resolved;
+}
+
+function resolveProtectedField(
+  local: unknown,
+  remote: unknown,
+  base: unknown,
+  hasBase: boolean
+): { value: unknown } | null {
+  if (hasBase && isSameValue(local, base)) return { value: remote };
+  if (hasBase && isSameValue(remote, base)) return { value: local };
+  // First sync - a value on one side only is not a conflict
+  if (!hasBase && normalizeValue(local) === null) return { value: remote };
+  if (!hasBase && normalizeValue(remote) === null) return { value: local };
+  return null;
+}
+
+/**
+ * Field-level merge of a match.
+ *
+ * `local` is the version to keep on this device, `remote` the version to
+ * push. They only differ in conflicted fields, where each side keeps its own
+ * value until the user picks one (`openConflicts` = fields still under review).
+ */
+export function mergeMatch(
+  local: Match,
+  remote: Match,
+  base: Match | undefined,
+  openConflicts: MatchConflictField[] = []
+): { local: Match; remote: Match; conflicts: Omit<SyncConflict, "id" | "entity" | "detectedAt">[] } {
+  const localNewer = isLocalNewer(local, remote);
+  const merged: Match = { ...local };
+
+  for (const field of MATCH_FIELDS) {
+    (merged as unknown as Record<string, unknown>)[field] = mergeField(
+      local[field],
+      remote[field],
+      base?.[field],
+      !!base,
+      localNewer
+    );
+  }
+
+  merged.penalties = mergeLog(local.penalties, remote.penalties, base?.penalties, localNewer);
+  merged.goalieChanges = mergeLog(local.goalieChanges, remote.goalieChanges, base?.goalieChanges, localNewer);
+  merged.shotAttempts = mergeLog(local.shotAttempts, remote.shotAttempts, base?.shotAttempts, localNewer);
+  // The roster follows whichever game sheet won
+  if (merged.gameSheet) merged.roster = getGameSheetRoster(merged.gameSheet);
+  merged.updatedAt = getLatest(local.updatedAt, remote.updatedAt);
+
+  const pushed: Match = { ...merged };
+  const conflicts: Omit<SyncConflict, "id" | "entity" | "detectedAt">[] = [];
+
+  for (const field of MATCH_CONFLICT_FIELDS) {
+    const localValue = getMatchFieldValue(local, field);
+    const remoteValue = getMatchFieldValue(remote, field);
+    const resolved = isSameValue(localValue, remoteValue)
+      ? { value: localValue }
+      : openConflicts.includes(field)
+      ? null
+      : resolveProtectedField(localValue, remoteValue, base && getMatchFieldValue(base, field), !!base);
+
+    if (resolved) {
+      setMatchFieldValue(merged, field, resolved.value);
+      setMatchFieldValue(pushed, field, resolved.value);
+      continue;
+    }
+
+    // Each side keeps its own value until the conflict is resolved
+    setMatchFieldValue(merged, field, localValue);
+    setMatchFieldValue(pushed, field, remoteValue);
+    conflicts.push({
+      recordId: local.id,
+      field,
+      localValue: normalizeValue(localValue) as SyncConflictValue,
+      remoteValue: normalizeValue(remoteValue) as SyncConflictValue,
+    });
+  }
+
+  return { local: merged, remote: pushed, conflicts };
+}
@@ -0,0 +1,175 @@
+/**
+ * Timeline - match events on the game-time axis
+ *
+ * Everything is placed on elapsed game time in seconds (0 = opening
+ * face-off), the same axis penalties and goalie time on ice use.
+ */
+
+import type { GoalieEvent, Match, Period } from "./types";
+import { getPeriodLengthMs, toElapsedSeconds, type PeriodSettings } from "./gameClock";
+import { getMatchEndElapsed, getSortedGoalieChanges } from "./goalieChanges";
+import { PENALTY_TYPE_LABELS } from "./penalties";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type TimelineMarkerType = "goal" | "penalty" | "goalie_change";
+
+export interface TimelineMarker {
+  type: TimelineMarkerType;
+  at: number; // Elapsed seconds
+  period: Period;
+  gameTime: string;
+  label: string;
+}
+
+// Cumulative counts right after a shot
+export interface TimelinePoint {
+  at: number;
+  shots: number;
+  goals: number;
+}
+
+export interface TimelinePeriod {
+  period: Period;
+  start: number;
+  end: number;
+  shots: number;
+  goals: number;
+}
+
+export interface MatchTimeline {
+  points: TimelinePoint[];
+  markers: TimelineMarker[];
+  periods: TimelinePeriod[];
+  end: number; // Right edge of the axis
+}
+
+export type PressureLevel = "low" | "medium" | "high";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const PRESSURE_WINDOW_SECONDS = 300;
+
+// Shots on goal in the window
+const PRESSURE_MEDIUM = 3;
+const PRESSURE_HIGH = 6;
+
+function isShotOnGoal(event: GoalieEvent): boolean {
+  return (event.result === "save" || event.result === "goal") && event.status !== "deleted";
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Timeline
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function buildMatchTimeline(
+  match: Match,
+  events: GoalieEvent[],
+  settings: PeriodSettings
+): MatchTimeline {
+  const shots = events
+    .filter(isShotOnGoal)
+    .map((e) => ({ event: e, at: toElapsedSeconds(e.period, e.gameTime, settings) }))
+    .sort((a, b) => a.at - b.at);
+
+  let shotCount = 0;
+  let goalCount = 0;
+  const points: TimelinePoint[] = shots.map(({ event, at }) => {
+    shotCount++;
+    if (event.result === "goal") goalCount++;
+    return { at, shots: shotCount, goals: goalCount };
+  });
+
+  const markers: TimelineMarker[] = [
+    ...shots
+      .filter(({ event }) => event.result === "goal")
+      .map(({ event, at }) => ({
+        type: "goal" as const,
+        at,
+        period: event.period,
+        gameTime: event.gameTime,
+        label: "Gól",
+      })),
+    ...(match.penalties || []).map((p) => ({
+      type: "penalty" as const,
+      at: toElapsedSeconds(p.period, p.gameTime, settings),
+      period: p.period,
+      gameTime: p.gameTime,
+      label: `${p.team === "our" ? "Náš trest" : "Trest soupeře"} ${PENALTY_TYPE_LABELS[p.type]}`,
+    })),
+    ...getSortedGoalieChanges(match).map((c) => ({
+      type: "goalie_change" as const,
+      at: toElapsedSeconds(c.period, c.gameTime, settings),
+      period: c.period,
+      gameTime: c.gameTime,
+      label: c.goalieId ? "Střídání brankáře" : "Brankář odvolán",
+    })),
+  ].sort((a, b) => a.at - b.at);
+
+  // Axis: regulation, plus overtime when it was played
+  const periodSeconds = getPeriodLengthMs(1, settings) / 1000;
+  const regulation = periodSeconds * 3;
+  const matchEnd = getMatchEndElapsed(match, events, settings);
+  const hasOvertime = matchEnd > regulation || shots.some(({ event }) => event.period === "OT");
+  const end = hasOvertime ? regulation + getPeriodLengthMs("OT", settings) / 1000 : regulation;
+
+  const periodList: Period[] = hasOvertime ? [1, 2, 3, "OT"] : [1, 2, 3];
+  const periods: TimelinePeriod[] = periodList.map((period, i) => {
+    const inPeriod = shots.filter(({ event }) => event.period === period);
+    return {
+      period,
+      start: periodSeconds * i,
+      end: period === "OT" ? end : periodSeconds * (i + 1),
+      shots: inPeriod.length,
+      goals: inPeriod.filter(({ event }) => event.result === "goal").length,
+    };
+  });
+
+  return { points, markers, periods, end };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Pressure
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Shots on goal in the window ending at `at` (default: last 5 minutes)
+ */
+export function getShotsInWindow(
+  events: GoalieEvent[],
+  settings: PeriodSettings,
+  at: number,
+  windowSeconds: number = PRESSURE_WINDOW_SECONDS
+): number {
+  return events.filter((e) => {
+    if (!isShotOnGoal(e)) return false;
+    const shotAt = toElapsedSeconds(e.period, e.gameTime, settings);
+    return shotAt <= at && shotAt > at - windowSeconds;
+  }).length;
+}
+
+export function getPressureLevel(shots: number): PressureLevel {
+  if (shots >= PRESSURE_HIGH) return "high";
+  if (shots >= PRESSURE_MEDIUM) return "medium";
+  return "low";
+}
+
+/**
+ * Highest pressure of the match and when it peaked (for the post-game view)
+ */
+export function getPeakPressure(
+  events: GoalieEvent[],
+  settings: PeriodSettings
+): { shots: number; period?: Period; gameTime?: string } {
+  let peak: { shots: number; period?: Period; gameTime?: string } = { shots: 0 };
+  for (const e of events.filter(isShotOnGoal)) {
+    const at = toElapsedSeconds(e.period, e.gameTime, settings);
+    const shots = getShotsInWindow(events, settings, at);
+    if (shots > peak.shots) peak = { shots, period: e.period, gameTime: e.gameTime };
+  }
+  return peak;
+}
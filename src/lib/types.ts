@@ -2,6 +2,8 @@
 // GOALIE TRACKER - TYPE DEFINITIONS
 // ═══════════════════════════════════════════════════════════════════════════
 
+import type { ClubConfig } from "./club";
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Basic enums and types
 // ─────────────────────────────────────────────────────────────────────────────
@@ -18,6 +20,7 @@ export type ShotZone =
 export type ResultType = "save" | "goal" | "miss";
 export type SaveType = "catch" | "rebound";
 export type GoalType = "direct" | "rebound" | "breakaway";
+export type DangerLevel = "high" | "medium" | "low"; // Shot danger tier (home plate model)
 export type SituationType = "even" | "pp" | "sh" | "4v4" | "3v3" | "powerplay" | "shorthanded"; // "powerplay" and "shorthanded" are legacy
 
 // NEW: Input source for events (how the event was recorded)
@@ -40,8 +43,17 @@ export type LegacyMatchStatus = "open" | "closed";
 export type AnyMatchStatus = MatchStatus | LegacyMatchStatus;
 
 export type MatchType = "league" | "friendly" | "tournament" | "cup";
+
+// How the match was decided (final score includes the overtime/shootout winner)
+export type MatchResultType = "regulation" | "overtime" | "shootout";
+
+// Goalie decision: win, loss, overtime loss, shootout loss, tie
+export type GoalieDecision = "W" | "L" | "OTL" | "SOL" | "T";
 export type MatchSource = "manual" | "imported" | "ceskyhokej";
 
+// Websites the scraper providers read (src/lib/scrapers)
+export type ScraperSource = "ceskyhokej" | "ustecky" | "litomerice";
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Position types
 // ─────────────────────────────────────────────────────────────────────────────
@@ -105,6 +117,7 @@ export interface Goalie {
   photoUrl?: string; // Maps to photo_url in DB
   competitionId?: string; // NEW: FK to competitions
   note?: string; // Notes about goalie
+  workspaceId?: string; // Club workspace, none = personal goalie
   createdAt: string;
   updatedAt?: string;
 }
@@ -145,8 +158,12 @@ export interface Competition {
   externalId?: string; // competitionId ze svazu
   leagueFilter?: string; // league_XXX filter for zapasy.ceskyhokej.cz
   parentId?: string; // Parent competition ID (e.g., base -> playoff)
-  source?: "ceskyhokej" | "manual";
+  source?: ScraperSource | "manual"; // Provider used to import its matches
   standingsUrl?: string; // External URL to standings on ceskyhokej.cz
+  periodLength?: number; // Period length in minutes (default by category)
+  overtimeLength?: number; // Overtime length in minutes (0 = no overtime)
+  intermissionLength?: number; // Intermission length in minutes
+  pointSystem?: PointSystemId; // Points for computed standings (default 3-2-1-0)
   createdAt?: string;
   updatedAt?: string;
 }
@@ -188,6 +205,102 @@ export interface MatchRoster {
   goalScorers: GoalScorer[];
 }
 
+// Team side as written on the official game sheet
+export type GameSheetSide = "home" | "away";
+
+// Goal from the game sheet
+export interface GameSheetGoal {
+  period: Period;
+  time: string; // "07:34" - elapsed time in the period (the sheet counts up)
+  side: GameSheetSide;
+  scorer: string;
+  assists: string[];
+  situation?: string; // As on the sheet, e.g. "PP1", "SH", "EN"
+}
+
+export interface GameSheetPenalty {
+  period: Period;
+  time: string; // Elapsed time in the period
+  side: GameSheetSide;
+  player: string;
+  minutes: number;
+  reason?: string;
+}
+
+// Official goalie line - shots on goal as counted by the officials
+export interface GameSheetGoalie {
+  side: GameSheetSide;
+  name: string;
+  number?: number;
+  shotsAgainst: number;
+  saves: number;
+  goalsAgainst: number;
+  timeOnIce?: string; // "60:00"
+}
+
+// Official game sheet (zápis o utkání), imported after the match
+export interface GameSheet {
+  source: ScraperSource;
+  sourceUrl?: string;
+  externalMatchId?: string;
+  ourSide?: GameSheetSide; // Unset when our club was not recognized
+  homeScore: number;
+  awayScore: number;
+  goals: GameSheetGoal[];
+  penalties: GameSheetPenalty[];
+  goalies: GameSheetGoalie[];
+  homePlayers: RosterPlayer[];
+  awayPlayers: RosterPlayer[];
+  scrapedAt: string;
+}
+
+// Penalty team from the tracked goalie's perspective
+export type PenaltyTeam = "our" | "opponent";
+
+// Penalty length class (misconduct does not affect manpower)
+export type PenaltyType = "minor" | "double_minor" | "major" | "misconduct";
+
+// Penalty logged during live tracking
+export interface Penalty {
+  id: string;
+  team: PenaltyTeam;
+  playerNumber?: number;
+  type: PenaltyType;
+  period: Period;
+  gameTime: string; // "14:32" - remaining time in period when called
+  endedPeriod?: Period; // Set when the penalty was ended manually (e.g. PP goal by our team)
+  endedGameTime?: string;
+  createdAt: string;
+}
+
+// Goalie change logged during live tracking.
+// From this moment `goalieId` is in net, null = goalie pulled (empty net).
+export interface GoalieChange {
+  id: string;
+  goalieId: string | null;
+  period: Period;
+  gameTime: string; // "14:32" - remaining time in period
+  createdAt: string;
+}
+
+// One-on-one attempt against our goalie: shootout round or penalty shot.
+// Kept out of the event log so it does not affect regular-time stats.
+export type ShotAttemptKind = "shootout" | "penalty_shot";
+export type ShootoutMove = "deke" | "shot" | "backhand" | "other";
+
+export interface ShotAttempt {
+  id: string;
+  kind: ShotAttemptKind;
+  goalieId: string;
+  shooterNumber?: number;
+  move: ShootoutMove;
+  target?: ShotTargetZone;
+  result: ResultType; // "miss" = shooter missed the net
+  period?: Period; // Penalty shots only
+  gameTime?: string;
+  createdAt: string;
+}
+
 // Match entity
 export interface Match {
   id: string;
@@ -220,6 +333,7 @@ export interface Match {
   // Scores
   homeScore?: number;
   awayScore?: number;
+  resultType?: MatchResultType; // Unset = regulation (or overtime when OT events exist)
   
   // Goalie assignment
   goalieId?: string;
@@ -232,6 +346,7 @@ export interface Match {
   
   // Roster and goal scorers
   roster?: MatchRoster;
+  gameSheet?: GameSheet; // Official game sheet, source of the roster
   
   // Manual stats entry (when no detailed tracking)
   manualStats?: {
@@ -240,6 +355,18 @@ export interface Match {
     goals: number; // Maps to manual_goals_against in DB
   };
   
+  // Penalty log from live tracking
+  penalties?: Penalty[];
+  
+  // Goalie changes / pulled goalie (goalieId is the starting goalie)
+  goalieChanges?: GoalieChange[];
+  
+  // Shootout and penalty shot attempts against our goalie
+  shotAttempts?: ShotAttempt[];
+  
+  // Public read-only live page (/live/[shareToken]), removed when revoked
+  shareToken?: string;
+  
   // Timestamps
   createdAt?: string;
   updatedAt?: string;
@@ -286,6 +413,10 @@ export interface GoalieEvent {
 // Competition Standings
 // ─────────────────────────────────────────────────────────────────────────────
 
+// Points per result: regulation win - OT/shootout win - OT/shootout loss - loss,
+// "2-1-0" and "3-1-0" leagues play no overtime and know draws
+export type PointSystemId = "3-2-1-0" | "2-1-0" | "3-1-0";
+
 // Row in standings table
 export interface StandingsRow {
   position: number;
@@ -302,6 +433,7 @@ export interface StandingsRow {
   goalDifference?: number;
   points: number;
   isOurTeam?: boolean; // Highlight our team
+  tiebreak?: string; // Computed standings: what decided a tie on points
 }
 
 // Full standings for a competition
@@ -311,6 +443,7 @@ export interface CompetitionStandings {
   competitionName?: string; // Human-readable name of the competition
   seasonId: string; // Reference to Season.id
   externalCompetitionId?: string; // External ID from ceskyhokej.cz
+  source?: ScraperSource | "computed"; // Where the table comes from
   updatedAt: string;
   rows: StandingsRow[];
 }
@@ -333,6 +466,15 @@ export interface GoalieSeasonStats {
   savePercentage: number;
   minutesPlayed?: number; // NEW
   
+  // Time-on-ice rates (per 60 minutes in net)
+  goalsAgainstAverage?: number;
+  shotsPer60?: number;
+  savesPer60?: number;
+  
+  // Expected goals (tracked shots only, manual stats have no shot locations)
+  expectedGoals?: number;
+  goalsSavedAboveExpected?: number;
+  
   // NEW: Situation breakdown
   shotsEven?: number;
   savesEven?: number;
@@ -341,6 +483,20 @@ export interface GoalieSeasonStats {
   shotsSH?: number;
   savesSH?: number;
   
+  // Danger tier breakdown (high / medium / low)
+  shotsHD?: number;
+  savesHD?: number;
+  shotsMD?: number;
+  savesMD?: number;
+  shotsLD?: number;
+  savesLD?: number;
+  
+  // Shootout / penalty shots (not included in the totals above)
+  shootoutShots?: number;
+  shootoutSaves?: number;
+  penaltyShotShots?: number;
+  penaltyShotSaves?: number;
+  
   // NEW: Goal type breakdown
   goalsDirect?: number;
   goalsRebound?: number;
@@ -351,6 +507,8 @@ export interface GoalieSeasonStats {
   wins: number;
   losses: number;
   otLosses: number;
+  shootoutLosses?: number;
+  ties?: number;
   
   updatedAt?: string; // NEW
 }
@@ -372,7 +530,7 @@ export interface ExternalMapping {
 
 // Export bundle for backup/restore
 export interface ExportBundle {
-  version: 1;
+  version: number; // Format version, older bundles are migrated on import
   exportedAt: string;
   goalies: Goalie[];
   teams: Team[];
@@ -383,6 +541,7 @@ export interface ExportBundle {
   externalMappings?: ExternalMapping[];
   goalieSeasonStats?: GoalieSeasonStats[];
   standings?: CompetitionStandings[]; // NEW
+  club?: ClubConfig; // Club picked in the onboarding
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -406,8 +565,9 @@ export interface ImportConfig {
 
 // NEW: Scraped match draft (for import wizard)
 export interface ScrapedMatchDraft {
-  source: "ceskyhokej" | "other";
+  source: ScraperSource | "other";
   sourceUrl?: string;
+  detailUrl?: string; // Match page with the game sheet
   
   // Extracted data
   homeTeamName: string;
@@ -0,0 +1,144 @@
+/**
+ * Undo History - multi-level undo/redo for live tracking
+ *
+ * Every tracker action is stored with enough data to apply it in both
+ * directions. Events are never removed by undo: undoing an added event
+ * soft-deletes it (status "deleted"), undoing an edit writes back the
+ * previous version including its `status` / `originalEventId`, so the
+ * edit trail stays consistent with what the user sees.
+ *
+ * The history is device-local (keyed by match ID) and persisted next to
+ * the game clock, so it survives a page reload.
+ */
+
+import type { GoalieEvent, Period, SituationType } from "./types";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type TrackerAction =
+  | { type: "add_event"; event: GoalieEvent } // Event as saved
+  | { type: "edit_event"; before: GoalieEvent; after: GoalieEvent }
+  | { type: "delete_event"; event: GoalieEvent } // Event before deletion
+  | { type: "period_change"; from: Period; to: Period }
+  | { type: "situation_change"; from: SituationType; to: SituationType };
+
+export type UndoDirection = "undo" | "redo";
+
+export interface UndoHistoryState {
+  matchId: string;
+  past: TrackerAction[]; // Oldest first
+  future: TrackerAction[]; // Next redo last
+  updatedAt: string;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+const MAX_HISTORY = 100;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// History (pure - callers persist the returned state)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function createUndoHistory(matchId: string): UndoHistoryState {
+  return { matchId, past: [], future: [], updatedAt: new Date().toISOString() };
+}
+
+/**
+ * Record a new action (drops the redo branch)
+ */
+export function pushAction(state: UndoHistoryState, action: TrackerAction): UndoHistoryState {
+  return {
+    ...state,
+    past: [...state.past, action].slice(-MAX_HISTORY),
+    future: [],
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Take the last action off the stack (null = nothing to undo)
+ */
+export function undoAction(
+  state: UndoHistoryState
+): { state: UndoHistoryState; action: TrackerAction } | null {
+  const action = state.past[state.past.length - 1];
+  if (!action) return null;
+  return {
+    action,
+    state: {
+      ...state,
+      past: state.past.slice(0, -1),
+      future: [...state.future, action],
+      updatedAt: new Date().toISOString(),
+    },
+  };
+}
+
+export function redoAction(
+  state: UndoHistoryState
+): { state: UndoHistoryState; action: TrackerAction } | null {
+  const action = state.future[state.future.length - 1];
+  if (!action) return null;
+  return {
+    action,
+    state: {
+      ...state,
+      past: [...state.past, action],
+      future: state.future.slice(0, -1),
+      updatedAt: new Date().toISOString(),
+    },
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Applying actions
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Event version to save when undoing / redoing an event action (null = not an event action)
+ */
+export function getEventToSave(action: TrackerAction, direction: UndoDirection): GoalieEvent | null {
+  const now = new Date().toISOString();
+  switch (action.type) {
+    case "add_event":
+      return direction === "undo"
+        ? { ...action.event, status: "deleted", updatedAt: now }
+        : { ...action.event, updatedAt: now };
+    case "edit_event":
+      return { ...(direction === "undo" ? action.before : action.after), updatedAt: now };
+    case "delete_event":
+      return direction === "undo"
+        ? { ...action.event, updatedAt: now }
+        : { ...action.event, status: "deleted", updatedAt: now };
+    default:
+      return null;
+  }
+}
+
+function getResultLabel(event: GoalieEvent): string {
+  if (event.result === "save") return "zákrok";
+  if (event.result === "goal") return "gól";
+  return "střela mimo";
+}
+
+/**
+ * Short Czech description for button titles ("Zpět: přidání – gól")
+ */
+export function describeAction(action: TrackerAction): string {
+  switch (action.type) {
+    case "add_event":
+      return `přidání – ${getResultLabel(action.event)}`;
+    case "edit_event":
+      return `úprava – ${getResultLabel(action.after)}`;
+    case "delete_event":
+      return `smazání – ${getResultLabel(action.event)}`;
+    case "period_change":
+      return `změna třetiny (${action.to === "OT" ? "OT" : `${action.to}.`})`;
+    case "situation_change":
+      return "změna situace";
+  }
+}
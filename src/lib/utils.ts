@@ -1,15 +1,34 @@
 import type { Match, GoalieEvent, Goalie } from "./types";
+import { getGoalieTimeOnIce, getPer60, isEmptyNetEvent } from "./goalieChanges";
+import { formatClockTime, type PeriodSettings } from "./gameClock";
+import { getStrengthSplit } from "./penalties";
 
 /**
  * Generate a text report for sharing match statistics
  */
 export function generateMatchReport(
   match: Match,
-  events: GoalieEvent[],
-  goalie?: Goalie | null
+  matchEvents: GoalieEvent[],
+  goalie?: Goalie | null,
+  periodSettings?: PeriodSettings // Enables time on ice and per-60 rates
 ): string {
   const lines: string[] = [];
 
+  // Empty-net goals are not charged to any goalie
+  const emptyNetGoals = matchEvents.filter(
+    (e) => e.result === "goal" && isEmptyNetEvent(match, e)
+  ).length;
+  // With goalie changes, report only what the selected goalie faced
+  const events = matchEvents.filter(
+    (e) =>
+      !isEmptyNetEvent(match, e) &&
+      (!goalie || !match.goalieChanges?.length || e.goalieId === goalie.id)
+  );
+  const secondsPlayed =
+    goalie && periodSettings
+      ? getGoalieTimeOnIce(match, matchEvents, periodSettings)[goalie.id] || 0
+      : 0;
+
   // Header
   lines.push("🥅 GOALIE TRACKER - Zápasová statistika");
   lines.push("═".repeat(35));
@@ -75,25 +94,36 @@ export function generateMatchReport(
   lines.push(`Zákroky: ${saves}`);
   lines.push(`Góly: ${goals}`);
   lines.push(`Save %: ${savePercentage}%`);
+  if (emptyNetGoals > 0) {
+    lines.push(`Góly do prázdné branky: ${emptyNetGoals}`);
+  }
+
+  // Time-on-ice rates
+  if (secondsPlayed > 0) {
+    lines.push(`Čas v bráně: ${formatClockTime(secondsPlayed * 1000)}`);
+    lines.push(`GAA: ${getPer60(goals, secondsPlayed).toFixed(2)}`);
+    lines.push(`Střely / 60: ${getPer60(shots, secondsPlayed).toFixed(1)}`);
+    lines.push(`Zákroky / 60: ${getPer60(saves, secondsPlayed).toFixed(1)}`);
+  }
 
   // Situation breakdown (if events have this data)
   if (events.length > 0) {
     const evenShots = events.filter(
       (e) =>
-        (e.situation === "even" || !e.situation) &&
+        getStrengthSplit(e.situation) === "even" &&
         (e.result === "save" || e.result === "goal")
     );
     const evenSaves = evenShots.filter((e) => e.result === "save").length;
 
     const ppShots = events.filter(
       (e) =>
-        e.situation === "powerplay" && (e.result === "save" || e.result === "goal")
+        getStrengthSplit(e.situation) === "powerplay" && (e.result === "save" || e.result === "goal")
     );
     const ppSaves = ppShots.filter((e) => e.result === "save").length;
 
     const shShots = events.filter(
       (e) =>
-        e.situation === "shorthanded" &&
+        getStrengthSplit(e.situation) === "shorthanded" &&
         (e.result === "save" || e.result === "goal")
     );
     const shSaves = shShots.filter((e) => e.result === "save").length;
@@ -219,6 +249,16 @@ export function formatTime(date: string | Date): string {
   });
 }
 
+/**
+ * Check if a date falls into an inclusive day range ("YYYY-MM-DD", empty = open end)
+ */
+export function isWithinDateRange(date: string | Date, from?: string, to?: string): boolean {
+  const day = new Date(date);
+  if (from && day < new Date(`${from}T00:00:00`)) return false;
+  if (to && day > new Date(`${to}T23:59:59.999`)) return false;
+  return true;
+}
+
 /**
  * Calculate save percentage
  */
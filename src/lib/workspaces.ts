@@ -0,0 +1,122 @@
+/**
+ * Workspaces - club spaces shared by a goalie coach, parents and viewers
+ *
+ * A goalie belongs to one workspace (or is personal). Members have a role in
+ * the workspace: the owner and coaches edit all its goalies, trackers record
+ * matches of their assigned goalies, viewers only read stats. Matches and
+ * events inherit access from their goalie. Supabase policies enforce the same
+ * rules, the helpers below only decide what the UI offers.
+ */
+
+import type { Goalie } from "./types";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type WorkspaceRole = "owner" | "coach" | "tracker" | "viewer";
+
+// Workspace as seen by the signed-in member
+export interface Workspace {
+  id: string;
+  name: string;
+  role: WorkspaceRole;
+  goalieIds: string[]; // Assigned goalies (tracker role)
+}
+
+export interface WorkspaceMember {
+  workspaceId: string;
+  userId: string;
+  email?: string;
+  role: WorkspaceRole;
+  goalieIds: string[];
+  createdAt: string;
+}
+
+export interface WorkspaceInvite {
+  id: string;
+  workspaceId: string;
+  email: string;
+  role: Exclude<WorkspaceRole, "owner">;
+  goalieIds: string[];
+  token: string;
+  createdAt: string;
+}
+
+export type GoalieAccess = "edit" | "track" | "view";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const WORKSPACE_ROLES: WorkspaceRole[] = ["owner", "coach", "tracker", "viewer"];
+
+// Roles an invitation can grant (one owner per workspace)
+export const INVITE_ROLES: WorkspaceInvite["role"][] = ["coach", "tracker", "viewer"];
+
+export const WORKSPACE_ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: "Správce",
+  coach: "Trenér brankářů",
+  tracker: "Zapisovatel",
+  viewer: "Divák",
+};
+
+export const WORKSPACE_ROLE_DESCRIPTIONS: Record<WorkspaceRole, string> = {
+  owner: "Spravuje členy, upravuje všechny brankáře",
+  coach: "Upravuje všechny brankáře a jejich zápasy",
+  tracker: "Zapisuje zápasy přiřazených brankářů",
+  viewer: "Jen prohlíží statistiky",
+};
+
+export const INVITE_PATH_PREFIX = "/invite/";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Access
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * What the signed-in user may do with a goalie. Personal goalies are always
+ * editable - other people's personal goalies never reach this device.
+ */
+export function getGoalieAccess(goalie: Pick<Goalie, "id" | "workspaceId"> | null | undefined, workspaces: Workspace[]): GoalieAccess {
+  if (!goalie?.workspaceId) return "edit";
+  const workspace = workspaces.find((w) => w.id === goalie.workspaceId);
+  // Membership not loaded (offline) or already revoked - nothing to change
+  if (!workspace) return "view";
+  if (canEditWorkspaceGoalies(workspace.role)) return "edit";
+  if (workspace.role === "tracker" && workspace.goalieIds.includes(goalie.id)) return "track";
+  return "view";
+}
+
+export function canEditWorkspaceGoalies(role: WorkspaceRole): boolean {
+  return role === "owner" || role === "coach";
+}
+
+/**
+ * Goalie may go from one workspace (undefined = personal) to another. Taking
+ * a goalie out of a workspace ends its members' access, so only the owner of
+ * both may do it - the database checks the same.
+ */
+export function canMoveGoalie(from: string | undefined, to: string | undefined, workspaces: Workspace[]): boolean {
+  if (from === to) return true;
+  const roleOf = (id?: string) => workspaces.find((w) => w.id === id)?.role;
+  if (!from) {
+    // Personal goalie into a workspace - like creating it there
+    const role = roleOf(to);
+    return !!role && canEditWorkspaceGoalies(role);
+  }
+  return roleOf(from) === "owner" && (!to || roleOf(to) === "owner");
+}
+
+export function canManageMembers(role: WorkspaceRole): boolean {
+  return role === "owner";
+}
+
+// Recording matches: editors and trackers of the goalie
+export function canTrackGoalie(access: GoalieAccess): boolean {
+  return access !== "view";
+}
+
+export function getInvitePath(token: string): string {
+  return `${INVITE_PATH_PREFIX}${token}`;
+}
@@ -0,0 +1,281 @@
+/**
+ * Expected Goals (xG) - probability that a shot on goal becomes a goal
+ *
+ * Logistic model on shot distance and angle (from `ShotPosition`) plus
+ * rebound, screen and manpower flags. The built-in coefficients are used
+ * until there is enough tracked history; then the model is re-fitted on our
+ * own shots, shrunk towards the defaults so a small sample cannot run away.
+ * Fitting is plain Newton iteration without randomness, so the same events
+ * always give the same model.
+ */
+
+import type { GoalieEvent, ShotPosition, ShotZone } from "./types";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface XgModel {
+  intercept: number;
+  distance: number; // Per meter from the goal
+  angle: number; // Per degree off the goal axis
+  rebound: number;
+  screened: number;
+  powerplay: number; // Opponent on the powerplay (we are shorthanded)
+  shorthanded: number; // Opponent shorthanded (we are on the powerplay)
+  sampleSize: number; // Shots the model was fitted on (0 = built-in default)
+}
+
+export interface XgSummary {
+  shots: number; // Shots on goal with xG
+  goals: number;
+  expectedGoals: number;
+  goalsSavedAboveExpected: number; // expectedGoals - goals
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+// ~10 % from 10 m straight on, ~3 % from 20 m, ~30 % from the crease
+export const DEFAULT_XG_MODEL: XgModel = {
+  intercept: -0.4,
+  distance: -0.15,
+  angle: -0.015,
+  rebound: 1.0,
+  screened: 0.5,
+  powerplay: 0.35,
+  shorthanded: -0.2,
+  sampleSize: 0,
+};
+
+const COEFFICIENTS = [
+  "intercept",
+  "distance",
+  "angle",
+  "rebound",
+  "screened",
+  "powerplay",
+  "shorthanded",
+] as const;
+
+// Rink coordinates are 0–100 on both axes (goal line at y = 95, center line at y = 5)
+const GOAL_X = 50;
+const GOAL_Y = 95;
+const METERS_PER_UNIT_X = 0.26; // 26 m wide rink
+const METERS_PER_UNIT_Y = 0.29; // ~26 m from the center line to the goal line
+
+// Shots without coordinates use a typical spot of their zone
+const ZONE_POSITIONS: Record<ShotZone, { x: number; y: number }> = {
+  slot: { x: 50, y: 78 },
+  left_wing: { x: 18, y: 68 },
+  right_wing: { x: 82, y: 68 },
+  blue_line: { x: 50, y: 30 },
+  behind_goal: { x: 50, y: 98 },
+};
+const UNKNOWN_POSITION = { x: 50, y: 65 };
+
+const MIN_TRAINING_SHOTS = 200;
+const MIN_TRAINING_GOALS = 15;
+// Strength of the pull towards the default coefficients
+const PRIOR_WEIGHT = 20;
+const MAX_ITERATIONS = 25;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Features
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Shots that count for xG: on goal, not deleted
+ */
+export function isXgShot(event: GoalieEvent): boolean {
+  return (event.result === "save" || event.result === "goal") && event.status !== "deleted";
+}
+
+/**
+ * Distance (m) and angle (degrees off the goal axis, > 90 behind the goal line)
+ */
+export function getShotGeometry(position?: ShotPosition): { distance: number; angle: number } {
+  const spot =
+    position && Number.isFinite(position.x) && Number.isFinite(position.y)
+      ? position
+      : position?.zone
+      ? ZONE_POSITIONS[position.zone]
+      : UNKNOWN_POSITION;
+
+  const dx = Math.abs(spot.x - GOAL_X) * METERS_PER_UNIT_X;
+  const dy = (GOAL_Y - spot.y) * METERS_PER_UNIT_Y;
+  return {
+    distance: Math.sqrt(dx * dx + dy * dy),
+    angle: (Math.atan2(dx, dy) * 180) / Math.PI,
+  };
+}
+
+function getFeatures(event: GoalieEvent): number[] {
+  const { distance, angle } = getShotGeometry(event.shotPosition);
+  const situation = event.situation;
+  return [
+    1,
+    distance,
+    angle,
+    event.isRebound || event.rebound ? 1 : 0,
+    event.isScreened || event.screenedView ? 1 : 0,
+    situation === "shorthanded" || situation === "sh" ? 1 : 0,
+    situation === "powerplay" || situation === "pp" ? 1 : 0,
+  ];
+}
+
+function toVector(model: XgModel): number[] {
+  return COEFFICIENTS.map((key) => model[key]);
+}
+
+function fromVector(beta: number[], sampleSize: number): XgModel {
+  const model = { sampleSize } as XgModel;
+  COEFFICIENTS.forEach((key, i) => {
+    model[key] = beta[i];
+  });
+  return model;
+}
+
+function sigmoid(z: number): number {
+  return 1 / (1 + Math.exp(-z));
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Model
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Goal probability of a single shot
+ */
+export function getShotXg(event: GoalieEvent, model: XgModel = DEFAULT_XG_MODEL): number {
+  const features = getFeatures(event);
+  const beta = toVector(model);
+  return sigmoid(features.reduce((sum, value, i) => sum + value * beta[i], 0));
+}
+
+// Solve A·x = b (Gaussian elimination with partial pivoting), null if singular
+function solve(a: number[][], b: number[]): number[] | null {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-12) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = m[row][n];
+    for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k];
+    x[row] = sum / m[row][row];
+  }
+  return x;
+}
+
+/**
+ * Fit the model on tracked shots (falls back to the default with too little data).
+ * Empty-net shots are left out, they say nothing about the goalie.
+ */
+export function trainXgModel(events: GoalieEvent[]): XgModel {
+  const shots = events
+    .filter((e) => isXgShot(e) && !!e.goalieId)
+    .sort((a, b) => a.id.localeCompare(b.id));
+  const goals = shots.filter((e) => e.result === "goal").length;
+  if (shots.length < MIN_TRAINING_SHOTS || goals < MIN_TRAINING_GOALS) {
+    return DEFAULT_XG_MODEL;
+  }
+
+  const rows = shots.map(getFeatures);
+  const outcomes = shots.map((e) => (e.result === "goal" ? 1 : 0));
+  const prior = toVector(DEFAULT_XG_MODEL);
+  const size = prior.length;
+  let beta = [...prior];
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    // Gradient and Hessian of the penalized log-likelihood
+    const gradient = beta.map((b, i) => -PRIOR_WEIGHT * (b - prior[i]));
+    const hessian = Array.from({ length: size }, (_, i) =>
+      Array.from({ length: size }, (_, j) => (i === j ? PRIOR_WEIGHT : 0))
+    );
+
+    rows.forEach((x, r) => {
+      const p = sigmoid(x.reduce((sum, value, i) => sum + value * beta[i], 0));
+      const weight = p * (1 - p);
+      for (let i = 0; i < size; i++) {
+        gradient[i] += (outcomes[r] - p) * x[i];
+        for (let j = 0; j < size; j++) hessian[i][j] += weight * x[i] * x[j];
+      }
+    });
+
+    const step = solve(hessian, gradient);
+    if (!step) break;
+    beta = beta.map((b, i) => b + step[i]);
+    if (Math.max(...step.map(Math.abs)) < 1e-6) break;
+  }
+
+  return beta.every(Number.isFinite) ? fromVector(beta, shots.length) : DEFAULT_XG_MODEL;
+}
+
+// Fitting is O(shots) per iteration - reuse the model while the history is unchanged
+let cachedModel: { key: string; model: XgModel } | null = null;
+
+function getHistoryKey(events: GoalieEvent[]): string {
+  let goals = 0;
+  let latest = "";
+  let count = 0;
+  for (const e of events) {
+    if (!isXgShot(e) || !e.goalieId) continue;
+    count++;
+    if (e.result === "goal") goals++;
+    const stamp = e.updatedAt || e.timestamp || "";
+    if (stamp > latest) latest = stamp;
+  }
+  return `${count}:${goals}:${latest}`;
+}
+
+/**
+ * Model for the given event history (cached)
+ */
+export function getXgModel(events: GoalieEvent[]): XgModel {
+  const key = getHistoryKey(events);
+  if (cachedModel?.key !== key) {
+    cachedModel = { key, model: trainXgModel(events) };
+  }
+  return cachedModel.model;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Aggregation
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * xG against and goals saved above expected (GSAx) for a set of events
+ */
+export function getXgSummary(events: GoalieEvent[], model: XgModel = DEFAULT_XG_MODEL): XgSummary {
+  const shots = events.filter(isXgShot);
+  const goals = shots.filter((e) => e.result === "goal").length;
+  const expectedGoals = shots.reduce((sum, e) => sum + getShotXg(e, model), 0);
+  return {
+    shots: shots.length,
+    goals,
+    expectedGoals,
+    goalsSavedAboveExpected: expectedGoals - goals,
+  };
+}
+
+/**
+ * GSAx with sign, e.g. "+1.24" / "-0.80"
+ */
+export function formatGsax(value: number): string {
+  return `${value >= 0 ? "+" : ""}${value.toFixed(2)}`;
+}
@@ -0,0 +1,251 @@
+-- Goalie Tracker - Migration v10
+-- Klubové prostory (workspaces) s rolemi a pozvánkami
+--
+-- Role člena:
+--   owner   - správa členů a pozvánek, úpravy všech brankářů
+--   coach   - úpravy všech brankářů prostoru a jejich zápasů
+--   tracker - zapisuje zápasy jen přiřazeným brankářům (goalie_ids)
+--   viewer  - jen čtení statistik
+--
+-- Brankář patří do prostoru přes goalies.workspace_id, zápasy a události
+-- dědí přístup podle svého brankáře. Týmy a soutěže zůstávají osobní.
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- Tabulky
+-- ─────────────────────────────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS workspaces (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL,
+  created_by UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS workspace_members (
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  email TEXT,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'coach', 'tracker', 'viewer')),
+  goalie_ids UUID[] NOT NULL DEFAULT '{}', -- Přiřazení brankáři (role tracker)
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (workspace_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_members_user ON workspace_members(user_id);
+
+CREATE TABLE IF NOT EXISTS workspace_invites (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('coach', 'tracker', 'viewer')),
+  goalie_ids UUID[] NOT NULL DEFAULT '{}',
+  token TEXT NOT NULL UNIQUE,
+  created_by UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_invites_workspace ON workspace_invites(workspace_id);
+
+ALTER TABLE goalies ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES workspaces(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_goalies_workspace ON goalies(workspace_id);
+
+DROP TRIGGER IF EXISTS update_workspaces_updated_at ON workspaces;
+CREATE TRIGGER update_workspaces_updated_at BEFORE UPDATE ON workspaces
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- Oprávnění (SECURITY DEFINER, aby policies nečetly členy přes vlastní RLS)
+-- ─────────────────────────────────────────────────────────────────────────────
+
+-- Role přihlášeného uživatele v prostoru, NULL = není člen
+CREATE OR REPLACE FUNCTION workspace_role(p_workspace_id UUID)
+RETURNS TEXT AS $$
+  SELECT role FROM workspace_members
+  WHERE workspace_id = p_workspace_id AND user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Přístup k brankáři: 'edit' | 'track' | 'view' | NULL
+CREATE OR REPLACE FUNCTION goalie_access(p_goalie_id UUID)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN g.workspace_id IS NULL THEN CASE WHEN g.owner_id = auth.uid() THEN 'edit' END
+    WHEN m.role IN ('owner', 'coach') THEN 'edit'
+    WHEN m.role = 'tracker' AND g.id = ANY(m.goalie_ids) THEN 'track'
+    WHEN m.role IS NOT NULL THEN 'view'
+    WHEN g.owner_id = auth.uid() THEN 'edit'
+  END
+  FROM goalies g
+  LEFT JOIN workspace_members m ON m.workspace_id = g.workspace_id AND m.user_id = auth.uid()
+  WHERE g.id = p_goalie_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Přístup k zápasu: vlastní zápas bez brankáře, jinak podle brankáře
+CREATE OR REPLACE FUNCTION match_access(p_match_id UUID)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN m.goalie_id IS NOT NULL THEN COALESCE(goalie_access(m.goalie_id), CASE WHEN m.owner_id = auth.uid() THEN 'view' END)
+    WHEN m.owner_id = auth.uid() THEN 'edit'
+  END
+  FROM matches m
+  WHERE m.id = p_match_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- Policies
+-- ─────────────────────────────────────────────────────────────────────────────
+
+-- Brankáři: čte každý s přístupem, upravuje owner/coach prostoru (nebo vlastník osobního)
+DROP POLICY IF EXISTS "Own rows" ON goalies;
+DROP POLICY IF EXISTS "Goalie read" ON goalies;
+DROP POLICY IF EXISTS "Goalie insert" ON goalies;
+DROP POLICY IF EXISTS "Goalie update" ON goalies;
+DROP POLICY IF EXISTS "Goalie delete" ON goalies;
+CREATE POLICY "Goalie read" ON goalies FOR SELECT TO authenticated
+  USING (goalie_access(id) IS NOT NULL);
+CREATE POLICY "Goalie insert" ON goalies FOR INSERT TO authenticated
+  WITH CHECK (owner_id = auth.uid() AND (workspace_id IS NULL OR workspace_role(workspace_id) IN ('owner', 'coach')));
+CREATE POLICY "Goalie update" ON goalies FOR UPDATE TO authenticated
+  USING (goalie_access(id) = 'edit')
+  WITH CHECK (workspace_id IS NULL OR workspace_role(workspace_id) IN ('owner', 'coach'));
+CREATE POLICY "Goalie delete" ON goalies FOR DELETE TO authenticated
+  USING (goalie_access(id) = 'edit');
+
+-- WITH CHECK nevidí původní řádek, přesun hlídá trigger: brankáře z prostoru
+-- odebere nebo přesune jen owner původního i nového prostoru (přesun bere
+-- přístup všem členům), osobního brankáře vloží do prostoru i coach.
+-- Vlastník řádku se nemění. Bez přihlášení (SQL editor) se nekontroluje.
+CREATE OR REPLACE FUNCTION check_goalie_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+  IF NEW.owner_id IS DISTINCT FROM OLD.owner_id THEN
+    RAISE EXCEPTION 'Goalie owner cannot be changed';
+  END IF;
+  IF NEW.workspace_id IS DISTINCT FROM OLD.workspace_id THEN
+    IF OLD.workspace_id IS NOT NULL AND (
+      workspace_role(OLD.workspace_id) IS DISTINCT FROM 'owner'
+      OR (NEW.workspace_id IS NOT NULL AND workspace_role(NEW.workspace_id) IS DISTINCT FROM 'owner')
+    ) THEN
+      RAISE EXCEPTION 'Only the owner of both workspaces can move a goalie';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_goalie_update ON goalies;
+CREATE TRIGGER check_goalie_update BEFORE UPDATE ON goalies
+  FOR EACH ROW EXECUTE FUNCTION check_goalie_update();
+
+-- Zápasy: zapisuje ten, kdo smí brankáře trackovat
+DROP POLICY IF EXISTS "Own rows" ON matches;
+DROP POLICY IF EXISTS "Match read" ON matches;
+DROP POLICY IF EXISTS "Match write" ON matches;
+CREATE POLICY "Match read" ON matches FOR SELECT TO authenticated
+  USING (owner_id = auth.uid() OR goalie_access(goalie_id) IS NOT NULL);
+CREATE POLICY "Match write" ON matches FOR ALL TO authenticated
+  USING (match_access(id) IN ('edit', 'track'))
+  WITH CHECK (
+    CASE WHEN goalie_id IS NULL THEN owner_id = auth.uid()
+    ELSE goalie_access(goalie_id) IN ('edit', 'track') END
+  );
+
+-- Události a statistiky dědí přístup ze zápasu / brankáře
+DROP POLICY IF EXISTS "Own rows" ON goalie_events;
+DROP POLICY IF EXISTS "Event read" ON goalie_events;
+DROP POLICY IF EXISTS "Event write" ON goalie_events;
+CREATE POLICY "Event read" ON goalie_events FOR SELECT TO authenticated
+  USING (match_access(match_id) IS NOT NULL);
+CREATE POLICY "Event write" ON goalie_events FOR ALL TO authenticated
+  USING (match_access(match_id) IN ('edit', 'track'))
+  WITH CHECK (match_access(match_id) IN ('edit', 'track'));
+
+DROP POLICY IF EXISTS "Own rows" ON goalie_stats;
+DROP POLICY IF EXISTS "Stats read" ON goalie_stats;
+DROP POLICY IF EXISTS "Stats write" ON goalie_stats;
+CREATE POLICY "Stats read" ON goalie_stats FOR SELECT TO authenticated
+  USING (goalie_access(goalie_id) IS NOT NULL);
+CREATE POLICY "Stats write" ON goalie_stats FOR ALL TO authenticated
+  USING (goalie_access(goalie_id) IN ('edit', 'track'))
+  WITH CHECK (goalie_access(goalie_id) IN ('edit', 'track'));
+
+-- Prostory a členové
+ALTER TABLE workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workspace_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workspace_invites ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Workspace read" ON workspaces;
+DROP POLICY IF EXISTS "Workspace manage" ON workspaces;
+CREATE POLICY "Workspace read" ON workspaces FOR SELECT TO authenticated
+  USING (workspace_role(id) IS NOT NULL);
+CREATE POLICY "Workspace manage" ON workspaces FOR UPDATE TO authenticated
+  USING (workspace_role(id) = 'owner');
+
+-- Vlastník může smazat prostor
+DROP POLICY IF EXISTS "Workspace delete" ON workspaces;
+CREATE POLICY "Workspace delete" ON workspaces FOR DELETE TO authenticated
+  USING (workspace_role(id) = 'owner');
+
+DROP POLICY IF EXISTS "Member read" ON workspace_members;
+DROP POLICY IF EXISTS "Member manage" ON workspace_members;
+DROP POLICY IF EXISTS "Member leave" ON workspace_members;
+CREATE POLICY "Member read" ON workspace_members FOR SELECT TO authenticated
+  USING (workspace_role(workspace_id) IS NOT NULL);
+CREATE POLICY "Member manage" ON workspace_members FOR UPDATE TO authenticated
+  USING (workspace_role(workspace_id) = 'owner' AND user_id <> auth.uid())
+  WITH CHECK (role <> 'owner');
+CREATE POLICY "Member leave" ON workspace_members FOR DELETE TO authenticated
+  USING (user_id = auth.uid() OR workspace_role(workspace_id) = 'owner');
+
+DROP POLICY IF EXISTS "Invite manage" ON workspace_invites;
+CREATE POLICY "Invite manage" ON workspace_invites FOR ALL TO authenticated
+  USING (workspace_role(workspace_id) = 'owner')
+  WITH CHECK (workspace_role(workspace_id) = 'owner');
+
+-- ─────────────────────────────────────────────────────────────────────────────
+-- Založení prostoru a přijetí pozvánky
+-- ─────────────────────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION create_workspace(p_name TEXT)
+RETURNS UUID AS $$
+DECLARE
+  new_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+  INSERT INTO workspaces (name, created_by) VALUES (p_name, auth.uid()) RETURNING id INTO new_id;
+  INSERT INTO workspace_members (workspace_id, user_id, email, role)
+  VALUES (new_id, auth.uid(), auth.email(), 'owner');
+  RETURN new_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Pozvánka platí jen pro e-mail, na který byla poslána
+CREATE OR REPLACE FUNCTION accept_workspace_invite(p_token TEXT)
+RETURNS UUID AS $$
+DECLARE
+  invite workspace_invites%ROWTYPE;
+BEGIN
+  SELECT * INTO invite FROM workspace_invites WHERE token = p_token;
+  IF invite.id IS NULL THEN
+    RAISE EXCEPTION 'Invite not found';
+  END IF;
+  IF lower(invite.email) <> lower(auth.email()) THEN
+    RAISE EXCEPTION 'Invite is for another email';
+  END IF;
+  INSERT INTO workspace_members (workspace_id, user_id, email, role, goalie_ids)
+  VALUES (invite.workspace_id, auth.uid(), auth.email(), invite.role, invite.goalie_ids)
+  ON CONFLICT (workspace_id, user_id) DO UPDATE
+    SET role = CASE WHEN workspace_members.role = 'owner' THEN 'owner' ELSE EXCLUDED.role END,
+        goalie_ids = EXCLUDED.goalie_ids;
+  DELETE FROM workspace_invites WHERE id = invite.id;
+  RETURN invite.workspace_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION create_workspace(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION accept_workspace_invite(TEXT) TO authenticated;
@@ -0,0 +1,4 @@
+-- Goalie Tracker - Migration v11
+-- Oficiální zápis o utkání (branky, tresty, brankáři, soupisky)
+
+ALTER TABLE matches ADD COLUMN IF NOT EXISTS game_sheet JSONB;
@@ -0,0 +1,4 @@
+-- Goalie Tracker - Migration v12
+-- Bodování soutěže pro tabulku spočítanou ze zápasů
+
+ALTER TABLE competitions ADD COLUMN IF NOT EXISTS point_system TEXT;
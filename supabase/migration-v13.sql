@@ -0,0 +1,54 @@
+-- Goalie Tracker - Migration v13
+-- Živé sledování vrací jen to, co veřejná stránka zobrazuje
+--
+-- get_live_match běží s právy vlastníka a volá ho kdokoli s tokenem přímo
+-- přes anonymní klíč. Dřív vracel celé řádky (owner_id, poznámky, rok
+-- narození, soupisku, zápis) - teď jen vybrané sloupce.
+
+CREATE OR REPLACE FUNCTION get_live_match(p_share_token TEXT)
+RETURNS JSON AS $$
+  SELECT json_build_object(
+    'match', json_build_object(
+      'id', m.id,
+      'home_team_name', m.home_team_name,
+      'away_team_name', m.away_team_name,
+      'datetime', m.datetime,
+      'status', m.status,
+      'home_score', m.home_score,
+      'away_score', m.away_score,
+      'competition_relation', (
+        SELECT json_build_object('category', c.category, 'name', c.name)
+        FROM competitions c WHERE c.id = m.competition_id
+      )
+    ),
+    'events', (
+      SELECT COALESCE(json_agg(json_build_object(
+        'id', e.id,
+        'match_id', e.match_id,
+        'period', e.period,
+        'game_time', e.game_time,
+        'result', e.result,
+        'situation', e.situation,
+        'shot_x', e.shot_x,
+        'shot_y', e.shot_y,
+        'shot_zone', e.shot_zone,
+        'goal_x', e.goal_x,
+        'goal_y', e.goal_y,
+        -- goal_zone chybí ve starších schématech, proto přes to_jsonb
+        'goal_zone', to_jsonb(e) -> 'goal_zone',
+        'status', e.status,
+        'created_at', e.created_at
+      ) ORDER BY e.created_at), '[]'::json)
+      FROM goalie_events e
+      WHERE e.match_id = m.id AND e.status IS DISTINCT FROM 'deleted'
+    ),
+    'goalie', (
+      SELECT json_build_object('id', g.id, 'first_name', g.first_name, 'last_name', g.last_name)
+      FROM goalies g WHERE g.id = m.goalie_id
+    )
+  )
+  FROM matches m
+  WHERE p_share_token IS NOT NULL AND m.share_token = p_share_token;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_live_match(TEXT) TO anon, authenticated;
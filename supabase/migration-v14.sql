@@ -0,0 +1,27 @@
+-- Goalie Tracker - Migration v14
+-- Společný zápis zápasu z více zařízení přes soukromý kanál
+--
+-- Veřejný kanál Realtime mohl s anonymním klíčem a ID zápasu poslouchat
+-- i posílat kdokoli - podvržené události si zařízení uložila a nahrála pod
+-- svým účtem. Aplikace se teď připojuje k soukromému kanálu, do kterého
+-- pustí jen tyto policies.
+--
+-- V Realtime > Settings vypni "Allow public access", aby veřejné kanály
+-- nešly otevřít vůbec.
+
+-- Kanál společného zápisu "live-match:<id zápasu>" je soukromý (Realtime
+-- Authorization): poslouchá, kdo zápas vidí, posílá jen ten, kdo ho smí
+-- zapisovat. Jiný text kanálu nepatří žádnému zápasu.
+CREATE OR REPLACE FUNCTION live_channel_access(p_topic TEXT)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN p_topic ~ '^live-match:[0-9a-fA-F-]{36}$' THEN match_access(substring(p_topic FROM 12)::uuid)
+  END;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP POLICY IF EXISTS "Live channel read" ON realtime.messages;
+DROP POLICY IF EXISTS "Live channel write" ON realtime.messages;
+CREATE POLICY "Live channel read" ON realtime.messages FOR SELECT TO authenticated
+  USING (live_channel_access(realtime.topic()) IS NOT NULL);
+CREATE POLICY "Live channel write" ON realtime.messages FOR INSERT TO authenticated
+  WITH CHECK (live_channel_access(realtime.topic()) IN ('edit', 'track'));
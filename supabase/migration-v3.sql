@@ -0,0 +1,6 @@
+-- Goalie Tracker - Migration v3
+-- Délka třetin, prodloužení a přestávek pro herní čas
+
+ALTER TABLE competitions ADD COLUMN IF NOT EXISTS period_length INTEGER;
+ALTER TABLE competitions ADD COLUMN IF NOT EXISTS overtime_length INTEGER;
+ALTER TABLE competitions ADD COLUMN IF NOT EXISTS intermission_length INTEGER;
@@ -0,0 +1,4 @@
+-- Goalie Tracker - Migration v4
+-- Záznam trestů zápasu (JSONB) pro automatické určení herní situace
+
+ALTER TABLE matches ADD COLUMN IF NOT EXISTS penalties JSONB;
@@ -0,0 +1,4 @@
+-- Goalie Tracker - Migration v5
+-- Střídání brankářů a odvolání brankáře během zápasu (JSONB)
+
+ALTER TABLE matches ADD COLUMN IF NOT EXISTS goalie_changes JSONB;
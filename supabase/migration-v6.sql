@@ -0,0 +1,4 @@
+-- Goalie Tracker - Migration v6
+-- Způsob rozhodnutí zápasu (základní doba / prodloužení / nájezdy) pro bilanci brankáře
+
+ALTER TABLE matches ADD COLUMN IF NOT EXISTS result_type TEXT;
@@ -0,0 +1,4 @@
+-- Goalie Tracker - Migration v7
+-- Samostatné nájezdy a trestná střílení (JSONB, mimo běžné události)
+
+ALTER TABLE matches ADD COLUMN IF NOT EXISTS shot_attempts JSONB;
@@ -0,0 +1,6 @@
+-- Goalie Tracker - Migration v8
+-- Veřejné živé sledování zápasu přes sdílený odkaz (token lze zrušit)
+
+ALTER TABLE matches ADD COLUMN IF NOT EXISTS share_token TEXT;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_matches_share_token
+  ON matches(share_token) WHERE share_token IS NOT NULL;
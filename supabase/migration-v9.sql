@@ -0,0 +1,100 @@
+-- Goalie Tracker - Migration v9
+-- Uživatelské účty (Supabase Auth) a Row Level Security
+--
+-- Každý řádek patří účtu, který ho vytvořil (owner_id = auth.uid()).
+-- Přihlášený uživatel vidí a mění jen svoje data, anonymní klíč bez
+-- přihlášení nevidí nic. Sezóny čte každý přihlášený, mění je jen účet,
+-- který je založil.
+--
+-- Data z doby před účty mají owner_id NULL a nikdo je nevidí. Po první
+-- registraci je přiřaď svému účtu (UUID najdeš v Authentication > Users):
+--
+--   UPDATE teams SET owner_id = '<uuid>' WHERE owner_id IS NULL;
+--   UPDATE competitions SET owner_id = '<uuid>' WHERE owner_id IS NULL;
+--   UPDATE goalies SET owner_id = '<uuid>' WHERE owner_id IS NULL;
+--   UPDATE matches SET owner_id = '<uuid>' WHERE owner_id IS NULL;
+--   UPDATE goalie_events SET owner_id = '<uuid>' WHERE owner_id IS NULL;
+--   UPDATE goalie_stats SET owner_id = '<uuid>' WHERE owner_id IS NULL;
+--   UPDATE external_mappings SET owner_id = '<uuid>' WHERE owner_id IS NULL;
+
+-- Vlastník řádku
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOR t IN SELECT unnest(ARRAY['teams', 'competitions', 'goalies', 'matches', 'goalie_events', 'goalie_stats', 'external_mappings'])
+  LOOP
+    EXECUTE format('ALTER TABLE %s ADD COLUMN IF NOT EXISTS owner_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE', t);
+    EXECUTE format('CREATE INDEX IF NOT EXISTS idx_%s_owner ON %s(owner_id)', t, t);
+  END LOOP;
+END $$;
+
+-- Unikátnost jen v rámci jednoho účtu (dvě rodiny můžou importovat stejný zápas)
+DROP INDEX IF EXISTS idx_teams_name_unique;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_teams_name_unique ON teams(owner_id, name);
+
+DROP INDEX IF EXISTS idx_competitions_external_id_unique;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_competitions_external_id_unique
+  ON competitions(owner_id, external_id) WHERE external_id IS NOT NULL;
+
+DROP INDEX IF EXISTS idx_matches_external_id_unique;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_matches_external_id_unique
+  ON matches(owner_id, external_id) WHERE external_id IS NOT NULL;
+
+ALTER TABLE external_mappings DROP CONSTRAINT IF EXISTS external_mappings_source_external_type_external_id_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_external_mappings_unique
+  ON external_mappings(owner_id, source, external_type, external_id);
+
+-- Jen vlastní řádky. Policies se sčítají, proto pryč i "Allow all for anon"
+-- z příkladu v dřívějším schema.sql - jinak by anonymní klíč měnil všechno
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOR t IN SELECT unnest(ARRAY['teams', 'competitions', 'goalies', 'matches', 'goalie_events', 'goalie_stats', 'external_mappings'])
+  LOOP
+    EXECUTE format('ALTER TABLE %s ENABLE ROW LEVEL SECURITY', t);
+    EXECUTE format('DROP POLICY IF EXISTS "Allow all for anon" ON %s', t);
+    EXECUTE format('DROP POLICY IF EXISTS "Own rows" ON %s', t);
+    EXECUTE format('CREATE POLICY "Own rows" ON %s FOR ALL TO authenticated USING (owner_id = auth.uid()) WITH CHECK (owner_id = auth.uid())', t);
+  END LOOP;
+END $$;
+
+-- Sezóny jsou společné ke čtení, soutěže a zápasy na ně odkazují. Měnit je
+-- smí jen ten, kdo je založil (dřívější sezóny nemá nikdo)
+ALTER TABLE seasons ADD COLUMN IF NOT EXISTS owner_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE seasons ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow all for anon" ON seasons;
+DROP POLICY IF EXISTS "Shared seasons" ON seasons;
+DROP POLICY IF EXISTS "Season read" ON seasons;
+DROP POLICY IF EXISTS "Season insert" ON seasons;
+DROP POLICY IF EXISTS "Season update" ON seasons;
+DROP POLICY IF EXISTS "Season delete" ON seasons;
+CREATE POLICY "Season read" ON seasons FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Season insert" ON seasons FOR INSERT TO authenticated WITH CHECK (owner_id = auth.uid());
+CREATE POLICY "Season update" ON seasons FOR UPDATE TO authenticated
+  USING (owner_id = auth.uid()) WITH CHECK (owner_id = auth.uid());
+CREATE POLICY "Season delete" ON seasons FOR DELETE TO authenticated USING (owner_id = auth.uid());
+
+-- Pohledy respektují RLS volajícího
+ALTER VIEW v_goalies SET (security_invoker = true);
+ALTER VIEW v_matches SET (security_invoker = true);
+ALTER VIEW v_match_stats SET (security_invoker = true);
+
+-- Veřejné živé sledování: divák není přihlášený, dostane jen zápas za tokenem
+CREATE OR REPLACE FUNCTION get_live_match(p_share_token TEXT)
+RETURNS JSON AS $$
+  SELECT json_build_object(
+    'match', to_json(m),
+    'events', (
+      SELECT COALESCE(json_agg(e ORDER BY e.created_at), '[]'::json)
+      FROM goalie_events e
+      WHERE e.match_id = m.id AND e.status IS DISTINCT FROM 'deleted'
+    ),
+    'goalie', (SELECT to_json(g) FROM goalies g WHERE g.id = m.goalie_id)
+  )
+  FROM matches m
+  WHERE p_share_token IS NOT NULL AND m.share_token = p_share_token;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_live_match(TEXT) TO anon, authenticated;
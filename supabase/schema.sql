@@ -20,6 +20,7 @@ CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 
 CREATE TABLE IF NOT EXISTS teams (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  owner_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE, -- Účet (Supabase Auth)
   name TEXT NOT NULL,
   short_name TEXT,
   club_external_id TEXT,        -- ID klubu na svazu (ceskyhokej.cz)
@@ -30,7 +31,7 @@ CREATE TABLE IF NOT EXISTS teams (
 
 -- Index pro vyhledávání podle externího ID
 CREATE INDEX IF NOT EXISTS idx_teams_club_external_id ON teams(club_external_id);
-CREATE UNIQUE INDEX IF NOT EXISTS idx_teams_name_unique ON teams(name);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_teams_name_unique ON teams(owner_id, name);
 
 -- ─────────────────────────────────────────────────────────────────────────────
 -- SEASONS - Sezóny
@@ -46,16 +47,61 @@ CREATE TABLE IF NOT EXISTS seasons (
   end_year INTEGER NOT NULL,
   is_current BOOLEAN DEFAULT FALSE,
   external_id TEXT,              -- ID sezóny na svazu
+  owner_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL, -- Kdo ji založil (smí ji měnit)
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- ─────────────────────────────────────────────────────────────────────────────
+-- WORKSPACES - Klubové prostory (trenér, rodiče, diváci)
+-- ─────────────────────────────────────────────────────────────────────────────
+--
+-- Role člena:
+--   owner   - správa členů a pozvánek, úpravy všech brankářů
+--   coach   - úpravy všech brankářů prostoru a jejich zápasů
+--   tracker - zapisuje zápasy jen přiřazeným brankářům (goalie_ids)
+--   viewer  - jen čtení statistik
+
+CREATE TABLE IF NOT EXISTS workspaces (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL,
+  created_by UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS workspace_members (
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  email TEXT,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'coach', 'tracker', 'viewer')),
+  goalie_ids UUID[] NOT NULL DEFAULT '{}', -- Přiřazení brankáři (role tracker)
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (workspace_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_members_user ON workspace_members(user_id);
+
+CREATE TABLE IF NOT EXISTS workspace_invites (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('coach', 'tracker', 'viewer')),
+  goalie_ids UUID[] NOT NULL DEFAULT '{}',
+  token TEXT NOT NULL UNIQUE,
+  created_by UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_invites_workspace ON workspace_invites(workspace_id);
+
 -- ─────────────────────────────────────────────────────────────────────────────
 -- COMPETITIONS - Soutěže
 -- ─────────────────────────────────────────────────────────────────────────────
 
 CREATE TABLE IF NOT EXISTS competitions (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  owner_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE, -- Účet (Supabase Auth)
   name TEXT NOT NULL,            -- "Liga starších žáků A – Ústecká"
   display_name TEXT,             -- Custom label for UI
   abbreviation TEXT,             -- Abbreviation from zapasy.ceskyhokej.cz
@@ -66,6 +112,10 @@ CREATE TABLE IF NOT EXISTS competitions (
   parent_id UUID REFERENCES competitions(id),
   source TEXT DEFAULT 'manual',  -- "ceskyhokej" | "manual"
   standings_url TEXT,            -- URL na tabulku
+  period_length INTEGER,         -- Délka třetiny v minutách
+  overtime_length INTEGER,       -- Délka prodloužení v minutách (0 = bez prodloužení)
+  intermission_length INTEGER,   -- Délka přestávky v minutách
+  point_system TEXT,             -- Bodování pro spočítanou tabulku ("3-2-1-0" | "2-1-0" | "3-1-0")
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
@@ -75,7 +125,7 @@ CREATE INDEX IF NOT EXISTS idx_competitions_external_id ON competitions(external
 CREATE INDEX IF NOT EXISTS idx_competitions_league_filter ON competitions(league_filter);
 CREATE INDEX IF NOT EXISTS idx_competitions_abbreviation ON competitions(abbreviation);
 CREATE UNIQUE INDEX IF NOT EXISTS idx_competitions_external_id_unique
-  ON competitions(external_id) WHERE external_id IS NOT NULL;
+  ON competitions(owner_id, external_id) WHERE external_id IS NOT NULL;
 
 -- ─────────────────────────────────────────────────────────────────────────────
 -- GOALIES - Brankáři
@@ -83,6 +133,8 @@ CREATE UNIQUE INDEX IF NOT EXISTS idx_competitions_external_id_unique
 
 CREATE TABLE IF NOT EXISTS goalies (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  owner_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE, -- Účet (Supabase Auth)
+  workspace_id UUID REFERENCES workspaces(id) ON DELETE SET NULL, -- Klubový prostor, NULL = osobní
   first_name TEXT NOT NULL,
   last_name TEXT NOT NULL,
   birth_year INTEGER,
@@ -105,6 +157,7 @@ CREATE INDEX IF NOT EXISTS idx_goalies_name ON goalies(last_name, first_name);
 
 CREATE TABLE IF NOT EXISTS matches (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  owner_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE, -- Účet (Supabase Auth)
   
   -- Týmy
   home_team_id UUID REFERENCES teams(id),
@@ -142,6 +195,24 @@ CREATE TABLE IF NOT EXISTS matches (
   manual_saves INTEGER,
   manual_goals_against INTEGER,
   
+  -- Způsob rozhodnutí zápasu: regulation / overtime / shootout
+  result_type TEXT,
+  
+  -- Záznam trestů z live trackingu
+  penalties JSONB,
+  
+  -- Střídání brankářů a odvolání brankáře (goalie_id = nastupující brankář)
+  goalie_changes JSONB,
+  
+  -- Samostatné nájezdy a trestná střílení proti našemu brankáři
+  shot_attempts JSONB,
+  
+  -- Oficiální zápis o utkání (branky se střelci, tresty, brankáři, soupisky)
+  game_sheet JSONB,
+  
+  -- Veřejný odkaz na živé sledování (/live/[share_token]), NULL = nesdíleno
+  share_token TEXT,
+  
   -- Timestamps
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
@@ -152,7 +223,9 @@ CREATE INDEX IF NOT EXISTS idx_matches_goalie ON matches(goalie_id);
 CREATE INDEX IF NOT EXISTS idx_matches_competition ON matches(competition_id);
 CREATE INDEX IF NOT EXISTS idx_matches_external_id ON matches(external_id);
 CREATE UNIQUE INDEX IF NOT EXISTS idx_matches_external_id_unique
-  ON matches(external_id) WHERE external_id IS NOT NULL;
+  ON matches(owner_id, external_id) WHERE external_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_matches_share_token
+  ON matches(share_token) WHERE share_token IS NOT NULL;
 CREATE INDEX IF NOT EXISTS idx_matches_away_team ON matches(away_team_id);
 CREATE INDEX IF NOT EXISTS idx_matches_season_id ON matches(season_id);
 
@@ -162,6 +235,7 @@ CREATE INDEX IF NOT EXISTS idx_matches_season_id ON matches(season_id);
 
 CREATE TABLE IF NOT EXISTS goalie_events (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  owner_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE, -- Účet (Supabase Auth)
   match_id UUID NOT NULL REFERENCES matches(id) ON DELETE CASCADE,
   goalie_id UUID REFERENCES goalies(id),
   
@@ -213,6 +287,7 @@ CREATE INDEX IF NOT EXISTS idx_events_result ON goalie_events(result);
 
 CREATE TABLE IF NOT EXISTS goalie_stats (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  owner_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE, -- Účet (Supabase Auth)
   goalie_id UUID NOT NULL REFERENCES goalies(id) ON DELETE CASCADE,
   season_id TEXT REFERENCES seasons(id),
   competition_id UUID REFERENCES competitions(id),
@@ -258,6 +333,7 @@ CREATE INDEX IF NOT EXISTS idx_stats_goalie ON goalie_stats(goalie_id);
 
 CREATE TABLE IF NOT EXISTS external_mappings (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  owner_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE, -- Účet (Supabase Auth)
   source TEXT NOT NULL,          -- "ceskyhokej" | "other"
   external_type TEXT NOT NULL,   -- "team" | "competition" | "season"
   external_id TEXT NOT NULL,
@@ -265,7 +341,7 @@ CREATE TABLE IF NOT EXISTS external_mappings (
   internal_id TEXT NOT NULL,     -- UUID nebo string ID
   created_at TIMESTAMPTZ DEFAULT NOW(),
   
-  UNIQUE(source, external_type, external_id)
+  UNIQUE(owner_id, source, external_type, external_id)
 );
 
 -- ─────────────────────────────────────────────────────────────────────────────
@@ -285,7 +361,7 @@ DO $$
 DECLARE
   t TEXT;
 BEGIN
-  FOR t IN SELECT unnest(ARRAY['teams', 'seasons', 'competitions', 'goalies', 'matches', 'goalie_events', 'goalie_stats'])
+  FOR t IN SELECT unnest(ARRAY['teams', 'seasons', 'competitions', 'goalies', 'matches', 'goalie_events', 'goalie_stats', 'workspaces'])
   LOOP
     EXECUTE format('DROP TRIGGER IF EXISTS update_%s_updated_at ON %s', t, t);
     EXECUTE format('CREATE TRIGGER update_%s_updated_at BEFORE UPDATE ON %s FOR EACH ROW EXECUTE FUNCTION update_updated_at()', t, t);
@@ -293,23 +369,316 @@ BEGIN
 END $$;
 
 -- ─────────────────────────────────────────────────────────────────────────────
--- ROW LEVEL SECURITY (RLS) - Volitelné
+-- ROW LEVEL SECURITY (RLS)
 -- ─────────────────────────────────────────────────────────────────────────────
 -- 
--- Pro veřejnou aplikaci bez autentizace můžeš nechat RLS vypnuté.
--- Pokud chceš více uživatelů, přidej sloupec user_id a povol RLS.
+-- Každý řádek patří účtu, který ho vytvořil (owner_id = auth.uid()).
+-- Přihlášený uživatel vidí a mění jen svoje data a data klubových prostorů,
+-- kde je členem (podle role). Anonymní klíč bez přihlášení nevidí nic.
+-- Sezóny čte každý přihlášený, mění je jen účet, který je založil.
 --
 
--- Příklad pro jednoduchou aplikaci - povol vše pro anonymní uživatele
--- ALTER TABLE teams ENABLE ROW LEVEL SECURITY;
--- CREATE POLICY "Allow all for anon" ON teams FOR ALL TO anon USING (true);
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOR t IN SELECT unnest(ARRAY['teams', 'competitions', 'goalies', 'matches', 'goalie_events', 'goalie_stats', 'external_mappings'])
+  LOOP
+    EXECUTE format('CREATE INDEX IF NOT EXISTS idx_%s_owner ON %s(owner_id)', t, t);
+    EXECUTE format('ALTER TABLE %s ENABLE ROW LEVEL SECURITY', t);
+    -- Příklad ze starších verzí schématu, policies se sčítají
+    EXECUTE format('DROP POLICY IF EXISTS "Allow all for anon" ON %s', t);
+  END LOOP;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_goalies_workspace ON goalies(workspace_id);
+
+-- Týmy, soutěže a mapování jsou osobní
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOR t IN SELECT unnest(ARRAY['teams', 'competitions', 'external_mappings'])
+  LOOP
+    EXECUTE format('DROP POLICY IF EXISTS "Own rows" ON %s', t);
+    EXECUTE format('CREATE POLICY "Own rows" ON %s FOR ALL TO authenticated USING (owner_id = auth.uid()) WITH CHECK (owner_id = auth.uid())', t);
+  END LOOP;
+END $$;
+
+ALTER TABLE seasons ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow all for anon" ON seasons;
+DROP POLICY IF EXISTS "Shared seasons" ON seasons;
+DROP POLICY IF EXISTS "Season read" ON seasons;
+DROP POLICY IF EXISTS "Season insert" ON seasons;
+DROP POLICY IF EXISTS "Season update" ON seasons;
+DROP POLICY IF EXISTS "Season delete" ON seasons;
+CREATE POLICY "Season read" ON seasons FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Season insert" ON seasons FOR INSERT TO authenticated WITH CHECK (owner_id = auth.uid());
+CREATE POLICY "Season update" ON seasons FOR UPDATE TO authenticated
+  USING (owner_id = auth.uid()) WITH CHECK (owner_id = auth.uid());
+CREATE POLICY "Season delete" ON seasons FOR DELETE TO authenticated USING (owner_id = auth.uid());
+
+-- Oprávnění v klubových prostorech (SECURITY DEFINER, aby policies nečetly
+-- členy přes vlastní RLS)
+
+-- Role přihlášeného uživatele v prostoru, NULL = není člen
+CREATE OR REPLACE FUNCTION workspace_role(p_workspace_id UUID)
+RETURNS TEXT AS $$
+  SELECT role FROM workspace_members
+  WHERE workspace_id = p_workspace_id AND user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Přístup k brankáři: 'edit' | 'track' | 'view' | NULL
+CREATE OR REPLACE FUNCTION goalie_access(p_goalie_id UUID)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN g.workspace_id IS NULL THEN CASE WHEN g.owner_id = auth.uid() THEN 'edit' END
+    WHEN m.role IN ('owner', 'coach') THEN 'edit'
+    WHEN m.role = 'tracker' AND g.id = ANY(m.goalie_ids) THEN 'track'
+    WHEN m.role IS NOT NULL THEN 'view'
+    WHEN g.owner_id = auth.uid() THEN 'edit'
+  END
+  FROM goalies g
+  LEFT JOIN workspace_members m ON m.workspace_id = g.workspace_id AND m.user_id = auth.uid()
+  WHERE g.id = p_goalie_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Přístup k zápasu: vlastní zápas bez brankáře, jinak podle brankáře
+CREATE OR REPLACE FUNCTION match_access(p_match_id UUID)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN m.goalie_id IS NOT NULL THEN COALESCE(goalie_access(m.goalie_id), CASE WHEN m.owner_id = auth.uid() THEN 'view' END)
+    WHEN m.owner_id = auth.uid() THEN 'edit'
+  END
+  FROM matches m
+  WHERE m.id = p_match_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Brankáři: čte každý s přístupem, upravuje owner/coach prostoru (nebo vlastník osobního)
+DROP POLICY IF EXISTS "Own rows" ON goalies;
+DROP POLICY IF EXISTS "Goalie read" ON goalies;
+DROP POLICY IF EXISTS "Goalie insert" ON goalies;
+DROP POLICY IF EXISTS "Goalie update" ON goalies;
+DROP POLICY IF EXISTS "Goalie delete" ON goalies;
+CREATE POLICY "Goalie read" ON goalies FOR SELECT TO authenticated
+  USING (goalie_access(id) IS NOT NULL);
+CREATE POLICY "Goalie insert" ON goalies FOR INSERT TO authenticated
+  WITH CHECK (owner_id = auth.uid() AND (workspace_id IS NULL OR workspace_role(workspace_id) IN ('owner', 'coach')));
+CREATE POLICY "Goalie update" ON goalies FOR UPDATE TO authenticated
+  USING (goalie_access(id) = 'edit')
+  WITH CHECK (workspace_id IS NULL OR workspace_role(workspace_id) IN ('owner', 'coach'));
+CREATE POLICY "Goalie delete" ON goalies FOR DELETE TO authenticated
+  USING (goalie_access(id) = 'edit');
+
+-- WITH CHECK nevidí původní řádek, přesun hlídá trigger: brankáře z prostoru
+-- odebere nebo přesune jen owner původního i nového prostoru (přesun bere
+-- přístup všem členům), osobního brankáře vloží do prostoru i coach.
+-- Vlastník řádku se nemění. Bez přihlášení (SQL editor) se nekontroluje.
+CREATE OR REPLACE FUNCTION check_goalie_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+  IF NEW.owner_id IS DISTINCT FROM OLD.owner_id THEN
+    RAISE EXCEPTION 'Goalie owner cannot be changed';
+  END IF;
+  IF NEW.workspace_id IS DISTINCT FROM OLD.workspace_id THEN
+    IF OLD.workspace_id IS NOT NULL AND (
+      workspace_role(OLD.workspace_id) IS DISTINCT FROM 'owner'
+      OR (NEW.workspace_id IS NOT NULL AND workspace_role(NEW.workspace_id) IS DISTINCT FROM 'owner')
+    ) THEN
+      RAISE EXCEPTION 'Only the owner of both workspaces can move a goalie';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_goalie_update ON goalies;
+CREATE TRIGGER check_goalie_update BEFORE UPDATE ON goalies
+  FOR EACH ROW EXECUTE FUNCTION check_goalie_update();
+
+-- Zápasy: zapisuje ten, kdo smí brankáře trackovat
+DROP POLICY IF EXISTS "Own rows" ON matches;
+DROP POLICY IF EXISTS "Match read" ON matches;
+DROP POLICY IF EXISTS "Match write" ON matches;
+CREATE POLICY "Match read" ON matches FOR SELECT TO authenticated
+  USING (owner_id = auth.uid() OR goalie_access(goalie_id) IS NOT NULL);
+CREATE POLICY "Match write" ON matches FOR ALL TO authenticated
+  USING (match_access(id) IN ('edit', 'track'))
+  WITH CHECK (
+    CASE WHEN goalie_id IS NULL THEN owner_id = auth.uid()
+    ELSE goalie_access(goalie_id) IN ('edit', 'track') END
+  );
+
+-- Události a statistiky dědí přístup ze zápasu / brankáře
+DROP POLICY IF EXISTS "Own rows" ON goalie_events;
+DROP POLICY IF EXISTS "Event read" ON goalie_events;
+DROP POLICY IF EXISTS "Event write" ON goalie_events;
+CREATE POLICY "Event read" ON goalie_events FOR SELECT TO authenticated
+  USING (match_access(match_id) IS NOT NULL);
+CREATE POLICY "Event write" ON goalie_events FOR ALL TO authenticated
+  USING (match_access(match_id) IN ('edit', 'track'))
+  WITH CHECK (match_access(match_id) IN ('edit', 'track'));
+
+DROP POLICY IF EXISTS "Own rows" ON goalie_stats;
+DROP POLICY IF EXISTS "Stats read" ON goalie_stats;
+DROP POLICY IF EXISTS "Stats write" ON goalie_stats;
+CREATE POLICY "Stats read" ON goalie_stats FOR SELECT TO authenticated
+  USING (goalie_access(goalie_id) IS NOT NULL);
+CREATE POLICY "Stats write" ON goalie_stats FOR ALL TO authenticated
+  USING (goalie_access(goalie_id) IN ('edit', 'track'))
+  WITH CHECK (goalie_access(goalie_id) IN ('edit', 'track'));
+
+-- Prostory a členové
+ALTER TABLE workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workspace_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workspace_invites ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Workspace read" ON workspaces;
+DROP POLICY IF EXISTS "Workspace manage" ON workspaces;
+CREATE POLICY "Workspace read" ON workspaces FOR SELECT TO authenticated
+  USING (workspace_role(id) IS NOT NULL);
+CREATE POLICY "Workspace manage" ON workspaces FOR UPDATE TO authenticated
+  USING (workspace_role(id) = 'owner');
+
+-- Vlastník může smazat prostor
+DROP POLICY IF EXISTS "Workspace delete" ON workspaces;
+CREATE POLICY "Workspace delete" ON workspaces FOR DELETE TO authenticated
+  USING (workspace_role(id) = 'owner');
+
+DROP POLICY IF EXISTS "Member read" ON workspace_members;
+DROP POLICY IF EXISTS "Member manage" ON workspace_members;
+DROP POLICY IF EXISTS "Member leave" ON workspace_members;
+CREATE POLICY "Member read" ON workspace_members FOR SELECT TO authenticated
+  USING (workspace_role(workspace_id) IS NOT NULL);
+CREATE POLICY "Member manage" ON workspace_members FOR UPDATE TO authenticated
+  USING (workspace_role(workspace_id) = 'owner' AND user_id <> auth.uid())
+  WITH CHECK (role <> 'owner');
+CREATE POLICY "Member leave" ON workspace_members FOR DELETE TO authenticated
+  USING (user_id = auth.uid() OR workspace_role(workspace_id) = 'owner');
+
+DROP POLICY IF EXISTS "Invite manage" ON workspace_invites;
+CREATE POLICY "Invite manage" ON workspace_invites FOR ALL TO authenticated
+  USING (workspace_role(workspace_id) = 'owner')
+  WITH CHECK (workspace_role(workspace_id) = 'owner');
+
+-- Založení prostoru a přijetí pozvánky
+CREATE OR REPLACE FUNCTION create_workspace(p_name TEXT)
+RETURNS UUID AS $$
+DECLARE
+  new_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+  INSERT INTO workspaces (name, created_by) VALUES (p_name, auth.uid()) RETURNING id INTO new_id;
+  INSERT INTO workspace_members (workspace_id, user_id, email, role)
+  VALUES (new_id, auth.uid(), auth.email(), 'owner');
+  RETURN new_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Pozvánka platí jen pro e-mail, na který byla poslána
+CREATE OR REPLACE FUNCTION accept_workspace_invite(p_token TEXT)
+RETURNS UUID AS $$
+DECLARE
+  invite workspace_invites%ROWTYPE;
+BEGIN
+  SELECT * INTO invite FROM workspace_invites WHERE token = p_token;
+  IF invite.id IS NULL THEN
+    RAISE EXCEPTION 'Invite not found';
+  END IF;
+  IF lower(invite.email) <> lower(auth.email()) THEN
+    RAISE EXCEPTION 'Invite is for another email';
+  END IF;
+  INSERT INTO workspace_members (workspace_id, user_id, email, role, goalie_ids)
+  VALUES (invite.workspace_id, auth.uid(), auth.email(), invite.role, invite.goalie_ids)
+  ON CONFLICT (workspace_id, user_id) DO UPDATE
+    SET role = CASE WHEN workspace_members.role = 'owner' THEN 'owner' ELSE EXCLUDED.role END,
+        goalie_ids = EXCLUDED.goalie_ids;
+  DELETE FROM workspace_invites WHERE id = invite.id;
+  RETURN invite.workspace_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION create_workspace(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION accept_workspace_invite(TEXT) TO authenticated;
+
+-- Veřejné živé sledování: divák není přihlášený, dostane jen zápas za tokenem
+-- a jen sloupce, které veřejná stránka zobrazuje
+CREATE OR REPLACE FUNCTION get_live_match(p_share_token TEXT)
+RETURNS JSON AS $$
+  SELECT json_build_object(
+    'match', json_build_object(
+      'id', m.id,
+      'home_team_name', m.home_team_name,
+      'away_team_name', m.away_team_name,
+      'datetime', m.datetime,
+      'status', m.status,
+      'home_score', m.home_score,
+      'away_score', m.away_score,
+      'competition_relation', (
+        SELECT json_build_object('category', c.category, 'name', c.name)
+        FROM competitions c WHERE c.id = m.competition_id
+      )
+    ),
+    'events', (
+      SELECT COALESCE(json_agg(json_build_object(
+        'id', e.id,
+        'match_id', e.match_id,
+        'period', e.period,
+        'game_time', e.game_time,
+        'result', e.result,
+        'situation', e.situation,
+        'shot_x', e.shot_x,
+        'shot_y', e.shot_y,
+        'shot_zone', e.shot_zone,
+        'goal_x', e.goal_x,
+        'goal_y', e.goal_y,
+        -- goal_zone chybí ve starších schématech, proto přes to_jsonb
+        'goal_zone', to_jsonb(e) -> 'goal_zone',
+        'status', e.status,
+        'created_at', e.created_at
+      ) ORDER BY e.created_at), '[]'::json)
+      FROM goalie_events e
+      WHERE e.match_id = m.id AND e.status IS DISTINCT FROM 'deleted'
+    ),
+    'goalie', (
+      SELECT json_build_object('id', g.id, 'first_name', g.first_name, 'last_name', g.last_name)
+      FROM goalies g WHERE g.id = m.goalie_id
+    )
+  )
+  FROM matches m
+  WHERE p_share_token IS NOT NULL AND m.share_token = p_share_token;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_live_match(TEXT) TO anon, authenticated;
+
+-- Kanál společného zápisu "live-match:<id zápasu>" je soukromý (Realtime
+-- Authorization): poslouchá, kdo zápas vidí, posílá jen ten, kdo ho smí
+-- zapisovat. Jiný text kanálu nepatří žádnému zápasu.
+CREATE OR REPLACE FUNCTION live_channel_access(p_topic TEXT)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN p_topic ~ '^live-match:[0-9a-fA-F-]{36}$' THEN match_access(substring(p_topic FROM 12)::uuid)
+  END;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP POLICY IF EXISTS "Live channel read" ON realtime.messages;
+DROP POLICY IF EXISTS "Live channel write" ON realtime.messages;
+CREATE POLICY "Live channel read" ON realtime.messages FOR SELECT TO authenticated
+  USING (live_channel_access(realtime.topic()) IS NOT NULL);
+CREATE POLICY "Live channel write" ON realtime.messages FOR INSERT TO authenticated
+  WITH CHECK (live_channel_access(realtime.topic()) IN ('edit', 'track'));
 
 -- ─────────────────────────────────────────────────────────────────────────────
 -- VIEWS - Užitečné pohledy
 -- ─────────────────────────────────────────────────────────────────────────────
 
 -- Pohled na brankáře s kompletním jménem
-CREATE OR REPLACE VIEW v_goalies AS
+CREATE OR REPLACE VIEW v_goalies WITH (security_invoker = true) AS
 SELECT 
   id,
   first_name,
@@ -324,7 +693,7 @@ SELECT
 FROM goalies;
 
 -- Pohled na zápasy s týmy
-CREATE OR REPLACE VIEW v_matches AS
+CREATE OR REPLACE VIEW v_matches WITH (security_invoker = true) AS
 SELECT 
   m.id,
   m.datetime,
@@ -347,7 +716,7 @@ LEFT JOIN competitions c ON m.competition_id = c.id
 ORDER BY m.datetime DESC;
 
 -- Pohled na statistiky událostí za zápas
-CREATE OR REPLACE VIEW v_match_stats AS
+CREATE OR REPLACE VIEW v_match_stats WITH (security_invoker = true) AS
 SELECT 
   match_id,
   COUNT(*) FILTER (WHERE result IN ('save', 'goal')) AS total_shots,
@@ -373,11 +742,7 @@ VALUES
   ('2025-2026', '2025/2026', '2025/2026', '2025-09-01', '2026-06-30', 2025, 2026, TRUE)
 ON CONFLICT (id) DO NOTHING;
 
--- Výchozí tým
-INSERT INTO teams (id, name, short_name, club_external_id)
-VALUES 
-  ('a0000000-0000-0000-0000-000000000001', 'HC Slovan Ústí nad Labem', 'Slovan Ústí', '228')
-ON CONFLICT (id) DO NOTHING;
+-- Týmy patří účtům, vytváří je aplikace po přihlášení
 
 -- ═══════════════════════════════════════════════════════════════════════════
 -- HOTOVO! 